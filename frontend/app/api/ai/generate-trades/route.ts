@@ -1,79 +1,26 @@
 import { NextResponse } from "next/server";
-import type { PearMarket, AITradeIdea } from "@/types/trade";
+import type { PearMarket } from "@/types/trade";
 import {
+  applyTradeIdeaConstraints,
   generateBatchMarketPrompts,
+  generateRuleBasedBatch,
   parseBatchAIResponse,
 } from "@/lib/ai-prompts";
+import type { TradeIdeaConstraints } from "@/lib/ai-prompts";
+import { completeWithFallback, LlmChainError } from "@/lib/llm-providers";
+import { getAllAssetMeta } from "@/lib/hl-meta";
+import { getMarketMaxLeverage } from "@/lib/market-constraints";
 
-interface ChatCompletionRequest {
-  model: string;
-  messages: Array<{
-    role: "system" | "user" | "assistant";
-    content: string;
-  }>;
-  temperature?: number;
-  max_tokens?: number;
-}
-
-interface ChatCompletionResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-}
-
-const INCEPTION_API_URL = "https://api.inceptionlabs.ai/v1";
-
-/**
- * Call Mercury AI for batch market analysis.
- */
-async function callMercuryBatch(markets: PearMarket[]): Promise<AITradeIdea[]> {
-  const apiKey = process.env.INCEPTION_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("INCEPTION_API_KEY not configured");
-  }
-
-  const prompts = generateBatchMarketPrompts({ markets });
-
-  const requestBody: ChatCompletionRequest = {
-    model: "mercury",
-    messages: [
-      { role: "system", content: prompts.systemPrompt },
-      { role: "user", content: prompts.userPrompt },
-    ],
-    temperature: 0.7,
-    max_tokens: 2000,
-  };
-
-  const response = await fetch(`${INCEPTION_API_URL}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => "Unknown error");
-    throw new Error(`Mercury API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = (await response.json()) as ChatCompletionResponse;
-
-  if (!data.choices?.[0]?.message?.content) {
-    throw new Error("Mercury returned empty response");
-  }
-
-  return parseBatchAIResponse(data.choices[0].message.content);
-}
+// Per-provider timeout (LLM_TIMEOUT_MS_GENERATE_TRADES overrides)
+const PROVIDER_TIMEOUT_MS = 30_000;
 
 /**
  * POST /api/ai/generate-trades
  *
  * Accepts a batch of markets and returns AI-generated trade ideas with custom titles.
+ * Runs the "generate-trades" LLM provider chain (see lib/llm-providers.ts).
+ * Optional `constraints` ({ direction, maxLeverage }) come from the deck filters.
+ * AI leverage is also clamped to each market's Hyperliquid max leverage.
  */
 export async function POST(request: Request) {
   try {
@@ -90,21 +37,62 @@ export async function POST(request: Request) {
       return NextResponse.json({ trades: [] });
     }
 
-    if (!process.env.INCEPTION_API_KEY) {
+    const constraints = body.constraints as TradeIdeaConstraints | undefined;
+    if (
+      constraints !== undefined &&
+      (typeof constraints !== "object" ||
+        constraints === null ||
+        (constraints.direction != null && constraints.direction !== "LONG" && constraints.direction !== "SHORT") ||
+        (constraints.maxLeverage != null &&
+          !(typeof constraints.maxLeverage === "number" && constraints.maxLeverage >= 1)))
+    ) {
       return NextResponse.json(
-        { error: "INCEPTION_API_KEY not configured" },
-        { status: 503 }
+        { error: "'constraints' must have direction LONG/SHORT and maxLeverage >= 1" },
+        { status: 400 }
       );
     }
 
     const markets = body.markets as PearMarket[];
-    const trades = await callMercuryBatch(markets);
+    const prompts = generateBatchMarketPrompts({ markets, constraints });
+
+    // Without meta, ideas keep the 2-20x clamp; /api/positions/create still enforces the real max
+    let leverageCaps: Array<number | undefined> | undefined;
+    try {
+      const assetMeta = await getAllAssetMeta();
+      leverageCaps = markets.map((market) => getMarketMaxLeverage(market, assetMeta));
+    } catch (error) {
+      console.warn("Leverage caps unavailable:", error instanceof Error ? error.message : error);
+    }
+
+    const { data: trades, provider } = await completeWithFallback(
+      "generate-trades",
+      {
+        messages: [
+          { role: "system", content: prompts.systemPrompt },
+          { role: "user", content: prompts.userPrompt },
+        ],
+        temperature: 0.7,
+        maxTokens: 2000,
+        ruleBasedResponse: () => generateRuleBasedBatch({ markets, constraints }),
+      },
+      (text) => applyTradeIdeaConstraints(parseBatchAIResponse(text, leverageCaps), constraints),
+      PROVIDER_TIMEOUT_MS
+    );
 
     return NextResponse.json({
       trades,
       count: trades.length,
+      provider,
     });
   } catch (error) {
+    if (error instanceof LlmChainError) {
+      console.error("Generate trades failed:", error.message, error.attempts);
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.attempts.length === 0 ? 503 : 502 }
+      );
+    }
+
     console.error("Generate trades error:", error);
     return NextResponse.json(
       { error: "Failed to generate trade ideas" },
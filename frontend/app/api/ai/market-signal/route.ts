@@ -2,8 +2,11 @@ import { NextResponse } from "next/server";
 import type { PositionType, AISignal } from "@/types/trade";
 import {
   generateMarketAnalysisPrompts,
+  generateRuleBasedSignal,
   parseAIResponse,
 } from "@/lib/ai-prompts";
+import { completeWithFallback, LlmChainError } from "@/lib/llm-providers";
+import type { LlmProviderName } from "@/lib/llm-providers";
 
 /**
  * Request body for market signal generation.
@@ -26,46 +29,13 @@ interface CacheEntry {
   timestamp: number;
 }
 
-/**
- * OpenAI-compatible chat completion request format.
- */
-interface ChatCompletionRequest {
-  model: string;
-  messages: Array<{
-    role: "system" | "user" | "assistant";
-    content: string;
-  }>;
-  temperature?: number;
-  max_tokens?: number;
-}
-
-/**
- * OpenAI-compatible chat completion response format.
- */
-interface ChatCompletionResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
 const signalCache = new Map<string, CacheEntry>();
 
 const CACHE_TTL_MS = 20 * 60 * 1000;
 
+// Per-provider timeout (LLM_TIMEOUT_MS_MARKET_SIGNAL overrides)
+const PROVIDER_TIMEOUT_MS = 15_000;
+
 /**
  * Check if a cache entry is valid (within TTL).
  *
@@ -164,137 +134,6 @@ function validateRequestBody(
   return null;
 }
 
-/**
- * Generate a mock AI response for placeholder use.
- * Used as fallback when Mercury AI environment variables are not configured.
- *
- * @param data - The market signal request data
- * @returns Mock AI response text in JSON format
- */
-function generateMockedResponse(data: MarketSignalRequest): string {
-  // Parse numeric values for analysis
-  const change = parseFloat(data.change24h) || 0;
-  const funding = parseFloat(data.netFunding) || 0;
-
-  // Determine sentiment based on metrics
-  const bullishPercent = Math.min(
-    100,
-    Math.max(0, 50 + change * 2 - funding * 10),
-  );
-
-  // Determine leverage based on volatility
-  let leverage = 5;
-  if (Math.abs(change) > 5) {
-    leverage = 15;
-  } else if (Math.abs(change) > 2) {
-    leverage = 10;
-  }
-  leverage = Math.max(2, Math.min(20, leverage));
-
-  // Determine direction for one-directional positions
-  const direction =
-    data.positionType === "one_directional"
-      ? bullishPercent >= 50
-        ? "LONG"
-        : "SHORT"
-      : undefined;
-
-  const response: Record<string, unknown> = {
-    sentiment: `${data.assets.join("/")} showing ${bullishPercent >= 50 ? "bullish" : "bearish"} momentum with ${Math.abs(change).toFixed(1)}% 24h change.`,
-    bullishPercent: Math.round(bullishPercent),
-    leverage,
-    reasoning: `Based on ${Math.abs(change).toFixed(2)}% price movement and ${funding.toFixed(4)}% funding rate. ${Math.abs(change) > 3 ? "High volatility suggests aggressive positioning." : "Moderate conditions favor standard leverage."}`,
-  };
-
-  if (direction) {
-    response.direction = direction;
-  }
-
-  return JSON.stringify(response);
-}
-
-/**
- * Mercury AI API base URL (Inception Labs).
- */
-const INCEPTION_API_URL = "https://api.inceptionlabs.ai/v1";
-
-/**
- * Check if Mercury AI API key is configured.
- *
- * @returns true if INCEPTION_API_KEY is set
- */
-function isInceptionKeySet(): boolean {
-  return Boolean(process.env.INCEPTION_API_KEY);
-}
-
-/**
- * Call Mercury AI API using OpenAI-compatible format.
- *
- * @param data - The market signal request data
- * @returns AI response text containing JSON
- * @throws Error if API call fails
- */
-async function callMercuryAI(data: MarketSignalRequest): Promise<string> {
-  const apiKey = process.env.INCEPTION_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("INCEPTION_API_KEY environment variable not configured");
-  }
-
-  const prompts = generateMarketAnalysisPrompts({
-    marketId: data.marketId,
-    assets: data.assets,
-    change24h: data.change24h,
-    openInterest: data.openInterest,
-    netFunding: data.netFunding,
-    volume: data.volume,
-    positionType: data.positionType,
-  });
-
-  const requestBody: ChatCompletionRequest = {
-    model: "mercury",
-    messages: [
-      {
-        role: "system",
-        content: prompts.systemPrompt,
-      },
-      {
-        role: "user",
-        content: prompts.userPrompt,
-      },
-    ],
-    temperature: 0.7,
-    max_tokens: 500,
-  };
-
-  const response = await fetch(`${INCEPTION_API_URL}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => "Unknown error");
-    throw new Error(`Mercury AI API error: ${response.status} - ${errorText}`);
-  }
-
-  const responseData = (await response.json()) as ChatCompletionResponse;
-
-  if (!responseData.choices || responseData.choices.length === 0) {
-    throw new Error("Mercury AI returned empty response");
-  }
-
-  const aiContent = responseData.choices[0].message.content;
-  if (!aiContent) {
-    throw new Error("Mercury AI returned empty message content");
-  }
-
-  return aiContent;
-}
-
 /**
  * POST /api/ai/market-signal
  *
@@ -302,8 +141,9 @@ async function callMercuryAI(data: MarketSignalRequest): Promise<string> {
  * Implements server-side caching with 20-minute TTL.
  * Parses and validates AI responses to ensure correct format.
  *
- * Uses Mercury (OpenAI-compatible) when INCEPTION_API_KEY and INCEPTION_API_URL
- * environment variables are configured. Falls back to mock response otherwise.
+ * Runs the "market-signal" LLM provider chain (see lib/llm-providers.ts).
+ * A provider whose response fails to parse is skipped; the rule-based
+ * provider ends the default chain so a signal is always produced.
  */
 export async function POST(request: Request) {
   try {
@@ -345,60 +185,44 @@ export async function POST(request: Request) {
       });
     }
 
-    let aiResponseText: string;
-    let usedMock = false;
+    const prompts = generateMarketAnalysisPrompts(data);
 
-    if (isInceptionKeySet()) {
-      try {
-        aiResponseText = await callMercuryAI(data);
-      } catch (mercuryError) {
-        const errorMessage =
-          mercuryError instanceof Error
-            ? mercuryError.message
-            : "Unknown Mercury AI error";
-        console.error("Mercury AI call failed, falling back to mock:", {
-          error: errorMessage,
-          marketId: data.marketId,
-          timestamp: new Date().toISOString(),
-        });
-        // Fall back to mock response on Mercury AI error
-        aiResponseText = generateMockedResponse(data);
-        usedMock = true;
-      }
-    } else {
-      console.warn(
-        "Mercury AI not configured. Set INCEPTION_API_KEY environment variable. Using mock response.",
+    let parsedSignal: AISignal;
+    let provider: LlmProviderName;
+    try {
+      const result = await completeWithFallback(
+        "market-signal",
         {
-          marketId: data.marketId,
-          timestamp: new Date().toISOString(),
+          messages: [
+            { role: "system", content: prompts.systemPrompt },
+            { role: "user", content: prompts.userPrompt },
+          ],
+          temperature: 0.7,
+          maxTokens: 500,
+          ruleBasedResponse: () => generateRuleBasedSignal(data),
         },
+        (text) => parseAIResponse(text, data.positionType),
+        PROVIDER_TIMEOUT_MS,
       );
-      aiResponseText = generateMockedResponse(data);
-      usedMock = true;
-    }
-
-    let parsedSignal: AISignal;
-    try {
-      parsedSignal = parseAIResponse(aiResponseText, data.positionType);
-    } catch (parseError) {
-      const errorMessage =
-        parseError instanceof Error
-          ? parseError.message
-          : "Unknown parsing error";
-      console.error("AI response parsing error:", {
-        message: errorMessage,
-        responseText: aiResponseText.slice(0, 500),
+      parsedSignal = result.data;
+      provider = result.provider;
+    } catch (providerError) {
+      if (!(providerError instanceof LlmChainError)) {
+        throw providerError;
+      }
+      console.error("AI market signal failed:", {
+        message: providerError.message,
+        attempts: providerError.attempts,
         marketId: data.marketId,
-        usedMock,
         timestamp: new Date().toISOString(),
       });
 
       return NextResponse.json(
         {
-          error: "Failed to parse AI response. Please try again.",
-          code: "AI_PARSE_ERROR",
+          error: "Failed to generate AI signal. Please try again.",
+          code: "AI_PROVIDER_ERROR",
         },
-        { status: 500 },
+        { status: 502 },
       );
     }
 
@@ -411,6 +235,7 @@ export async function POST(request: Request) {
       signal: parsedSignal,
       marketId: data.marketId,
       cached: false,
+      provider,
     });
   } catch (error) {
     const errorMessage =
@@ -1,81 +1,53 @@
 import { NextResponse } from "next/server";
-
-const HYPERLIQUID_API = "https://api.hyperliquid.xyz/info";
-
-let validCoinsCache: { coins: Set<string>; timestamp: number } | null = null;
-const COINS_CACHE_TTL = 60 * 60 * 1000; // 1 hour
-
-async function getValidCoins(): Promise<Set<string>> {
-  const now = Date.now();
-
-  if (validCoinsCache && now - validCoinsCache.timestamp < COINS_CACHE_TTL) {
-    return validCoinsCache.coins;
-  }
-
-  try {
-    const response = await fetch(HYPERLIQUID_API, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ type: "meta" }),
-    });
-
-    if (!response.ok) {
-      throw new Error("Failed to fetch meta");
-    }
-
-    const data = await response.json();
-    const coins = new Set<string>(
-      data.universe?.map((asset: { name: string }) => asset.name) ?? []
-    );
-
-    validCoinsCache = { coins, timestamp: now };
-    return coins;
-  } catch (error) {
-    return validCoinsCache?.coins ?? new Set();
-  }
+import { getCandles, getRatioCandles, MAX_PAIR_LEGS } from "@/lib/candles";
+import type { MarketAsset } from "@/types/trade";
+
+function isAssetList(value: unknown): value is MarketAsset[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (a) =>
+        a &&
+        typeof a.asset === "string" &&
+        typeof a.weight === "number" &&
+        Number.isFinite(a.weight) &&
+        a.weight >= 0
+    )
+  );
 }
 
+/**
+ * POST /api/candles
+ *
+ * Body: { coin, interval } for one asset, or
+ * { mode: "pair", longAssets, shortAssets, interval } for long/short ratio candles
+ */
 export async function POST(request: Request) {
   try {
-    const { coin, interval } = await request.json();
-
-    const validCoins = await getValidCoins();
-    if (validCoins.size > 0 && !validCoins.has(coin)) {
-      return NextResponse.json({ candles: [] });
+    const body = await request.json();
+    const { interval } = body;
+
+    if (body.mode === "pair") {
+      const { longAssets, shortAssets } = body;
+
+      if (!isAssetList(longAssets) || !isAssetList(shortAssets) || longAssets.length === 0 || shortAssets.length === 0) {
+        return NextResponse.json(
+          { error: "longAssets and shortAssets must be non-empty lists of { asset, weight }" },
+          { status: 400 },
+        );
+      }
+      if (longAssets.length + shortAssets.length > MAX_PAIR_LEGS) {
+        return NextResponse.json(
+          { error: `At most ${MAX_PAIR_LEGS} legs per pair` },
+          { status: 400 },
+        );
+      }
+
+      const candles = await getRatioCandles(longAssets, shortAssets, interval);
+      return NextResponse.json({ candles });
     }
 
-    const now = Date.now();
-    const intervalMs = getIntervalMs(interval);
-    const startTime = now - 50 * intervalMs;
-
-    const response = await fetch(HYPERLIQUID_API, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        type: "candleSnapshot",
-        req: {
-          coin,
-          interval,
-          startTime,
-          endTime: now,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      return NextResponse.json({ candles: [] });
-    }
-
-    const data = await response.json();
-
-    const candles = data.map((c: { t: number; o: string; h: string; l: string; c: string }) => ({
-      time: Math.floor(c.t / 1000),
-      open: parseFloat(c.o),
-      high: parseFloat(c.h),
-      low: parseFloat(c.l),
-      close: parseFloat(c.c),
-    }));
-
+    const candles = await getCandles(body.coin, interval);
     return NextResponse.json({ candles });
   } catch (error) {
     console.error("Candle fetch error:", error);
@@ -85,15 +57,3 @@ export async function POST(request: Request) {
     );
   }
 }
-
-function getIntervalMs(interval: string): number {
-  const map: Record<string, number> = {
-    "1m": 60 * 1000,
-    "5m": 5 * 60 * 1000,
-    "15m": 15 * 60 * 1000,
-    "1h": 60 * 60 * 1000,
-    "4h": 4 * 60 * 60 * 1000,
-    "1d": 24 * 60 * 60 * 1000,
-  };
-  return map[interval] || 4 * 60 * 60 * 1000;
-}
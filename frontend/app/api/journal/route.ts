@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJournal, recordSwipe, summarizeJournal } from '@/lib/journal';
+import { getSessionAddress, PearApiException } from '@/lib/pear-api';
+import type { JournalResponse, RecordSwipeRequest } from '@/types/trade';
+
+/**
+ * GET /api/journal?address=<evmAddress>
+ *
+ * Returns the user's swipe journal (newest first) with win rate and
+ * realized PnL stats. Call POST /api/journal/sync first to pull closes from Pear.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    const entries = await getJournal(address);
+    const response: JournalResponse = {
+      entries,
+      summary: summarizeJournal(entries),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/journal:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/journal
+ *
+ * Records a swipe decision with a snapshot of the card. The journal feeds
+ * risk usage, so entries can only be written for the caller's own wallet.
+ *
+ * Headers: Authorization: Bearer <pear access token>
+ * Body: {
+ *   address: string;               // User's EVM address, must match the session
+ *   decision: 'taken' | 'skipped';
+ *   card: TradeCardSnapshot;       // Card without candles/news
+ *   sizeUsd: number;
+ *   orderId?: string;              // From /api/positions/create
+ *   fills?: unknown[];
+ *   error?: string;                // Rejection reason if the order failed
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as RecordSwipeRequest;
+
+    if (!body.address || !body.decision || !body.card) {
+      return NextResponse.json(
+        { error: 'Missing required fields: address, decision, card' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(body.address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    if (await getSessionAddress(request.headers.get('authorization')) !== body.address.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Address does not match your session' },
+        { status: 403 }
+      );
+    }
+
+    if (body.decision !== 'taken' && body.decision !== 'skipped') {
+      return NextResponse.json(
+        { error: "decision must be 'taken' or 'skipped'" },
+        { status: 400 }
+      );
+    }
+
+    const { card } = body;
+    if (
+      typeof card.ticker !== 'string' ||
+      typeof card.tagline !== 'string' ||
+      (card.direction !== 'LONG' && card.direction !== 'SHORT') ||
+      typeof card.leverage !== 'number'
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid card snapshot' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.sizeUsd !== 'number' || !Number.isFinite(body.sizeUsd) || body.sizeUsd < 0) {
+      return NextResponse.json(
+        { error: 'sizeUsd must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    // Keep the snapshot lean even if the client sent the full card
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { candles, news, ...snapshot } = card as typeof card & { candles?: unknown; news?: unknown };
+
+    const entry = await recordSwipe({ ...body, card: snapshot });
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Error in POST /api/journal:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
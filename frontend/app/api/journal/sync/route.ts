@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOpenPositions, getSessionAddress, getTradeHistory, PearApiException } from '@/lib/pear-api';
+import { getJournal, reconcileJournal, summarizeJournal } from '@/lib/journal';
+import type { JournalResponse } from '@/types/trade';
+
+/**
+ * POST /api/journal/sync
+ *
+ * Pulls closed trades and open positions from Pear and fills in exit price
+ * and realized PnL for journal entries that have since been closed.
+ *
+ * Headers: Authorization: Bearer <pear access token>
+ * Body: {
+ *   address: string;  // User's EVM address, must match the session
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+
+    if (!authHeader) {
+      return NextResponse.json(
+        { error: 'Authorization required' },
+        { status: 401 }
+      );
+    }
+
+    const { address } = await request.json();
+
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    if (await getSessionAddress(authHeader) !== address.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Address does not match your session' },
+        { status: 403 }
+      );
+    }
+
+    const [trades, positions] = await Promise.all([
+      getTradeHistory(authHeader),
+      getOpenPositions(authHeader),
+    ]);
+
+    const updated = await reconcileJournal(
+      address,
+      Array.isArray(trades) ? trades : [],
+      Array.isArray(positions) ? positions : []
+    );
+
+    const entries = await getJournal(address);
+    const response: JournalResponse & { updated: number } = {
+      entries,
+      summary: summarizeJournal(entries),
+      updated,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Error in POST /api/journal/sync:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync journal' },
+      { status: 500 }
+    );
+  }
+}
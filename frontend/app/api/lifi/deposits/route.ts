@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  trackBridgeDeposit,
+  getBridgeDeposits,
+  pollBridgeDeposit,
+  pollDueBridgeDeposits,
+} from '@/lib/bridge-deposits';
+import type { BridgeDepositsResponse, TrackBridgeDepositRequest } from '@/types';
+import { BTC_CHAIN_ID, SUPPORTED_EVM_CHAINS } from '@/types';
+
+/**
+ * GET /api/lifi/deposits?address=<evmAddress>
+ * 
+ * Lists the user's tracked BTC bridge deposits, newest first.
+ * Pending deposits whose backoff has elapsed are polled before responding.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    await pollDueBridgeDeposits(address);
+
+    const response: BridgeDepositsResponse = {
+      deposits: await getBridgeDeposits(address),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/lifi/deposits:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/lifi/deposits
+ * 
+ * Starts tracking a broadcast BTC → USDC bridge transaction.
+ * The vault is credited once Li.Fi reports the transfer as DONE.
+ * 
+ * Body: {
+ *   address: string;         // User's EVM address (credited on completion)
+ *   txHash: string;          // BTC txid
+ *   fromChain: number;       // Li.Fi BTC chain ID
+ *   toChain: number;         // Destination chain ID
+ *   bridge?: string;         // Li.Fi tool from the quote
+ *   fromAmountSats: number;
+ *   expectedUsdc?: number;   // Quote estimate, for display
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as TrackBridgeDepositRequest;
+
+    if (!body.address || !body.txHash || !body.toChain || !body.fromAmountSats) {
+      return NextResponse.json(
+        { error: 'Missing required fields: address, txHash, toChain, fromAmountSats' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(body.address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    // BTC txids are 32 bytes of hex
+    if (!/^[a-fA-F0-9]{64}$/.test(body.txHash)) {
+      return NextResponse.json(
+        { error: 'Invalid BTC transaction id' },
+        { status: 400 }
+      );
+    }
+
+    const supportedChainIds = SUPPORTED_EVM_CHAINS.map(c => c.id) as number[];
+    if (!supportedChainIds.includes(body.toChain)) {
+      return NextResponse.json(
+        { error: `Unsupported chain ID. Supported: ${supportedChainIds.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(body.fromAmountSats) || body.fromAmountSats <= 0) {
+      return NextResponse.json(
+        { error: 'fromAmountSats must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const deposit = await trackBridgeDeposit({
+      ...body,
+      fromChain: body.fromChain || BTC_CHAIN_ID,
+    });
+
+    // First poll right away so the client gets links as soon as Li.Fi has them
+    const polled = await pollBridgeDeposit(deposit.txHash, deposit.evmAddress);
+
+    return NextResponse.json({ deposit: polled ?? deposit });
+  } catch (error) {
+    console.error('Error in POST /api/lifi/deposits:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
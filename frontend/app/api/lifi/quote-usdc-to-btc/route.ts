@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEvmToBtcQuote, getQuoteCostUsd, LifiApiError } from '@/lib/lifi';
+import type { LifiUsdcToBtcQuoteRequest, LifiUsdcToBtcQuoteResponse } from '@/types';
+import { ARBITRUM_CHAIN_ID, SUPPORTED_EVM_CHAINS } from '@/types';
+
+/**
+ * POST /api/lifi/quote-usdc-to-btc
+ *
+ * Gets a quote for bridging USDC on Arbitrum to BTC via Li.Fi.
+ * Used for the second leg of a Hyperliquid → BTC withdrawal.
+ *
+ * Body: {
+ *   evmAddress: string;      // Sends the USDC on Arbitrum
+ *   btcAddress: string;      // Receives the BTC
+ *   fromAmountUsdc: number;  // USDC amount (not base units)
+ *   slippage?: number;       // Decimal, default 0.01
+ * }
+ *
+ * Returns the Li.Fi quote, whose transactionRequest the user sends on
+ * Arbitrum after approving estimate.approvalAddress, plus `costUsd`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as LifiUsdcToBtcQuoteRequest;
+
+    if (!body.evmAddress || !body.btcAddress || !body.fromAmountUsdc) {
+      return NextResponse.json(
+        { error: 'Missing required fields: evmAddress, btcAddress, fromAmountUsdc' },
+        { status: 400 }
+      );
+    }
+
+    const btcAddressRegex = /^(bc1|[13]|tb1)[a-zA-HJ-NP-Z0-9]{25,62}$/;
+    if (!btcAddressRegex.test(body.btcAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid BTC address format' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(body.evmAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.fromAmountUsdc !== 'number' || !(body.fromAmountUsdc > 0)) {
+      return NextResponse.json(
+        { error: 'fromAmountUsdc must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const usdc = SUPPORTED_EVM_CHAINS.find(c => c.id === ARBITRUM_CHAIN_ID)!;
+    const fromAmount = Math.floor(body.fromAmountUsdc * 10 ** usdc.usdcDecimals).toString();
+
+    const quote = await getEvmToBtcQuote({
+      fromChainId: ARBITRUM_CHAIN_ID,
+      fromToken: usdc.usdcAddress,
+      fromAddress: body.evmAddress,
+      fromAmount,
+      toAddress: body.btcAddress,
+      slippage: body.slippage,
+    });
+
+    const response: LifiUsdcToBtcQuoteResponse = {
+      ...quote,
+      costUsd: getQuoteCostUsd(quote),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in POST /api/lifi/quote-usdc-to-btc:', error);
+
+    if (error instanceof LifiApiError) {
+      return NextResponse.json(
+        {
+          error: 'Li.Fi API error',
+          message: error.message,
+          details: error.response
+        },
+        { status: error.statusCode || 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { attachWithdrawalBridge, pollWithdrawal, WithdrawalTrackingError } from '@/lib/bridge-withdrawals';
+import { getSessionAddress, PearApiException } from '@/lib/pear-api';
+import type { AttachWithdrawalBridgeRequest } from '@/types';
+
+/**
+ * POST /api/lifi/withdrawals/[id]/bridge
+ *
+ * Records the Arbitrum transaction that sent a BTC withdrawal's USDC to Li.Fi.
+ * The withdrawal must be READY_TO_BRIDGE; it is then followed via Li.Fi /status.
+ *
+ * Headers: Authorization: Bearer <pear access token>
+ * Body: {
+ *   address: string;         // User's EVM address, must own the withdrawal and match the session
+ *   txHash: string;          // Arbitrum tx hash
+ *   bridge?: string;         // Li.Fi tool from the quote
+ *   expectedSats?: number;   // Quote estimate, for display
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json() as AttachWithdrawalBridgeRequest;
+
+    if (!body.address || !body.txHash) {
+      return NextResponse.json(
+        { error: 'Missing required fields: address, txHash' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(body.address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    if (await getSessionAddress(request.headers.get('authorization')) !== body.address.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Address does not match your session' },
+        { status: 403 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{64}$/.test(body.txHash)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    if (body.expectedSats !== undefined && !(Number.isInteger(body.expectedSats) && body.expectedSats > 0)) {
+      return NextResponse.json(
+        { error: 'expectedSats must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    await attachWithdrawalBridge(id, body);
+    const polled = await pollWithdrawal(id);
+
+    return NextResponse.json({ withdrawal: polled });
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof WithdrawalTrackingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error in POST /api/lifi/withdrawals/[id]/bridge:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  trackWithdrawal,
+  getWithdrawals,
+  pollWithdrawal,
+  pollDueWithdrawals,
+} from '@/lib/bridge-withdrawals';
+import { getSessionAddress, PearApiException } from '@/lib/pear-api';
+import type { BridgeWithdrawalsResponse, TrackWithdrawalRequest } from '@/types';
+import { HL_WITHDRAWAL_FEE_USDC } from '@/types';
+
+/**
+ * GET /api/lifi/withdrawals?address=<evmAddress>
+ *
+ * Lists the user's tracked Hyperliquid withdrawals, newest first.
+ * In-flight withdrawals whose backoff has elapsed are polled before responding.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    await pollDueWithdrawals(address);
+
+    const response: BridgeWithdrawalsResponse = {
+      withdrawals: await getWithdrawals(address),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/lifi/withdrawals:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/lifi/withdrawals
+ *
+ * Starts tracking a withdrawal the user has signed on Hyperliquid.
+ * It is followed through the Hyperliquid ledger to the Arbitrum bridge transfer.
+ *
+ * Headers: Authorization: Bearer <pear access token>
+ * Body: {
+ *   address: string;         // User's EVM address (withdraws and receives), must match the session
+ *   amountUsdc: number;      // Amount withdrawn, Hyperliquid fee included
+ *   destination: 'ARBITRUM_USDC' | 'BTC';
+ *   btcAddress?: string;     // Required for BTC
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as TrackWithdrawalRequest;
+
+    if (!body.address || !body.amountUsdc || !body.destination) {
+      return NextResponse.json(
+        { error: 'Missing required fields: address, amountUsdc, destination' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(body.address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    if (await getSessionAddress(request.headers.get('authorization')) !== body.address.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Address does not match your session' },
+        { status: 403 }
+      );
+    }
+
+    if (typeof body.amountUsdc !== 'number' || !(body.amountUsdc > HL_WITHDRAWAL_FEE_USDC)) {
+      return NextResponse.json(
+        { error: `amountUsdc must be more than the $${HL_WITHDRAWAL_FEE_USDC} withdrawal fee` },
+        { status: 400 }
+      );
+    }
+
+    if (body.destination !== 'ARBITRUM_USDC' && body.destination !== 'BTC') {
+      return NextResponse.json(
+        { error: 'destination must be ARBITRUM_USDC or BTC' },
+        { status: 400 }
+      );
+    }
+
+    if (body.destination === 'BTC' && !/^(bc1|[13]|tb1)[a-zA-HJ-NP-Z0-9]{25,62}$/.test(body.btcAddress ?? '')) {
+      return NextResponse.json(
+        { error: 'Invalid BTC address format' },
+        { status: 400 }
+      );
+    }
+
+    const withdrawal = await trackWithdrawal(body);
+
+    // First poll right away; the ledger entry is usually there already
+    const polled = await pollWithdrawal(withdrawal.id);
+
+    return NextResponse.json({ withdrawal: polled ?? withdrawal });
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error in POST /api/lifi/withdrawals:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isFakeLightningEnabled, payFakeInvoice, LightningBackendError } from '@/lib/lightning-backends';
+
+/**
+ * POST /api/lightning/fake-pay
+ * 
+ * Pays an invoice issued by the in-process fake Lightning node and returns
+ * the preimage, standing in for a wallet during local testing.
+ * Returns 404 unless LIGHTNING_BACKEND=fake is set explicitly, and always in production.
+ * 
+ * Body: {
+ *   payment_hash: string;
+ * }
+ */
+export async function POST(request: NextRequest) {
+  if (!isFakeLightningEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const { payment_hash } = await request.json();
+
+    if (!payment_hash || typeof payment_hash !== 'string') {
+      return NextResponse.json(
+        { error: 'Payment hash is required' },
+        { status: 400 }
+      );
+    }
+
+    const preimage = await payFakeInvoice(payment_hash.toLowerCase());
+
+    return NextResponse.json({ preimage });
+  } catch (error) {
+    if (error instanceof LightningBackendError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode ?? 500 }
+      );
+    }
+
+    console.error('Error paying fake invoice:', error);
+    return NextResponse.json(
+      { error: 'Failed to pay invoice' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { creditVault } from '@/lib/vault';
+import { claimInvoicePayment, LightningPaymentError } from '@/lib/lightning';
+import { LightningBackendError } from '@/lib/lightning-backends';
 
 /**
  * POST /api/lightning/verify-payment
- * 
- * Verifies a Lightning payment using the preimage.
- * 
- * In production, this would:
- * 1. Verify the preimage matches the payment hash (sha256(preimage) == payment_hash)
- * 2. Check the payment hasn't been claimed before
- * 3. Mint LSAT tokens on HyperEVM
- * 4. Swap LSAT -> USDC on DEX
- * 5. Credit user's vault
- * 
+ *
+ * Verifies a Lightning payment using the preimage and credits the vault.
+ *
+ * 1. Look up the invoice issued for payment_hash (rejects unknown or already-claimed hashes)
+ * 2. Verify sha256(preimage) == payment_hash
+ * 3. Confirm with the Lightning node that the invoice settled (rejects expired invoices)
+ * 4. Credit the user's vault with the USDC value of the invoice amount
+ *
  * Body: {
  *   payment_hash: string;  // The original payment hash
  *   preimage: string;      // The payment preimage (proof of payment)
@@ -21,9 +20,9 @@ import { creditVault } from '@/lib/vault';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    
+
     const { payment_hash, preimage } = body;
-    
+
     // Validate required fields
     if (!payment_hash || typeof payment_hash !== 'string') {
       return NextResponse.json(
@@ -31,54 +30,43 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    
+
     if (!preimage || typeof preimage !== 'string') {
       return NextResponse.json(
         { error: 'Preimage is required' },
         { status: 400 }
       );
     }
-    
-    // In production: Verify sha256(preimage) == payment_hash
-    // For now, we'll just check the preimage exists (mock verification)
-    const isValid = preimage.length >= 32;
-    
-    if (!isValid) {
-      return NextResponse.json(
-        { error: 'Invalid preimage' },
-        { status: 400 }
-      );
-    }
-    
-    // In production: 
-    // 1. Look up the payment_hash in database to get amount and evm_address
-    // 2. Mark payment as claimed (prevent double-spend)
-    // 3. Mint LSAT tokens
-    // 4. Swap LSAT -> USDC
-    // 5. Credit vault
-    
-    // For demo: We'll credit a mock amount
-    // In real implementation, you'd store the amount with the payment_hash
-    console.log(`[Lightning] Verified payment: ${payment_hash}`);
-    console.log(`[Lightning] Preimage: ${preimage.slice(0, 16)}...`);
-    
-    // Mock: Credit ~$50 worth of USDC (the actual amount would come from the invoice)
-    // This is just for demo purposes
-    const mockUsdcAmount = 50;
-    
-    // In production, get the EVM address from the payment_hash lookup
-    // For now, we'll return success and let the frontend handle crediting
-    
+
+    const { invoice, amountUsdc, equityUsdc } = await claimInvoicePayment(payment_hash, preimage);
+
+    console.log(`[Lightning] Claimed payment: ${invoice.paymentHash} -> ${invoice.evmAddress} (${amountUsdc} USDC)`);
+
     return NextResponse.json({
       verified: true,
-      payment_hash,
+      payment_hash: invoice.paymentHash,
+      amount: invoice.amountSats,
+      usdc_amount: amountUsdc,
+      equity_usdc: equityUsdc,
       message: 'Payment verified successfully',
-      // In production, include:
-      // usdc_amount: actualUsdcAmount,
-      // tx_hash: hyperevmTxHash,
     });
-    
+
   } catch (error) {
+    if (error instanceof LightningPaymentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof LightningBackendError) {
+      console.error('Lightning backend error:', error.message, error.response);
+      return NextResponse.json(
+        { error: 'Lightning node unavailable' },
+        { status: 502 }
+      );
+    }
+
     console.error('Error verifying payment:', error);
     return NextResponse.json(
       { error: 'Failed to verify payment' },
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getAllMarkets } from "@/lib/pear-markets";
+import { getMarketKey } from "@/lib/market-utils";
+
+const MAX_LOOKUP_KEYS = 50;
+
+/**
+ * POST /api/markets/lookup
+ *
+ * Body: { keys: string[] } (market keys, see getMarketKey)
+ * Current metrics for specific markets, e.g. the watchlist. Keys with no
+ * listed market (delisted, or never existed) are left out of the response.
+ */
+export async function POST(request: Request) {
+  let body: { keys?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+
+  const keys = body.keys;
+  if (
+    !Array.isArray(keys) ||
+    keys.length > MAX_LOOKUP_KEYS ||
+    !keys.every((key) => typeof key === "string" && key.length > 0)
+  ) {
+    return NextResponse.json(
+      { error: `'keys' must be an array of up to ${MAX_LOOKUP_KEYS} market keys` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const wanted = new Set(keys as string[]);
+    const markets = (await getAllMarkets()).filter((market) => wanted.has(getMarketKey(market)));
+
+    return NextResponse.json({ markets });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Markets lookup error:", errorMessage);
+
+    return NextResponse.json(
+      { error: errorMessage || "Failed to fetch markets", code: "MARKETS_FETCH_ERROR" },
+      { status: 500 }
+    );
+  }
+}
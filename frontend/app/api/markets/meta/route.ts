@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getAllAssetMeta } from "@/lib/hl-meta";
+import type { AssetMetaResponse, HlAssetMeta } from "@/types/trade";
+
+const MAX_COINS = 20;
+
+/**
+ * GET /api/markets/meta?coins=BTC,ETH
+ *
+ * Hyperliquid metadata for the requested coins: mark price, max leverage,
+ * size decimals and margin tiers. Unknown coins are omitted.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const coins = (searchParams.get("coins") ?? "")
+      .split(",")
+      .map((c) => c.trim().toUpperCase())
+      .filter(Boolean);
+
+    if (coins.length === 0) {
+      return NextResponse.json(
+        { error: "Missing required parameter: coins" },
+        { status: 400 }
+      );
+    }
+
+    if (coins.length > MAX_COINS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_COINS} coins per request` },
+        { status: 400 }
+      );
+    }
+
+    const all = await getAllAssetMeta();
+    const assets: Record<string, HlAssetMeta> = {};
+    for (const coin of coins) {
+      const meta = all.get(coin);
+      if (meta) {
+        assets[coin] = meta;
+      }
+    }
+
+    const response: AssetMetaResponse = { assets };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Asset meta error:", error);
+    return NextResponse.json({ error: "Failed to fetch market metadata" }, { status: 502 });
+  }
+}
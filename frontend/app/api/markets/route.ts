@@ -1,100 +1,42 @@
 import { NextResponse } from "next/server";
-import { detectPositionType, generateDisplayName } from "@/lib/market-utils";
-import type { PearMarket, MarketAsset } from "@/types/trade";
+import { getAllMarkets } from "@/lib/pear-markets";
+import { matchesMarketFilters, parseMarketFilterParams } from "@/lib/deck-filters";
+import type { MarketFilters } from "@/lib/deck-filters";
 
-const PEAR_API_BASE_URL = "https://hl-v2.pearprotocol.io";
 const DEFAULT_PAGE_SIZE = 6;
 
-interface RawPearMarket {
-  name: string;
-  openInterest?: number;
-  volume?: number;
-  ratio?: number | null;
-  change24h?: number | null;
-  weightedChange24h?: number | null;
-  netFunding?: number;
-}
-
-function parseMarketName(name: string): { longAssets: MarketAsset[]; shortAssets: MarketAsset[] } {
-  const longAssets: MarketAsset[] = [];
-  const shortAssets: MarketAsset[] = [];
-
-  const parts = name.split("|");
-
-  for (const part of parts) {
-    if (part.startsWith("L:")) {
-      const assets = part.slice(2).split(",");
-      const weight = 100 / assets.length;
-      for (const asset of assets) {
-        if (asset.trim()) {
-          longAssets.push({ asset: asset.trim(), weight });
-        }
-      }
-    } else if (part.startsWith("S:")) {
-      const assets = part.slice(2).split(",");
-      const weight = 100 / assets.length;
-      for (const asset of assets) {
-        if (asset.trim()) {
-          shortAssets.push({ asset: asset.trim(), weight });
-        }
-      }
-    }
-  }
-
-  return { longAssets, shortAssets };
-}
-
-function transformMarkets(rawMarkets: RawPearMarket[]): PearMarket[] {
-  return rawMarkets.map((market) => {
-    const { longAssets, shortAssets } = parseMarketName(market.name);
-
-    const positionType = detectPositionType(longAssets, shortAssets);
-    const displayName = generateDisplayName(longAssets, shortAssets, positionType);
-
-    return {
-      longAssets,
-      shortAssets,
-      openInterest: String(market.openInterest ?? 0),
-      volume: String(market.volume ?? 0),
-      ratio: String(market.ratio ?? 0),
-      change24h: String(market.weightedChange24h ?? market.change24h ?? 0),
-      weightedChange24h: String(market.weightedChange24h ?? 0),
-      netFunding: String(market.netFunding ?? 0),
-      positionType,
-      displayName,
-    };
-  });
-}
-
+/**
+ * GET /api/markets?page=1
+ *
+ * One deck page of markets. Optional filters (see lib/deck-filters.ts):
+ * positionType, assets, exclude, minVolume, minOpenInterest, funding.
+ * Pagination runs over the filtered list.
+ */
 export async function GET(request: Request) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get("page") || "1", 10);
+  let filters: MarketFilters;
+  const { searchParams } = new URL(request.url);
+  const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
 
-    const response = await fetch(
-      `${PEAR_API_BASE_URL}/markets?page=${page}&pageSize=${DEFAULT_PAGE_SIZE}&engine=hyperliquid`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      }
+  try {
+    filters = parseMarketFilterParams(searchParams);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid filters" },
+      { status: 400 }
     );
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.message || `Pear API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const rawMarkets: RawPearMarket[] = data.markets ?? [];
-    const transformedMarkets = transformMarkets(rawMarkets);
+  try {
+    const markets = (await getAllMarkets()).filter((market) => matchesMarketFilters(market, filters));
+    const totalPages = Math.max(1, Math.ceil(markets.length / DEFAULT_PAGE_SIZE));
+    const start = (page - 1) * DEFAULT_PAGE_SIZE;
 
     return NextResponse.json({
-      markets: transformedMarkets,
-      page: data.page ?? page,
-      totalPages: data.totalPages ?? 1,
-      hasMore: page < (data.totalPages ?? 1),
+      markets: markets.slice(start, start + DEFAULT_PAGE_SIZE),
+      page,
+      totalPages,
+      totalMarkets: markets.length,
+      hasMore: page < totalPages,
     });
   } catch (error) {
     const errorMessage =
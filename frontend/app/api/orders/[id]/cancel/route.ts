@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { cancelOrder, PearApiException } from "@/lib/pear-api";
+import type { PendingOrder } from "@/types/trade";
+
+interface CancelOrderRequest {
+  orderType?: PendingOrder["orderType"];
+}
+
+/**
+ * POST /api/orders/[id]/cancel
+ *
+ * Cancels a resting order. Cancelling a TWAP stops its remaining chunks;
+ * whatever already filled stays open as a position.
+ *
+ * Body: { orderType?: "LIMIT" | "TWAP" | "LADDER" }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+
+    if (!authHeader) {
+      return NextResponse.json(
+        { error: "Authorization required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body: CancelOrderRequest = await request.json().catch(() => ({}));
+
+    await cancelOrder(authHeader, id, body.orderType === "TWAP");
+
+    return NextResponse.json({ success: true, orderId: id });
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Cancel order error:", error);
+    return NextResponse.json({ error: "Failed to cancel order" }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { getAccountSummary, getOpenOrders, PearApiException } from "@/lib/pear-api";
+import type { PearOpenOrder, PearOpenOrderAsset } from "@/lib/pear-api";
+import { detectPositionType, generateDisplayName } from "@/lib/market-utils";
+import type { MarketAsset, PendingOrder } from "@/types/trade";
+
+// Pear execution type -> ticket order type; anything else (e.g. TP/SL triggers) isn't an entry
+const ENTRY_ORDER_TYPES: Record<string, PendingOrder["orderType"]> = {
+  TRIGGER: "LIMIT",
+  TWAP: "TWAP",
+  LADDER: "LADDER",
+};
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toOptionalNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : toNumber(value);
+}
+
+// Weights are reported as decimals (0-1); markets use percentages (0-100)
+function transformAssets(assets: PearOpenOrderAsset[] | undefined): MarketAsset[] {
+  return (assets ?? []).map((a) => {
+    const weight = toNumber(a.weight);
+    return { asset: a.asset, weight: weight > 1 ? weight : weight * 100 };
+  });
+}
+
+function transformOrder(order: PearOpenOrder): PendingOrder | null {
+  const orderType = ENTRY_ORDER_TYPES[order.orderType?.toUpperCase()];
+  if (!orderType) return null;
+
+  const longAssets = transformAssets(order.longAssets);
+  const shortAssets = transformAssets(order.shortAssets);
+  const positionType = detectPositionType(longAssets, shortAssets);
+  const ladder = order.ladderConfig;
+
+  return {
+    orderId: order.orderId,
+    orderType,
+    positionType,
+    displayName: generateDisplayName(longAssets, shortAssets, positionType),
+    longAssets,
+    shortAssets,
+    usdValue: toNumber(order.usdValue),
+    filledUsdValue: toOptionalNumber(order.filledUsdValue),
+    leverage: toOptionalNumber(order.leverage),
+    triggerValue: toOptionalNumber(order.triggerValue),
+    ladder: ladder
+      ? { start: toNumber(ladder.ratioStart), end: toNumber(ladder.ratioEnd), levels: toNumber(ladder.numberOfLevels) }
+      : null,
+    twapDurationMinutes: toOptionalNumber(order.twapDuration),
+    createdAt: order.createdAt ? new Date(order.createdAt).getTime() : null,
+  };
+}
+
+/**
+ * GET /api/orders
+ *
+ * Lists the user's resting LIMIT, TWAP and LADDER entries, plus Pear's
+ * account totals for trigger orders and unexecuted TWAP chunks.
+ */
+export async function GET(request: Request) {
+  try {
+    const authHeader = request.headers.get("authorization");
+
+    if (!authHeader) {
+      return NextResponse.json(
+        { error: "Authorization required" },
+        { status: 401 }
+      );
+    }
+
+    const [orders, summary] = await Promise.all([
+      getOpenOrders(authHeader),
+      getAccountSummary(authHeader),
+    ]);
+
+    return NextResponse.json({
+      orders: (Array.isArray(orders) ? orders : [])
+        .map(transformOrder)
+        .filter((order): order is PendingOrder => order !== null),
+      triggerOrderUsd: toNumber(summary?.totalTriggerOrderUsdValue),
+      twapRemainingUsd: toNumber(summary?.totalTwapChunkUsdValue),
+    });
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Orders fetch error:", error);
+    return NextResponse.json({ error: "Failed to fetch orders" }, { status: 500 });
+  }
+}
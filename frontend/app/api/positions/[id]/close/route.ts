@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { closePosition, PearApiException } from "@/lib/pear-api";
+
+interface ClosePositionRequest {
+  percentage?: number;
+}
+
+/**
+ * POST /api/positions/[id]/close
+ *
+ * Closes a Pear position at market.
+ *
+ * Body: { percentage?: number }  // 1-100, defaults to 100 (full close)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+
+    if (!authHeader) {
+      return NextResponse.json(
+        { error: "Authorization required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body: ClosePositionRequest = await request.json().catch(() => ({}));
+    const percentage = body.percentage ?? 100;
+
+    if (typeof percentage !== "number" || percentage < 1 || percentage > 100) {
+      return NextResponse.json(
+        { error: "Close percentage must be between 1 and 100" },
+        { status: 400 }
+      );
+    }
+
+    const result = await closePosition(authHeader, id, Math.round(percentage));
+
+    return NextResponse.json({
+      success: true,
+      positionId: id,
+      percentage: Math.round(percentage),
+      orderId: result?.orderId,
+    });
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Close position error:", error);
+    return NextResponse.json({ error: "Failed to close position" }, { status: 500 });
+  }
+}
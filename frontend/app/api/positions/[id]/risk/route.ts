@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import {
+  getOpenPositions,
+  updatePositionRiskParameters,
+  PearApiException,
+} from "@/lib/pear-api";
+import { validateTpSl, toPearThreshold } from "@/lib/tpsl";
+import type { TpSlTrigger } from "@/types/trade";
+
+interface UpdateRiskRequest {
+  takeProfit?: TpSlTrigger | null;
+  stopLoss?: TpSlTrigger | null;
+}
+
+/**
+ * PUT /api/positions/[id]/risk
+ *
+ * Replaces the take-profit and stop-loss on an open position.
+ * Leverage, size and direction are read from Pear, not trusted from the client.
+ *
+ * Body: { takeProfit: TpSlTrigger | null; stopLoss: TpSlTrigger | null }
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+
+    if (!authHeader) {
+      return NextResponse.json(
+        { error: "Authorization required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body: UpdateRiskRequest = await request.json();
+    const takeProfit = body.takeProfit ?? null;
+    const stopLoss = body.stopLoss ?? null;
+
+    const positions = await getOpenPositions(authHeader);
+    const position = (Array.isArray(positions) ? positions : []).find((p) => p.positionId === id);
+
+    if (!position) {
+      return NextResponse.json({ error: "Position not found" }, { status: 404 });
+    }
+
+    const leverage = Number(position.leverage) || 1;
+    // Pairs profit when the long basket outperforms, so they behave like a long on the ratio
+    const direction = position.longAssets?.length ? "LONG" : "SHORT";
+
+    const tpSlError = validateTpSl(
+      { takeProfit, stopLoss },
+      { direction, leverage, usdValue: Number(position.positionValue) || 0 }
+    );
+    if (tpSlError) {
+      return NextResponse.json({ error: tpSlError }, { status: 400 });
+    }
+
+    await updatePositionRiskParameters(authHeader, id, {
+      takeProfit: toPearThreshold(takeProfit, leverage),
+      stopLoss: toPearThreshold(stopLoss, leverage),
+    });
+
+    return NextResponse.json({ success: true, positionId: id, takeProfit, stopLoss });
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Update position risk error:", error);
+    return NextResponse.json({ error: "Failed to update TP/SL" }, { status: 500 });
+  }
+}
@@ -1,14 +1,44 @@
 import { NextResponse } from "next/server";
+import { validateTpSl, toPearThreshold } from "@/lib/tpsl";
+import { loadRiskState, checkRiskLimits, applyLeverageCap } from "@/lib/risk";
+import { getSessionAddress, PearApiException } from "@/lib/pear-api";
+import { getAllAssetMeta } from "@/lib/hl-meta";
+import { applyMarketConstraints, MarketConstraintError } from "@/lib/market-constraints";
+import type { ConstrainedOrder } from "@/lib/market-constraints";
+import { DEFAULT_SLIPPAGE, ORDER_TYPES, toPearExecution, validateOrderEntry } from "@/lib/orders";
+import { quoteOrder } from "@/lib/order-quote";
+import { getSpotUsdc, getSuggestedTopUp } from "@/lib/margin-transfer";
+import type {
+  ConfirmationRequiredResponse,
+  ConstraintWarningCode,
+  InsufficientMarginResponse,
+  LadderSettings,
+  OrderQuote,
+  OrderType,
+  TpSlTrigger,
+  TwapSettings,
+} from "@/types/trade";
 
 const PEAR_API_BASE_URL = "https://hl-v2.pearprotocol.io";
+// Fee estimate for the balance check when there's no book quote (limit, TWAP, ladder)
+const FALLBACK_FEE_RATE = 0.005;
 
 interface CreatePositionRequest {
+  address: string; // EVM address whose risk profile applies; must be the Pear session's
   longAssets: Array<{ asset: string; weight: number }>;
   shortAssets: Array<{ asset: string; weight: number }>;
   usdValue: number;
   leverage: number;
   direction: "LONG" | "SHORT";
   positionType: "relative_pair" | "one_directional";
+  takeProfit?: TpSlTrigger | null;
+  stopLoss?: TpSlTrigger | null;
+  orderType?: OrderType; // defaults to MARKET
+  limitPrice?: number | null; // LIMIT entry: price, or long/short ratio for pairs
+  twap?: TwapSettings | null; // TWAP only
+  ladder?: LadderSettings | null; // LADDER only
+  slippage?: number | null; // fraction, defaults to DEFAULT_SLIPPAGE
+  acceptWarnings?: ConstraintWarningCode[]; // adjustments the user has confirmed
 }
 
 /**
@@ -16,6 +46,34 @@ interface CreatePositionRequest {
  *
  * Creates a position on Pear Protocol.
  * Supports both one-directional and relative pair positions.
+ *
+ * `address` must be the wallet behind the Pear session (403 otherwise).
+ * The user's risk profile is enforced before the order is sent: leverage is
+ * capped to the profile's max, and orders that break a limit are rejected
+ * with 403 and a `code` (MAX_OPEN_POSITIONS, MAX_TOTAL_NOTIONAL,
+ * DAILY_LOSS_LIMIT, LOSS_COOLDOWN).
+ *
+ * Hyperliquid's per-asset limits are applied next (see
+ * lib/market-constraints.ts): size is raised until every leg clears its
+ * minimum notional and leverage is lowered to the assets' max at that size.
+ * Neither happens silently: unless every adjustment's code is in
+ * `acceptWarnings`, nothing is sent and the route returns 409 with
+ * code CONFIRMATION_REQUIRED, the warnings and the adjusted values.
+ *
+ * Order types (see lib/orders.ts): MARKET within `slippage`; LIMIT as a Pear
+ * trigger order, where single assets trigger on price and pairs on the
+ * weighted long/short ratio (longs fill at or below the limit, shorts at or
+ * above it); TWAP over `twap.durationMinutes`; LADDER as `ladder.levels`
+ * equal slices from `ladder.start` to `ladder.end`.
+ *
+ * MARKET orders are quoted against the L2 book first (see lib/order-quote.ts):
+ * slippage is sized to the expected impact, capped at the user's `slippage`,
+ * and orders the book can't fill within it are rejected with 400 and a `code`
+ * (INSUFFICIENT_LIQUIDITY, SLIPPAGE_TOO_HIGH).
+ *
+ * Orders need perps USDC for margin and fees. When it falls short the route
+ * returns 400 with code INSUFFICIENT_MARGIN and, if the user's spot USDC can
+ * cover the gap, a `suggestedTopUpUsdc` to move from spot to perps first.
  */
 export async function POST(request: Request) {
   try {
@@ -29,7 +87,17 @@ export async function POST(request: Request) {
     }
 
     const body: CreatePositionRequest = await request.json();
-    const { longAssets, shortAssets, usdValue, leverage, direction, positionType } = body;
+    const { address, longAssets, shortAssets, usdValue, direction, positionType } = body;
+    const takeProfit = body.takeProfit ?? null;
+    const stopLoss = body.stopLoss ?? null;
+    const orderType: OrderType = body.orderType ?? "MARKET";
+    const orderEntry = {
+      orderType,
+      limitPrice: body.limitPrice ?? null,
+      twap: body.twap ?? null,
+      ladder: body.ladder ?? null,
+      slippage: body.slippage ?? DEFAULT_SLIPPAGE,
+    };
 
     if (!usdValue || usdValue < 1) {
       return NextResponse.json(
@@ -38,13 +106,59 @@ export async function POST(request: Request) {
       );
     }
 
-    if (!leverage || leverage < 1 || leverage > 100) {
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: "Invalid EVM address format" },
+        { status: 400 }
+      );
+    }
+
+    // Risk limits are per wallet, so the address has to be the caller's own
+    let sessionAddress: string;
+    try {
+      sessionAddress = await getSessionAddress(authHeader);
+    } catch (error) {
+      if (error instanceof PearApiException) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+      throw error;
+    }
+    if (sessionAddress !== address.toLowerCase()) {
+      return NextResponse.json(
+        { error: "Address does not match your session" },
+        { status: 403 }
+      );
+    }
+
+    if (!ORDER_TYPES.includes(orderType)) {
+      return NextResponse.json(
+        { error: `orderType must be one of ${ORDER_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!body.leverage || body.leverage < 1 || body.leverage > 100) {
       return NextResponse.json(
         { error: "Leverage must be between 1 and 100" },
         { status: 400 }
       );
     }
 
+    // Risk profile: cap leverage now, check exposure once the final size is known
+    let risk: Awaited<ReturnType<typeof loadRiskState>>;
+    try {
+      risk = await loadRiskState(address, authHeader, true);
+    } catch (error) {
+      if (error instanceof PearApiException) {
+        return NextResponse.json(
+          { error: `Could not check risk limits: ${error.message}` },
+          { status: error.statusCode }
+        );
+      }
+      throw error;
+    }
+    let leverage = applyLeverageCap(risk.profile, body.leverage);
+
     // Build position payload based on type
     let positionPayload: {
       longAssets?: Array<{ asset: string; weight: number }>;
@@ -75,7 +189,7 @@ export async function POST(request: Request) {
         shortAssets: normalizeWeights(shortAssets),
         usdValue,
         leverage,
-        slippage: 0.1, // 5% slippage for better fill
+        slippage: orderEntry.slippage,
         executionType: "MARKET",
       };
     } else {
@@ -88,7 +202,7 @@ export async function POST(request: Request) {
           shortAssets: [],
           usdValue,
           leverage,
-          slippage: 0.1,
+          slippage: orderEntry.slippage,
           executionType: "MARKET",
         };
       } else {
@@ -97,7 +211,7 @@ export async function POST(request: Request) {
           shortAssets: primaryAsset ? [{ asset: primaryAsset, weight: 1 }] : [],
           usdValue,
           leverage,
-          slippage: 0.1,
+          slippage: orderEntry.slippage,
           executionType: "MARKET",
         };
       }
@@ -112,16 +226,107 @@ export async function POST(request: Request) {
       );
     }
 
-    // Auto-adjust notional to meet minimum per asset (~$11 on Hyperliquid)
-    const MIN_NOTIONAL_PER_ASSET = 11;
     const totalAssets = (positionPayload.longAssets?.length || 0) + (positionPayload.shortAssets?.length || 0);
-    const minRequiredNotional = MIN_NOTIONAL_PER_ASSET * totalAssets;
 
-    // Bump up usdValue if needed to ensure all legs execute
-    const adjustedUsdValue = Math.max(usdValue, minRequiredNotional);
+    // Fit to Hyperliquid's minimum notional and max leverage per asset
+    let constrained: ConstrainedOrder;
+    try {
+      constrained = applyMarketConstraints(
+        {
+          longAssets: positionPayload.longAssets ?? [],
+          shortAssets: positionPayload.shortAssets ?? [],
+          usdValue,
+          leverage,
+        },
+        await getAllAssetMeta()
+      );
+    } catch (error) {
+      if (error instanceof MarketConstraintError) {
+        return NextResponse.json({ error: error.message, code: "UNSUPPORTED_ASSET" }, { status: 400 });
+      }
+      console.error("Market constraints error:", error);
+      return NextResponse.json(
+        { error: "Could not load Hyperliquid market limits. Please try again" },
+        { status: 502 }
+      );
+    }
+
+    const acceptedWarnings = body.acceptWarnings ?? [];
+    if (constrained.warnings.some((w) => !acceptedWarnings.includes(w.code))) {
+      const confirmation: ConfirmationRequiredResponse = {
+        error: "This order needs adjusting to meet Hyperliquid's limits",
+        code: "CONFIRMATION_REQUIRED",
+        warnings: constrained.warnings,
+        usdValue: constrained.usdValue,
+        leverage: constrained.leverage,
+      };
+      return NextResponse.json(confirmation, { status: 409 });
+    }
+
+    leverage = constrained.leverage;
+    positionPayload.usdValue = constrained.usdValue;
+    positionPayload.leverage = constrained.leverage;
+
+    const violation = checkRiskLimits(risk.profile, risk.usage, { usdValue: positionPayload.usdValue });
+    if (violation) {
+      return NextResponse.json(
+        { error: violation.message, code: violation.code, violation },
+        { status: 403 }
+      );
+    }
+
+    // Ladder slices are checked against the final size
+    const orderEntryError = validateOrderEntry(orderEntry, {
+      usdValue: positionPayload.usdValue,
+      legCount: totalAssets,
+    });
+    if (orderEntryError) {
+      return NextResponse.json({ error: orderEntryError }, { status: 400 });
+    }
+
+    // Validate TP/SL against the final size, leverage and direction
+    const tpSlError = validateTpSl(
+      { takeProfit, stopLoss },
+      { direction, leverage, usdValue: positionPayload.usdValue }
+    );
+    if (tpSlError) {
+      return NextResponse.json({ error: tpSlError }, { status: 400 });
+    }
+
+    // Size slippage from the book; without a quote, fall back to the user's max
+    let quote: OrderQuote | null = null;
+    if (orderType === "MARKET") {
+      try {
+        quote = await quoteOrder({
+          positionType,
+          direction,
+          longAssets: positionPayload.longAssets ?? [],
+          shortAssets: positionPayload.shortAssets ?? [],
+          usdValue: positionPayload.usdValue,
+        });
+      } catch (error) {
+        console.warn("Quote failed, using max slippage:", error instanceof Error ? error.message : error);
+      }
+    }
 
-    // Update the payload with adjusted value
-    positionPayload.usdValue = adjustedUsdValue;
+    if (quote) {
+      if (quote.suggestedSlippage === null) {
+        return NextResponse.json(
+          { error: "Not enough liquidity on the order book to fill this size", code: "INSUFFICIENT_LIQUIDITY" },
+          { status: 400 }
+        );
+      }
+      if (quote.worstImpactPct / 100 > orderEntry.slippage) {
+        return NextResponse.json(
+          {
+            error: `Expected price impact ${quote.worstImpactPct.toFixed(2)}% is above your ${orderEntry.slippage * 100}% max slippage. Use a limit order or raise it`,
+            code: "SLIPPAGE_TOO_HIGH",
+          },
+          { status: 400 }
+        );
+      }
+      orderEntry.slippage = Math.min(orderEntry.slippage, quote.suggestedSlippage);
+    }
 
     // Check account balance before trading
     const balanceResponse = await fetch(`${PEAR_API_BASE_URL}/vault-wallet/balances`, {
@@ -134,13 +339,31 @@ export async function POST(request: Request) {
     const rawUSDC = balanceData?.perpBalances?.USDC;
     const perpUSDC = parseFloat(rawUSDC || "0");
     const requiredMargin = positionPayload.usdValue / leverage;
-    const estimatedFees = positionPayload.usdValue * 0.005;
+    const estimatedFees = quote
+      ? quote.takerFeeUsd + quote.builderFeeUsd
+      : positionPayload.usdValue * FALLBACK_FEE_RATE;
     const totalRequired = requiredMargin + estimatedFees;
     if (perpUSDC < totalRequired) {
-      return NextResponse.json(
-        { error: `Insufficient balance. Need ~$${totalRequired.toFixed(2)} (margin + fees), have $${perpUSDC.toFixed(2)} USDC` },
-        { status: 400 }
-      );
+      // Spot USDC doesn't count as margin, but it can be moved across
+      let spotUSDC = 0;
+      try {
+        spotUSDC = await getSpotUsdc(address);
+      } catch (error) {
+        console.warn("Spot balance unavailable:", error instanceof Error ? error.message : error);
+      }
+      const suggestedTopUpUsdc = getSuggestedTopUp(totalRequired, perpUSDC, spotUSDC);
+
+      const insufficient: InsufficientMarginResponse = {
+        error: suggestedTopUpUsdc !== null
+          ? `Insufficient perps balance. Need ~$${totalRequired.toFixed(2)} (margin + fees), have $${perpUSDC.toFixed(2)}. Move $${suggestedTopUpUsdc.toFixed(2)} from spot to perps`
+          : `Insufficient balance. Need ~$${totalRequired.toFixed(2)} (margin + fees), have $${perpUSDC.toFixed(2)} USDC`,
+        code: "INSUFFICIENT_MARGIN",
+        requiredUsdc: totalRequired,
+        perpUsdc: perpUSDC,
+        spotUsdc: spotUSDC,
+        suggestedTopUpUsdc,
+      };
+      return NextResponse.json(insufficient, { status: 400 });
     }
 
 
@@ -156,12 +379,18 @@ export async function POST(request: Request) {
     }
 
     // Trading parameters - matching Pear UI format exactly
-    cleanedPayload.executionType = "MARKET";
+    const isSingleAsset = totalAssets === 1;
+    const longCount = positionPayload.longAssets?.length || 0;
+    Object.assign(cleanedPayload, toPearExecution(orderEntry, {
+      assetName: isSingleAsset ? (positionPayload.longAssets?.[0] ?? positionPayload.shortAssets?.[0])!.asset : null,
+      // Longs (and long-basket pairs) enter on the way down, single-asset shorts on the way up
+      below: !(isSingleAsset && longCount === 0),
+    }));
     cleanedPayload.leverage = Math.round(positionPayload.leverage);
     cleanedPayload.usdValue = Math.round(positionPayload.usdValue * 100) / 100;
-    cleanedPayload.slippage = 0.05; // 5% slippage for reliable fills
-    cleanedPayload.takeProfit = null;
-    cleanedPayload.stopLoss = null;
+    cleanedPayload.slippage = orderEntry.slippage;
+    cleanedPayload.takeProfit = toPearThreshold(takeProfit, Math.round(positionPayload.leverage));
+    cleanedPayload.stopLoss = toPearThreshold(stopLoss, Math.round(positionPayload.leverage));
     // cleanedPayload.referralCode = "0x0000000000000000000000000000000000000000000000000000000000000000";
 
     const response = await fetch(`${PEAR_API_BASE_URL}/positions`, {
@@ -194,8 +423,21 @@ export async function POST(request: Request) {
       success: true,
       orderId: result.orderId,
       fills: result.fills,
+      orderType,
+      slippage: orderEntry.slippage,
+      quote,
+      usdValue: cleanedPayload.usdValue,
+      leverage: cleanedPayload.leverage,
+      leverageCapped: leverage < body.leverage,
+      adjustments: constrained.warnings,
     });
   } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
     console.error("Create position error:", error);
     return NextResponse.json({ error: "Failed to create position" }, { status: 500 });
   }
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { quoteOrder } from "@/lib/order-quote";
+import type { MarketAsset, PositionType } from "@/types/trade";
+
+interface QuoteRequest {
+  longAssets: MarketAsset[];
+  shortAssets: MarketAsset[];
+  usdValue: number;
+  direction: "LONG" | "SHORT";
+  positionType: PositionType;
+}
+
+function isAssetList(value: unknown): value is MarketAsset[] {
+  return (
+    Array.isArray(value) &&
+    value.every((a) => typeof a?.asset === "string" && typeof a?.weight === "number" && a.weight >= 0)
+  );
+}
+
+/**
+ * POST /api/positions/quote
+ *
+ * Simulates a market entry against Hyperliquid's L2 book for each leg and
+ * returns the expected average price, price impact, taker and builder fees,
+ * and the slippage /api/positions/create would send. Takes the same legs,
+ * size, direction and position type as the create route.
+ */
+export async function POST(request: Request) {
+  const body: Partial<QuoteRequest> = await request.json().catch(() => ({}));
+  const { longAssets, shortAssets, usdValue, direction, positionType } = body;
+
+  if (!isAssetList(longAssets) || !isAssetList(shortAssets) || longAssets.length + shortAssets.length === 0) {
+    return NextResponse.json(
+      { error: "longAssets and shortAssets must list at least one asset" },
+      { status: 400 }
+    );
+  }
+
+  if (typeof usdValue !== "number" || !Number.isFinite(usdValue) || usdValue < 1) {
+    return NextResponse.json(
+      { error: "Position size must be at least $1" },
+      { status: 400 }
+    );
+  }
+
+  if (direction !== "LONG" && direction !== "SHORT") {
+    return NextResponse.json(
+      { error: "direction must be LONG or SHORT" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const quote = await quoteOrder({
+      positionType: positionType === "relative_pair" ? "relative_pair" : "one_directional",
+      direction,
+      longAssets,
+      shortAssets,
+      usdValue,
+    });
+    return NextResponse.json(quote);
+  } catch (error) {
+    console.error("Quote error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to quote order" },
+      { status: 502 }
+    );
+  }
+}
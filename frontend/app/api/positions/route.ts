@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { getOpenPositions, PearApiException } from "@/lib/pear-api";
+import type { PearPosition, PearPositionAsset } from "@/lib/pear-api";
+import { detectPositionType, generateDisplayName } from "@/lib/market-utils";
+import { fromPearThreshold } from "@/lib/tpsl";
+import type { OpenPosition, PositionLeg } from "@/types/trade";
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function transformLeg(asset: PearPositionAsset, side: "LONG" | "SHORT", legCount: number): PositionLeg {
+  const size = Math.abs(toNumber(asset.actualSize));
+  const positionValue = toNumber(asset.positionValue);
+  // Weights are reported as decimals (0-1); markets use percentages (0-100)
+  const rawWeight = toNumber(asset.initialWeight);
+  const weight = asset.initialWeight === undefined
+    ? 100 / legCount
+    : rawWeight > 1 ? rawWeight : rawWeight * 100;
+
+  return {
+    asset: asset.coin,
+    side,
+    size,
+    entryPrice: toNumber(asset.entryPrice),
+    // Pear reports the current notional per leg; mark price is notional per unit
+    markPrice: size > 0 ? positionValue / size : 0,
+    positionValue,
+    marginUsed: toNumber(asset.marginUsed),
+    leverage: toNumber(asset.leverage),
+    unrealizedPnl: toNumber(asset.unrealizedPnl),
+    weight,
+  };
+}
+
+function transformPosition(position: PearPosition): OpenPosition {
+  const rawLong = position.longAssets ?? [];
+  const rawShort = position.shortAssets ?? [];
+  const longAssets = rawLong.map((a) => transformLeg(a, "LONG", rawLong.length));
+  const shortAssets = rawShort.map((a) => transformLeg(a, "SHORT", rawShort.length));
+
+  const positionType = detectPositionType(longAssets, shortAssets);
+  const leverage = toNumber(position.leverage);
+  const marginUsed = toNumber(position.marginUsed);
+  const unrealizedPnl = toNumber(position.unrealizedPnl);
+
+  return {
+    positionId: position.positionId,
+    positionType,
+    displayName: generateDisplayName(longAssets, shortAssets, positionType),
+    leverage,
+    entryRatio: position.entryRatio != null ? toNumber(position.entryRatio) : null,
+    markRatio: position.markRatio != null ? toNumber(position.markRatio) : null,
+    positionValue: toNumber(position.positionValue),
+    marginUsed,
+    unrealizedPnl,
+    unrealizedPnlPercent: position.unrealizedPnlPercentage !== undefined
+      ? toNumber(position.unrealizedPnlPercentage)
+      : marginUsed > 0 ? (unrealizedPnl / marginUsed) * 100 : 0,
+    longAssets,
+    shortAssets,
+    takeProfit: fromPearThreshold(position.takeProfit, leverage),
+    stopLoss: fromPearThreshold(position.stopLoss, leverage),
+    createdAt: position.createdAt ? new Date(position.createdAt).getTime() : null,
+  };
+}
+
+/**
+ * GET /api/positions
+ *
+ * Lists the user's open Pear positions with per-leg entry, mark, PnL,
+ * leverage and margin.
+ */
+export async function GET(request: Request) {
+  try {
+    const authHeader = request.headers.get("authorization");
+
+    if (!authHeader) {
+      return NextResponse.json(
+        { error: "Authorization required" },
+        { status: 401 }
+      );
+    }
+
+    const positions = await getOpenPositions(authHeader);
+
+    return NextResponse.json({
+      positions: (Array.isArray(positions) ? positions : []).map(transformPosition),
+    });
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Positions fetch error:", error);
+    return NextResponse.json({ error: "Failed to fetch positions" }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRiskState, saveRiskProfile, RiskProfileError } from '@/lib/risk';
+import { getSessionAddress, PearApiException } from '@/lib/pear-api';
+import type { RiskProfile, RiskProfileResponse } from '@/types/trade';
+
+/**
+ * GET /api/risk?address=<evmAddress>
+ *
+ * Returns the user's risk limits and current usage. Open exposure is only
+ * included when a Pear token is passed in the Authorization header, and that
+ * token must belong to `address`: its trades are reconciled into the journal.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    const authorization = request.headers.get('authorization');
+    if (authorization && await getSessionAddress(authorization) !== address.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Address does not match your session' },
+        { status: 403 }
+      );
+    }
+
+    const { profile, usage } = await loadRiskState(address, authorization);
+    const response: RiskProfileResponse = { profile, usage };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error in GET /api/risk:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/risk
+ *
+ * Updates the user's risk limits. Omitted fields are unchanged; null disables a limit.
+ * Requires the user's Pear token; `address` must be the wallet behind it.
+ *
+ * Body: {
+ *   address: string;
+ *   maxOpenPositions?: number | null;
+ *   maxTotalNotionalUsd?: number | null;
+ *   maxDailyLossUsd?: number | null;
+ *   maxLeverage?: number | null;
+ *   cooldownAfterLosses?: number | null;
+ *   cooldownMinutes?: number;
+ * }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { address, ...update } = await request.json() as Partial<RiskProfile> & { address?: string };
+
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    const authorization = request.headers.get('authorization');
+    if (await getSessionAddress(authorization) !== address.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Address does not match your session' },
+        { status: 403 }
+      );
+    }
+
+    await saveRiskProfile(address, update);
+
+    const { profile, usage } = await loadRiskState(address, authorization);
+    const response: RiskProfileResponse = { profile, usage };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof PearApiException) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof RiskProfileError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error in PUT /api/risk:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { creditVault } from '@/lib/vault';
-import type { VaultCreditRequest, VaultResponse } from '@/types';
+import { creditVault, findEntryByIdempotencyKey, getEquityUsdc } from '@/lib/vault';
+import { verifyDepositProof, DepositVerificationError } from '@/lib/deposits';
+import { DuplicateRecordError, runExclusive } from '@/lib/storage';
+import type { VaultCreditRequest, VaultCreditResponse } from '@/types';
+
+// Received amounts are compared with the client's expectation to within a cent
+const AMOUNT_TOLERANCE_USDC = 0.01;
 
 /**
  * POST /api/vault/credit
- * 
- * Credits USDC to a user's vault balance.
- * 
- * Body: { address: string; amountUsdc: number }
+ *
+ * Credits a verified deposit to a user's vault balance.
+ * The amount always comes from the verified deposit, never from the client.
+ *
+ * Body: {
+ *   address: string;
+ *   proof: { type: 'lightning'; paymentHash: string }
+ *        | { type: 'lifi'; txHash: string; fromChain: number; toChain: number };
+ *   idempotencyKey: string;   // retries with the same key return the original credit
+ *   amountUsdc?: number;      // optional expected amount, rejected if it doesn't match
+ * }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json() as VaultCreditRequest;
 
     // Validate required fields
-    if (!body.address || body.amountUsdc === undefined) {
+    if (!body.address || !body.proof || !body.idempotencyKey) {
       return NextResponse.json(
-        { error: 'Missing required fields: address, amountUsdc' },
+        { error: 'Missing required fields: address, proof, idempotencyKey' },
         { status: 400 }
       );
     }
@@ -29,23 +41,79 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate amount
-    if (typeof body.amountUsdc !== 'number' || body.amountUsdc < 0) {
+    if (typeof body.idempotencyKey !== 'string' || body.idempotencyKey.length > 200) {
+      return NextResponse.json(
+        { error: 'idempotencyKey must be a string of at most 200 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (body.amountUsdc !== undefined && (typeof body.amountUsdc !== 'number' || body.amountUsdc < 0)) {
       return NextResponse.json(
         { error: 'amountUsdc must be a non-negative number' },
         { status: 400 }
       );
     }
 
-    // Credit the vault
-    const updated = creditVault(body.address, body.amountUsdc);
+    // Serialize requests per idempotency key so concurrent retries can't race
+    return await runExclusive(`credit:${body.idempotencyKey}`, async () => {
+      const previous = await findEntryByIdempotencyKey(body.idempotencyKey);
+      if (previous) {
+        if (previous.userAddress !== body.address.toLowerCase()) {
+          return NextResponse.json(
+            { error: 'idempotencyKey was already used for a different request' },
+            { status: 409 }
+          );
+        }
+
+        const response: VaultCreditResponse = {
+          equityUsdc: await getEquityUsdc(body.address),
+          entry: previous,
+          replayed: true,
+        };
+        return NextResponse.json(response);
+      }
+
+      const deposit = await verifyDepositProof(body.address, body.proof);
+
+      if (
+        body.amountUsdc !== undefined &&
+        Math.abs(body.amountUsdc - deposit.amountUsdc) > AMOUNT_TOLERANCE_USDC
+      ) {
+        return NextResponse.json(
+          { error: `Expected ${body.amountUsdc} USDC but the deposit received ${deposit.amountUsdc} USDC` },
+          { status: 422 }
+        );
+      }
 
-    const response: VaultResponse = {
-      equityUsdc: updated.equityUsdc,
-    };
+      const { entry, equityUsdc } = await creditVault(body.address, deposit.amountUsdc, {
+        source: deposit.source,
+        referenceId: deposit.referenceId,
+        idempotencyKey: body.idempotencyKey,
+      });
 
-    return NextResponse.json(response);
+      const response: VaultCreditResponse = {
+        equityUsdc,
+        entry,
+        replayed: false,
+      };
+      return NextResponse.json(response);
+    });
   } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      return NextResponse.json(
+        { error: 'This deposit has already been credited' },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof DepositVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('Error in POST /api/vault/credit:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVaultHistory } from '@/lib/vault';
+import type { VaultHistoryResponse } from '@/types';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/vault/history?address=<evmAddress>&limit=<n>
+ * 
+ * Returns the vault ledger entries for a given EVM address, newest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    const limitParam = searchParams.get('limit');
+
+    // Validate address parameter
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    // Basic EVM address validation
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: 'Invalid EVM address format' },
+        { status: 400 }
+      );
+    }
+
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const entries = await getVaultHistory(address, Math.min(limit, MAX_LIMIT));
+
+    const response: VaultHistoryResponse = {
+      entries,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in GET /api/vault/history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
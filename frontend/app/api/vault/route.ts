@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getEquityUsdc, initializeVault } from '@/lib/vault';
+import { getEquityUsdc } from '@/lib/vault';
 import type { VaultResponse } from '@/types';
 
 /**
@@ -28,11 +28,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Initialize vault if it doesn't exist (returns existing if it does)
-    initializeVault(address);
-
-    // Get the equity
-    const equityUsdc = getEquityUsdc(address);
+    // Equity is derived from the ledger (zero if the user has no entries)
+    const equityUsdc = await getEquityUsdc(address);
 
     const response: VaultResponse = {
       equityUsdc,
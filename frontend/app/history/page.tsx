@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import { Header } from '@/components/Header';
+import { useUserStore } from '@/store/userStore';
+import { useJournal, useSyncJournal } from '@/hooks/useJournal';
+import type { JournalBucketStats, TradeJournalEntry } from '@/types/trade';
+
+function formatPnl(value: number): string {
+  return `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+}
+
+function pnlColor(value: number): string {
+  return value >= 0 ? 'text-green-400' : 'text-red-400';
+}
+
+/**
+ * Display name for the market a journal entry traded
+ */
+function getEntryName(entry: TradeJournalEntry): string {
+  const { card } = entry;
+  if (card.positionType === 'relative_pair') {
+    const longs = (card.longAssets ?? []).map((a) => a.asset).join('+');
+    const shorts = (card.shortAssets ?? []).map((a) => a.asset).join('+');
+    return `${longs} / ${shorts}`;
+  }
+  return card.ticker;
+}
+
+const STATUS_STYLES: Record<TradeJournalEntry['status'], string> = {
+  open: 'bg-primary-500/20 text-primary-400',
+  closed: 'bg-dark-600 text-gray-300',
+  failed: 'bg-red-500/20 text-red-400',
+  skipped: 'bg-dark-700 text-gray-500',
+};
+
+function StatsTable({ title, rows }: { title: string; rows: JournalBucketStats[] }) {
+  return (
+    <div className="bg-dark-800 rounded-xl border border-dark-600 p-4">
+      <h2 className="text-sm font-semibold text-white mb-3">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500">No closed trades yet</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="font-normal pb-2"></th>
+              <th className="font-normal pb-2 text-right">Trades</th>
+              <th className="font-normal pb-2 text-right">Win rate</th>
+              <th className="font-normal pb-2 text-right">Avg PnL</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-t border-dark-700">
+                <td className="py-2 text-gray-300 truncate max-w-[140px]">{row.label}</td>
+                <td className="py-2 text-right text-gray-400">{row.trades}</td>
+                <td className="py-2 text-right text-gray-300">{row.winRate.toFixed(0)}%</td>
+                <td className={`py-2 text-right font-medium ${pnlColor(row.avgPnl)}`}>{formatPnl(row.avgPnl)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  const router = useRouter();
+  const { isConnected, address } = useAccount();
+  const getAuthStatus = useUserStore((state) => state.getAuthStatus);
+  const authStatus = getAuthStatus(isConnected);
+
+  const { data, isLoading, error } = useJournal(address);
+  const syncMutation = useSyncJournal();
+  const { mutate: syncJournal } = syncMutation;
+
+  // Auth redirect
+  useEffect(() => {
+    if (authStatus !== 'ready_to_trade') {
+      router.replace('/auth');
+    }
+  }, [authStatus, router]);
+
+  // Pull closed trades from Pear when the page opens
+  useEffect(() => {
+    if (authStatus === 'ready_to_trade' && address) {
+      syncJournal(address);
+    }
+  }, [authStatus, address, syncJournal]);
+
+  if (authStatus !== 'ready_to_trade') {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1 flex items-center justify-center">
+          <div className="text-gray-400">Redirecting to setup...</div>
+        </main>
+      </div>
+    );
+  }
+
+  const summary = data?.summary;
+  const entries = data?.entries ?? [];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-1 flex flex-col max-w-md mx-auto w-full px-4 py-6">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-xl font-bold text-white">Trade History</h1>
+          <button
+            onClick={() => address && syncJournal(address)}
+            disabled={syncMutation.isPending}
+            className="text-xs text-primary-400 hover:text-primary-300 disabled:opacity-50"
+          >
+            {syncMutation.isPending ? 'Syncing...' : 'Sync'}
+          </button>
+        </div>
+
+        {syncMutation.error && (
+          <p className="mb-4 text-xs text-red-400">
+            Could not sync with Pear: {syncMutation.error.message}
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex-1 flex flex-col items-center justify-center">
+            <div className="w-12 h-12 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mb-4" />
+            <p className="text-gray-400">Loading history...</p>
+          </div>
+        ) : error ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <h2 className="text-xl font-bold text-white mb-2">Failed to load history</h2>
+            <p className="text-gray-400">
+              {error instanceof Error ? error.message : 'Unable to fetch history. Please try again.'}
+            </p>
+          </div>
+        ) : !summary || entries.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <div className="w-20 h-20 rounded-full bg-primary-500/20 flex items-center justify-center mb-4">
+              <span className="text-4xl">📒</span>
+            </div>
+            <h2 className="text-xl font-bold text-white mb-2">No swipes yet</h2>
+            <p className="text-gray-400 mb-6">Every card you swipe is recorded here.</p>
+            <Link
+              href="/swipe"
+              className="px-6 py-3 bg-primary-500 hover:bg-primary-600 rounded-xl font-medium text-white transition-colors"
+            >
+              Start Swiping
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-2">
+              <div className="bg-dark-800 rounded-xl border border-dark-600 p-3 text-center">
+                <p className="text-[10px] text-gray-500 mb-1">Win rate</p>
+                <p className="text-lg font-bold text-white">{summary.winRate.toFixed(0)}%</p>
+                <p className="text-[10px] text-gray-500">{summary.wins}/{summary.closed} closed</p>
+              </div>
+              <div className="bg-dark-800 rounded-xl border border-dark-600 p-3 text-center">
+                <p className="text-[10px] text-gray-500 mb-1">Realized PnL</p>
+                <p className={`text-lg font-bold ${pnlColor(summary.totalRealizedPnl)}`}>
+                  {formatPnl(summary.totalRealizedPnl)}
+                </p>
+                <p className="text-[10px] text-gray-500">{formatPnl(summary.avgRealizedPnl)} avg</p>
+              </div>
+              <div className="bg-dark-800 rounded-xl border border-dark-600 p-3 text-center">
+                <p className="text-[10px] text-gray-500 mb-1">Swipes</p>
+                <p className="text-lg font-bold text-white">{summary.taken}</p>
+                <p className="text-[10px] text-gray-500">{summary.skipped} skipped</p>
+              </div>
+            </div>
+
+            <StatsTable title="By leverage" rows={summary.byLeverage} />
+            <StatsTable title="By AI tagline" rows={summary.byTagline} />
+
+            {/* Recent entries */}
+            <div className="bg-dark-800 rounded-xl border border-dark-600 p-4">
+              <h2 className="text-sm font-semibold text-white mb-3">Recent swipes</h2>
+              <div className="space-y-2">
+                {entries.slice(0, 50).map((entry) => (
+                  <div key={entry.id} className="flex justify-between items-center text-xs">
+                    <div className="min-w-0">
+                      <p className="text-gray-200 truncate">
+                        <span className={entry.direction === 'LONG' ? 'text-green-400' : 'text-red-400'}>
+                          {entry.direction}
+                        </span>{' '}
+                        {getEntryName(entry)} · {entry.leverage}x
+                      </p>
+                      <p className="text-gray-500 truncate">
+                        {entry.card.tagline} · {new Date(entry.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0 ml-2">
+                      {entry.realizedPnl !== null ? (
+                        <p className={`font-medium ${pnlColor(entry.realizedPnl)}`}>{formatPnl(entry.realizedPnl)}</p>
+                      ) : (
+                        <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${STATUS_STYLES[entry.status]}`}>
+                          {entry.status}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -7,17 +7,20 @@ import { Header } from '@/components/Header';
 import { BalanceCard } from '@/components/BalanceCard';
 import { FundModal } from '@/components/FundModal';
 import { SwapModal } from '@/components/SwapModal';
+import { WithdrawModal } from '@/components/WithdrawModal';
 
 export default function HomePage() {
   const { address } = useAccount();
   const queryClient = useQueryClient();
   const [showFundModal, setShowFundModal] = useState(false);
   const [showBridgeModal, setShowBridgeModal] = useState(false);
+  const [showWithdrawModal, setShowWithdrawModal] = useState(false);
 
   // Refresh balance after deposit/swap completes
   const handleComplete = useCallback(() => {
     if (address) {
       queryClient.invalidateQueries({ queryKey: ['vault', address.toLowerCase()] });
+      queryClient.invalidateQueries({ queryKey: ['vault-history'] });
       queryClient.invalidateQueries({ queryKey: ['hyperliquid-balance', address.toLowerCase()] });
     }
   }, [address, queryClient]);
@@ -34,6 +37,7 @@ export default function HomePage() {
             <BalanceCard 
               onDeposit={() => setShowFundModal(true)}
               onBridgeUsdc={() => setShowBridgeModal(true)}
+              onWithdraw={() => setShowWithdrawModal(true)}
             />
           </div>
 
@@ -156,6 +160,12 @@ export default function HomePage() {
         onSwapComplete={handleComplete}
         sourceType="arbitrum"
       />
+
+      {/* Withdraw Modal - Arbitrum USDC or BTC */}
+      <WithdrawModal
+        isOpen={showWithdrawModal}
+        onClose={() => setShowWithdrawModal(false)}
+      />
     </div>
   );
 }
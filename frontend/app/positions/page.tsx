@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import { Header } from '@/components/Header';
+import { PositionCard } from '@/components/PositionCard';
+import { PendingOrderCard } from '@/components/PendingOrderCard';
+import { useUserStore } from '@/store/userStore';
+import { usePositions, useClosePosition, useUpdatePositionRisk } from '@/hooks/usePositions';
+import { usePendingOrders, useCancelOrder } from '@/hooks/useOrders';
+import { useToast } from '@/providers/ToastProvider';
+import type { PendingOrder, TpSlSettings } from '@/types/trade';
+
+export default function PositionsPage() {
+  const router = useRouter();
+  const { isConnected } = useAccount();
+  const getAuthStatus = useUserStore((state) => state.getAuthStatus);
+  const authStatus = getAuthStatus(isConnected);
+  const { showToast } = useToast();
+
+  const { data: positions, isLoading, error } = usePositions();
+  const closeMutation = useClosePosition();
+  const riskMutation = useUpdatePositionRisk();
+  const { data: pendingOrders } = usePendingOrders();
+  const cancelMutation = useCancelOrder();
+
+  // Auth redirect
+  useEffect(() => {
+    if (authStatus !== 'ready_to_trade') {
+      router.replace('/auth');
+    }
+  }, [authStatus, router]);
+
+  const totals = useMemo(() => {
+    const list = positions ?? [];
+    return {
+      unrealizedPnl: list.reduce((sum, p) => sum + p.unrealizedPnl, 0),
+      marginUsed: list.reduce((sum, p) => sum + p.marginUsed, 0),
+    };
+  }, [positions]);
+
+  const handleClose = async (positionId: string, percentage: number) => {
+    try {
+      await closeMutation.mutateAsync({ positionId, percentage });
+      showToast(percentage >= 100 ? 'Position closed' : `Closed ${percentage}% of position`);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to close position', 'error');
+    }
+  };
+
+  const handleCancelOrder = async (order: PendingOrder) => {
+    try {
+      await cancelMutation.mutateAsync(order);
+      showToast(order.orderType === 'TWAP' ? 'TWAP stopped. Filled chunks stay open' : 'Order cancelled');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to cancel order', 'error');
+    }
+  };
+
+  const handleUpdateTpSl = async (positionId: string, settings: TpSlSettings) => {
+    try {
+      await riskMutation.mutateAsync({ positionId, ...settings });
+      showToast('TP/SL updated');
+      return true;
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update TP/SL', 'error');
+      return false;
+    }
+  };
+
+  if (authStatus !== 'ready_to_trade') {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1 flex items-center justify-center">
+          <div className="text-gray-400">Redirecting to setup...</div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-1 flex flex-col max-w-md mx-auto w-full px-4 py-6">
+        {/* Summary */}
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-xl font-bold text-white">Open Positions</h1>
+          {positions && positions.length > 0 && (
+            <div className="text-right">
+              <p className={`text-sm font-bold ${totals.unrealizedPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {totals.unrealizedPnl >= 0 ? '+' : '-'}${Math.abs(totals.unrealizedPnl).toFixed(2)}
+              </p>
+              <p className="text-[10px] text-gray-500">${totals.marginUsed.toFixed(2)} margin in use</p>
+            </div>
+          )}
+        </div>
+
+        {/* Resting entries: limit, TWAP and ladder orders */}
+        {pendingOrders && pendingOrders.orders.length > 0 && (
+          <section className="mb-6">
+            <div className="flex justify-between items-baseline mb-2">
+              <h2 className="text-sm font-semibold text-gray-300">Pending orders</h2>
+              {pendingOrders.twapRemainingUsd > 0 && (
+                <span className="text-[10px] text-gray-500">${pendingOrders.twapRemainingUsd.toFixed(2)} of TWAP left to execute</span>
+              )}
+            </div>
+            <div className="space-y-2">
+              {pendingOrders.orders.map((order) => (
+                <PendingOrderCard
+                  key={order.orderId}
+                  order={order}
+                  onCancel={handleCancelOrder}
+                  isCancelling={cancelMutation.isPending && cancelMutation.variables?.orderId === order.orderId}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {isLoading ? (
+          <div className="flex-1 flex flex-col items-center justify-center">
+            <div className="w-12 h-12 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mb-4" />
+            <p className="text-gray-400">Loading positions...</p>
+          </div>
+        ) : error ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <h2 className="text-xl font-bold text-white mb-2">Failed to load positions</h2>
+            <p className="text-gray-400">
+              {error instanceof Error ? error.message : 'Unable to fetch positions. Please try again.'}
+            </p>
+          </div>
+        ) : !positions || positions.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <div className="w-20 h-20 rounded-full bg-primary-500/20 flex items-center justify-center mb-4">
+              <span className="text-4xl">📭</span>
+            </div>
+            <h2 className="text-xl font-bold text-white mb-2">No open positions</h2>
+            <p className="text-gray-400 mb-6">Swipe right on a card to open one.</p>
+            <Link
+              href="/swipe"
+              className="px-6 py-3 bg-primary-500 hover:bg-primary-600 rounded-xl font-medium text-white transition-colors"
+            >
+              Start Swiping
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {positions.map((position) => (
+              <PositionCard
+                key={position.positionId}
+                position={position}
+                onClose={handleClose}
+                onUpdateTpSl={handleUpdateTpSl}
+                isClosing={closeMutation.isPending && closeMutation.variables?.positionId === position.positionId}
+                isUpdatingTpSl={riskMutation.isPending && riskMutation.variables?.positionId === position.positionId}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
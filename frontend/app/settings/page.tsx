@@ -0,0 +1,332 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import { Header } from '@/components/Header';
+import { ChartSettings } from '@/components/ChartSettings';
+import { RankingSettings } from '@/components/RankingSettings';
+import { useUserStore } from '@/store/userStore';
+import { usePreferencesStore, UNDO_WINDOW_OPTIONS, RESWIPE_WINDOW_OPTIONS } from '@/store/preferencesStore';
+import { SLIPPAGE_OPTIONS } from '@/lib/orders';
+import { useRiskProfile, useUpdateRiskProfile } from '@/hooks/useRiskProfile';
+import { useToast } from '@/providers/ToastProvider';
+import type { RiskProfile, RiskUsage } from '@/types/trade';
+
+type LimitField = Exclude<keyof RiskProfile, 'cooldownMinutes'>;
+
+interface LimitConfig {
+  field: LimitField;
+  label: string;
+  description: string;
+  unit: '$' | 'x' | '';
+  step: number;
+  defaultValue: number;
+  getUsage: (usage: RiskUsage) => string | null;
+}
+
+const LIMITS: LimitConfig[] = [
+  {
+    field: 'maxOpenPositions',
+    label: 'Max open positions',
+    description: 'Swipes are blocked once this many positions are open.',
+    unit: '',
+    step: 1,
+    defaultValue: 5,
+    getUsage: (u) => (u.openPositions !== null ? `${u.openPositions} open` : null),
+  },
+  {
+    field: 'maxTotalNotionalUsd',
+    label: 'Max open exposure',
+    description: 'Total notional across open positions, including the new order.',
+    unit: '$',
+    step: 10,
+    defaultValue: 250,
+    getUsage: (u) => (u.totalNotionalUsd !== null ? `$${u.totalNotionalUsd.toFixed(2)} open` : null),
+  },
+  {
+    field: 'maxDailyLossUsd',
+    label: 'Daily loss limit',
+    description: 'Realized losses since 00:00 UTC.',
+    unit: '$',
+    step: 5,
+    defaultValue: 50,
+    getUsage: (u) => `${u.dailyRealizedPnl >= 0 ? '+' : '-'}$${Math.abs(u.dailyRealizedPnl).toFixed(2)} today`,
+  },
+  {
+    field: 'maxLeverage',
+    label: 'Max leverage',
+    description: 'Cards suggesting more leverage are opened at this cap.',
+    unit: 'x',
+    step: 1,
+    defaultValue: 20,
+    getUsage: () => null,
+  },
+  {
+    field: 'cooldownAfterLosses',
+    label: 'Cooldown after losses',
+    description: 'Pause trading after this many losing trades in a row.',
+    unit: '',
+    step: 1,
+    defaultValue: 3,
+    getUsage: (u) => `${u.consecutiveLosses} in a row`,
+  },
+];
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const { isConnected, address } = useAccount();
+  const getAuthStatus = useUserStore((state) => state.getAuthStatus);
+  const authStatus = getAuthStatus(isConnected);
+  const { showToast } = useToast();
+
+  const { data, isLoading, error } = useRiskProfile(address);
+  const updateMutation = useUpdateRiskProfile(address);
+  const [draft, setDraft] = useState<RiskProfile | null>(null);
+  const undoWindowSeconds = usePreferencesStore((state) => state.undoWindowSeconds);
+  const setUndoWindowSeconds = usePreferencesStore((state) => state.setUndoWindowSeconds);
+  const reswipeWindowHours = usePreferencesStore((state) => state.reswipeWindowHours);
+  const setReswipeWindowHours = usePreferencesStore((state) => state.setReswipeWindowHours);
+  const defaultSlippage = usePreferencesStore((state) => state.defaultSlippage);
+  const setDefaultSlippage = usePreferencesStore((state) => state.setDefaultSlippage);
+  const autoTopUpPerps = usePreferencesStore((state) => state.autoTopUpPerps);
+  const setAutoTopUpPerps = usePreferencesStore((state) => state.setAutoTopUpPerps);
+
+  // Auth redirect
+  useEffect(() => {
+    if (authStatus !== 'ready_to_trade') {
+      router.replace('/auth');
+    }
+  }, [authStatus, router]);
+
+  // Start editing from the saved profile
+  useEffect(() => {
+    if (data && !draft) {
+      setDraft(data.profile);
+    }
+  }, [data, draft]);
+
+  const setLimit = (field: keyof RiskProfile, value: number | null) => {
+    setDraft((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      const saved = await updateMutation.mutateAsync(draft);
+      setDraft(saved.profile);
+      showToast('Risk limits saved');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to save risk limits', 'error');
+    }
+  };
+
+  if (authStatus !== 'ready_to_trade') {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1 flex items-center justify-center">
+          <div className="text-gray-400">Redirecting to setup...</div>
+        </main>
+      </div>
+    );
+  }
+
+  const usage = data?.usage;
+  const isDirty = !!draft && !!data && JSON.stringify(draft) !== JSON.stringify(data.profile);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-1 flex flex-col max-w-md mx-auto w-full px-4 py-6">
+        <h1 className="text-xl font-bold text-white mb-1">Risk Limits</h1>
+        <p className="text-sm text-gray-400 mb-4">Checked before every swipe opens a position.</p>
+
+        {isLoading || !draft ? (
+          error ? (
+            <p className="text-sm text-red-400">
+              {error instanceof Error ? error.message : 'Failed to load risk limits'}
+            </p>
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center">
+              <div className="w-12 h-12 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mb-4" />
+              <p className="text-gray-400">Loading limits...</p>
+            </div>
+          )
+        ) : (
+          <div className="space-y-3">
+            {usage?.cooldownUntil && (
+              <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-600/50 text-xs text-yellow-300">
+                Cooling down after {usage.consecutiveLosses} losses until{' '}
+                {new Date(usage.cooldownUntil).toLocaleTimeString()}
+              </div>
+            )}
+
+            {LIMITS.map((limit) => {
+              const value = draft[limit.field];
+              const isEnabled = value !== null;
+              const usageText = usage ? limit.getUsage(usage) : null;
+
+              return (
+                <div key={limit.field} className="p-3 bg-dark-800 rounded-xl border border-dark-600">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-medium text-white">{limit.label}</span>
+                    <button
+                      type="button"
+                      onClick={() => setLimit(limit.field, isEnabled ? null : limit.defaultValue)}
+                      className={`px-2 py-0.5 rounded text-[10px] font-medium ${
+                        isEnabled ? 'bg-primary-500/20 text-primary-400' : 'bg-dark-700 text-gray-500'
+                      }`}
+                    >
+                      {isEnabled ? 'On' : 'Off'}
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-2">{limit.description}</p>
+
+                  {isEnabled && (
+                    <div className="flex items-center gap-2">
+                      {limit.unit === '$' && <span className="text-sm text-gray-400">$</span>}
+                      <input
+                        type="number"
+                        min="1"
+                        step={limit.step}
+                        value={Number.isFinite(value) ? value : ''}
+                        onChange={(e) => setLimit(limit.field, parseFloat(e.target.value))}
+                        className="flex-1 min-w-0 px-2 py-1 bg-dark-900 border border-dark-600 rounded-lg text-sm text-white focus:outline-none focus:border-primary-500"
+                      />
+                      {limit.unit === 'x' && <span className="text-sm text-gray-400">x</span>}
+                      {usageText && (
+                        <span className="text-[10px] text-gray-500 whitespace-nowrap">{usageText}</span>
+                      )}
+                    </div>
+                  )}
+
+                  {limit.field === 'cooldownAfterLosses' && isEnabled && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <span className="text-xs text-gray-400">Pause for</span>
+                      <input
+                        type="number"
+                        min="1"
+                        step="15"
+                        value={Number.isFinite(draft.cooldownMinutes) ? draft.cooldownMinutes : ''}
+                        onChange={(e) => setLimit('cooldownMinutes', parseFloat(e.target.value))}
+                        className="w-20 px-2 py-1 bg-dark-900 border border-dark-600 rounded-lg text-sm text-white focus:outline-none focus:border-primary-500"
+                      />
+                      <span className="text-xs text-gray-400">minutes</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || updateMutation.isPending}
+              className="w-full py-3 bg-primary-500 hover:bg-primary-600 rounded-xl font-medium text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {updateMutation.isPending ? 'Saving...' : 'Save limits'}
+            </button>
+          </div>
+        )}
+
+        <h2 className="text-lg font-bold text-white mt-8 mb-1">Swiping</h2>
+        <p className="text-sm text-gray-400 mb-4">Saved on this device.</p>
+        <div className="p-3 bg-dark-800 rounded-xl border border-dark-600">
+          <span className="text-sm font-medium text-white">Undo window</span>
+          <p className="text-xs text-gray-500 mb-2">
+            Right-swipes wait this long before the order is sent, so a mis-swipe can be undone.
+          </p>
+          <div className="flex gap-1">
+            {UNDO_WINDOW_OPTIONS.map((seconds) => (
+              <button
+                key={seconds}
+                type="button"
+                onClick={() => setUndoWindowSeconds(seconds)}
+                aria-pressed={seconds === undoWindowSeconds}
+                className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                  seconds === undoWindowSeconds
+                    ? 'bg-primary-500/20 text-primary-400'
+                    : 'bg-dark-700 text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {seconds === 0 ? 'Off' : `${seconds}s`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-3 mt-3 bg-dark-800 rounded-xl border border-dark-600">
+          <span className="text-sm font-medium text-white">Show swiped markets again after</span>
+          <p className="text-xs text-gray-500 mb-2">
+            Markets you swiped, either way, stay out of the deck this long.
+          </p>
+          <div className="flex gap-1">
+            {RESWIPE_WINDOW_OPTIONS.map((hours) => (
+              <button
+                key={hours}
+                type="button"
+                onClick={() => setReswipeWindowHours(hours)}
+                aria-pressed={hours === reswipeWindowHours}
+                className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                  hours === reswipeWindowHours
+                    ? 'bg-primary-500/20 text-primary-400'
+                    : 'bg-dark-700 text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {hours === 0 ? 'Right away' : hours < 48 ? `${hours}h` : `${hours / 24}d`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-3 mt-3 bg-dark-800 rounded-xl border border-dark-600">
+          <span className="text-sm font-medium text-white">Max slippage</span>
+          <p className="text-xs text-gray-500 mb-2">
+            Market and TWAP fills worse than this are rejected. Thin pairs may need more; limit and ladder orders avoid it.
+          </p>
+          <div className="flex gap-1">
+            {SLIPPAGE_OPTIONS.map((slippage) => (
+              <button
+                key={slippage}
+                type="button"
+                onClick={() => setDefaultSlippage(slippage)}
+                aria-pressed={slippage === defaultSlippage}
+                className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                  slippage === defaultSlippage
+                    ? 'bg-primary-500/20 text-primary-400'
+                    : 'bg-dark-700 text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {slippage * 100}%
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-3 mt-3 bg-dark-800 rounded-xl border border-dark-600">
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-sm font-medium text-white">Top up perps from spot</span>
+            <input
+              type="checkbox"
+              checked={autoTopUpPerps}
+              onChange={(e) => setAutoTopUpPerps(e.target.checked)}
+              className="accent-primary-500"
+            />
+          </label>
+          <p className="text-xs text-gray-500 mt-1">
+            When an order is short on margin, move the difference from your Hyperliquid spot USDC without asking. You still sign the transfer.
+          </p>
+        </div>
+
+        <h2 className="text-lg font-bold text-white mt-8 mb-1">Deck ranking</h2>
+        <p className="text-sm text-gray-400 mb-4">What puts a card near the top of the deck. All off keeps market order.</p>
+        <RankingSettings />
+
+        <h2 className="text-lg font-bold text-white mt-8 mb-1">Charts</h2>
+        <p className="text-sm text-gray-400 mb-4">Timeframe and overlays on swipe cards.</p>
+        <ChartSettings />
+      </main>
+    </div>
+  );
+}
@@ -1,23 +1,84 @@
 'use client';
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAccount } from 'wagmi';
 import { Header } from '@/components/Header';
-import { SwipeCard } from '@/components/SwipeCard';
+import { SwipeCard, describeTradeCard } from '@/components/SwipeCard';
+import { CardDetailSheet } from '@/components/CardDetailSheet';
+import { UndoSwipeBanner } from '@/components/UndoSwipeBanner';
+import { OrderTicketSheet } from '@/components/OrderTicketSheet';
+import { DeckFiltersSheet } from '@/components/DeckFiltersSheet';
+import { ConfirmAdjustmentsSheet } from '@/components/ConfirmAdjustmentsSheet';
+import { TopUpPerpsSheet } from '@/components/TopUpPerpsSheet';
+import { applyOrderTicket, getMarketKey } from '@/lib/market-utils';
+import { SIZE_OPTIONS } from '@/lib/orders';
+import { countActiveDeckFilters } from '@/lib/deck-filters';
+import { buildRankingContext, rankUpcomingCards } from '@/lib/ranking';
+import type { TradeIdeaConstraints } from '@/lib/ai-prompts';
 import { useUserStore } from '@/store/userStore';
+import { useToast } from '@/providers/ToastProvider';
+import { usePreferencesStore } from '@/store/preferencesStore';
+import { useWatchlistStore } from '@/store/watchlistStore';
+import { useDeckStore, getActiveSession, DECK_RESUME_TTL_MS } from '@/store/deckStore';
 import { useMarkets } from '@/hooks/useMarkets';
-import type { TradeCard, PearMarket, MarketMetrics, AITradeIdea, SentimentData } from '@/types/trade';
+import { useJournal, useRecordSwipe } from '@/hooks/useJournal';
+import { RiskLimitError, useCloseSwipedPosition } from '@/hooks/usePositions';
+import type { CloseSwipedPositionParams } from '@/hooks/usePositions';
+import { OrderCancelledError, useCardOrder } from '@/hooks/useCardOrder';
+import { fetchCardCandles } from '@/hooks/useCandles';
+import { useSwipeKeyboard } from '@/hooks/useSwipeKeyboard';
+import type { TradeCard, TradeCardSnapshot, PearMarket, MarketMetrics, AITradeIdea, SentimentData, TpSlSettings, RiskViolationCode, ChartTimeframe, OrderTicket, OrderType, DeckFilters } from '@/types/trade';
 
 type TradeStatus = 'idle' | 'executing' | 'success' | 'error';
 
 interface TradeResult {
   status: TradeStatus;
   message?: string;
+  riskCode?: RiskViolationCode; // order blocked by the user's risk limits
+  title?: string; // replaces "Trade executed!" on success
+  note?: string;
 }
 
-const SIZE_OPTIONS = [12, 15, 20] as const;
+interface ExecutionResult {
+  success: boolean;
+  orderId?: string | null;
+  fills?: unknown[] | null;
+  sizeUsd?: number; // after any confirmed adjustment
+  error?: string;
+}
+
+/**
+ * A right-swipe waiting out the undo window
+ */
+interface PendingSwipe {
+  trade: TradeCard; // with the order's leverage and direction applied
+  order: OrderTicket;
+  executeAt: number;
+}
+
+/**
+ * The last executed swipe, which can still be closed from the banner
+ */
+interface OpenedSwipe {
+  trade: TradeCard;
+  openedAt: number;
+  order: CloseSwipedPositionParams['order']; // what the create call filled, so undo closes only that
+  closeableUntil: number;
+}
+
+// How long "Close now" is offered after a swipe's order fills
+const CLOSE_OFFER_MS = 15 * 1000;
+
+// Toast title once a non-market order is accepted
+const ORDER_PLACED_TITLES: Partial<Record<OrderType, string>> = {
+  LIMIT: 'Limit order placed!',
+  TWAP: 'TWAP started!',
+  LADDER: 'Ladder placed!',
+};
 const AI_BATCH_SIZE = 6;
+const FALLBACK_LEVERAGE = 5;
 
 const DEFAULT_SENTIMENT: SentimentData = {
   bullish: 50,
@@ -30,7 +91,8 @@ const DEFAULT_SENTIMENT: SentimentData = {
 function transformToTradeCard(
   market: PearMarket,
   idea: AITradeIdea,
-  index: number
+  index: number,
+  timeframe: ChartTimeframe
 ): Omit<TradeCard, 'candles'> {
   const marketMetrics: MarketMetrics = {
     openInterest: market.openInterest,
@@ -53,7 +115,7 @@ function transformToTradeCard(
     ticker: primaryAsset,
     tagline: idea.tagline,
     direction: idea.direction,
-    timeframe: '4h',
+    timeframe,
     leverage: idea.leverage,
     sentiment: {
       bullish: idea.bullishPercent,
@@ -65,15 +127,27 @@ function transformToTradeCard(
     longAssets: market.longAssets,
     shortAssets: market.shortAssets,
     marketMetrics,
+    entryOffsetPct: idea.entryOffsetPct,
   };
 }
 
 /**
- * Fallback transform when AI is not available.
+ * Card as stored in the trade journal (candles and news dropped).
+ */
+function toCardSnapshot(trade: TradeCard): TradeCardSnapshot {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { candles, news, ...snapshot } = trade;
+  return snapshot;
+}
+
+/**
+ * Fallback transform when AI is not available (or its idea broke the deck filters).
  */
 function transformToFallbackTradeCard(
   market: PearMarket,
-  index: number
+  index: number,
+  timeframe: ChartTimeframe,
+  constraints: TradeIdeaConstraints
 ): Omit<TradeCard, 'candles'> {
   const marketMetrics: MarketMetrics = {
     openInterest: market.openInterest,
@@ -90,9 +164,10 @@ function transformToFallbackTradeCard(
         : 'UNKNOWN';
 
   const direction: 'LONG' | 'SHORT' =
-    market.positionType === 'one_directional' && market.shortAssets.length > 0 && market.longAssets.length === 0
+    constraints.direction ??
+    (market.positionType === 'one_directional' && market.shortAssets.length > 0 && market.longAssets.length === 0
       ? 'SHORT'
-      : 'LONG';
+      : 'LONG');
 
   const marketId = `${market.displayName.replace(/\s+/g, '-').toLowerCase()}-${index}`;
 
@@ -101,8 +176,8 @@ function transformToFallbackTradeCard(
     ticker: primaryAsset,
     tagline: 'Trade Setup',
     direction,
-    timeframe: '4h',
-    leverage: 5,
+    timeframe,
+    leverage: Math.min(FALLBACK_LEVERAGE, constraints.maxLeverage ?? FALLBACK_LEVERAGE),
     sentiment: DEFAULT_SENTIMENT,
     news: [],
     positionType: market.positionType,
@@ -114,19 +189,87 @@ function transformToFallbackTradeCard(
 
 export default function SwipePage() {
   const router = useRouter();
-  const { isConnected } = useAccount();
+  const { isConnected, address } = useAccount();
   const getAuthStatus = useUserStore((state) => state.getAuthStatus);
-  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
   const authStatus = getAuthStatus(isConnected);
 
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [stats, setStats] = useState({ taken: 0, skipped: 0 });
   const [size, setSize] = useState<number>(12);
   const [tradesWithCandles, setTradesWithCandles] = useState<TradeCard[]>([]);
+  // Market keys (see getMarketKey) already dealt, or passed over as recently swiped
   const [processedMarketIds, setProcessedMarketIds] = useState<Set<string>>(new Set());
+  const [recentlySwipedCount, setRecentlySwipedCount] = useState(0);
+  // Saved deck is restored before any market is dealt
+  const [deckRestored, setDeckRestored] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [tradeResult, setTradeResult] = useState<TradeResult>({ status: 'idle' });
   const [isExecuting, setIsExecuting] = useState(false);
+  const [tpSlOverrides, setTpSlOverrides] = useState<Record<string, TpSlSettings>>({});
+  const [detailTradeId, setDetailTradeId] = useState<string | null>(null);
+  const [ticketTradeId, setTicketTradeId] = useState<string | null>(null);
+  const [pendingSwipe, setPendingSwipe] = useState<PendingSwipe | null>(null);
+  const [openedSwipe, setOpenedSwipe] = useState<OpenedSwipe | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  // Source of truth for the queued swipe; state above only drives rendering
+  const pendingSwipeRef = useRef<PendingSwipe | null>(null);
+  const deckRef = useRef<HTMLDivElement>(null);
+  // Bumped when the filters redeal the deck, so in-flight batches are dropped
+  const deckGenerationRef = useRef(0);
+  const currentIndexRef = useRef(currentIndex);
+  currentIndexRef.current = currentIndex;
+  const closeSwipedPosition = useCloseSwipedPosition();
+  const { showToast } = useToast();
+  const { placeOrder, adjustmentPrompt, topUpPrompt, resolveAdjustments, resolveTopUp } = useCardOrder();
+
+  const { data: journal } = useJournal(address);
+  const recordSwipe = useRecordSwipe();
+  const rankingContext = useMemo(() => buildRankingContext(journal?.entries ?? []), [journal]);
+
+  const defaultTakeProfit = usePreferencesStore((state) => state.defaultTakeProfit);
+  const defaultStopLoss = usePreferencesStore((state) => state.defaultStopLoss);
+  const setDefaultTpSl = usePreferencesStore((state) => state.setDefaultTpSl);
+  const defaultTimeframe = usePreferencesStore((state) => state.defaultTimeframe);
+  const undoWindowSeconds = usePreferencesStore((state) => state.undoWindowSeconds);
+  const defaultSlippage = usePreferencesStore((state) => state.defaultSlippage);
+  const reswipeWindowHours = usePreferencesStore((state) => state.reswipeWindowHours);
+  const deckFilters = usePreferencesStore((state) => state.deckFilters);
+  const setDeckFilters = usePreferencesStore((state) => state.setDeckFilters);
+  const activeFilterCount = countActiveDeckFilters(deckFilters);
+  const { direction: directionFilter, maxLeverage: maxLeverageFilter } = deckFilters;
+  const filtersKey = JSON.stringify(deckFilters);
+
+  const deckProgress = useDeckStore((state) => (address ? state.decks[address.toLowerCase()] : undefined));
+  const markSwiped = useDeckStore((state) => state.markSwiped);
+  const unmarkSwiped = useDeckStore((state) => state.unmarkSwiped);
+  const addToWatchlist = useWatchlistStore((state) => state.addItem);
+  const saveUpcoming = useDeckStore((state) => state.saveUpcoming);
+  const clearSeen = useDeckStore((state) => state.clearSeen);
+  const session = getActiveSession(deckProgress);
+  const stats = { taken: session.taken, skipped: session.skipped };
+  const rankingWeights = usePreferencesStore((state) => state.rankingWeights);
+  // Read at ranking time, so new journal entries don't reshuffle the deck mid-swipe
+  const rankingRef = useRef({ weights: rankingWeights, context: rankingContext });
+  rankingRef.current = { weights: rankingWeights, context: rankingContext };
+
+  /**
+   * Rank new cards in with everything not yet on top of the deck
+   */
+  const rankDeck = useCallback((deck: TradeCard[], added: TradeCard[] = []) => {
+    // The card on top (if any) stays put; so does everything already swiped
+    const fixedCount = Math.min(deck.length, currentIndexRef.current + 1);
+    const { weights, context } = rankingRef.current;
+    return rankUpcomingCards([...deck, ...added], fixedCount, weights, context);
+  }, []);
+
+  const defaultTpSl = useMemo<TpSlSettings>(
+    () => ({ takeProfit: defaultTakeProfit, stopLoss: defaultStopLoss }),
+    [defaultTakeProfit, defaultStopLoss]
+  );
+
+  const getTpSl = useCallback(
+    (tradeId: string) => tpSlOverrides[tradeId] ?? defaultTpSl,
+    [tpSlOverrides, defaultTpSl]
+  );
 
   const {
     data: marketsData,
@@ -135,7 +278,7 @@ export default function SwipePage() {
     fetchNextPage,
     hasNextPage,
     isFetchingNextPage,
-  } = useMarkets();
+  } = useMarkets(deckFilters);
 
   // Flatten all pages into a single array of markets
   const allMarkets = useMemo(() => {
@@ -160,19 +303,60 @@ export default function SwipePage() {
     }
   }, [currentIndex, tradesWithCandles.length, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
+  // Resume the cards dealt last time, if they're recent and under the same filters
+  useEffect(() => {
+    if (!address || deckRestored) return;
+
+    const saved = useDeckStore.getState().decks[address.toLowerCase()];
+    if (
+      saved &&
+      saved.upcoming.length > 0 &&
+      saved.upcomingFiltersKey === filtersKey &&
+      Date.now() - saved.savedAt < DECK_RESUME_TTL_MS
+    ) {
+      setTradesWithCandles(saved.upcoming);
+      setProcessedMarketIds(new Set(saved.upcoming.map(getMarketKey)));
+    }
+    setDeckRestored(true);
+  }, [address, deckRestored, filtersKey]);
+
+  // Save the cards still to swipe, so a reload picks up from the top card
+  useEffect(() => {
+    if (!address || !deckRestored) return;
+    saveUpcoming(address, tradesWithCandles.slice(currentIndex), filtersKey);
+  }, [address, deckRestored, tradesWithCandles, currentIndex, filtersKey, saveUpcoming]);
+
   // Process new markets: generate AI trade ideas + fetch candles
   useEffect(() => {
     async function processNewMarkets() {
+      if (!deckRestored || isProcessing) {
+        return;
+      }
+
       // Find markets we haven't processed yet
-      const unprocessedMarkets = allMarkets.filter(
-        (m, i) => !processedMarketIds.has(`${m.displayName}-${i}`)
-      );
+      const unprocessedMarkets = allMarkets.filter((m) => !processedMarketIds.has(getMarketKey(m)));
+      if (unprocessedMarkets.length === 0) {
+        return;
+      }
 
-      if (unprocessedMarkets.length === 0 || isProcessing) {
+      // Markets swiped within the re-swipe window are passed over without an AI call
+      const seenMarkets = address ? useDeckStore.getState().decks[address.toLowerCase()]?.seenMarkets ?? {} : {};
+      const windowMs = reswipeWindowHours * 60 * 60 * 1000;
+      const now = Date.now();
+      const isRecentlySwiped = (m: PearMarket) => {
+        const swipedAt = seenMarkets[getMarketKey(m)];
+        return windowMs > 0 && swipedAt !== undefined && now - swipedAt < windowMs;
+      };
+      const recentlySwiped = unprocessedMarkets.filter(isRecentlySwiped);
+      if (recentlySwiped.length > 0) {
+        setRecentlySwipedCount((prev) => prev + recentlySwiped.length);
+        setProcessedMarketIds((prev) => new Set([...prev, ...recentlySwiped.map(getMarketKey)]));
         return;
       }
 
       const newMarkets = unprocessedMarkets.slice(0, AI_BATCH_SIZE);
+      const constraints: TradeIdeaConstraints = { direction: directionFilter, maxLeverage: maxLeverageFilter };
+      const generation = deckGenerationRef.current;
 
       setIsProcessing(true);
 
@@ -182,7 +366,7 @@ export default function SwipePage() {
           const aiResponse = await fetch('/api/ai/generate-trades', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ markets: newMarkets }),
+            body: JSON.stringify({ markets: newMarkets, constraints }),
           });
 
           if (aiResponse.ok) {
@@ -205,44 +389,33 @@ export default function SwipePage() {
           const idea = ideasByIndex.get(localIndex);
 
           if (idea) {
-            return transformToTradeCard(market, idea, globalIndex);
+            return transformToTradeCard(market, idea, globalIndex, defaultTimeframe);
           }
-          return transformToFallbackTradeCard(market, globalIndex);
+          return transformToFallbackTradeCard(market, globalIndex, defaultTimeframe, constraints);
         });
 
         // Fetch candles for each trade
         const tradesWithCandleData = await Promise.all(
           tradesWithoutCandles.map(async (trade) => {
             try {
-              const res = await fetch('/api/candles', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  coin: trade.ticker,
-                  interval: trade.timeframe,
-                }),
-              });
-              const data = await res.json();
-              return {
-                ...trade,
-                candles: data.candles || [],
-              } as TradeCard;
+              const candles = await fetchCardCandles(trade, trade.timeframe);
+              return { ...trade, candles } as TradeCard;
             } catch {
               return { ...trade, candles: [] } as TradeCard;
             }
           })
         );
 
+        // Filters changed while this batch was in flight
+        if (generation !== deckGenerationRef.current) {
+          return;
+        }
+
         // Update processed IDs
-        const newProcessedIds = new Set(processedMarketIds);
-        newMarkets.forEach((m) => {
-          const globalIndex = allMarkets.indexOf(m);
-          newProcessedIds.add(`${m.displayName}-${globalIndex}`);
-        });
-        setProcessedMarketIds(newProcessedIds);
+        setProcessedMarketIds((prev) => new Set([...prev, ...newMarkets.map(getMarketKey)]));
 
-        // Add to trades
-        setTradesWithCandles((prev) => [...prev, ...tradesWithCandleData]);
+        // Add to trades, ranked in with the cards still to come
+        setTradesWithCandles((prev) => rankDeck(prev, tradesWithCandleData));
       } catch (error) {
         console.error('Error processing markets:', error);
       } finally {
@@ -251,78 +424,317 @@ export default function SwipePage() {
     }
 
     processNewMarkets();
-  }, [allMarkets, processedMarketIds, isProcessing]);
+  }, [allMarkets, processedMarketIds, isProcessing, deckRestored, address, reswipeWindowHours, defaultTimeframe, directionFilter, maxLeverageFilter, rankDeck]);
 
-  const executePosition = useCallback(async (trade: TradeCard) => {
-    if (!pearAccessToken) {
+  // Re-rank the upcoming cards when the weights change
+  useEffect(() => {
+    setTradesWithCandles((prev) => rankDeck(prev));
+  }, [rankingWeights, rankDeck]);
+
+  /**
+   * @param interactive - false once the page is gone: orders needing a prompt are dropped with a toast
+   */
+  const executePosition = useCallback(async (
+    trade: TradeCard,
+    order: OrderTicket,
+    interactive = true
+  ): Promise<ExecutionResult> => {
+    if (!address) {
       setTradeResult({ status: 'error', message: 'Not authenticated' });
-      return false;
+      return { success: false, error: 'Not authenticated' };
     }
 
     setIsExecuting(true);
     setTradeResult({ status: 'executing' });
 
     try {
-      const response = await fetch('/api/positions/create', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${pearAccessToken}`,
-        },
-        body: JSON.stringify({
-          longAssets: trade.longAssets || [],
-          shortAssets: trade.shortAssets || [],
-          usdValue: size,
-          leverage: trade.leverage,
-          direction: trade.direction,
-          positionType: trade.positionType || 'one_directional',
-        }),
+      const result = await placeOrder({ address, trade, order }, { interactive });
+      setTradeResult({
+        status: 'success',
+        title: ORDER_PLACED_TITLES[order.orderType],
+        message: `Order ${result.orderId}`,
+        note: result.leverageCapped ? `Leverage capped at ${result.leverage}x` : undefined,
       });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        setTradeResult({ status: 'error', message: result.error || 'Trade failed' });
-        return false;
-      }
-
-      setTradeResult({ status: 'success', message: `Order ${result.orderId}` });
-      return true;
+      return { success: true, orderId: result.orderId, fills: result.fills, sizeUsd: result.sizeUsd };
     } catch (error) {
+      if (error instanceof OrderCancelledError) {
+        if (!interactive) {
+          showToast(`${trade.tagline}: not sent, the order needs your confirmation`, 'error');
+        }
+        setTradeResult({ status: 'error', message: 'Order cancelled' });
+        return { success: false, error: error.message };
+      }
       console.error('Trade execution error:', error);
-      setTradeResult({ status: 'error', message: 'Trade failed' });
-      return false;
+      const message = error instanceof Error ? error.message : 'Trade failed';
+      const riskCode = error instanceof RiskLimitError ? error.code : undefined;
+      setTradeResult({ status: 'error', message, riskCode });
+      return { success: false, error: message };
     } finally {
       setIsExecuting(false);
       // Clear result after 3 seconds
       setTimeout(() => setTradeResult({ status: 'idle' }), 3000);
     }
-  }, [pearAccessToken, size]);
+  }, [address, placeOrder, showToast]);
 
-  const handleSwipe = async (direction: 'left' | 'right') => {
+  const journalSwipe = (
+    trade: TradeCard,
+    decision: 'taken' | 'skipped',
+    sizeUsd: number,
+    result?: ExecutionResult
+  ) => {
+    if (!address) {
+      return;
+    }
+    recordSwipe.mutate(
+      {
+        address,
+        decision,
+        card: toCardSnapshot(trade),
+        sizeUsd,
+        orderId: result?.orderId ?? null,
+        fills: result?.fills ?? null,
+        error: result && !result.success ? result.error ?? 'Trade failed' : null,
+      },
+      { onError: (error) => console.error('Failed to record swipe:', error) }
+    );
+  };
+
+  const commitSwipe = async (pending: PendingSwipe, interactive = true) => {
+    const openedAt = Date.now();
+    const result = await executePosition(pending.trade, pending.order, interactive);
+    // Failed orders are still journaled as taken, with the rejection reason
+    journalSwipe(pending.trade, 'taken', result.sizeUsd ?? pending.order.sizeUsd, result);
+    // Resting orders (limit, TWAP, ladder) have no position to close yet
+    if (result.success && pending.order.orderType === 'MARKET') {
+      setOpenedSwipe({
+        trade: pending.trade,
+        openedAt,
+        order: {
+          orderId: result.orderId ?? null,
+          fills: result.fills ?? null,
+          sizeUsd: result.sizeUsd ?? pending.order.sizeUsd,
+        },
+        closeableUntil: Date.now() + CLOSE_OFFER_MS,
+      });
+    }
+  };
+
+  // Latest commitSwipe for timers and unmount, which would otherwise see stale state
+  const commitSwipeRef = useRef(commitSwipe);
+  commitSwipeRef.current = commitSwipe;
+
+  /**
+   * Send the queued swipe now, if there is one
+   */
+  const flushPendingSwipe = useCallback((interactive = true) => {
+    const pending = pendingSwipeRef.current;
+    if (!pending) return;
+    pendingSwipeRef.current = null;
+    setPendingSwipe(null);
+    commitSwipeRef.current(pending, interactive);
+  }, []);
+
+  // Send the queued swipe when its undo window ends
+  useEffect(() => {
+    if (!pendingSwipe) return;
+    const timer = setTimeout(flushPendingSwipe, Math.max(0, pendingSwipe.executeAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [pendingSwipe, flushPendingSwipe]);
+
+  // Leaving the page doesn't cancel a swipe the user made, but nothing can
+  // prompt for it any more: one needing confirmation is dropped with a toast
+  useEffect(() => () => flushPendingSwipe(false), [flushPendingSwipe]);
+
+  /**
+   * The order a plain right-swipe sends: global size, card leverage and direction
+   */
+  const getDefaultOrder = (trade: TradeCard): OrderTicket => ({
+    sizeUsd: size,
+    leverage: trade.leverage,
+    direction: trade.direction,
+    tpSl: getTpSl(trade.id),
+    orderType: 'MARKET',
+    limitPrice: null,
+    twap: null,
+    ladder: null,
+    slippage: defaultSlippage,
+  });
+
+  /**
+   * @param order - Order ticket from a swipe-up; right-swipes use the card defaults
+   */
+  const handleSwipe = async (direction: 'left' | 'right', order?: OrderTicket) => {
     const currentTrade = remainingTrades[0];
 
+    // Only the last swipe can be undone; a new one commits the queued order
+    flushPendingSwipe();
+    setOpenedSwipe(null);
+
+    if (currentTrade && address) {
+      markSwiped(address, getMarketKey(currentTrade), direction === 'right' ? 'taken' : 'skipped');
+    }
+
     if (direction === 'right' && currentTrade) {
-      const success = await executePosition(currentTrade);
-      if (success) {
-        setStats((prev) => ({ ...prev, taken: prev.taken + 1 }));
+      const ticket = order ?? getDefaultOrder(currentTrade);
+      const pending: PendingSwipe = {
+        trade: applyOrderTicket(currentTrade, ticket),
+        order: ticket,
+        executeAt: Date.now() + undoWindowSeconds * 1000,
+      };
+      if (undoWindowSeconds > 0) {
+        pendingSwipeRef.current = pending;
+        setPendingSwipe(pending);
       } else {
-        // Still count as attempted even if failed
-        setStats((prev) => ({ ...prev, taken: prev.taken + 1 }));
+        await commitSwipe(pending);
       }
-    } else {
-      setStats((prev) => ({ ...prev, skipped: prev.skipped + 1 }));
+    } else if (currentTrade) {
+      journalSwipe(currentTrade, 'skipped', size);
     }
     setCurrentIndex((prev) => prev + 1);
   };
 
-  const loading = marketsLoading || (isProcessing && tradesWithCandles.length === 0);
+  /**
+   * Swipe down: park the top card on the watchlist and move on
+   */
+  const handleSave = () => {
+    const currentTrade = remainingTrades[0];
+    if (!currentTrade) return;
+
+    flushPendingSwipe();
+    setOpenedSwipe(null);
+
+    if (address) {
+      const marketKey = getMarketKey(currentTrade);
+      addToWatchlist(address, marketKey, toCardSnapshot(currentTrade));
+      markSwiped(address, marketKey, 'saved');
+    }
+    setCurrentIndex((prev) => prev + 1);
+    setTradeResult({ status: 'success', title: 'Saved to watchlist' });
+    setTimeout(() => setTradeResult({ status: 'idle' }), 3000);
+  };
+
+  const handleTicketSubmit = (order: OrderTicket) => {
+    setTicketTradeId(null);
+    handleSwipe('right', order);
+  };
+
+  /**
+   * Put the queued card back on top of the deck
+   */
+  const handleUndoPending = () => {
+    const pending = pendingSwipeRef.current;
+    if (!pending) return;
+    if (address) {
+      unmarkSwiped(address, getMarketKey(pending.trade), 'taken');
+    }
+    pendingSwipeRef.current = null;
+    setPendingSwipe(null);
+    // Any later swipe would have flushed the queue, so the card is the previous one
+    setCurrentIndex((prev) => Math.max(0, prev - 1));
+  };
+
+  /**
+   * Save new filters and redeal the deck from the first filtered market
+   */
+  const handleApplyFilters = (filters: DeckFilters) => {
+    setShowFilters(false);
+    if (JSON.stringify(filters) === filtersKey) return;
+
+    // The queued swipe's card is about to leave the deck, so send it now
+    flushPendingSwipe();
+    deckGenerationRef.current += 1;
+    setDeckFilters(filters);
+    setTradesWithCandles([]);
+    setProcessedMarketIds(new Set());
+    setRecentlySwipedCount(0);
+    setCurrentIndex(0);
+  };
+
+  /**
+   * Forget swiped markets and deal the whole list again
+   */
+  const handleShowSwipedAgain = () => {
+    if (!address) return;
+    clearSeen(address);
+    deckGenerationRef.current += 1;
+    setTradesWithCandles([]);
+    setProcessedMarketIds(new Set());
+    setRecentlySwipedCount(0);
+    setCurrentIndex(0);
+  };
+
+  const dismissOpenedSwipe = useCallback(() => setOpenedSwipe(null), []);
+
+  const handleCloseOpened = async () => {
+    if (!openedSwipe) return;
+    try {
+      await closeSwipedPosition.mutateAsync({
+        card: toCardSnapshot(openedSwipe.trade),
+        openedAt: openedSwipe.openedAt,
+        order: openedSwipe.order,
+      });
+      setOpenedSwipe(null);
+      setTradeResult({ status: 'success', title: 'Position closed' });
+    } catch (error) {
+      setOpenedSwipe(null);
+      setTradeResult({ status: 'error', message: error instanceof Error ? error.message : 'Failed to close position' });
+    } finally {
+      setTimeout(() => setTradeResult({ status: 'idle' }), 3000);
+    }
+  };
+
+  const loading = marketsLoading || !deckRestored || (isProcessing && tradesWithCandles.length === 0);
 
   const remainingTrades = useMemo(() => {
     return tradesWithCandles.slice(currentIndex);
   }, [tradesWithCandles, currentIndex]);
 
+  const ticketTrade = ticketTradeId && remainingTrades[0]?.id === ticketTradeId ? remainingTrades[0] : null;
+
+  const detailTrade = detailTradeId
+    ? tradesWithCandles.find((t) => t.id === detailTradeId) ?? null
+    : null;
+
   const isFinished = !loading && currentIndex >= tradesWithCandles.length && tradesWithCandles.length > 0 && !hasNextPage;
+  const topTrade = remainingTrades[0] ?? null;
+  const isSheetOpen = !!ticketTrade || !!detailTrade || showFilters || !!adjustmentPrompt || !!topUpPrompt;
+
+  useSwipeKeyboard(
+    {
+      onSkip: () => handleSwipe('left'),
+      onTake: () => handleSwipe('right'),
+      onCustomOrder: () => topTrade && setTicketTradeId(topTrade.id),
+      onSave: handleSave,
+      onUndo: () => (pendingSwipe ? handleUndoPending() : openedSwipe && handleCloseOpened()),
+      onDetails: () => topTrade && setDetailTradeId(topTrade.id),
+    },
+    !loading && !isFinished && !!topTrade && !isSheetOpen && !isExecuting
+  );
+
+  // Escape closes whichever sheet is open
+  useEffect(() => {
+    if (!isSheetOpen) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      setTicketTradeId(null);
+      setDetailTradeId(null);
+      setShowFilters(false);
+      resolveAdjustments(false);
+      resolveTopUp(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isSheetOpen, resolveAdjustments, resolveTopUp]);
+
+  // Keep keyboard focus on the top card as the deck advances or a sheet closes,
+  // without stealing it from controls elsewhere on the page
+  const topTradeId = topTrade?.id;
+  useEffect(() => {
+    if (isSheetOpen || !topTradeId) return;
+    const active = document.activeElement;
+    if (active && active !== document.body && !deckRef.current?.contains(active)) return;
+    deckRef.current?.querySelector<HTMLElement>('[data-top-card="true"]')?.focus({ preventScroll: true });
+  }, [topTradeId, isSheetOpen]);
 
   if (authStatus !== 'ready_to_trade') {
     return (
@@ -359,28 +771,79 @@ export default function SwipePage() {
       <Header />
 
       <main className="flex-1 flex flex-col max-w-md mx-auto w-full px-4 py-6">
+        {/* Undo the last right-swipe */}
+        {pendingSwipe ? (
+          <UndoSwipeBanner
+            key={pendingSwipe.trade.id}
+            tagline={pendingSwipe.trade.tagline}
+            mode="queued"
+            deadline={pendingSwipe.executeAt}
+            onUndo={handleUndoPending}
+            onExpire={flushPendingSwipe}
+          />
+        ) : openedSwipe && (
+          <UndoSwipeBanner
+            key={openedSwipe.trade.id}
+            tagline={openedSwipe.trade.tagline}
+            mode="opened"
+            deadline={openedSwipe.closeableUntil}
+            isClosing={closeSwipedPosition.isPending}
+            onUndo={handleCloseOpened}
+            onExpire={dismissOpenedSwipe}
+          />
+        )}
+
+        {/* Screen reader announcement for the card on top */}
+        <div className="sr-only" aria-live="polite" aria-atomic="true">
+          {topTrade && !loading && !isSheetOpen
+            ? `Card ${currentIndex + 1}${hasNextPage ? '' : ` of ${tradesWithCandles.length}`}. ${describeTradeCard(topTrade, size)}`
+            : ''}
+        </div>
+
         {/* Trade result toast */}
         {tradeResult.status !== 'idle' && (
-          <div className={`mb-4 px-4 py-2 rounded-lg text-center text-sm font-medium ${
+          <div
+            role={tradeResult.status === 'error' ? 'alert' : 'status'}
+            aria-live={tradeResult.status === 'error' ? 'assertive' : 'polite'}
+            className={`mb-4 px-4 py-2 rounded-lg text-center text-sm font-medium ${
             tradeResult.status === 'executing' ? 'bg-yellow-500/20 text-yellow-400' :
             tradeResult.status === 'success' ? 'bg-green-500/20 text-green-400' :
             'bg-red-500/20 text-red-400'
-          }`}>
+          }`}
+          >
             {tradeResult.status === 'executing' ? 'Executing trade...' :
-             tradeResult.status === 'success' ? `Trade executed!` :
+             tradeResult.status === 'success' ? `${tradeResult.title ?? 'Trade executed!'}${tradeResult.note ? ` ${tradeResult.note}` : ''}` :
              tradeResult.message || 'Trade failed'}
+            {tradeResult.riskCode && (
+              <Link href="/settings" className="block mt-1 text-xs underline text-red-300 hover:text-red-200">
+                Review risk limits
+              </Link>
+            )}
           </div>
         )}
 
-        {/* Stats bar */}
+        {/* Stats bar - this session; all-time totals are on History */}
         <div className="flex justify-between items-center mb-4">
-          <div className="flex items-center gap-2">
+          <div className="flex items-center gap-2" title="This session">
             <span className="text-green-400 font-medium">{stats.taken} taken</span>
             <span className="text-gray-600">|</span>
             <span className="text-red-400 font-medium">{stats.skipped} skipped</span>
           </div>
-          <div className="text-gray-500 text-sm">
-            {loading ? 'Loading...' : isFetchingNextPage || isProcessing ? 'Loading more...' : ""}
+          <div className="flex items-center gap-3">
+            <span className="text-gray-500 text-sm">
+              {loading ? 'Loading...' : isFetchingNextPage || isProcessing ? 'Loading more...' : ""}
+            </span>
+            <button
+              type="button"
+              onClick={() => setShowFilters(true)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                activeFilterCount > 0
+                  ? 'bg-primary-500/20 text-primary-400'
+                  : 'bg-dark-700 text-gray-400 hover:bg-dark-600'
+              }`}
+            >
+              Filters{activeFilterCount > 0 ? ` · ${activeFilterCount}` : ''}
+            </button>
           </div>
         </div>
 
@@ -403,7 +866,7 @@ export default function SwipePage() {
         </div>
 
         {/* Card stack */}
-        <div className="flex-1 relative min-h-[500px]">
+        <div ref={deckRef} className="flex-1 relative min-h-[500px]" aria-label="Trade cards">
           {loading ? (
             <div className="absolute inset-0 flex flex-col items-center justify-center">
               <div className="w-12 h-12 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mb-4" />
@@ -421,6 +884,15 @@ export default function SwipePage() {
               <p className="text-gray-500 text-sm">
                 Check back later for new markets
               </p>
+              {recentlySwipedCount > 0 && (
+                <button
+                  type="button"
+                  onClick={handleShowSwipedAgain}
+                  className="mt-4 text-primary-400 hover:text-primary-300 text-sm underline"
+                >
+                  Show {recentlySwipedCount} recently swiped again
+                </button>
+              )}
             </div>
           ) : remainingTrades.length === 0 && !hasNextPage ? (
             <div className="absolute inset-0 flex flex-col items-center justify-center text-center">
@@ -429,8 +901,35 @@ export default function SwipePage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
                 </svg>
               </div>
-              <h2 className="text-xl font-bold text-white mb-2">No markets available</h2>
-              <p className="text-gray-400">Check back later for new trading opportunities.</p>
+              {recentlySwipedCount > 0 ? (
+                <>
+                  <h2 className="text-xl font-bold text-white mb-2">You&apos;ve swiped every market recently</h2>
+                  <p className="text-gray-400 mb-2">Swiped markets come back after the window set in Settings.</p>
+                  <button
+                    type="button"
+                    onClick={handleShowSwipedAgain}
+                    className="text-primary-400 hover:text-primary-300 text-sm underline"
+                  >
+                    Show them again
+                  </button>
+                </>
+              ) : activeFilterCount > 0 ? (
+                <>
+                  <h2 className="text-xl font-bold text-white mb-2">No markets match your filters</h2>
+                  <button
+                    type="button"
+                    onClick={() => setShowFilters(true)}
+                    className="text-primary-400 hover:text-primary-300 text-sm underline"
+                  >
+                    Adjust filters
+                  </button>
+                </>
+              ) : (
+                <>
+                  <h2 className="text-xl font-bold text-white mb-2">No markets available</h2>
+                  <p className="text-gray-400">Check back later for new trading opportunities.</p>
+                </>
+              )}
             </div>
           ) : (
             <>
@@ -441,6 +940,10 @@ export default function SwipePage() {
                   size={size}
                   isTop={index === 0}
                   onSwipe={handleSwipe}
+                  onSwipeUp={() => setTicketTradeId(trade.id)}
+                  onSwipeDown={handleSave}
+                  tpSl={getTpSl(trade.id)}
+                  onOpenDetails={() => setDetailTradeId(trade.id)}
                 />
               ))}
             </>
@@ -453,15 +956,41 @@ export default function SwipePage() {
             <button
               onClick={() => handleSwipe('left')}
               disabled={isExecuting}
+              aria-label="Skip"
+              aria-keyshortcuts="ArrowLeft J"
               className="w-16 h-16 rounded-full bg-dark-800 border-2 border-red-500/50 flex items-center justify-center text-red-400 hover:bg-red-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
             </button>
+            <button
+              onClick={() => remainingTrades[0] && setTicketTradeId(remainingTrades[0].id)}
+              disabled={isExecuting}
+              aria-label="Custom order"
+              aria-keyshortcuts="ArrowUp"
+              className="w-12 h-12 self-center rounded-full bg-dark-800 border-2 border-primary-500/50 flex items-center justify-center text-primary-400 hover:bg-primary-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+              </svg>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isExecuting}
+              aria-label="Save to watchlist"
+              aria-keyshortcuts="ArrowDown S"
+              className="w-12 h-12 self-center rounded-full bg-dark-800 border-2 border-yellow-500/50 flex items-center justify-center text-yellow-400 hover:bg-yellow-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+              </svg>
+            </button>
             <button
               onClick={() => handleSwipe('right')}
               disabled={isExecuting}
+              aria-label="Take trade"
+              aria-keyshortcuts="ArrowRight K"
               className="w-16 h-16 rounded-full bg-dark-800 border-2 border-green-500/50 flex items-center justify-center text-green-400 hover:bg-green-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isExecuting ? (
@@ -474,7 +1003,74 @@ export default function SwipePage() {
             </button>
           </div>
         )}
+
+        {/* Keyboard hint, hidden on touch-only screens */}
+        {!loading && !isFinished && remainingTrades.length > 0 && (
+          <p className="hidden md:block mt-3 text-center text-xs text-gray-600" aria-hidden="true">
+            ← / J skip · → / K take · ↑ custom · ↓ / S save · U undo · D details
+          </p>
+        )}
       </main>
+
+      {/* Order ticket - swipe up for custom size, leverage and order type */}
+      {ticketTrade && (
+        <OrderTicketSheet
+          key={ticketTrade.id}
+          trade={ticketTrade}
+          initial={getDefaultOrder(ticketTrade)}
+          sizeOptions={SIZE_OPTIONS}
+          onSubmit={handleTicketSubmit}
+          onClose={() => setTicketTradeId(null)}
+        />
+      )}
+
+      {/* Deck filters */}
+      {showFilters && (
+        <DeckFiltersSheet
+          filters={deckFilters}
+          onApply={handleApplyFilters}
+          onClose={() => setShowFilters(false)}
+        />
+      )}
+
+      {/* Card detail sheet - per-card TP/SL */}
+      {detailTrade && (
+        <CardDetailSheet
+          key={detailTrade.id}
+          trade={detailTrade}
+          size={size}
+          tpSl={getTpSl(detailTrade.id)}
+          onApply={(settings) => {
+            setTpSlOverrides((prev) => ({ ...prev, [detailTrade.id]: settings }));
+            setDetailTradeId(null);
+          }}
+          onSaveDefault={(settings) => {
+            setDefaultTpSl(settings.takeProfit, settings.stopLoss);
+            setDetailTradeId(null);
+          }}
+          onClose={() => setDetailTradeId(null)}
+        />
+      )}
+
+      {/* Size/leverage changes to confirm before an order is resent */}
+      {adjustmentPrompt && (
+        <ConfirmAdjustmentsSheet
+          tagline={adjustmentPrompt.tagline}
+          warnings={adjustmentPrompt.warnings}
+          onConfirm={() => resolveAdjustments(true)}
+          onCancel={() => resolveAdjustments(false)}
+        />
+      )}
+
+      {/* Spot → perps top-up to confirm before an order is resent */}
+      {topUpPrompt && (
+        <TopUpPerpsSheet
+          tagline={topUpPrompt.tagline}
+          margin={topUpPrompt.margin}
+          onConfirm={(alwaysTopUp) => resolveTopUp(true, alwaysTopUp)}
+          onCancel={() => resolveTopUp(false)}
+        />
+      )}
     </div>
   );
 }
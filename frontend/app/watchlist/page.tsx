@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import { Header } from '@/components/Header';
+import { WatchlistItemCard } from '@/components/WatchlistItemCard';
+import { ConfirmAdjustmentsSheet } from '@/components/ConfirmAdjustmentsSheet';
+import { TopUpPerpsSheet } from '@/components/TopUpPerpsSheet';
+import { getMarketKey } from '@/lib/market-utils';
+import { SIZE_OPTIONS } from '@/lib/orders';
+import { useUserStore } from '@/store/userStore';
+import { usePreferencesStore } from '@/store/preferencesStore';
+import { useWatchlistStore } from '@/store/watchlistStore';
+import { useWatchlistMarkets } from '@/hooks/useWatchlistMarkets';
+import { OrderCancelledError, useCardOrder } from '@/hooks/useCardOrder';
+import { useRecordSwipe } from '@/hooks/useJournal';
+import type { TradeCardSnapshot, WatchlistItem } from '@/types/trade';
+
+const NO_ITEMS: WatchlistItem[] = [];
+
+type TradeToast = { status: 'success' | 'error'; message: string } | null;
+
+export default function WatchlistPage() {
+  const router = useRouter();
+  const { isConnected, address } = useAccount();
+  const getAuthStatus = useUserStore((state) => state.getAuthStatus);
+  const authStatus = getAuthStatus(isConnected);
+
+  const [size, setSize] = useState<number>(SIZE_OPTIONS[0]);
+  const [tradingKey, setTradingKey] = useState<string | null>(null);
+  const [toast, setToast] = useState<TradeToast>(null);
+
+  const items = useWatchlistStore((state) => (address ? state.watchlists[address.toLowerCase()] : undefined)) ?? NO_ITEMS;
+  const removeItem = useWatchlistStore((state) => state.removeItem);
+  const defaultTakeProfit = usePreferencesStore((state) => state.defaultTakeProfit);
+  const defaultStopLoss = usePreferencesStore((state) => state.defaultStopLoss);
+  const defaultSlippage = usePreferencesStore((state) => state.defaultSlippage);
+
+  const keys = useMemo(() => items.map((item) => item.key), [items]);
+  const { data: markets, isLoading: isLoadingMarkets } = useWatchlistMarkets(keys);
+  const marketsByKey = useMemo(
+    () => new Map((markets ?? []).map((market) => [getMarketKey(market), market])),
+    [markets]
+  );
+
+  const { placeOrder, adjustmentPrompt, topUpPrompt, resolveAdjustments, resolveTopUp } = useCardOrder();
+  const recordSwipe = useRecordSwipe();
+
+  // Auth redirect
+  useEffect(() => {
+    if (authStatus !== 'ready_to_trade') {
+      router.replace('/auth');
+    }
+  }, [authStatus, router]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), 3000);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const handleTrade = async (key: string, card: TradeCardSnapshot) => {
+    if (!address) return;
+    setTradingKey(key);
+    try {
+      const result = await placeOrder({
+        address,
+        trade: card,
+        order: {
+          sizeUsd: size,
+          leverage: card.leverage,
+          direction: card.direction,
+          tpSl: { takeProfit: defaultTakeProfit, stopLoss: defaultStopLoss },
+          orderType: 'MARKET',
+          limitPrice: null,
+          twap: null,
+          ladder: null,
+          slippage: defaultSlippage,
+        },
+      });
+      recordSwipe.mutate(
+        { address, decision: 'taken', card, sizeUsd: result.sizeUsd, orderId: result.orderId, fills: result.fills },
+        { onError: (error) => console.error('Failed to record trade:', error) }
+      );
+      setToast({
+        status: 'success',
+        message: result.leverageCapped ? `Position opened. Leverage capped at ${result.leverage}x` : 'Position opened',
+      });
+    } catch (error) {
+      // Declined before anything was placed; nothing to record
+      if (error instanceof OrderCancelledError) return;
+      const message = error instanceof Error ? error.message : 'Trade failed';
+      recordSwipe.mutate(
+        { address, decision: 'taken', card, sizeUsd: size, error: message },
+        { onError: (err) => console.error('Failed to record trade:', err) }
+      );
+      setToast({ status: 'error', message });
+    } finally {
+      setTradingKey(null);
+    }
+  };
+
+  if (authStatus !== 'ready_to_trade') {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1 flex items-center justify-center">
+          <div className="text-gray-400">Redirecting to setup...</div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-1 flex flex-col max-w-md mx-auto w-full px-4 py-6">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-xl font-bold text-white">Watchlist</h1>
+          <span className="text-xs text-gray-500">{items.length} saved</span>
+        </div>
+
+        {toast && (
+          <div
+            role={toast.status === 'error' ? 'alert' : 'status'}
+            className={`mb-4 px-4 py-2 rounded-lg text-center text-sm font-medium ${
+              toast.status === 'success' ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+            }`}
+          >
+            {toast.message}
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <div className="w-20 h-20 rounded-full bg-primary-500/20 flex items-center justify-center mb-4">
+              <span className="text-4xl">🔖</span>
+            </div>
+            <h2 className="text-xl font-bold text-white mb-2">Nothing saved yet</h2>
+            <p className="text-gray-400 mb-6">Swipe a card down to save it for later.</p>
+            <Link
+              href="/swipe"
+              className="px-6 py-3 bg-primary-500 hover:bg-primary-600 rounded-xl font-medium text-white transition-colors"
+            >
+              Start Swiping
+            </Link>
+          </div>
+        ) : (
+          <>
+            {/* Size selector */}
+            <div className="flex items-center justify-center gap-2 mb-4">
+              <span className="text-xs text-gray-500 mr-2">Size:</span>
+              {SIZE_OPTIONS.map((s) => (
+                <button
+                  key={s}
+                  onClick={() => setSize(s)}
+                  className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                    size === s
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-dark-700 text-gray-400 hover:bg-dark-600'
+                  }`}
+                >
+                  ${s}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              {items.map((item) => (
+                <WatchlistItemCard
+                  key={item.key}
+                  item={item}
+                  market={marketsByKey.get(item.key) ?? null}
+                  isLoadingMarket={isLoadingMarkets}
+                  sizeUsd={size}
+                  isTrading={tradingKey === item.key}
+                  onTrade={(card) => handleTrade(item.key, card)}
+                  onRemove={() => address && removeItem(address, item.key)}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+
+      {adjustmentPrompt && (
+        <ConfirmAdjustmentsSheet
+          tagline={adjustmentPrompt.tagline}
+          warnings={adjustmentPrompt.warnings}
+          onConfirm={() => resolveAdjustments(true)}
+          onCancel={() => resolveAdjustments(false)}
+        />
+      )}
+
+      {topUpPrompt && (
+        <TopUpPerpsSheet
+          tagline={topUpPrompt.tagline}
+          margin={topUpPrompt.margin}
+          onConfirm={(alwaysTopUp) => resolveTopUp(true, alwaysTopUp)}
+          onCancel={() => resolveTopUp(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,48 @@
 'use client';
 
+import { useState } from 'react';
 import { useAccount } from 'wagmi';
-import { useVaultBalance } from '@/hooks/useVault';
-import { useHyperliquidBalance } from '@/hooks/useHyperliquidBalance';
+import { useVaultBalance, useVaultHistory } from '@/hooks/useVault';
+import { useLiveHyperliquidBalance } from '@/hooks/useHyperliquidBalance';
+import { useBridgeDeposits } from '@/hooks/useBridgeDeposits';
+import { BridgeDepositProgress } from '@/components/BridgeDepositProgress';
+import { useBridgeWithdrawals } from '@/hooks/useBridgeWithdrawals';
+import { useWithdrawal } from '@/hooks/useWithdrawal';
+import { BridgeWithdrawalProgress } from '@/components/BridgeWithdrawalProgress';
+import { SpotPerpsTransfer } from '@/components/SpotPerpsTransfer';
 import { useUserStore } from '@/store/userStore';
 import { BTC_PRICE_USD } from '@/types';
+import type { VaultLedgerSource } from '@/types';
+
+const SOURCE_LABELS: Record<VaultLedgerSource, string> = {
+  lightning: '⚡ Lightning',
+  lifi: '🔀 Li.Fi',
+  manual: '✍️ Manual',
+};
+
+const RECENT_ACTIVITY_LIMIT = 5;
 
 interface BalanceCardProps {
   onDeposit: () => void;
   onBridgeUsdc?: () => void;
+  onWithdraw?: () => void;
 }
 
-export function BalanceCard({ onDeposit, onBridgeUsdc }: BalanceCardProps) {
+export function BalanceCard({ onDeposit, onBridgeUsdc, onWithdraw }: BalanceCardProps) {
   const { address: evmAddress, isConnected } = useAccount();
   const { btcAddress } = useUserStore();
   const { data: vaultData, isLoading: isVaultLoading } = useVaultBalance(evmAddress || null);
-  const { data: hlBalance, isLoading: isHlLoading } = useHyperliquidBalance(evmAddress);
+  const { data: hlBalance, isLoading: isHlLoading, isLive } = useLiveHyperliquidBalance(evmAddress);
+  const { data: vaultHistory } = useVaultHistory(evmAddress || null, RECENT_ACTIVITY_LIMIT);
+  const recentEntries = vaultHistory?.entries ?? [];
+  const { data: bridgeDeposits } = useBridgeDeposits(evmAddress);
+  const pendingDeposits = bridgeDeposits?.deposits.filter((d) => d.status === 'PENDING') ?? [];
+  const { data: bridgeWithdrawals } = useBridgeWithdrawals(evmAddress);
+  const activeWithdrawals = bridgeWithdrawals?.withdrawals.filter(
+    (w) => w.status === 'WITHDRAWING' || w.status === 'READY_TO_BRIDGE' || w.status === 'BRIDGING'
+  ) ?? [];
+  const { bridgeToBtc, bridgingId } = useWithdrawal();
+  const [bridgeError, setBridgeError] = useState<string | null>(null);
 
   const vaultEquity = vaultData?.equityUsdc ?? 0;
   const hlSpotUsdc = hlBalance?.spotUsdc ?? 0;
@@ -88,6 +115,12 @@ export function BalanceCard({ onDeposit, onBridgeUsdc }: BalanceCardProps) {
                     <span className="text-xs font-bold text-white">HL</span>
                   </div>
                   <span className="text-sm font-medium text-gray-200">Hyperliquid Balance</span>
+                  {isLive && (
+                    <span className="ml-auto flex items-center gap-1 text-[10px] text-green-400">
+                      <span className="w-1.5 h-1.5 rounded-full bg-green-400 animate-pulse" />
+                      Live
+                    </span>
+                  )}
                 </div>
                 <div className="grid grid-cols-2 gap-2 text-sm">
                   <div>
@@ -99,6 +132,7 @@ export function BalanceCard({ onDeposit, onBridgeUsdc }: BalanceCardProps) {
                     <p className="font-medium text-white">${hlPerpsValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
                   </div>
                 </div>
+                <SpotPerpsTransfer spotUsdc={hlSpotUsdc} perpsWithdrawable={hlBalance?.perpsWithdrawable ?? 0} />
               </div>
             )}
 
@@ -116,6 +150,59 @@ export function BalanceCard({ onDeposit, onBridgeUsdc }: BalanceCardProps) {
               </div>
             )}
 
+            {/* Pending BTC Bridge Deposits */}
+            {pendingDeposits.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-500">Deposits in progress</p>
+                {pendingDeposits.map((deposit) => (
+                  <BridgeDepositProgress key={deposit.txHash} deposit={deposit} />
+                ))}
+              </div>
+            )}
+
+            {/* Hyperliquid Withdrawals */}
+            {activeWithdrawals.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-500">Withdrawals in progress</p>
+                {activeWithdrawals.map((withdrawal) => (
+                  <BridgeWithdrawalProgress
+                    key={withdrawal.id}
+                    withdrawal={withdrawal}
+                    onBridge={() => {
+                      setBridgeError(null);
+                      bridgeToBtc(withdrawal).catch((error) =>
+                        setBridgeError(error instanceof Error ? error.message : 'Bridging to BTC failed')
+                      );
+                    }}
+                    isBridging={bridgingId === withdrawal.id}
+                  />
+                ))}
+                {bridgeError && (
+                  <p className="text-xs text-red-400">{bridgeError}</p>
+                )}
+              </div>
+            )}
+
+            {/* Recent Vault Activity */}
+            {recentEntries.length > 0 && (
+              <div className="pt-2">
+                <p className="text-xs text-gray-500 mb-2">Recent vault activity</p>
+                <div className="space-y-1">
+                  {recentEntries.map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between p-2 bg-dark-900 rounded-lg text-sm">
+                      <div>
+                        <p className="text-gray-300">{SOURCE_LABELS[entry.source]}</p>
+                        <p className="text-[10px] text-gray-500">{new Date(entry.createdAt).toLocaleString()}</p>
+                      </div>
+                      <span className={`font-medium ${entry.type === 'credit' ? 'text-green-400' : 'text-red-400'}`}>
+                        {entry.type === 'credit' ? '+' : '-'}${entry.amountUsdc.toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Connected Info */}
             {btcAddress && (
               <div className="pt-4 border-t border-dark-700">
@@ -158,6 +245,19 @@ export function BalanceCard({ onDeposit, onBridgeUsdc }: BalanceCardProps) {
           </button>
         )}
         
+        {/* Withdraw from Hyperliquid */}
+        {onWithdraw && (hlBalance?.perpsWithdrawable ?? 0) > 0 && (
+          <button
+            onClick={onWithdraw}
+            className="w-full px-4 py-3 bg-dark-700 hover:bg-dark-600 border border-dark-600 rounded-xl font-medium transition-all flex items-center justify-center gap-2 text-gray-200"
+          >
+            <svg className="w-5 h-5 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+            Withdraw to Arbitrum or BTC
+          </button>
+        )}
+
         {totalUsdc === 0 && (
           <p className="text-xs text-gray-500 text-center">
             BTC (Native/Lightning) or USDC (Arbitrum) → Hyperliquid
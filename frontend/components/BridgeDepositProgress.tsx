@@ -0,0 +1,115 @@
+'use client';
+
+import { satsToBtc } from '@/lib/lifi';
+import type { BridgeDeposit } from '@/types';
+
+interface BridgeDepositProgressProps {
+  deposit: BridgeDeposit;
+}
+
+const STEPS = ['BTC sent', 'Bridging', 'USDC received', 'Credited'] as const;
+
+/**
+ * Index of the last completed step
+ */
+function getCompletedStep(deposit: BridgeDeposit): number {
+  if (deposit.credited) return 3;
+  if (deposit.status === 'DONE') return 2;
+  if (deposit.substatus && deposit.substatus !== 'NOT_FOUND') return 1;
+  return 0;
+}
+
+/**
+ * Turns Li.Fi substatus codes like WAIT_DESTINATION_TRANSACTION into readable text
+ */
+function formatSubstatus(substatus: string): string {
+  return substatus.toLowerCase().replace(/_/g, ' ');
+}
+
+export function BridgeDepositProgress({ deposit }: BridgeDepositProgressProps) {
+  const completedStep = getCompletedStep(deposit);
+  const isFailed = deposit.status === 'FAILED' || (deposit.status === 'DONE' && !deposit.credited);
+
+  return (
+    <div className={`p-4 rounded-lg border ${
+      isFailed
+        ? 'bg-red-900/20 border-red-700'
+        : deposit.credited
+        ? 'bg-green-900/20 border-green-700'
+        : 'bg-primary-900/20 border-primary-700'
+    }`}>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <p className="text-sm font-medium text-white">
+            {satsToBtc(deposit.fromAmountSats)} BTC → USDC
+          </p>
+          <p className="text-xs text-gray-500 font-mono">
+            {deposit.txHash.slice(0, 10)}...{deposit.txHash.slice(-8)}
+          </p>
+        </div>
+        <span className={`text-xs font-bold px-2 py-0.5 rounded ${
+          isFailed
+            ? 'bg-red-500/20 text-red-400'
+            : deposit.status === 'DONE'
+            ? 'bg-green-500/20 text-green-400'
+            : 'bg-primary-500/20 text-primary-400'
+        }`}>
+          {deposit.status}
+        </span>
+      </div>
+
+      {/* Steps */}
+      <div className="flex gap-1 mb-2">
+        {STEPS.map((step, index) => (
+          <div key={step} className="flex-1">
+            <div className={`h-1 rounded-full ${
+              index <= completedStep
+                ? isFailed ? 'bg-red-400' : 'bg-green-400'
+                : index === completedStep + 1 && !isFailed
+                ? 'bg-primary-400 animate-pulse'
+                : 'bg-dark-600'
+            }`} />
+            <p className="text-[10px] text-gray-500 mt-1">{step}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Detail */}
+      {deposit.error ? (
+        <p className="text-xs text-red-300/80">{deposit.error}</p>
+      ) : deposit.credited && deposit.receivedUsdc !== null ? (
+        <p className="text-xs text-green-400">
+          ${deposit.receivedUsdc.toFixed(2)} USDC credited to your balance
+        </p>
+      ) : deposit.substatusMessage || deposit.substatus ? (
+        <p className="text-xs text-gray-400">
+          {deposit.substatusMessage || formatSubstatus(deposit.substatus!)}
+        </p>
+      ) : (
+        <p className="text-xs text-gray-400">Waiting for BTC confirmations...</p>
+      )}
+
+      {/* Links */}
+      {(deposit.sendingTxLink || deposit.receivingTxLink || deposit.lifiExplorerLink) && (
+        <div className="flex gap-3 mt-2 text-xs">
+          {deposit.sendingTxLink && (
+            <a href={deposit.sendingTxLink} target="_blank" rel="noopener noreferrer" className="text-primary-400 hover:text-primary-300">
+              BTC tx ↗
+            </a>
+          )}
+          {deposit.receivingTxLink && (
+            <a href={deposit.receivingTxLink} target="_blank" rel="noopener noreferrer" className="text-primary-400 hover:text-primary-300">
+              USDC tx ↗
+            </a>
+          )}
+          {deposit.lifiExplorerLink && (
+            <a href={deposit.lifiExplorerLink} target="_blank" rel="noopener noreferrer" className="text-primary-400 hover:text-primary-300">
+              Li.Fi explorer ↗
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { satsToBtc } from '@/lib/lifi';
+import type { BridgeWithdrawal } from '@/types';
+
+interface BridgeWithdrawalProgressProps {
+  withdrawal: BridgeWithdrawal;
+  onBridge?: () => void;
+  isBridging?: boolean;
+}
+
+const ARBITRUM_STEPS = ['Withdrawn', 'USDC on Arbitrum'] as const;
+const BTC_STEPS = ['Withdrawn', 'USDC on Arbitrum', 'Bridging', 'BTC received'] as const;
+
+/**
+ * Index of the last completed step, -1 before Hyperliquid records the withdrawal
+ */
+function getCompletedStep(withdrawal: BridgeWithdrawal): number {
+  if (withdrawal.status === 'DONE') return withdrawal.destination === 'BTC' ? 3 : 1;
+  if (withdrawal.status === 'BRIDGING') return withdrawal.substatus && withdrawal.substatus !== 'NOT_FOUND' ? 2 : 1;
+  if (withdrawal.arbitrumTxHash) return 1;
+  if (withdrawal.hlTxHash) return 0;
+  return -1;
+}
+
+/**
+ * Turns Li.Fi substatus codes like WAIT_DESTINATION_TRANSACTION into readable text
+ */
+function formatSubstatus(substatus: string): string {
+  return substatus.toLowerCase().replace(/_/g, ' ');
+}
+
+export function BridgeWithdrawalProgress({ withdrawal, onBridge, isBridging }: BridgeWithdrawalProgressProps) {
+  const steps = withdrawal.destination === 'BTC' ? BTC_STEPS : ARBITRUM_STEPS;
+  const completedStep = getCompletedStep(withdrawal);
+  const isFailed = withdrawal.status === 'FAILED';
+  const isDone = withdrawal.status === 'DONE';
+
+  return (
+    <div className={`p-4 rounded-lg border ${
+      isFailed
+        ? 'bg-red-900/20 border-red-700'
+        : isDone
+        ? 'bg-green-900/20 border-green-700'
+        : 'bg-primary-900/20 border-primary-700'
+    }`}>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <p className="text-sm font-medium text-white">
+            ${withdrawal.amountUsdc.toFixed(2)} USDC → {withdrawal.destination === 'BTC' ? 'BTC' : 'Arbitrum'}
+          </p>
+          <p className="text-xs text-gray-500">
+            {new Date(withdrawal.createdAt).toLocaleString()}
+          </p>
+        </div>
+        <span className={`text-xs font-bold px-2 py-0.5 rounded ${
+          isFailed
+            ? 'bg-red-500/20 text-red-400'
+            : isDone
+            ? 'bg-green-500/20 text-green-400'
+            : 'bg-primary-500/20 text-primary-400'
+        }`}>
+          {withdrawal.status.replace(/_/g, ' ')}
+        </span>
+      </div>
+
+      {/* Steps */}
+      <div className="flex gap-1 mb-2">
+        {steps.map((step, index) => (
+          <div key={step} className="flex-1">
+            <div className={`h-1 rounded-full ${
+              index <= completedStep
+                ? isFailed ? 'bg-red-400' : 'bg-green-400'
+                : index === completedStep + 1 && !isFailed && withdrawal.status !== 'READY_TO_BRIDGE'
+                ? 'bg-primary-400 animate-pulse'
+                : 'bg-dark-600'
+            }`} />
+            <p className="text-[10px] text-gray-500 mt-1">{step}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Detail */}
+      {withdrawal.error ? (
+        <p className="text-xs text-red-300/80">{withdrawal.error}</p>
+      ) : isDone && withdrawal.receivedSats !== null ? (
+        <p className="text-xs text-green-400">
+          {satsToBtc(withdrawal.receivedSats)} BTC sent to {withdrawal.btcAddress?.slice(0, 8)}...
+        </p>
+      ) : isDone && withdrawal.receivedUsdc !== null ? (
+        <p className="text-xs text-green-400">
+          ${withdrawal.receivedUsdc.toFixed(2)} USDC received on Arbitrum
+        </p>
+      ) : withdrawal.status === 'READY_TO_BRIDGE' ? (
+        <p className="text-xs text-gray-400">
+          ${withdrawal.receivedUsdc?.toFixed(2)} USDC is on Arbitrum. Send it to Li.Fi to receive BTC.
+        </p>
+      ) : withdrawal.status === 'BRIDGING' && (withdrawal.substatusMessage || withdrawal.substatus) ? (
+        <p className="text-xs text-gray-400">
+          {withdrawal.substatusMessage || formatSubstatus(withdrawal.substatus!)}
+        </p>
+      ) : withdrawal.hlTxHash ? (
+        <p className="text-xs text-gray-400">Waiting for the Hyperliquid bridge to release USDC on Arbitrum...</p>
+      ) : (
+        <p className="text-xs text-gray-400">Waiting for Hyperliquid to process the withdrawal...</p>
+      )}
+
+      {/* Continue to BTC */}
+      {withdrawal.status === 'READY_TO_BRIDGE' && onBridge && (
+        <button
+          onClick={onBridge}
+          disabled={isBridging}
+          className="w-full mt-3 px-4 py-2 bg-orange-500 hover:bg-orange-600 disabled:bg-dark-600 disabled:text-gray-400 rounded-lg text-sm font-medium text-white transition-colors"
+        >
+          {isBridging ? 'Confirm in your wallet...' : 'Continue to BTC'}
+        </button>
+      )}
+
+      {/* Links */}
+      {(withdrawal.arbitrumTxHash || withdrawal.receivingTxLink || withdrawal.lifiExplorerLink) && (
+        <div className="flex gap-3 mt-2 text-xs">
+          {withdrawal.arbitrumTxHash && (
+            <a href={`https://arbiscan.io/tx/${withdrawal.arbitrumTxHash}`} target="_blank" rel="noopener noreferrer" className="text-primary-400 hover:text-primary-300">
+              Arbitrum tx ↗
+            </a>
+          )}
+          {withdrawal.receivingTxLink && (
+            <a href={withdrawal.receivingTxLink} target="_blank" rel="noopener noreferrer" className="text-primary-400 hover:text-primary-300">
+              BTC tx ↗
+            </a>
+          )}
+          {withdrawal.lifiExplorerLink && (
+            <a href={withdrawal.lifiExplorerLink} target="_blank" rel="noopener noreferrer" className="text-primary-400 hover:text-primary-300">
+              Li.Fi explorer ↗
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
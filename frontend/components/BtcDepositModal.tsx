@@ -7,7 +7,9 @@ import { useBtcToUsdcQuote } from '@/hooks/useLifi';
 import { useBtcAccount } from '@/hooks/useBtcAccount';
 import { useBtcTransaction } from '@/hooks/useBtcTransaction';
 import { useLightning, LIGHTNING_CONFIG } from '@/hooks/useLightning';
-import { SUPPORTED_EVM_CHAINS, SATS_PER_BTC, BTC_PRICE_USD, HYPERLIQUID_CHAIN_ID } from '@/types';
+import { useBridgeDeposits, useTrackBridgeDeposit } from '@/hooks/useBridgeDeposits';
+import { BridgeDepositProgress } from '@/components/BridgeDepositProgress';
+import { SUPPORTED_EVM_CHAINS, SATS_PER_BTC, BTC_PRICE_USD, HYPERLIQUID_CHAIN_ID, BTC_CHAIN_ID } from '@/types';
 import type { LifiQuoteResponse } from '@/types';
 import { satsToBtc } from '@/lib/lifi';
 import { getBtcAddressInfo, formatBtcDisplay } from '@/lib/btc';
@@ -59,6 +61,10 @@ export function BtcDepositModal({ isOpen, onClose }: BtcDepositModalProps) {
   const btcTx = useBtcTransaction();
   const btcAccount = useBtcAccount();
   const lightning = useLightning();
+  const trackDeposit = useTrackBridgeDeposit();
+  const { data: bridgeDeposits } = useBridgeDeposits(evmAddress);
+  const trackedDeposit = bridgeDeposits?.deposits.find((d) => d.txHash === btcTx.txHash?.toLowerCase())
+    ?? trackDeposit.data?.deposit;
   
   const selectedChain = SUPPORTED_EVM_CHAINS.find(c => c.id === selectedChainId);
   const usdcDecimals = selectedChain?.usdcDecimals || 6;
@@ -168,11 +174,22 @@ export function BtcDepositModal({ isOpen, onClose }: BtcDepositModalProps) {
   };
 
   const handleSendBtc = async () => {
-    if (!quote || !btcAddress) return;
+    if (!quote || !btcAddress || !evmAddress) return;
     
     try {
       const txHash = await btcTx.sendTransaction({ quote, btcAddress });
       console.log('BTC Transaction sent:', txHash);
+      
+      // Server-side tracker credits the vault once the bridge completes
+      await trackDeposit.mutateAsync({
+        address: evmAddress,
+        txHash,
+        fromChain: BTC_CHAIN_ID,
+        toChain: selectedChainId,
+        bridge: quote.tool,
+        fromAmountSats: parseInt(quote.transactionRequest.value, 10),
+        expectedUsdc: parseFloat(quote.estimate.toAmount) / usdcDivisor,
+      });
     } catch (error) {
       console.error('Send BTC error:', error);
     }
@@ -493,6 +510,8 @@ export function BtcDepositModal({ isOpen, onClose }: BtcDepositModalProps) {
                     {btcTx.status === 'error' && <p className="text-red-400">{btcTx.error}</p>}
                   </div>
                 )}
+
+                {trackedDeposit && <BridgeDepositProgress deposit={trackedDeposit} />}
               </>
             )}
           </div>
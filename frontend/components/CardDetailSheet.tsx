@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { TpSlEditor } from './TpSlEditor';
+import { validateTpSl } from '@/lib/tpsl';
+import type { TradeCard, TpSlSettings } from '@/types/trade';
+
+interface CardDetailSheetProps {
+  trade: TradeCard;
+  size: number;
+  tpSl: TpSlSettings;
+  onApply: (settings: TpSlSettings) => void;
+  onSaveDefault: (settings: TpSlSettings) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet with card details and per-card TP/SL.
+ * Render with `key={trade.id}` so the draft resets when the card changes.
+ */
+export function CardDetailSheet({ trade, size, tpSl, onApply, onSaveDefault, onClose }: CardDetailSheetProps) {
+  const [draft, setDraft] = useState<TpSlSettings>(tpSl);
+
+  const context = { direction: trade.direction, leverage: trade.leverage, usdValue: size };
+  const isValid = validateTpSl(draft, context) === null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Sheet */}
+      <div className="relative bg-dark-900 border border-dark-700 rounded-t-2xl p-6 w-full max-w-md shadow-2xl max-h-[85vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-white">{trade.tagline}</h2>
+            <p className="text-xs text-gray-500">
+              {trade.direction} • {trade.leverage}x • ${size}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-dark-700 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {trade.sentiment.leverageReasoning && (
+          <div className="flex items-start gap-2 mb-4 p-3 bg-dark-800/50 rounded-lg">
+            <span className="text-xs">🤖</span>
+            <p className="text-xs text-gray-400 leading-relaxed">{trade.sentiment.leverageReasoning}</p>
+          </div>
+        )}
+
+        <TpSlEditor value={draft} onChange={setDraft} context={context} />
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={() => onSaveDefault(draft)}
+            disabled={!isValid}
+            className="flex-1 px-4 py-3 bg-dark-700 hover:bg-dark-600 rounded-xl text-sm font-medium text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save as default
+          </button>
+          <button
+            onClick={() => onApply(draft)}
+            disabled={!isValid}
+            className="flex-1 px-4 py-3 bg-primary-500 hover:bg-primary-600 rounded-xl text-sm font-medium text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply to card
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { usePreferencesStore } from '@/store/preferencesStore';
+import { CHART_TIMEFRAMES, EMA_PERIOD_OPTIONS } from '@/lib/indicators';
+import type { ChartIndicatorSettings } from '@/types/trade';
+
+type ToggleField = Exclude<keyof ChartIndicatorSettings, 'emaPeriods'>;
+
+const TOGGLES: Array<{ field: ToggleField; label: string; description: string }> = [
+  { field: 'vwap', label: 'VWAP', description: 'Resets at 00:00 UTC on intraday charts.' },
+  { field: 'bollinger', label: 'Bollinger bands', description: '20-period, 2 standard deviations.' },
+  { field: 'rsi', label: 'RSI', description: '14-period, in a pane below the chart.' },
+  { field: 'volume', label: 'Volume', description: 'Bars along the bottom of the chart.' },
+];
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+        active ? 'bg-primary-500/20 text-primary-400' : 'bg-dark-700 text-gray-500 hover:text-gray-300'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Default timeframe and indicator overlays for card charts. Saved locally.
+ */
+export function ChartSettings() {
+  const defaultTimeframe = usePreferencesStore((state) => state.defaultTimeframe);
+  const setDefaultTimeframe = usePreferencesStore((state) => state.setDefaultTimeframe);
+  const indicators = usePreferencesStore((state) => state.chartIndicators);
+  const setChartIndicators = usePreferencesStore((state) => state.setChartIndicators);
+
+  const toggleEma = (period: number) => {
+    const emaPeriods = indicators.emaPeriods.includes(period)
+      ? indicators.emaPeriods.filter((p) => p !== period)
+      : [...indicators.emaPeriods, period].sort((a, b) => a - b);
+    setChartIndicators({ emaPeriods });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-dark-800 rounded-xl border border-dark-600">
+        <span className="text-sm font-medium text-white">Default timeframe</span>
+        <p className="text-xs text-gray-500 mb-2">New cards open on this timeframe. Each card can be switched.</p>
+        <div className="flex gap-1">
+          {CHART_TIMEFRAMES.map((tf) => (
+            <Chip key={tf} active={tf === defaultTimeframe} onClick={() => setDefaultTimeframe(tf)}>
+              {tf.toUpperCase()}
+            </Chip>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-3 bg-dark-800 rounded-xl border border-dark-600">
+        <span className="text-sm font-medium text-white">EMA</span>
+        <p className="text-xs text-gray-500 mb-2">Moving averages drawn over the candles.</p>
+        <div className="flex gap-1">
+          {EMA_PERIOD_OPTIONS.map((period) => (
+            <Chip key={period} active={indicators.emaPeriods.includes(period)} onClick={() => toggleEma(period)}>
+              {period}
+            </Chip>
+          ))}
+        </div>
+      </div>
+
+      {TOGGLES.map(({ field, label, description }) => (
+        <div key={field} className="p-3 bg-dark-800 rounded-xl border border-dark-600">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-white">{label}</span>
+            <Chip active={indicators[field]} onClick={() => setChartIndicators({ [field]: !indicators[field] })}>
+              {indicators[field] ? 'On' : 'Off'}
+            </Chip>
+          </div>
+          <p className="text-xs text-gray-500">{description}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import type { ConstraintWarning } from '@/types/trade';
+
+interface ConfirmAdjustmentsSheetProps {
+  tagline: string;
+  warnings: ConstraintWarning[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Bottom sheet asking the user to accept the size and leverage changes an
+ * order needs to meet Hyperliquid's limits before it is sent
+ */
+export function ConfirmAdjustmentsSheet({ tagline, warnings, onConfirm, onCancel }: ConfirmAdjustmentsSheetProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onCancel} />
+
+      {/* Sheet */}
+      <div
+        role="alertdialog"
+        aria-labelledby="confirm-adjustments-title"
+        className="relative bg-dark-900 border border-dark-700 rounded-t-2xl p-6 w-full max-w-md shadow-2xl"
+      >
+        <h2 id="confirm-adjustments-title" className="text-lg font-semibold text-white">Adjust this order?</h2>
+        <p className="text-xs text-gray-500 mb-4">{tagline}</p>
+
+        <ul className="space-y-2 mb-4">
+          {warnings.map((warning) => (
+            <li key={warning.code} className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+              <div className="text-sm text-yellow-400 font-medium">
+                {warning.code === 'SIZE_RAISED'
+                  ? `Size $${warning.requested} → $${warning.applied}`
+                  : `Leverage ${warning.requested}x → ${warning.applied}x`}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">{warning.message}</p>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-dark-700 hover:bg-dark-600 rounded-xl text-sm font-medium text-gray-200 transition-colors"
+          >
+            Cancel order
+          </button>
+          <button
+            onClick={onConfirm}
+            autoFocus
+            className="flex-1 px-4 py-3 bg-primary-500 hover:bg-primary-600 rounded-xl text-sm font-medium text-white transition-colors"
+          >
+            Place adjusted order
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
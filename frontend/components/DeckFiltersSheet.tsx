@@ -0,0 +1,247 @@
+'use client';
+
+import { useState } from 'react';
+import { DEFAULT_DECK_FILTERS, parseAssetList } from '@/lib/deck-filters';
+import type { DeckFilters } from '@/types/trade';
+
+const POSITION_TYPE_OPTIONS: Array<{ value: DeckFilters['positionType']; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'one_directional', label: 'Single' },
+  { value: 'relative_pair', label: 'Pairs' },
+];
+
+const DIRECTION_OPTIONS: Array<{ value: DeckFilters['direction']; label: string }> = [
+  { value: null, label: 'Either' },
+  { value: 'LONG', label: 'Long only' },
+  { value: 'SHORT', label: 'Short only' },
+];
+
+const FUNDING_OPTIONS: Array<{ value: DeckFilters['funding']; label: string }> = [
+  { value: 'any', label: 'Any' },
+  { value: 'positive', label: 'Positive' },
+  { value: 'negative', label: 'Negative' },
+];
+
+const USD_MINIMUM_OPTIONS = [0, 1_000_000, 10_000_000, 100_000_000];
+const LEVERAGE_CAP_OPTIONS: Array<number | null> = [null, 3, 5, 10, 15];
+
+interface DeckFiltersSheetProps {
+  filters: DeckFilters;
+  onApply: (filters: DeckFilters) => void;
+  onClose: () => void;
+}
+
+function formatUsdMinimum(value: number): string {
+  if (value === 0) return 'Any';
+  return `$${value >= 1_000_000 ? `${value / 1_000_000}M` : `${value / 1_000}K`}+`;
+}
+
+/**
+ * Bottom sheet for the deck filters. Changes apply on "Show markets" and
+ * redeal the deck.
+ */
+export function DeckFiltersSheet({ filters, onApply, onClose }: DeckFiltersSheetProps) {
+  const [draft, setDraft] = useState<DeckFilters>(filters);
+  // Asset lists are edited as text and parsed on apply
+  const [allowedText, setAllowedText] = useState(filters.allowedAssets.join(', '));
+  const [blockedText, setBlockedText] = useState(filters.blockedAssets.join(', '));
+  const update = (patch: Partial<DeckFilters>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const handleApply = () => {
+    onApply({
+      ...draft,
+      allowedAssets: parseAssetList(allowedText),
+      blockedAssets: parseAssetList(blockedText),
+    });
+  };
+
+  const handleReset = () => {
+    setDraft(DEFAULT_DECK_FILTERS);
+    setAllowedText('');
+    setBlockedText('');
+  };
+
+  const chipClass = (active: boolean) =>
+    `flex-1 px-2 py-2 rounded-lg text-xs font-medium transition-colors ${
+      active ? 'bg-primary-500/20 text-primary-400 border border-primary-500/40' : 'bg-dark-800 text-gray-400 border border-dark-600'
+    }`;
+
+  const inputClass =
+    'w-full px-3 py-2 bg-dark-800 border border-dark-600 rounded-lg text-sm text-white placeholder-gray-600 focus:outline-none focus:border-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Sheet */}
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Deck filters"
+        className="relative bg-dark-900 border border-dark-700 rounded-t-2xl p-6 w-full max-w-md shadow-2xl max-h-[85vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Deck filters</h2>
+            <p className="text-xs text-gray-500">Which markets get dealt</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-2 hover:bg-dark-700 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Market type</p>
+            <div className="flex gap-2">
+              {POSITION_TYPE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  aria-pressed={draft.positionType === option.value}
+                  onClick={() => update({ positionType: option.value })}
+                  className={chipClass(draft.positionType === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Direction</p>
+            <div className="flex gap-2">
+              {DIRECTION_OPTIONS.map((option) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  aria-pressed={draft.direction === option.value}
+                  onClick={() => update({ direction: option.value })}
+                  className={chipClass(draft.direction === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Max AI leverage</p>
+            <div className="flex gap-2">
+              {LEVERAGE_CAP_OPTIONS.map((cap) => (
+                <button
+                  key={cap ?? 'none'}
+                  type="button"
+                  aria-pressed={draft.maxLeverage === cap}
+                  onClick={() => update({ maxLeverage: cap })}
+                  className={chipClass(draft.maxLeverage === cap)}
+                >
+                  {cap === null ? 'No cap' : `${cap}x`}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Min 24h volume</p>
+            <div className="flex gap-2">
+              {USD_MINIMUM_OPTIONS.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  aria-pressed={draft.minVolume === value}
+                  onClick={() => update({ minVolume: value })}
+                  className={chipClass(draft.minVolume === value)}
+                >
+                  {formatUsdMinimum(value)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Min open interest</p>
+            <div className="flex gap-2">
+              {USD_MINIMUM_OPTIONS.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  aria-pressed={draft.minOpenInterest === value}
+                  onClick={() => update({ minOpenInterest: value })}
+                  className={chipClass(draft.minOpenInterest === value)}
+                >
+                  {formatUsdMinimum(value)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Net funding</p>
+            <div className="flex gap-2">
+              {FUNDING_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  aria-pressed={draft.funding === option.value}
+                  onClick={() => update({ funding: option.value })}
+                  className={chipClass(draft.funding === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="deck-allowed-assets" className="block text-xs text-gray-500 mb-1">
+              Only these assets <span className="text-gray-600">(every leg must match)</span>
+            </label>
+            <input
+              id="deck-allowed-assets"
+              type="text"
+              value={allowedText}
+              onChange={(e) => setAllowedText(e.target.value)}
+              placeholder="BTC, ETH, SOL"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="deck-blocked-assets" className="block text-xs text-gray-500 mb-1">
+              Never show
+            </label>
+            <input
+              id="deck-blocked-assets"
+              type="text"
+              value={blockedText}
+              onChange={(e) => setBlockedText(e.target.value)}
+              placeholder="DOGE, PEPE"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2 mt-6">
+          <button
+            type="button"
+            onClick={handleReset}
+            className="flex-1 py-3 bg-dark-800 hover:bg-dark-700 border border-dark-600 rounded-xl font-medium text-gray-300 transition-colors"
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            className="flex-[2] py-3 bg-primary-500 hover:bg-primary-600 rounded-xl font-medium text-white transition-colors"
+          >
+            Show markets
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -60,6 +60,54 @@ export function Header() {
                 🔒 Swipe
               </span>
             )}
+            {isReadyToTrade && (
+              <Link
+                href="/positions"
+                className={`px-2 sm:px-3 py-1.5 rounded-lg text-sm font-medium transition-colors whitespace-nowrap ${
+                  pathname === '/positions'
+                    ? 'bg-dark-700 text-white'
+                    : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                Positions
+              </Link>
+            )}
+            {isReadyToTrade && (
+              <Link
+                href="/watchlist"
+                className={`px-2 sm:px-3 py-1.5 rounded-lg text-sm font-medium transition-colors whitespace-nowrap ${
+                  pathname === '/watchlist'
+                    ? 'bg-dark-700 text-white'
+                    : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                Watchlist
+              </Link>
+            )}
+            {isReadyToTrade && (
+              <Link
+                href="/history"
+                className={`px-2 sm:px-3 py-1.5 rounded-lg text-sm font-medium transition-colors whitespace-nowrap ${
+                  pathname === '/history'
+                    ? 'bg-dark-700 text-white'
+                    : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                History
+              </Link>
+            )}
+            {isReadyToTrade && (
+              <Link
+                href="/settings"
+                className={`px-2 sm:px-3 py-1.5 rounded-lg text-sm font-medium transition-colors whitespace-nowrap ${
+                  pathname === '/settings'
+                    ? 'bg-dark-700 text-white'
+                    : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                Settings
+              </Link>
+            )}
           </nav>
         </div>
 
@@ -80,23 +80,33 @@ export function LifiSwapWidget({
   const { address } = useAccount();
 
   const handleSwapComplete = useCallback(async (route: Route) => {
-    // Credit vault with the received USDC
-    if (address && route.toAmountMin) {
+    // Ask the server to credit the vault; it verifies the transfer with Li.Fi
+    // and credits the amount actually received, not route.toAmountMin
+    const txHash = route.steps[0]?.execution?.process.find((p: { txHash?: string }) => p.txHash)?.txHash;
+
+    if (address && txHash) {
       try {
-        // Hyperliquid USDC (Perps) has 6 decimals
-        const amountUsdc = parseFloat(route.toAmountMin) / 1e6;
-        
         const response = await fetch('/api/vault/credit', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             address: address,
-            amountUsdc: amountUsdc,
+            proof: {
+              type: 'lifi',
+              txHash,
+              fromChain: route.fromChainId,
+              toChain: route.toChainId,
+            },
+            idempotencyKey: `lifi:${route.id}`,
           }),
         });
 
         if (response.ok) {
-          console.log('[LiFi] Vault credited with', amountUsdc, 'USDC');
+          const data = await response.json();
+          console.log('[LiFi] Vault credited with', data.entry.amountUsdc, 'USDC');
+        } else {
+          const error = await response.json();
+          console.error('[LiFi] Vault credit rejected:', error.error);
         }
       } catch (error) {
         console.error('[LiFi] Failed to credit vault:', error);
@@ -1,31 +1,158 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import { createChart, IChartApi, CandlestickSeries, LineSeries, UTCTimestamp } from 'lightweight-charts';
-import type { CandleData } from '@/types/trade';
+import {
+  createChart,
+  IChartApi,
+  ISeriesApi,
+  CandlestickSeries,
+  HistogramSeries,
+  LineSeries,
+  LineStyle,
+  UTCTimestamp,
+} from 'lightweight-charts';
+import {
+  DEFAULT_CHART_INDICATORS,
+  calculateBollinger,
+  calculateEMA,
+  calculateRSI,
+  calculateVWAP,
+} from '@/lib/indicators';
+import type { IndicatorPoint } from '@/lib/indicators';
+import type { CandleData, ChartIndicatorSettings, ChartTimeframe } from '@/types/trade';
 
 interface MiniChartProps {
   candles: CandleData[];
   direction: 'LONG' | 'SHORT';
+  timeframe?: ChartTimeframe;
+  indicators?: ChartIndicatorSettings;
+  liveCandle?: CandleData | null; // forming candle from the WebSocket
+  lastPrice?: number | null; // live mid, applied to the latest candle
 }
 
-// Simple EMA calculation
-function calculateEMA(data: CandleData[], period: number) {
-  const k = 2 / (period + 1);
-  const emaData: { time: UTCTimestamp; value: number }[] = [];
-  let ema = data[0]?.close || 0;
+const EMA_COLORS = ['#38bdf8', '#a3e635', '#f472b6'];
+const RSI_PANE_HEIGHT = 60;
 
-  for (const candle of data) {
-    ema = candle.close * k + ema * (1 - k);
-    emaData.push({ time: candle.time as UTCTimestamp, value: ema });
+interface LineOverlay {
+  key: string;
+  points: IndicatorPoint[];
+  pane: 0 | 1;
+  color: string;
+  lineWidth: 1 | 2;
+  lineStyle?: LineStyle;
+}
+
+/**
+ * Compute every enabled line overlay. Keys stay stable across calls so live
+ * updates can find the series a point belongs to.
+ */
+function getLineOverlays(
+  bars: CandleData[],
+  indicators: ChartIndicatorSettings,
+  direction: 'LONG' | 'SHORT',
+  timeframe: ChartTimeframe
+): LineOverlay[] {
+  const overlays: LineOverlay[] = [];
+  const emaPeriods = Array.from(new Set(indicators.emaPeriods)).sort((a, b) => a - b);
+
+  emaPeriods.forEach((period, i) => {
+    overlays.push({
+      key: `ema:${period}`,
+      points: calculateEMA(bars, period),
+      pane: 0,
+      // The first EMA keeps the card's accent color
+      color: i === 0 ? (direction === 'LONG' ? '#f19340' : '#818cf8') : EMA_COLORS[(i - 1) % EMA_COLORS.length],
+      lineWidth: i === 0 ? 2 : 1,
+    });
+  });
+
+  if (indicators.vwap) {
+    overlays.push({
+      key: 'vwap',
+      points: calculateVWAP(bars, timeframe !== '1d'),
+      pane: 0,
+      color: '#facc15',
+      lineWidth: 1,
+      lineStyle: LineStyle.Dashed,
+    });
+  }
+
+  if (indicators.bollinger) {
+    const bands = calculateBollinger(bars);
+    const bandColor = 'rgba(148, 163, 184, 0.6)';
+    overlays.push(
+      { key: 'bb:upper', points: bands.upper, pane: 0, color: bandColor, lineWidth: 1 },
+      { key: 'bb:middle', points: bands.middle, pane: 0, color: bandColor, lineWidth: 1, lineStyle: LineStyle.Dotted },
+      { key: 'bb:lower', points: bands.lower, pane: 0, color: bandColor, lineWidth: 1 }
+    );
   }
 
-  return emaData;
+  if (indicators.rsi) {
+    overlays.push({ key: 'rsi', points: calculateRSI(bars), pane: 1, color: '#c084fc', lineWidth: 1 });
+  }
+
+  return overlays;
+}
+
+/**
+ * Decimals to show for a price: ratios and small-cap coins need more than 2
+ */
+function getPricePrecision(price: number): number {
+  if (!Number.isFinite(price) || price <= 0) return 2;
+  return Math.min(8, Math.max(2, 4 - Math.floor(Math.log10(price))));
+}
+
+function toLineData(points: IndicatorPoint[]) {
+  return points.map((p) => ({ time: p.time as UTCTimestamp, value: p.value }));
+}
+
+function toCandlestickBar(c: CandleData) {
+  return { time: c.time as UTCTimestamp, open: c.open, high: c.high, low: c.low, close: c.close };
 }
 
-export function MiniChart({ candles, direction }: MiniChartProps) {
+function toVolumeBar(c: CandleData) {
+  return {
+    time: c.time as UTCTimestamp,
+    value: c.volume ?? 0,
+    color: c.close >= c.open ? 'rgba(34, 197, 94, 0.35)' : 'rgba(239, 68, 68, 0.35)',
+  };
+}
+
+/**
+ * Merge the live candle and mid into the latest bar
+ */
+function getFormingCandle(
+  last: CandleData | undefined,
+  liveCandle: CandleData | null | undefined,
+  lastPrice: number | null | undefined
+): CandleData | null {
+  const base = liveCandle && (!last || liveCandle.time >= last.time) ? liveCandle : last;
+  if (!base) return null;
+  if (!lastPrice) return base;
+
+  return {
+    ...base,
+    close: lastPrice,
+    high: Math.max(base.high, lastPrice),
+    low: Math.min(base.low, lastPrice),
+  };
+}
+
+export function MiniChart({
+  candles,
+  direction,
+  timeframe = '4h',
+  indicators = DEFAULT_CHART_INDICATORS,
+  liveCandle,
+  lastPrice,
+}: MiniChartProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
+  const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const lineSeriesRef = useRef<Map<string, ISeriesApi<'Line'>>>(new Map());
+  // Bars on the chart, including the one forming live
+  const barsRef = useRef<CandleData[]>([]);
 
   useEffect(() => {
     if (!containerRef.current || candles.length === 0) return;
@@ -35,6 +162,7 @@ export function MiniChart({ candles, direction }: MiniChartProps) {
       layout: {
         background: { color: 'transparent' },
         textColor: '#9ca3af',
+        panes: { separatorColor: 'rgba(255, 255, 255, 0.05)' },
       },
       grid: {
         vertLines: { color: 'rgba(255, 255, 255, 0.05)' },
@@ -44,7 +172,7 @@ export function MiniChart({ candles, direction }: MiniChartProps) {
       height: containerRef.current.clientHeight,
       rightPriceScale: {
         borderVisible: false,
-        scaleMargins: { top: 0.1, bottom: 0.1 },
+        scaleMargins: { top: 0.1, bottom: indicators.volume ? 0.25 : 0.1 },
       },
       timeScale: {
         borderVisible: false,
@@ -58,36 +186,65 @@ export function MiniChart({ candles, direction }: MiniChartProps) {
     });
 
     chartRef.current = chart;
+    barsRef.current = [...candles];
+
+    // Volume bars along the bottom of the price pane
+    if (indicators.volume) {
+      const volumeSeries = chart.addSeries(HistogramSeries, {
+        priceScaleId: 'volume',
+        priceFormat: { type: 'volume' },
+        priceLineVisible: false,
+        lastValueVisible: false,
+      });
+      chart.priceScale('volume').applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+      volumeSeries.setData(candles.map(toVolumeBar));
+      volumeSeriesRef.current = volumeSeries;
+    }
 
     // Candlestick series (v5 API)
+    const precision = getPricePrecision(candles[candles.length - 1].close);
     const candleSeries = chart.addSeries(CandlestickSeries, {
       upColor: '#22c55e',
       downColor: '#ef4444',
       borderVisible: false,
       wickUpColor: '#22c55e',
       wickDownColor: '#ef4444',
+      priceFormat: { type: 'price', precision, minMove: 10 ** -precision },
     });
 
-    const chartData = candles.map((c) => ({
-      time: c.time as UTCTimestamp,
-      open: c.open,
-      high: c.high,
-      low: c.low,
-      close: c.close,
-    }));
-
-    candleSeries.setData(chartData);
-
-    // EMA 20 overlay (v5 API)
-    const emaSeries = chart.addSeries(LineSeries, {
-      color: direction === 'LONG' ? '#f19340' : '#818cf8',
-      lineWidth: 2,
-      priceLineVisible: false,
-      lastValueVisible: false,
-    });
+    candleSeries.setData(candles.map(toCandlestickBar));
+    candleSeriesRef.current = candleSeries;
+
+    // EMA, VWAP, Bollinger and RSI overlays
+    for (const overlay of getLineOverlays(candles, indicators, direction, timeframe)) {
+      const series = chart.addSeries(
+        LineSeries,
+        {
+          color: overlay.color,
+          lineWidth: overlay.lineWidth,
+          lineStyle: overlay.lineStyle ?? LineStyle.Solid,
+          priceLineVisible: false,
+          lastValueVisible: false,
+        },
+        overlay.pane
+      );
+      series.setData(toLineData(overlay.points));
+      lineSeriesRef.current.set(overlay.key, series);
 
-    emaSeries.setData(calculateEMA(candles, 20));
+      if (overlay.key === 'rsi') {
+        for (const level of [70, 30]) {
+          series.createPriceLine({
+            price: level,
+            color: 'rgba(255, 255, 255, 0.15)',
+            lineWidth: 1,
+            lineStyle: LineStyle.Dashed,
+            axisLabelVisible: false,
+          });
+        }
+      }
+    }
 
+    chart.panes()[1]?.setHeight(RSI_PANE_HEIGHT);
     chart.timeScale().fitContent();
 
     // Resize observer
@@ -102,11 +259,45 @@ export function MiniChart({ candles, direction }: MiniChartProps) {
 
     resizeObserver.observe(containerRef.current);
 
+    const lineSeries = lineSeriesRef.current;
     return () => {
       resizeObserver.disconnect();
       chart.remove();
+      candleSeriesRef.current = null;
+      volumeSeriesRef.current = null;
+      lineSeries.clear();
     };
-  }, [candles, direction]);
+  }, [candles, direction, indicators, timeframe]);
+
+  // Live updates: replace the latest bar, or append when a new one opens
+  useEffect(() => {
+    const candleSeries = candleSeriesRef.current;
+    const bars = barsRef.current;
+    if (!candleSeries || bars.length === 0) return;
+
+    const last = bars[bars.length - 1];
+    const forming = getFormingCandle(last, liveCandle, lastPrice);
+    if (!forming || forming.time < last.time) return;
+
+    if (forming.time === last.time) {
+      bars[bars.length - 1] = forming;
+    } else {
+      bars.push(forming);
+    }
+
+    candleSeries.update(toCandlestickBar(forming));
+    volumeSeriesRef.current?.update(toVolumeBar(forming));
+
+    // Overlays are cheap to recompute over ~100 bars; push only the latest point
+    for (const overlay of getLineOverlays(bars, indicators, direction, timeframe)) {
+      const point = overlay.points[overlay.points.length - 1];
+      if (point?.time === forming.time) {
+        lineSeriesRef.current.get(overlay.key)?.update({ time: point.time as UTCTimestamp, value: point.value });
+      }
+    }
+    // indicators/direction/timeframe changes rebuild the chart above
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [liveCandle, lastPrice]);
 
   return <div ref={containerRef} className="w-full h-full" />;
 }
@@ -0,0 +1,389 @@
+'use client';
+
+import { useState } from 'react';
+import { TpSlEditor } from './TpSlEditor';
+import { ExpectedCostRow, LiquidationPreviewRow } from './SwipeCard';
+import { validateTpSl } from '@/lib/tpsl';
+import { getLiquidationPreview, MIN_NOTIONAL_PER_ASSET } from '@/lib/liquidation';
+import { applyOrderTicket } from '@/lib/market-utils';
+import {
+  DEFAULT_TWAP,
+  LADDER_LEVEL_OPTIONS,
+  SLIPPAGE_OPTIONS,
+  TWAP_DURATION_OPTIONS,
+  entersBelow,
+  getDefaultLadder,
+  getLadderPrices,
+  getSuggestedEntry,
+  validateOrderEntry,
+} from '@/lib/orders';
+import { useAssetMeta } from '@/hooks/useAssetMeta';
+import type { LadderSettings, OrderTicket, OrderType, TradeCard } from '@/types/trade';
+
+// Used until Hyperliquid metadata loads
+const FALLBACK_MAX_LEVERAGE = 50;
+
+const ORDER_TYPE_OPTIONS: Array<{ value: OrderType; label: string; submitLabel: string }> = [
+  { value: 'MARKET', label: 'Market', submitLabel: 'Trade' },
+  { value: 'LIMIT', label: 'Limit', submitLabel: 'Place limit order' },
+  { value: 'TWAP', label: 'TWAP', submitLabel: 'Start TWAP' },
+  { value: 'LADDER', label: 'Ladder', submitLabel: 'Place ladder' },
+];
+
+function formatMinutes(minutes: number): string {
+  return minutes < 60 ? `${minutes}m` : `${minutes / 60}h`;
+}
+
+interface OrderTicketSheetProps {
+  trade: TradeCard;
+  initial: OrderTicket;
+  sizeOptions: readonly number[];
+  onSubmit: (ticket: OrderTicket) => void;
+  onClose: () => void;
+}
+
+function formatBasket(assets: TradeCard['longAssets']): string {
+  return (assets ?? []).map((a) => a.asset).join('+');
+}
+
+/**
+ * Bottom sheet opened by swiping a card up: size, leverage, direction,
+ * TP/SL and order type for this card only.
+ * Render with `key={trade.id}` so the draft resets when the card changes.
+ */
+export function OrderTicketSheet({ trade, initial, sizeOptions, onSubmit, onClose }: OrderTicketSheetProps) {
+  const [ticket, setTicket] = useState<OrderTicket>(initial);
+  const update = (patch: Partial<OrderTicket>) => setTicket((prev) => ({ ...prev, ...patch }));
+
+  const isPair = trade.positionType === 'relative_pair';
+  const traded = applyOrderTicket(trade, ticket);
+
+  // Tier-aware max leverage at this size, across every leg
+  const hasAssets = (traded.longAssets?.length ?? 0) + (traded.shortAssets?.length ?? 0) > 0;
+  const longAssets = hasAssets ? traded.longAssets ?? [] : [{ asset: traded.ticker, weight: 100 }];
+  const shortAssets = traded.shortAssets ?? [];
+  const { data: meta } = useAssetMeta([...longAssets, ...shortAssets].map((a) => a.asset));
+  const preview = meta
+    ? getLiquidationPreview(
+        {
+          positionType: traded.positionType ?? 'one_directional',
+          direction: traded.direction,
+          longAssets,
+          shortAssets,
+          sizeUsd: ticket.sizeUsd,
+          leverage: ticket.leverage,
+        },
+        meta.assets
+      )
+    : null;
+  const maxLeverage = Math.floor(preview?.maxLeverage ?? FALLBACK_MAX_LEVERAGE);
+
+  // Entries default to the last close; a flipped pair trades the inverse ratio
+  const lastClose = trade.candles[trade.candles.length - 1]?.close ?? null;
+  const isFlippedPair = isPair && ticket.direction !== trade.direction;
+  const referencePrice = lastClose ? (isFlippedPair ? 1 / lastClose : lastClose) : null;
+  const below = entersBelow(isPair, ticket.direction);
+  const aiEntry =
+    referencePrice && trade.entryOffsetPct ? getSuggestedEntry(referencePrice, trade.entryOffsetPct, below) : null;
+
+  const tpSlContext = { direction: traded.direction, leverage: ticket.leverage, usdValue: ticket.sizeUsd };
+  const tpSlError = validateTpSl(ticket.tpSl, tpSlContext);
+  // Mirrors the route, which bumps size to the per-leg minimum before checking ladder slices
+  const legCount = longAssets.length + shortAssets.length;
+  const orderEntryError = validateOrderEntry(ticket, {
+    usdValue: Math.max(ticket.sizeUsd, MIN_NOTIONAL_PER_ASSET * legCount),
+    legCount,
+  });
+
+  const error =
+    !Number.isFinite(ticket.sizeUsd) || ticket.sizeUsd < 1
+      ? 'Size must be at least $1'
+      : ticket.leverage < 1 || ticket.leverage > maxLeverage
+        ? `Leverage must be between 1x and ${maxLeverage}x`
+        : orderEntryError ?? tpSlError;
+
+  const setOrderType = (orderType: OrderType) => {
+    update({
+      orderType,
+      limitPrice: orderType === 'LIMIT' ? ticket.limitPrice ?? aiEntry ?? referencePrice : null,
+      twap: orderType === 'TWAP' ? ticket.twap ?? DEFAULT_TWAP : null,
+      ladder: orderType === 'LADDER' ? ticket.ladder ?? (referencePrice ? getDefaultLadder(referencePrice, below) : null) : null,
+    });
+  };
+
+  const updateLadder = (patch: Partial<LadderSettings>) => {
+    update({ ladder: { ...(ticket.ladder ?? { start: 0, end: 0, levels: LADDER_LEVEL_OPTIONS[0] }), ...patch } });
+  };
+
+  const setDirection = (direction: 'LONG' | 'SHORT') => {
+    if (direction === ticket.direction) return;
+    // Keep a pair's entries on the same side of the (now inverted) ratio
+    const invert = (value: number) => (isPair && value ? 1 / value : value);
+    update({
+      direction,
+      limitPrice: ticket.limitPrice ? invert(ticket.limitPrice) : ticket.limitPrice,
+      ladder: ticket.ladder ? { ...ticket.ladder, start: invert(ticket.ladder.start), end: invert(ticket.ladder.end) } : null,
+    });
+  };
+
+  const ladderPrices = ticket.ladder && !orderEntryError ? getLadderPrices(ticket.ladder) : [];
+  const submitLabel = ORDER_TYPE_OPTIONS.find((option) => option.value === ticket.orderType)?.submitLabel ?? 'Trade';
+
+  const directionOptions: Array<{ value: 'LONG' | 'SHORT'; label: string }> = isPair
+    ? [
+        { value: trade.direction, label: `${formatBasket(trade.longAssets)} / ${formatBasket(trade.shortAssets)}` },
+        {
+          value: trade.direction === 'LONG' ? 'SHORT' : 'LONG',
+          label: `${formatBasket(trade.shortAssets)} / ${formatBasket(trade.longAssets)}`,
+        },
+      ]
+    : [
+        { value: 'LONG', label: '↑ Long' },
+        { value: 'SHORT', label: '↓ Short' },
+      ];
+
+  const chipClass = (active: boolean) =>
+    `flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+      active ? 'bg-primary-500/20 text-primary-400 border border-primary-500/40' : 'bg-dark-800 text-gray-400 border border-dark-600'
+    }`;
+
+  const inputClass =
+    'flex-1 min-w-0 px-2 py-1 bg-dark-800 border border-dark-600 rounded-lg text-sm text-white focus:outline-none focus:border-primary-500';
+
+  const slippageChips = (
+    <div className="flex items-center gap-2 mt-2">
+      <span className="text-xs text-gray-400 whitespace-nowrap">Max slippage</span>
+      {SLIPPAGE_OPTIONS.map((slippage) => (
+        <button
+          key={slippage}
+          type="button"
+          aria-pressed={ticket.slippage === slippage}
+          onClick={() => update({ slippage })}
+          className={chipClass(ticket.slippage === slippage)}
+        >
+          {slippage * 100}%
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Sheet */}
+      <div className="relative bg-dark-900 border border-dark-700 rounded-t-2xl p-6 w-full max-w-md shadow-2xl max-h-[85vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-white">{trade.tagline}</h2>
+            <p className="text-xs text-gray-500">Custom order for this card</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-dark-700 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {/* Direction */}
+          <div>
+            <p className="text-xs text-gray-500 mb-1">{isPair ? 'Long / Short' : 'Direction'}</p>
+            <div className="flex gap-2">
+              {directionOptions.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setDirection(option.value)}
+                  className={chipClass(ticket.direction === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Size */}
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Size (USD)</p>
+            <div className="flex gap-2">
+              {sizeOptions.map((s) => (
+                <button key={s} type="button" onClick={() => update({ sizeUsd: s })} className={chipClass(ticket.sizeUsd === s)}>
+                  ${s}
+                </button>
+              ))}
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={Number.isFinite(ticket.sizeUsd) ? ticket.sizeUsd : ''}
+                onChange={(e) => update({ sizeUsd: parseFloat(e.target.value) })}
+                className="w-20 px-2 py-2 bg-dark-800 border border-dark-600 rounded-lg text-sm text-white focus:outline-none focus:border-primary-500"
+                aria-label="Custom size in USD"
+              />
+            </div>
+          </div>
+
+          {/* Leverage */}
+          <div>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-gray-500">Leverage</span>
+              <span className={ticket.leverage > 10 ? 'text-orange-400' : 'text-primary-400'}>
+                {ticket.leverage}x <span className="text-gray-600">/ max {maxLeverage}x</span>
+              </span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max={maxLeverage}
+              step="1"
+              value={Math.min(ticket.leverage, maxLeverage)}
+              onChange={(e) => update({ leverage: parseInt(e.target.value, 10) })}
+              className="w-full accent-primary-500"
+              aria-label="Leverage"
+            />
+          </div>
+
+          {/* Order type */}
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Order type</p>
+            <div className="flex gap-2">
+              {ORDER_TYPE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  aria-pressed={ticket.orderType === option.value}
+                  onClick={() => setOrderType(option.value)}
+                  className={chipClass(ticket.orderType === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {ticket.orderType === 'MARKET' && slippageChips}
+
+            {ticket.orderType === 'LIMIT' && (
+              <>
+                <div className="flex items-center gap-2 mt-2">
+                  <span className="text-xs text-gray-400">{isPair ? 'Enter at ratio' : 'Enter at $'}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={ticket.limitPrice ?? ''}
+                    onChange={(e) => update({ limitPrice: e.target.value ? parseFloat(e.target.value) : null })}
+                    className={inputClass}
+                    aria-label="Limit price"
+                  />
+                </div>
+                {aiEntry && (
+                  <button
+                    type="button"
+                    onClick={() => update({ limitPrice: aiEntry })}
+                    className="mt-1 text-xs text-primary-400 hover:text-primary-300"
+                  >
+                    Use AI entry: {aiEntry} ({below ? '-' : '+'}{trade.entryOffsetPct}%)
+                  </button>
+                )}
+              </>
+            )}
+
+            {ticket.orderType === 'TWAP' && ticket.twap && (
+              <>
+                <div className="flex items-center gap-2 mt-2">
+                  <span className="text-xs text-gray-400 whitespace-nowrap">Spread over</span>
+                  {TWAP_DURATION_OPTIONS.map((minutes) => (
+                    <button
+                      key={minutes}
+                      type="button"
+                      aria-pressed={ticket.twap?.durationMinutes === minutes}
+                      onClick={() => update({ twap: { ...ticket.twap!, durationMinutes: minutes } })}
+                      className={chipClass(ticket.twap?.durationMinutes === minutes)}
+                    >
+                      {formatMinutes(minutes)}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={ticket.twap.randomize}
+                    onChange={(e) => update({ twap: { ...ticket.twap!, randomize: e.target.checked } })}
+                    className="accent-primary-500"
+                  />
+                  Randomize chunk timing
+                </label>
+                {slippageChips}
+              </>
+            )}
+
+            {ticket.orderType === 'LADDER' && (
+              <>
+                <div className="flex items-center gap-2 mt-2">
+                  <span className="text-xs text-gray-400 whitespace-nowrap">{isPair ? 'Ratio from' : 'From $'}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={ticket.ladder?.start || ''}
+                    onChange={(e) => updateLadder({ start: e.target.value ? parseFloat(e.target.value) : 0 })}
+                    className={inputClass}
+                    aria-label="First ladder level"
+                  />
+                  <span className="text-xs text-gray-400">to</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={ticket.ladder?.end || ''}
+                    onChange={(e) => updateLadder({ end: e.target.value ? parseFloat(e.target.value) : 0 })}
+                    className={inputClass}
+                    aria-label="Last ladder level"
+                  />
+                </div>
+                <div className="flex items-center gap-2 mt-2">
+                  <span className="text-xs text-gray-400">Levels</span>
+                  {LADDER_LEVEL_OPTIONS.map((levels) => (
+                    <button
+                      key={levels}
+                      type="button"
+                      aria-pressed={ticket.ladder?.levels === levels}
+                      onClick={() => updateLadder({ levels })}
+                      className={chipClass(ticket.ladder?.levels === levels)}
+                    >
+                      {levels}
+                    </button>
+                  ))}
+                </div>
+                {ladderPrices.length > 0 && (
+                  <p className="text-[10px] text-gray-500 mt-1">
+                    {ladderPrices.length} × ${(ticket.sizeUsd / ladderPrices.length).toFixed(2)} at {ladderPrices.join(', ')}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          <TpSlEditor value={ticket.tpSl} onChange={(tpSl) => update({ tpSl })} context={tpSlContext} />
+
+          <LiquidationPreviewRow trade={traded} size={ticket.sizeUsd} />
+          {ticket.orderType === 'MARKET' && (
+            <ExpectedCostRow trade={traded} size={ticket.sizeUsd} maxSlippage={ticket.slippage} />
+          )}
+        </div>
+
+        {error && <p className="text-xs text-red-400 mt-3">{error}</p>}
+
+        <button
+          onClick={() => onSubmit(ticket)}
+          disabled={!!error}
+          className="w-full mt-4 py-3 bg-primary-500 hover:bg-primary-600 rounded-xl font-medium text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitLabel} · ${Number.isFinite(ticket.sizeUsd) ? ticket.sizeUsd : 0} at {ticket.leverage}x
+        </button>
+      </div>
+    </div>
+  );
+}
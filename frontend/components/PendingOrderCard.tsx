@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import type { PendingOrder } from '@/types/trade';
+
+interface PendingOrderCardProps {
+  order: PendingOrder;
+  onCancel: (order: PendingOrder) => void;
+  isCancelling: boolean;
+}
+
+const ORDER_TYPE_LABELS: Record<PendingOrder['orderType'], string> = {
+  LIMIT: 'LIMIT',
+  TWAP: 'TWAP',
+  LADDER: 'LADDER',
+};
+
+/**
+ * One-line summary of where the order enters
+ */
+function describeEntry(order: PendingOrder): string {
+  const unit = order.positionType === 'relative_pair' ? 'ratio ' : '$';
+  switch (order.orderType) {
+    case 'LIMIT':
+      return order.triggerValue !== null ? `Enters at ${unit}${order.triggerValue}` : 'Waiting for trigger';
+    case 'TWAP':
+      return order.twapDurationMinutes !== null ? `Over ${order.twapDurationMinutes} min` : 'Executing in chunks';
+    case 'LADDER':
+      return order.ladder
+        ? `${order.ladder.levels} levels, ${unit}${order.ladder.start} → ${unit}${order.ladder.end}`
+        : 'Scaling in';
+  }
+}
+
+/**
+ * A resting LIMIT, TWAP or LADDER entry with a two-step cancel
+ */
+export function PendingOrderCard({ order, onCancel, isCancelling }: PendingOrderCardProps) {
+  const [confirming, setConfirming] = useState(false);
+  const filledPercent =
+    order.filledUsdValue !== null && order.usdValue > 0
+      ? Math.min(100, (order.filledUsdValue / order.usdValue) * 100)
+      : null;
+
+  return (
+    <div className="bg-dark-800/50 border border-dark-700 rounded-2xl p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h3 className="font-bold text-white truncate">{order.displayName}</h3>
+            <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-primary-500/20 text-primary-400 border border-primary-500/30">
+              {ORDER_TYPE_LABELS[order.orderType]}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            {order.leverage !== null && `${order.leverage}x • `}${order.usdValue.toFixed(2)} • {describeEntry(order)}
+          </p>
+        </div>
+
+        {confirming ? (
+          <div className="flex gap-1 shrink-0">
+            <button
+              onClick={() => setConfirming(false)}
+              disabled={isCancelling}
+              className="px-2 py-1 rounded-lg text-xs text-gray-400 bg-dark-700 hover:bg-dark-600 transition-colors"
+            >
+              Keep
+            </button>
+            <button
+              onClick={() => onCancel(order)}
+              disabled={isCancelling}
+              className="px-2 py-1 rounded-lg text-xs font-medium text-red-400 bg-red-500/20 hover:bg-red-500/30 transition-colors disabled:opacity-50"
+            >
+              {isCancelling ? 'Cancelling...' : 'Confirm'}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirming(true)}
+            className="shrink-0 px-3 py-1 rounded-lg text-xs font-medium text-gray-300 bg-dark-700 hover:bg-dark-600 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {filledPercent !== null && (
+        <div className="mt-3">
+          <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+            <span>Filled</span>
+            <span>
+              ${order.filledUsdValue!.toFixed(2)} / ${order.usdValue.toFixed(2)}
+            </span>
+          </div>
+          <div className="h-1.5 bg-dark-700 rounded-full overflow-hidden">
+            <div className="h-full bg-primary-500" style={{ width: `${filledPercent}%` }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
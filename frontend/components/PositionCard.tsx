@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { TpSlEditor } from './TpSlEditor';
+import { formatTrigger, validateTpSl } from '@/lib/tpsl';
+import type { OpenPosition, PositionLeg, TpSlSettings } from '@/types/trade';
+
+interface PositionCardProps {
+  position: OpenPosition;
+  onClose: (positionId: string, percentage: number) => void;
+  onUpdateTpSl: (positionId: string, settings: TpSlSettings) => Promise<boolean>;
+  isClosing: boolean;
+  isUpdatingTpSl: boolean;
+}
+
+const PARTIAL_CLOSE_OPTIONS = [25, 50, 100] as const;
+
+/**
+ * Formats a USD amount with sign, e.g. +$1.23 / -$0.45
+ */
+function formatPnl(value: number): string {
+  const sign = value >= 0 ? '+' : '-';
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+/**
+ * Formats a price with precision that scales with magnitude.
+ */
+function formatPrice(value: number): string {
+  if (value === 0) return '--';
+  if (value >= 1000) return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  if (value >= 1) return value.toFixed(4);
+  return value.toPrecision(4);
+}
+
+function LegRow({ leg }: { leg: PositionLeg }) {
+  const isLong = leg.side === 'LONG';
+
+  return (
+    <div className="grid grid-cols-5 gap-2 items-center text-[11px] py-1.5">
+      <div className="flex items-center gap-1.5 col-span-1">
+        <span className={isLong ? 'text-green-400' : 'text-red-400'}>{isLong ? '↑' : '↓'}</span>
+        <span className="font-medium text-white truncate">{leg.asset}</span>
+      </div>
+      <div className="text-right text-gray-400">{formatPrice(leg.entryPrice)}</div>
+      <div className="text-right text-gray-300">{formatPrice(leg.markPrice)}</div>
+      <div className="text-right text-gray-400">${leg.marginUsed.toFixed(2)}</div>
+      <div className={`text-right font-medium ${leg.unrealizedPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+        {formatPnl(leg.unrealizedPnl)}
+      </div>
+    </div>
+  );
+}
+
+export function PositionCard({ position, onClose, onUpdateTpSl, isClosing, isUpdatingTpSl }: PositionCardProps) {
+  const [confirmPercentage, setConfirmPercentage] = useState<number | null>(null);
+  const [tpSlDraft, setTpSlDraft] = useState<TpSlSettings | null>(null);
+  const isProfit = position.unrealizedPnl >= 0;
+  const legs = [...position.longAssets, ...position.shortAssets];
+
+  // Pairs profit when the long basket outperforms, like a long on the ratio
+  const tpSlContext = {
+    direction: position.longAssets.length > 0 ? 'LONG' as const : 'SHORT' as const,
+    leverage: position.leverage,
+    usdValue: position.positionValue,
+  };
+
+  const handleSaveTpSl = async () => {
+    if (!tpSlDraft) return;
+    const saved = await onUpdateTpSl(position.positionId, tpSlDraft);
+    if (saved) {
+      setTpSlDraft(null);
+    }
+  };
+
+  const handleCloseTap = (percentage: number) => {
+    if (confirmPercentage === percentage) {
+      onClose(position.positionId, percentage);
+      setConfirmPercentage(null);
+    } else {
+      setConfirmPercentage(percentage);
+    }
+  };
+
+  return (
+    <div className="bg-dark-800/50 border border-dark-700 rounded-2xl overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-dark-700 flex items-center justify-between">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h3 className="font-bold text-white truncate">{position.displayName}</h3>
+            {position.positionType === 'relative_pair' && (
+              <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-purple-500/20 text-purple-400 border border-purple-500/30">
+                PAIR
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {position.leverage}x • ${position.positionValue.toFixed(2)} notional • ${position.marginUsed.toFixed(2)} margin
+          </p>
+        </div>
+        <div className="text-right">
+          <p className={`text-lg font-bold ${isProfit ? 'text-green-400' : 'text-red-400'}`}>
+            {formatPnl(position.unrealizedPnl)}
+          </p>
+          <p className={`text-xs ${isProfit ? 'text-green-400/70' : 'text-red-400/70'}`}>
+            {isProfit ? '+' : ''}{position.unrealizedPnlPercent.toFixed(2)}%
+          </p>
+        </div>
+      </div>
+
+      {/* Ratio (pairs only) */}
+      {position.positionType === 'relative_pair' && position.entryRatio !== null && (
+        <div className="px-4 py-2 border-b border-dark-700 bg-dark-900/30 flex justify-between text-[10px]">
+          <span className="text-gray-500 uppercase tracking-wide">Ratio</span>
+          <span className="text-gray-300">
+            {formatPrice(position.entryRatio)} → {position.markRatio !== null ? formatPrice(position.markRatio) : '--'}
+          </span>
+        </div>
+      )}
+
+      {/* Legs */}
+      <div className="px-4 py-2">
+        <div className="grid grid-cols-5 gap-2 text-[9px] text-gray-500 uppercase tracking-wide pb-1 border-b border-dark-700">
+          <span>Leg</span>
+          <span className="text-right">Entry</span>
+          <span className="text-right">Mark</span>
+          <span className="text-right">Margin</span>
+          <span className="text-right">uPnL</span>
+        </div>
+        {legs.map((leg) => (
+          <LegRow key={`${leg.side}-${leg.asset}`} leg={leg} />
+        ))}
+      </div>
+
+      {/* TP/SL */}
+      <div className="px-4 py-2 border-t border-dark-700">
+        {tpSlDraft ? (
+          <div className="space-y-2">
+            <TpSlEditor value={tpSlDraft} onChange={setTpSlDraft} context={tpSlContext} />
+            <div className="flex gap-2">
+              <button
+                onClick={() => setTpSlDraft(null)}
+                className="flex-1 px-3 py-2 rounded-lg text-xs font-medium bg-dark-700 text-gray-300 hover:bg-dark-600"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveTpSl}
+                disabled={isUpdatingTpSl || validateTpSl(tpSlDraft, tpSlContext) !== null}
+                className="flex-1 px-3 py-2 rounded-lg text-xs font-medium bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUpdatingTpSl ? 'Saving...' : 'Save TP/SL'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between text-[11px]">
+            <div className="flex gap-3">
+              <span className="text-gray-500">TP <span className="text-green-400">{formatTrigger(position.takeProfit)}</span></span>
+              <span className="text-gray-500">SL <span className="text-red-400">{formatTrigger(position.stopLoss)}</span></span>
+            </div>
+            <button
+              onClick={() => setTpSlDraft({ takeProfit: position.takeProfit, stopLoss: position.stopLoss })}
+              className="text-primary-400 hover:text-primary-300 font-medium"
+            >
+              Edit
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Close actions */}
+      <div className="px-4 pb-4 pt-2 flex gap-2">
+        {PARTIAL_CLOSE_OPTIONS.map((percentage) => (
+          <button
+            key={percentage}
+            onClick={() => handleCloseTap(percentage)}
+            disabled={isClosing}
+            className={`flex-1 px-3 py-2 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              confirmPercentage === percentage
+                ? 'bg-red-500 text-white'
+                : percentage === 100
+                  ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
+                  : 'bg-dark-700 text-gray-300 hover:bg-dark-600'
+            }`}
+          >
+            {confirmPercentage === percentage
+              ? 'Confirm'
+              : percentage === 100 ? 'Close' : `Close ${percentage}%`}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { usePreferencesStore } from '@/store/preferencesStore';
+import { DEFAULT_RANKING_WEIGHTS, RANKING_FACTORS, RANKING_WEIGHT_OPTIONS } from '@/lib/ranking';
+
+/**
+ * Weight per ranking factor for the swipe deck. Saved locally.
+ */
+export function RankingSettings() {
+  const weights = usePreferencesStore((state) => state.rankingWeights);
+  const setRankingWeights = usePreferencesStore((state) => state.setRankingWeights);
+
+  return (
+    <div className="space-y-3">
+      {RANKING_FACTORS.map(({ factor, label, description }) => (
+        <div key={factor} className="p-3 bg-dark-800 rounded-xl border border-dark-600">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-white">{label}</span>
+            <div className="flex gap-1">
+              {RANKING_WEIGHT_OPTIONS.map(({ value, label: optionLabel }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setRankingWeights({ [factor]: value })}
+                  aria-pressed={weights[factor] === value}
+                  aria-label={`${label}: ${optionLabel}`}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                    weights[factor] === value
+                      ? 'bg-primary-500/20 text-primary-400'
+                      : 'bg-dark-700 text-gray-500 hover:text-gray-300'
+                  }`}
+                >
+                  {optionLabel}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">{description}</p>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => setRankingWeights(DEFAULT_RANKING_WEIGHTS)}
+        className="text-xs text-gray-500 hover:text-gray-300 underline"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
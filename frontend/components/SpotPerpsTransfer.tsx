@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { useUsdClassTransfer } from '@/hooks/useUsdClassTransfer';
+
+interface SpotPerpsTransferProps {
+  spotUsdc: number;
+  perpsWithdrawable: number;
+}
+
+/**
+ * Moves USDC between the Hyperliquid spot and perps balances.
+ * Orders only draw margin from perps.
+ */
+export function SpotPerpsTransfer({ spotUsdc, perpsWithdrawable }: SpotPerpsTransferProps) {
+  const { transfer, isTransferring, canTransfer } = useUsdClassTransfer();
+  const [toPerp, setToPerp] = useState(true);
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+
+  const available = toPerp ? spotUsdc : perpsWithdrawable;
+  const amountUsdc = parseFloat(amount || '0');
+  const canSubmit = canTransfer && amountUsdc > 0 && amountUsdc <= available && !isTransferring;
+
+  const handleTransfer = async () => {
+    setError(null);
+    setDone(null);
+    try {
+      await transfer(amountUsdc, toPerp);
+      setDone(`Moved $${amountUsdc.toFixed(2)} to ${toPerp ? 'perps' : 'spot'}`);
+      setAmount('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transfer failed');
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-blue-500/20">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => {
+            setToPerp(!toPerp);
+            setError(null);
+          }}
+          className="px-2 py-1.5 bg-dark-800 hover:bg-dark-700 rounded-lg text-xs text-gray-300 whitespace-nowrap transition-colors"
+          aria-label="Switch transfer direction"
+        >
+          {toPerp ? 'Spot → Perps' : 'Perps → Spot'}
+        </button>
+        <input
+          type="number"
+          min="0"
+          step="1"
+          value={amount}
+          onChange={(e) => {
+            setAmount(e.target.value);
+            setError(null);
+          }}
+          placeholder="0.00"
+          className="min-w-0 flex-1 px-2 py-1.5 bg-dark-800 border border-dark-600 rounded-lg focus:outline-none focus:border-primary-500 text-sm text-white"
+          disabled={isTransferring}
+        />
+        <button
+          type="button"
+          onClick={() => setAmount((Math.floor(available * 100) / 100).toFixed(2))}
+          className="text-xs text-primary-400 hover:text-primary-300"
+        >
+          MAX
+        </button>
+        <button
+          type="button"
+          onClick={handleTransfer}
+          disabled={!canSubmit}
+          className="px-3 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:bg-dark-700 disabled:text-gray-500 rounded-lg text-xs font-medium text-white transition-colors"
+        >
+          {isTransferring ? 'Moving...' : 'Move'}
+        </button>
+      </div>
+      {amountUsdc > available ? (
+        <p className="text-xs text-red-400 mt-1">Only ${available.toFixed(2)} available</p>
+      ) : error ? (
+        <p className="text-xs text-red-400 mt-1">{error}</p>
+      ) : done ? (
+        <p className="text-xs text-green-400 mt-1">{done}</p>
+      ) : !canTransfer ? (
+        <p className="text-xs text-gray-500 mt-1">Connect on Ethereum or Arbitrum to sign transfers</p>
+      ) : null}
+    </div>
+  );
+}
@@ -3,7 +3,17 @@
 import { useRef, useState, useEffect } from 'react';
 import Image from 'next/image';
 import { MiniChart } from './MiniChart';
-import type { TradeCard, MarketMetrics } from '@/types/trade';
+import { formatTrigger } from '@/lib/tpsl';
+import { getLiquidationPreview } from '@/lib/liquidation';
+import { useAssetMeta } from '@/hooks/useAssetMeta';
+import { useOrderQuote } from '@/hooks/useOrderQuote';
+import { useAllMids, useLiveCandle } from '@/hooks/useHyperliquidWs';
+import { useCandles, isRatioChart } from '@/hooks/useCandles';
+import { usePrefersReducedMotion } from '@/hooks/usePrefersReducedMotion';
+import { CHART_TIMEFRAMES } from '@/lib/indicators';
+import { RANKING_FACTORS } from '@/lib/ranking';
+import { usePreferencesStore } from '@/store/preferencesStore';
+import type { TradeCard, MarketMetrics, MarketAsset, TpSlSettings, ChartTimeframe, DeckRankScore } from '@/types/trade';
 
 // Client-side cache for icon URLs
 const iconUrlCache = new Map<string, string | null>();
@@ -67,7 +77,11 @@ interface SwipeCardProps {
   trade: TradeCard;
   size: number;
   onSwipe: (direction: 'left' | 'right') => void;
+  onSwipeUp?: () => void; // opens the order ticket
+  onSwipeDown?: () => void; // saves the card to the watchlist
   isTop: boolean;
+  tpSl?: TpSlSettings;
+  onOpenDetails?: () => void;
 }
 
 /**
@@ -111,11 +125,154 @@ function formatChange24h(value: string): { text: string; isPositive: boolean } {
   };
 }
 
+/**
+ * Formats a price with precision that suits its magnitude.
+ * E.g., 64250.5 -> "64,251", 1.2345 -> "1.2345", 0.00001234 -> "0.00001234"
+ */
+function formatPrice(value: number): string {
+  if (value >= 1000) {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+  }
+  if (value >= 1) {
+    return value.toFixed(value >= 100 ? 2 : 4);
+  }
+  return value.toPrecision(4);
+}
+
+/**
+ * Estimated entry, liquidation and margin for the selected size and leverage.
+ * Relative pairs show the spread (ratio) move to liquidation instead of a price.
+ */
+export function LiquidationPreviewRow({ trade, size }: { trade: TradeCard; size: number }) {
+  const hasAssets = (trade.longAssets?.length ?? 0) + (trade.shortAssets?.length ?? 0) > 0;
+  const longAssets = hasAssets ? trade.longAssets ?? [] : [{ asset: trade.ticker, weight: 100 }];
+  const shortAssets = trade.shortAssets ?? [];
+  const coins = [...longAssets, ...shortAssets].map((a) => a.asset);
+  const { data } = useAssetMeta(coins);
+
+  const preview = data
+    ? getLiquidationPreview(
+        {
+          positionType: trade.positionType ?? 'one_directional',
+          direction: trade.direction,
+          longAssets,
+          shortAssets,
+          sizeUsd: size,
+          leverage: trade.leverage,
+        },
+        data.assets
+      )
+    : null;
+
+  if (!preview) {
+    return (
+      <div className="mt-2 text-center text-[10px] text-gray-600">
+        {data ? 'Liquidation estimate unavailable' : 'Estimating liquidation...'}
+      </div>
+    );
+  }
+
+  const isPair = trade.positionType === 'relative_pair';
+  const exceedsMax = preview.leverage > preview.maxLeverage;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-dark-700/60">
+      <div className="flex items-center justify-between text-[10px]">
+        <div>
+          <span className="text-gray-500 uppercase tracking-wide">{isPair ? 'Ratio' : 'Entry'} </span>
+          <span className="text-gray-300 font-medium">
+            {isPair
+              ? preview.entryRatio !== null ? preview.entryRatio.toFixed(4) : '--'
+              : `~$${formatPrice(preview.legs[0].entryPrice)}`}
+          </span>
+        </div>
+        <div>
+          <span className="text-gray-500 uppercase tracking-wide">Liq </span>
+          <span className="text-orange-400 font-medium">
+            {isPair
+              ? preview.liquidationRatio !== null ? preview.liquidationRatio.toFixed(4) : '--'
+              : `$${formatPrice(preview.legs[0].liquidationPrice)}`}
+          </span>
+          <span className="text-gray-500"> ({isPair ? 'spread ' : ''}-{preview.movePercent.toFixed(1)}%)</span>
+        </div>
+        <div>
+          <span className="text-gray-500 uppercase tracking-wide">Margin </span>
+          <span className="text-gray-300 font-medium">${preview.marginUsd.toFixed(2)}</span>
+        </div>
+      </div>
+      {exceedsMax && (
+        <p className="mt-1 text-center text-[10px] text-red-400">
+          {preview.leverage}x exceeds the {preview.maxLeverage}x max for this market
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Expected cost of entering at market: book impact plus taker and builder fees.
+ * Warns when the book can't fill the size within the max slippage.
+ */
+export function ExpectedCostRow({
+  trade,
+  size,
+  maxSlippage,
+  enabled = true,
+}: {
+  trade: TradeCard;
+  size: number;
+  maxSlippage?: number; // defaults to the Settings value
+  enabled?: boolean;
+}) {
+  const defaultSlippage = usePreferencesStore((state) => state.defaultSlippage);
+  const { data: quote, isError } = useOrderQuote(trade, size, enabled);
+  const slippageLimit = maxSlippage ?? defaultSlippage;
+
+  if (!quote) {
+    if (!enabled) return null;
+    return (
+      <div className="mt-1 text-center text-[10px] text-gray-600">
+        {isError ? 'Cost estimate unavailable' : 'Estimating cost...'}
+      </div>
+    );
+  }
+
+  const feesUsd = quote.takerFeeUsd + quote.builderFeeUsd;
+  const warning =
+    quote.suggestedSlippage === null
+      ? 'Order book is too thin to fill this size at market'
+      : quote.worstImpactPct / 100 > slippageLimit
+        ? `Impact above your ${slippageLimit * 100}% max slippage. Try a limit order`
+        : null;
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center justify-between text-[10px]">
+        <div>
+          <span className="text-gray-500 uppercase tracking-wide">Expected cost </span>
+          <span className="text-gray-300 font-medium">~${quote.expectedCostUsd.toFixed(2)}</span>
+        </div>
+        <div>
+          <span className="text-gray-500 uppercase tracking-wide">Impact </span>
+          <span className={quote.impactPct > 0.5 ? 'text-orange-400 font-medium' : 'text-gray-300 font-medium'}>
+            {quote.impactPct.toFixed(2)}%
+          </span>
+        </div>
+        <div>
+          <span className="text-gray-500 uppercase tracking-wide">Fees </span>
+          <span className="text-gray-300 font-medium">${feesUsd.toFixed(2)}</span>
+        </div>
+      </div>
+      {warning && <p className="mt-1 text-center text-[10px] text-red-400">{warning}</p>}
+    </div>
+  );
+}
+
 /**
  * Renders market metrics section showing 24h change, volume, and OI.
  * Only renders if marketMetrics is available.
  */
-function MarketMetricsDisplay({ metrics }: { metrics: MarketMetrics }) {
+export function MarketMetricsDisplay({ metrics }: { metrics: MarketMetrics }) {
   const change = formatChange24h(metrics.change24h);
 
   return (
@@ -145,7 +302,49 @@ function MarketMetricsDisplay({ metrics }: { metrics: MarketMetrics }) {
 }
 
 
-function CardHeader({ trade }: { trade: TradeCard }) {
+/**
+ * Basket label for a ratio chart, e.g. "BTC+ETH"
+ */
+function formatBasket(assets: MarketAsset[]): string {
+  return assets.map((a) => a.asset).join('+');
+}
+
+/**
+ * Timeframe tabs above the chart. Stops pointer events so taps don't start a swipe.
+ */
+function TimeframeSelector({
+  value,
+  onChange,
+}: {
+  value: ChartTimeframe;
+  onChange: (timeframe: ChartTimeframe) => void;
+}) {
+  return (
+    <div
+      className="flex items-center gap-1"
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      {CHART_TIMEFRAMES.map((tf) => (
+        <button
+          key={tf}
+          type="button"
+          onClick={() => onChange(tf)}
+          aria-pressed={tf === value}
+          className={`px-2 py-0.5 rounded text-[10px] font-medium uppercase transition-colors ${
+            tf === value
+              ? 'bg-primary-500/20 text-primary-400'
+              : 'text-gray-500 hover:text-gray-300'
+          }`}
+        >
+          {tf}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function CardHeader({ trade, timeframe }: { trade: TradeCard; timeframe: ChartTimeframe }) {
   const isLong = trade.direction === 'LONG';
   const primaryAsset = trade.longAssets?.[0]?.asset || trade.shortAssets?.[0]?.asset || trade.ticker;
 
@@ -163,7 +362,7 @@ function CardHeader({ trade }: { trade: TradeCard }) {
         </div>
         <div className="flex-1 min-w-0">
           <h3 className="font-bold text-lg text-white truncate">{trade.tagline}</h3>
-          <p className="text-xs text-gray-500">{pairText} • {trade.timeframe.toUpperCase()}</p>
+          <p className="text-xs text-gray-500">{pairText} • {timeframe.toUpperCase()}</p>
         </div>
       </div>
     );
@@ -181,7 +380,7 @@ function CardHeader({ trade }: { trade: TradeCard }) {
       </div>
       <div className="flex-1 min-w-0">
         <h3 className="font-bold text-lg text-white truncate">{trade.tagline}</h3>
-        <p className="text-xs text-gray-500">{primaryAsset} • {trade.timeframe.toUpperCase()}</p>
+        <p className="text-xs text-gray-500">{primaryAsset} • {timeframe.toUpperCase()}</p>
       </div>
     </div>
   );
@@ -199,6 +398,19 @@ function getLeverageDisplay(trade: TradeCard): { value: number; isHigh: boolean;
   return { value, isHigh, isAISuggested };
 }
 
+/**
+ * One-sentence summary of a card for screen readers
+ */
+export function describeTradeCard(trade: TradeCard, size: number): string {
+  const { value: leverage } = getLeverageDisplay(trade);
+  const market =
+    trade.positionType === 'relative_pair' && trade.longAssets?.length && trade.shortAssets?.length
+      ? `Long ${trade.longAssets.map((a) => a.asset).join(' and ')}, short ${trade.shortAssets.map((a) => a.asset).join(' and ')}`
+      : `${trade.direction === 'LONG' ? 'Long' : 'Short'} ${trade.ticker}`;
+
+  return `${trade.tagline}. ${market}, ${leverage}x leverage, $${size}. ${trade.sentiment.bullish}% bullish. ${trade.sentiment.summary}`;
+}
+
 /**
  * Gets the appropriate color class for leverage display.
  * High leverage (above 10x) shows warning colors.
@@ -218,6 +430,49 @@ function getLeverageColorClass(isHigh: boolean, isAISuggested: boolean): string
  * - If news data available, display news items with sentiment indicators
  * - If no news: Show "News feed coming soon" placeholder
  */
+/**
+ * Deck score with a per-factor breakdown, collapsed by default
+ */
+function RankBreakdown({ rank }: { rank: DeckRankScore }) {
+  const [expanded, setExpanded] = useState(false);
+  const activeFactors = rank.factors.filter((f) => f.weight > 0);
+  if (activeFactors.length === 0) return null;
+
+  return (
+    <div className="px-4 py-2 border-t border-dark-700">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between text-[10px] text-gray-500 uppercase tracking-wide"
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        onClick={() => setExpanded((prev) => !prev)}
+        aria-expanded={expanded}
+      >
+        <span>Deck score</span>
+        <span className="text-primary-400 font-bold text-xs normal-case">
+          {rank.total}/100 {expanded ? '▴' : '▾'}
+        </span>
+      </button>
+      {expanded && (
+        <ul className="mt-2 space-y-1">
+          {activeFactors.map(({ factor, value, weight }) => (
+            <li key={factor} className="flex items-center gap-2 text-[10px]">
+              <span className="w-20 text-gray-400 truncate">
+                {RANKING_FACTORS.find((f) => f.factor === factor)?.label ?? factor}
+              </span>
+              <div className="flex-1 h-1.5 bg-dark-700 rounded-full overflow-hidden">
+                <div className="h-full bg-primary-500 rounded-full" style={{ width: `${Math.round(value * 100)}%` }} />
+              </div>
+              <span className="w-8 text-right text-gray-400">{Math.round(value * 100)}</span>
+              <span className="w-6 text-right text-gray-600">×{weight}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 function NewsSection({ news }: { news?: { title: string; source: string; time: string; sentiment: 'positive' | 'negative' | 'neutral' }[] }) {
   const hasNews = news && news.length > 0;
 
@@ -261,40 +516,69 @@ function NewsSection({ news }: { news?: { title: string; source: string; time: s
   );
 }
 
-export function SwipeCard({ trade, size, onSwipe, isTop }: SwipeCardProps) {
+export function SwipeCard({ trade, size, onSwipe, onSwipeUp, onSwipeDown, isTop, tpSl, onOpenDetails }: SwipeCardProps) {
   const cardRef = useRef<HTMLDivElement>(null);
-  const [dragState, setDragState] = useState({ x: 0, startX: 0, isDragging: false });
-  const [swipeDirection, setSwipeDirection] = useState<'left' | 'right' | null>(null);
+  const [dragState, setDragState] = useState({ x: 0, y: 0, startX: 0, startY: 0, isDragging: false });
+  const [swipeDirection, setSwipeDirection] = useState<'left' | 'right' | 'up' | 'down' | null>(null);
   const [showLeverageReasoning, setShowLeverageReasoning] = useState(false);
-
-  const handleStart = (clientX: number) => {
+  const reducedMotion = usePrefersReducedMotion();
+
+  // Cards open on the timeframe they were dealt with; other timeframes are fetched on demand
+  const [timeframe, setTimeframe] = useState<ChartTimeframe>(trade.timeframe);
+  const isDealtTimeframe = timeframe === trade.timeframe;
+  const { data: switchedCandles, isLoading: isSwitchingTimeframe } = useCandles(trade, timeframe, !isDealtTimeframe);
+  const candles = isDealtTimeframe ? trade.candles : switchedCandles ?? [];
+  const chartIndicators = usePreferencesStore((state) => state.chartIndicators);
+
+  // Stream the forming candle for the card on top; ratio charts have no HL feed
+  const isRatio = isRatioChart(trade);
+  const isLive = isTop && !isRatio;
+  const liveCandle = useLiveCandle(trade.ticker, timeframe, isLive);
+  const mids = useAllMids([trade.ticker], isLive);
+
+  const handleStart = (clientX: number, clientY: number) => {
     if (!isTop) return;
-    setDragState({ x: 0, startX: clientX, isDragging: true });
+    setDragState({ x: 0, y: 0, startX: clientX, startY: clientY, isDragging: true });
   };
 
-  const handleMove = (clientX: number) => {
+  const handleMove = (clientX: number, clientY: number) => {
     if (!dragState.isDragging) return;
     const x = clientX - dragState.startX;
-    setDragState((prev) => ({ ...prev, x }));
-    setSwipeDirection(x > 50 ? 'right' : x < -50 ? 'left' : null);
+    // Vertical drags only move the card when that gesture has a handler
+    const rawY = clientY - dragState.startY;
+    const y = rawY < 0 ? (onSwipeUp ? rawY : 0) : onSwipeDown ? rawY : 0;
+    setDragState((prev) => ({ ...prev, x, y }));
+
+    const isVertical = Math.abs(y) > Math.abs(x);
+    setSwipeDirection(
+      isVertical
+        ? y < -50 ? 'up' : y > 50 ? 'down' : null
+        : x > 50 ? 'right' : x < -50 ? 'left' : null
+    );
   };
 
   const handleEnd = () => {
     if (!dragState.isDragging) return;
 
     const threshold = 100;
-    if (dragState.x > threshold) {
+    if (Math.abs(dragState.y) > Math.abs(dragState.x)) {
+      if (dragState.y < -threshold) {
+        onSwipeUp?.();
+      } else if (dragState.y > threshold) {
+        onSwipeDown?.();
+      }
+    } else if (dragState.x > threshold) {
       onSwipe('right');
     } else if (dragState.x < -threshold) {
       onSwipe('left');
     }
 
-    setDragState({ x: 0, startX: 0, isDragging: false });
+    setDragState({ x: 0, y: 0, startX: 0, startY: 0, isDragging: false });
     setSwipeDirection(null);
   };
 
-  const rotation = dragState.x * 0.05;
-  const opacity = Math.max(0, 1 - Math.abs(dragState.x) / 300);
+  const rotation = reducedMotion ? 0 : dragState.x * 0.05;
+  const opacity = Math.max(0, 1 - Math.max(Math.abs(dragState.x), Math.abs(dragState.y)) / 300);
 
   // Determine if we should show the direction badge (only for non-relative pairs or backward compat)
   const showDirectionBadge = !trade.positionType || trade.positionType === 'one_directional';
@@ -313,20 +597,27 @@ export function SwipeCard({ trade, size, onSwipe, isTop }: SwipeCardProps) {
   return (
     <div
       ref={cardRef}
-      className={`absolute inset-0 select-none ${isTop ? 'cursor-grab active:cursor-grabbing z-10' : 'z-0'}`}
+      role="group"
+      aria-roledescription="trade card"
+      aria-label={describeTradeCard(trade, size)}
+      aria-hidden={!isTop}
+      tabIndex={isTop ? 0 : -1}
+      data-top-card={isTop || undefined}
+      className={`absolute inset-0 select-none rounded-3xl focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 ${isTop ? 'cursor-grab active:cursor-grabbing z-10' : 'z-0'}`}
       style={{
         transform: isTop
-          ? `translateX(${dragState.x}px) rotate(${rotation}deg)`
-          : 'scale(0.95) translateY(20px)',
+          ? `translate(${dragState.x}px, ${dragState.y}px) rotate(${rotation}deg)`
+          : reducedMotion ? 'none' : 'scale(0.95) translateY(20px)',
         opacity: isTop ? opacity : 0.5,
-        transition: dragState.isDragging ? 'none' : 'all 0.3s ease-out',
+        // Reduced motion: cards snap back and swap in place instead of sliding
+        transition: dragState.isDragging || reducedMotion ? 'none' : 'all 0.3s ease-out',
       }}
-      onMouseDown={(e) => handleStart(e.clientX)}
-      onMouseMove={(e) => handleMove(e.clientX)}
+      onMouseDown={(e) => handleStart(e.clientX, e.clientY)}
+      onMouseMove={(e) => handleMove(e.clientX, e.clientY)}
       onMouseUp={handleEnd}
       onMouseLeave={handleEnd}
-      onTouchStart={(e) => handleStart(e.touches[0].clientX)}
-      onTouchMove={(e) => handleMove(e.touches[0].clientX)}
+      onTouchStart={(e) => handleStart(e.touches[0].clientX, e.touches[0].clientY)}
+      onTouchMove={(e) => handleMove(e.touches[0].clientX, e.touches[0].clientY)}
       onTouchEnd={handleEnd}
     >
       {/* Swipe indicators */}
@@ -340,12 +631,22 @@ export function SwipeCard({ trade, size, onSwipe, isTop }: SwipeCardProps) {
           <span className="text-white font-bold text-lg">SKIP ✗</span>
         </div>
       )}
+      {swipeDirection === 'up' && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20 px-4 py-2 bg-primary-500/90 rounded-lg border-2 border-primary-400">
+          <span className="text-white font-bold text-lg">CUSTOM ↑</span>
+        </div>
+      )}
+      {swipeDirection === 'down' && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 px-4 py-2 bg-yellow-500/90 rounded-lg border-2 border-yellow-400">
+          <span className="text-white font-bold text-lg">SAVE ↓</span>
+        </div>
+      )}
 
       {/* Card content */}
       <div className="h-full bg-dark-800/90 backdrop-blur border border-dark-700 rounded-3xl overflow-y-auto scrollbar-thin flex flex-col">
         {/* Header */}
         <div className="p-4 border-b border-dark-700 flex items-center justify-between">
-          <CardHeader trade={trade} />
+          <CardHeader trade={trade} timeframe={timeframe} />
           {/* Direction badge - only show for backward compat and one_directional */}
           {showDirectionBadge && (
             <div
@@ -372,14 +673,31 @@ export function SwipeCard({ trade, size, onSwipe, isTop }: SwipeCardProps) {
         )}
 
         {/* Chart */}
-        <div className="flex-1 p-2 min-h-[200px]">
-          {trade.candles.length > 0 ? (
-            <MiniChart candles={trade.candles} direction={trade.direction} />
-          ) : (
-            <div className="w-full h-full flex items-center justify-center">
-              <div className="animate-pulse text-gray-500">Loading chart...</div>
-            </div>
-          )}
+        <div className="flex-1 p-2 min-h-[200px] flex flex-col">
+          <div className="flex items-center justify-between px-1 pb-1">
+            <span className="text-[10px] text-gray-500 truncate">
+              {isRatio ? `${formatBasket(trade.longAssets!)} / ${formatBasket(trade.shortAssets!)}` : ''}
+            </span>
+            <TimeframeSelector value={timeframe} onChange={setTimeframe} />
+          </div>
+          <div className="flex-1 min-h-0">
+            {candles.length > 0 ? (
+              <MiniChart
+                candles={candles}
+                direction={trade.direction}
+                timeframe={timeframe}
+                indicators={chartIndicators}
+                liveCandle={liveCandle}
+                lastPrice={mids[trade.ticker] ?? null}
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <div className={`text-gray-500 ${isDealtTimeframe || isSwitchingTimeframe ? 'animate-pulse' : ''}`}>
+                  {isDealtTimeframe || isSwitchingTimeframe ? 'Loading chart...' : 'No candles for this timeframe'}
+                </div>
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Trade details - Leverage and Size */}
@@ -420,7 +738,27 @@ export function SwipeCard({ trade, size, onSwipe, isTop }: SwipeCardProps) {
               <p className="text-[10px] text-gray-500 uppercase tracking-wide">Size</p>
               <p className="text-lg font-bold text-white">${size}</p>
             </div>
+            {onOpenDetails && (
+              <>
+                <div className="w-px h-8 bg-dark-600" />
+                <button
+                  type="button"
+                  className="text-center"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onTouchStart={(e) => e.stopPropagation()}
+                  onClick={onOpenDetails}
+                  aria-label="Edit take profit and stop loss"
+                >
+                  <p className="text-[10px] text-gray-500 uppercase tracking-wide">TP / SL</p>
+                  <p className="text-[11px] font-medium text-green-400">{formatTrigger(tpSl?.takeProfit ?? null)}</p>
+                  <p className="text-[11px] font-medium text-red-400">{formatTrigger(tpSl?.stopLoss ?? null)}</p>
+                </button>
+              </>
+            )}
           </div>
+          <LiquidationPreviewRow trade={trade} size={size} />
+          {/* Only the top card hits the order book */}
+          <ExpectedCostRow trade={trade} size={size} enabled={isTop} />
         </div>
 
         {/* AI Sentiment Section */}
@@ -452,12 +790,16 @@ export function SwipeCard({ trade, size, onSwipe, isTop }: SwipeCardProps) {
           </div>
         </div>
 
+        {/* Deck ranking */}
+        {trade.rank && <RankBreakdown rank={trade.rank} />}
+
         {/* News Section */}
         <NewsSection news={trade.news} />
 
         {/* Swipe hint */}
         <div className="px-4 pb-3 flex justify-between text-[10px] text-gray-600 border-t border-dark-700 pt-2">
           <span>← Skip</span>
+          {onSwipeDown && <span>↓ Save</span>}
           <span>Trade →</span>
         </div>
       </div>
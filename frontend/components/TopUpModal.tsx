@@ -5,7 +5,9 @@ import { useAccount } from 'wagmi';
 import { useUserStore } from '@/store/userStore';
 import { useBtcToUsdcQuote } from '@/hooks/useLifi';
 import { useBtcTransaction } from '@/hooks/useBtcTransaction';
-import { SUPPORTED_EVM_CHAINS, SATS_PER_BTC, BTC_PRICE_USD } from '@/types';
+import { useBridgeDeposits, useTrackBridgeDeposit } from '@/hooks/useBridgeDeposits';
+import { BridgeDepositProgress } from '@/components/BridgeDepositProgress';
+import { SUPPORTED_EVM_CHAINS, SATS_PER_BTC, BTC_PRICE_USD, BTC_CHAIN_ID } from '@/types';
 import type { LifiQuoteResponse } from '@/types';
 import { satsToBtc } from '@/lib/lifi';
 import { getBtcAddressInfo, formatBtcDisplay } from '@/lib/btc';
@@ -99,6 +101,11 @@ export function TopUpModal({ isOpen, onClose }: TopUpModalProps) {
   
   const quoteMutation = useBtcToUsdcQuote();
   const btcTx = useBtcTransaction();
+  const trackDeposit = useTrackBridgeDeposit();
+  const { data: bridgeDeposits } = useBridgeDeposits(evmAddress);
+  const [trackedTxHash, setTrackedTxHash] = useState<string | null>(null);
+  const trackedDeposit = bridgeDeposits?.deposits.find((d) => d.txHash === trackedTxHash?.toLowerCase())
+    ?? trackDeposit.data?.deposit;
   
   // Store reset function in ref to avoid dependency issues
   const btcTxResetRef = useRef(btcTx.reset);
@@ -119,6 +126,7 @@ export function TopUpModal({ isOpen, onClose }: TopUpModalProps) {
       setQuote(null);
       setQuoteError(null);
       setBalanceWarning(null);
+      setTrackedTxHash(null);
       btcTxResetRef.current();
     }
   }, [isOpen]);
@@ -210,17 +218,24 @@ export function TopUpModal({ isOpen, onClose }: TopUpModalProps) {
   if (!isOpen) return null;
 
   const handleSendBtc = async () => {
-    if (!quote || !btcAddress) return;
+    if (!quote || !btcAddress || !evmAddress) return;
     
     try {
       const txHash = await btcTx.sendTransaction({ quote, btcAddress });
       console.log('BTC Transaction sent:', txHash);
+      setTrackedTxHash(txHash);
       
-      // TODO: Start polling Li.Fi status API to track the bridge
-      // For now, just show success and close after delay
-      setTimeout(() => {
-        onClose();
-      }, 3000);
+      // Hand the deposit to the server-side tracker; it polls Li.Fi and
+      // credits the vault once the bridge completes, even if this modal closes
+      await trackDeposit.mutateAsync({
+        address: evmAddress,
+        txHash,
+        fromChain: BTC_CHAIN_ID,
+        toChain: selectedChainId,
+        bridge: quote.tool,
+        fromAmountSats: parseInt(quote.transactionRequest.value, 10),
+        expectedUsdc: parseFloat(quote.estimate.toAmount) / usdcDivisor,
+      });
     } catch (error) {
       console.error('Send BTC error:', error);
     }
@@ -555,7 +570,13 @@ export function TopUpModal({ isOpen, onClose }: TopUpModalProps) {
                     )}
                     <p className="text-xs text-gray-500 mt-2">
                       Bridge in progress. USDC will arrive in ~{quote ? Math.ceil(quote.estimate.executionDuration / 60) : 10} minutes.
+                      You can close this window; your balance updates when the bridge completes.
                     </p>
+                    {trackDeposit.isError && (
+                      <p className="text-xs text-red-300/70 mt-2">
+                        Couldn&apos;t start tracking: {trackDeposit.error.message}
+                      </p>
+                    )}
                   </div>
                 )}
                 {btcTx.status === 'error' && (
@@ -567,6 +588,9 @@ export function TopUpModal({ isOpen, onClose }: TopUpModalProps) {
               </div>
             )}
 
+            {/* Bridge Progress */}
+            {trackedDeposit && <BridgeDepositProgress deposit={trackedDeposit} />}
+
             {/* Send Button - only show when quote is available */}
             {quote && (
               <button
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import type { InsufficientMarginResponse } from '@/types/trade';
+
+interface TopUpPerpsSheetProps {
+  tagline: string;
+  margin: InsufficientMarginResponse;
+  onConfirm: (alwaysTopUp: boolean) => void;
+  onCancel: () => void;
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Bottom sheet offering to move spot USDC to perps when an order is short on
+ * margin, then resend it
+ */
+export function TopUpPerpsSheet({ tagline, margin, onConfirm, onCancel }: TopUpPerpsSheetProps) {
+  const [alwaysTopUp, setAlwaysTopUp] = useState(false);
+  const amount = margin.suggestedTopUpUsdc ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onCancel} />
+
+      {/* Sheet */}
+      <div
+        role="alertdialog"
+        aria-labelledby="top-up-perps-title"
+        className="relative bg-dark-900 border border-dark-700 rounded-t-2xl p-6 w-full max-w-md shadow-2xl"
+      >
+        <h2 id="top-up-perps-title" className="text-lg font-semibold text-white">Top up perps margin?</h2>
+        <p className="text-xs text-gray-500 mb-4">{tagline}</p>
+
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg mb-4 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-400">Needed (margin + fees)</span>
+            <span className="text-white">~{formatUsd(margin.requiredUsdc)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Perps balance</span>
+            <span className="text-white">{formatUsd(margin.perpUsdc)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Spot balance</span>
+            <span className="text-white">{formatUsd(margin.spotUsdc)}</span>
+          </div>
+          <div className="flex justify-between pt-1 border-t border-yellow-500/20">
+            <span className="text-yellow-400 font-medium">Move to perps</span>
+            <span className="text-yellow-400 font-medium">{formatUsd(amount)}</span>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 mb-4 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={alwaysTopUp}
+            onChange={(e) => setAlwaysTopUp(e.target.checked)}
+            className="accent-primary-500"
+          />
+          Always top up from spot (change in Settings)
+        </label>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-dark-700 hover:bg-dark-600 rounded-xl text-sm font-medium text-gray-200 transition-colors"
+          >
+            Cancel order
+          </button>
+          <button
+            onClick={() => onConfirm(alwaysTopUp)}
+            autoFocus
+            className="flex-1 px-4 py-3 bg-primary-500 hover:bg-primary-600 rounded-xl text-sm font-medium text-white transition-colors"
+          >
+            Move {formatUsd(amount)} &amp; place
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
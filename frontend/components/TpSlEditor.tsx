@@ -0,0 +1,109 @@
+'use client';
+
+import { validateTpSl, getTriggerPnlUsd, getLiquidationMovePercent } from '@/lib/tpsl';
+import type { TpSlContext } from '@/lib/tpsl';
+import type { TpSlMode, TpSlSettings, TpSlTrigger } from '@/types/trade';
+
+interface TpSlEditorProps {
+  value: TpSlSettings;
+  onChange: (value: TpSlSettings) => void;
+  context: TpSlContext;
+}
+
+interface TriggerInputProps {
+  label: string;
+  trigger: TpSlTrigger | null;
+  onChange: (trigger: TpSlTrigger | null) => void;
+  accentClass: string;
+  context: TpSlContext;
+  sign: '+' | '-';
+}
+
+const DEFAULT_VALUES: Record<TpSlMode, number> = {
+  percent_move: 5,
+  pnl_usd: 2,
+};
+
+function TriggerInput({ label, trigger, onChange, accentClass, context, sign }: TriggerInputProps) {
+  const isEnabled = trigger !== null;
+  const mode: TpSlMode = trigger?.mode ?? 'percent_move';
+
+  return (
+    <div className="p-3 bg-dark-900 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <span className={`text-xs font-medium ${accentClass}`}>{label}</span>
+        <button
+          type="button"
+          onClick={() => onChange(isEnabled ? null : { mode, value: DEFAULT_VALUES[mode] })}
+          className={`px-2 py-0.5 rounded text-[10px] font-medium ${
+            isEnabled ? 'bg-primary-500/20 text-primary-400' : 'bg-dark-700 text-gray-500'
+          }`}
+        >
+          {isEnabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {isEnabled && trigger && (
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg overflow-hidden border border-dark-600">
+            {(['percent_move', 'pnl_usd'] as const).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => onChange({ mode: m, value: DEFAULT_VALUES[m] })}
+                className={`px-2 py-1 text-[10px] font-medium ${
+                  mode === m ? 'bg-dark-600 text-white' : 'text-gray-500'
+                }`}
+              >
+                {m === 'percent_move' ? '% move' : '$ PnL'}
+              </button>
+            ))}
+          </div>
+          <input
+            type="number"
+            min="0"
+            step={mode === 'percent_move' ? '0.5' : '0.25'}
+            value={Number.isFinite(trigger.value) ? trigger.value : ''}
+            onChange={(e) => onChange({ mode, value: parseFloat(e.target.value) })}
+            className="flex-1 min-w-0 px-2 py-1 bg-dark-800 border border-dark-600 rounded-lg text-sm text-white focus:outline-none focus:border-primary-500"
+          />
+          <span className="text-[10px] text-gray-500 whitespace-nowrap">
+            ≈ {sign}${Math.abs(getTriggerPnlUsd(trigger, context) || 0).toFixed(2)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Editor for a take-profit / stop-loss pair with live validation.
+ */
+export function TpSlEditor({ value, onChange, context }: TpSlEditorProps) {
+  const error = validateTpSl(value, context);
+
+  return (
+    <div className="space-y-2">
+      <TriggerInput
+        label="Take Profit"
+        trigger={value.takeProfit}
+        onChange={(takeProfit) => onChange({ ...value, takeProfit })}
+        accentClass="text-green-400"
+        context={context}
+        sign="+"
+      />
+      <TriggerInput
+        label="Stop Loss"
+        trigger={value.stopLoss}
+        onChange={(stopLoss) => onChange({ ...value, stopLoss })}
+        accentClass="text-red-400"
+        context={context}
+        sign="-"
+      />
+      <p className="text-[10px] text-gray-500">
+        Liquidation at roughly a {getLiquidationMovePercent(context.leverage).toFixed(1)}% adverse move ({context.leverage}x)
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
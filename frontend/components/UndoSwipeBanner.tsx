@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface UndoSwipeBannerProps {
+  tagline: string;
+  /**
+   * `queued`: order not sent yet, undo puts the card back.
+   * `opened`: order went through, undo closes the position.
+   */
+  mode: 'queued' | 'opened';
+  deadline: number;
+  isClosing?: boolean;
+  onUndo: () => void;
+  onExpire: () => void;
+}
+
+/**
+ * Countdown banner for the last right-swipe
+ */
+export function UndoSwipeBanner({ tagline, mode, deadline, isClosing, onUndo, onExpire }: UndoSwipeBannerProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const secondsLeft = Math.max(0, Math.ceil((deadline - now) / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  // The page sends queued orders on its own timer; only the close offer expires here
+  useEffect(() => {
+    if (mode === 'opened' && !isClosing && now >= deadline) {
+      onExpire();
+    }
+  }, [mode, isClosing, now, deadline, onExpire]);
+
+  return (
+    <div className="mb-4 px-4 py-2 rounded-lg bg-dark-800 border border-dark-600 flex items-center gap-3">
+      {/* Announced once per mode; the ticking countdown would be too chatty */}
+      <p className="sr-only" role="status">
+        {mode === 'queued'
+          ? `${tagline} queued. Press U to undo.`
+          : `${tagline} opened. Press U to close it.`}
+      </p>
+      <div className="flex-1 min-w-0" aria-hidden="true">
+        <p className="text-sm text-white truncate">{tagline}</p>
+        <p className="text-xs text-gray-400">
+          {mode === 'queued' ? `Opening in ${secondsLeft}s` : 'Position opened'}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={onUndo}
+        disabled={isClosing}
+        aria-keyshortcuts="U"
+        className="px-3 py-1.5 rounded-lg text-sm font-medium bg-primary-500/20 text-primary-400 hover:bg-primary-500/30 transition-colors disabled:opacity-50"
+      >
+        {mode === 'queued' ? 'Undo' : isClosing ? 'Closing...' : `Close now (${secondsLeft}s)`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { MiniChart } from './MiniChart';
+import { MarketMetricsDisplay } from './SwipeCard';
+import { useCandles } from '@/hooks/useCandles';
+import { useMarketSignal } from '@/hooks/useMarketSignal';
+import { usePreferencesStore } from '@/store/preferencesStore';
+import type { MarketMetrics, PearMarket, TradeCardSnapshot, WatchlistItem } from '@/types/trade';
+
+interface WatchlistItemCardProps {
+  item: WatchlistItem;
+  market: PearMarket | null; // live Pear metrics; null once delisted
+  isLoadingMarket: boolean;
+  sizeUsd: number;
+  isTrading: boolean;
+  onTrade: (card: TradeCardSnapshot) => void;
+  onRemove: () => void;
+}
+
+function getMarketName(card: TradeCardSnapshot): string {
+  if (card.positionType === 'relative_pair') {
+    const longs = (card.longAssets ?? []).map((a) => a.asset).join('+');
+    const shorts = (card.shortAssets ?? []).map((a) => a.asset).join('+');
+    return `${longs} / ${shorts}`;
+  }
+  return card.ticker;
+}
+
+/**
+ * A saved card refreshed with live metrics, candles and a fresh AI signal
+ */
+export function WatchlistItemCard({
+  item,
+  market,
+  isLoadingMarket,
+  sizeUsd,
+  isTrading,
+  onTrade,
+  onRemove,
+}: WatchlistItemCardProps) {
+  const saved = item.card;
+  const chartIndicators = usePreferencesStore((state) => state.chartIndicators);
+  const { data: candles = [], isLoading: isLoadingCandles } = useCandles(saved, saved.timeframe);
+
+  const metrics: MarketMetrics | undefined = market
+    ? {
+        openInterest: market.openInterest,
+        volume: market.volume,
+        change24h: market.change24h,
+        netFunding: market.netFunding,
+      }
+    : saved.marketMetrics;
+
+  const { data: signal, isFetching: isRefreshingSignal } = useMarketSignal(
+    market
+      ? {
+          marketId: item.key,
+          assets: [...market.longAssets, ...market.shortAssets].map((a) => a.asset),
+          change24h: market.change24h,
+          openInterest: market.openInterest,
+          netFunding: market.netFunding,
+          volume: market.volume,
+          positionType: market.positionType,
+        }
+      : undefined
+  );
+
+  // Pairs keep the side they were saved with; the signal only picks a side for singles
+  const card: TradeCardSnapshot = {
+    ...saved,
+    marketMetrics: metrics,
+    direction: saved.positionType !== 'relative_pair' && signal?.direction ? signal.direction : saved.direction,
+    leverage: signal?.leverage ?? saved.leverage,
+    sentiment: signal
+      ? { bullish: signal.bullishPercent, summary: signal.sentiment, leverageReasoning: signal.reasoning }
+      : saved.sentiment,
+  };
+
+  return (
+    <div className="bg-dark-800 rounded-xl border border-dark-600 overflow-hidden">
+      <div className="p-4 flex justify-between items-start gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-white truncate">{saved.tagline}</p>
+          <p className="text-xs text-gray-400">
+            <span className={card.direction === 'LONG' ? 'text-green-400' : 'text-red-400'}>{card.direction}</span>{' '}
+            {getMarketName(saved)} · {card.leverage}x
+            {signal && card.leverage !== saved.leverage && (
+              <span className="text-gray-600"> (was {saved.leverage}x)</span>
+            )}
+          </p>
+          <p className="text-[10px] text-gray-600">Saved {new Date(item.savedAt).toLocaleString()}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={`Remove ${getMarketName(saved)} from watchlist`}
+          className="p-1 text-gray-500 hover:text-gray-300 transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {metrics && <MarketMetricsDisplay metrics={metrics} />}
+
+      <div className="h-32 px-2">
+        {candles.length > 0 ? (
+          <MiniChart candles={candles} direction={card.direction} timeframe={saved.timeframe} indicators={chartIndicators} />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-xs text-gray-500">
+            {isLoadingCandles ? 'Loading chart...' : 'No candles'}
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-dark-700">
+        <div className="flex items-start gap-2 mb-3">
+          <span className="text-xs">🤖</span>
+          <p className="text-xs text-gray-400 leading-relaxed">
+            {isRefreshingSignal && !signal ? 'Refreshing AI signal...' : card.sentiment.summary}
+            {signal && <span className="text-gray-500"> · {signal.bullishPercent}% bullish</span>}
+          </p>
+        </div>
+
+        {!market && !isLoadingMarket && (
+          <p className="text-xs text-yellow-400 mb-2">Pear no longer lists this market.</p>
+        )}
+
+        <button
+          type="button"
+          onClick={() => onTrade(card)}
+          disabled={isTrading || !market}
+          className={`w-full py-2.5 rounded-xl font-medium text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            card.direction === 'LONG' ? 'bg-green-600 hover:bg-green-500' : 'bg-red-600 hover:bg-red-500'
+          }`}
+        >
+          {isTrading
+            ? 'Opening...'
+            : `${card.positionType === 'relative_pair' ? 'Trade' : card.direction === 'LONG' ? 'Long' : 'Short'} $${sizeUsd} at ${card.leverage}x`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAccount } from 'wagmi';
+import { useUserStore } from '@/store/userStore';
+import { useHyperliquidBalance } from '@/hooks/useHyperliquidBalance';
+import { useBridgeWithdrawals } from '@/hooks/useBridgeWithdrawals';
+import { useUsdcToBtcQuote } from '@/hooks/useLifi';
+import { useWithdrawal } from '@/hooks/useWithdrawal';
+import { BridgeWithdrawalProgress } from '@/components/BridgeWithdrawalProgress';
+import { satsToBtc } from '@/lib/lifi';
+import { HL_WITHDRAWAL_FEE_USDC, HL_WITHDRAWAL_ESTIMATED_SECONDS } from '@/types';
+import type { LifiUsdcToBtcQuoteResponse, WithdrawalDestination } from '@/types';
+
+interface WithdrawModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const BTC_ADDRESS_REGEX = /^(bc1|[13]|tb1)[a-zA-HJ-NP-Z0-9]{25,62}$/;
+
+const DESTINATIONS: Array<{ value: WithdrawalDestination; label: string; description: string }> = [
+  { value: 'ARBITRUM_USDC', label: 'USDC', description: 'on Arbitrum' },
+  { value: 'BTC', label: 'BTC', description: 'via Li.Fi' },
+];
+
+/**
+ * Withdraw from the Hyperliquid perps balance to Arbitrum USDC, and
+ * optionally on to BTC. Tracking continues on the server if this closes.
+ */
+export function WithdrawModal({ isOpen, onClose }: WithdrawModalProps) {
+  const { address: evmAddress } = useAccount();
+  const { btcAddress: storedBtcAddress } = useUserStore();
+  const { data: hlBalance } = useHyperliquidBalance(evmAddress);
+  const { data: withdrawalsData } = useBridgeWithdrawals(evmAddress);
+  const quoteMutation = useUsdcToBtcQuote();
+  const { withdraw, bridgeToBtc, isWithdrawing, bridgingId, canWithdraw } = useWithdrawal();
+
+  const [amount, setAmount] = useState('');
+  const [destination, setDestination] = useState<WithdrawalDestination>('ARBITRUM_USDC');
+  const [btcAddress, setBtcAddress] = useState('');
+  const [quote, setQuote] = useState<LifiUsdcToBtcQuoteResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [trackedId, setTrackedId] = useState<string | null>(null);
+
+  const trackedWithdrawal = withdrawalsData?.withdrawals.find((w) => w.id === trackedId);
+
+  // Reset state when modal closes
+  useEffect(() => {
+    if (!isOpen) {
+      setAmount('');
+      setQuote(null);
+      setError(null);
+      setTrackedId(null);
+    } else {
+      setBtcAddress((current) => current || storedBtcAddress || '');
+    }
+  }, [isOpen, storedBtcAddress]);
+
+  if (!isOpen) return null;
+
+  const withdrawable = hlBalance?.perpsWithdrawable ?? 0;
+  const amountUsdc = parseFloat(amount || '0');
+  const receiveUsdc = Math.max(0, amountUsdc - HL_WITHDRAWAL_FEE_USDC);
+  const isValidBtcAddress = BTC_ADDRESS_REGEX.test(btcAddress);
+
+  const amountError =
+    amountUsdc > withdrawable
+      ? `Only $${withdrawable.toFixed(2)} is withdrawable`
+      : amount && amountUsdc <= HL_WITHDRAWAL_FEE_USDC
+      ? `Amount must be more than the $${HL_WITHDRAWAL_FEE_USDC} withdrawal fee`
+      : null;
+
+  const canWithdrawAmount = amountUsdc > HL_WITHDRAWAL_FEE_USDC && !amountError &&
+    (destination === 'ARBITRUM_USDC' || isValidBtcAddress);
+
+  // Clear quote when inputs change
+  const handleInputChange = () => {
+    setQuote(null);
+    setError(null);
+  };
+
+  const handleGetQuote = async () => {
+    if (!evmAddress || !isValidBtcAddress || receiveUsdc <= 0) return;
+
+    setError(null);
+    try {
+      const result = await quoteMutation.mutateAsync({
+        evmAddress,
+        btcAddress,
+        fromAmountUsdc: receiveUsdc,
+      });
+      setQuote(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get quote');
+    }
+  };
+
+  const handleWithdraw = async () => {
+    setError(null);
+    try {
+      const withdrawal = await withdraw({
+        amountUsdc,
+        destination,
+        btcAddress: destination === 'BTC' ? btcAddress : undefined,
+      });
+      setTrackedId(withdrawal.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Withdrawal failed');
+    }
+  };
+
+  const handleBridge = async () => {
+    if (!trackedWithdrawal) return;
+
+    setError(null);
+    try {
+      await bridgeToBtc(trackedWithdrawal);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Bridging to BTC failed');
+    }
+  };
+
+  const hlMinutes = Math.ceil(HL_WITHDRAWAL_ESTIMATED_SECONDS / 60);
+  const totalMinutes = hlMinutes + (quote ? Math.ceil(quote.estimate.executionDuration / 60) : 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-dark-900 border border-dark-700 rounded-2xl p-6 w-full max-w-md mx-4 shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-semibold">Withdraw</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-dark-700 rounded-lg transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {trackedWithdrawal ? (
+          <div className="space-y-4">
+            <BridgeWithdrawalProgress
+              withdrawal={trackedWithdrawal}
+              onBridge={handleBridge}
+              isBridging={bridgingId === trackedWithdrawal.id}
+            />
+            {error && (
+              <p className="text-xs text-red-400">{error}</p>
+            )}
+            <p className="text-xs text-gray-500 text-center">
+              You can close this window. Progress is tracked on your balance card.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Withdrawable Balance */}
+            <div className="p-3 bg-dark-800/50 rounded-lg flex justify-between items-center">
+              <span className="text-sm text-gray-400">Withdrawable (Perps)</span>
+              <span className="text-sm font-medium text-white">${withdrawable.toFixed(2)}</span>
+            </div>
+
+            {/* Amount Input */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Amount (USDC)
+              </label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={amount}
+                onChange={(e) => {
+                  setAmount(e.target.value);
+                  handleInputChange();
+                }}
+                className={`w-full px-4 py-3 bg-dark-800 border rounded-lg focus:outline-none text-white text-lg ${
+                  amountError
+                    ? 'border-red-500 focus:border-red-400'
+                    : 'border-dark-600 focus:border-primary-500'
+                }`}
+                disabled={isWithdrawing}
+              />
+              <div className="flex justify-between items-center mt-1">
+                {amountError ? (
+                  <p className="text-xs text-red-400">{amountError}</p>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    ${HL_WITHDRAWAL_FEE_USDC} Hyperliquid withdrawal fee
+                  </p>
+                )}
+                {withdrawable > HL_WITHDRAWAL_FEE_USDC && (
+                  <button
+                    onClick={() => {
+                      // Round down so the amount never exceeds the withdrawable balance
+                      setAmount((Math.floor(withdrawable * 100) / 100).toFixed(2));
+                      handleInputChange();
+                    }}
+                    className="text-xs text-primary-400 hover:text-primary-300"
+                  >
+                    MAX
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Destination */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Receive as
+              </label>
+              <div className="flex gap-2">
+                {DESTINATIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => {
+                      setDestination(option.value);
+                      handleInputChange();
+                    }}
+                    disabled={isWithdrawing}
+                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      destination === option.value
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-dark-700 text-gray-300 hover:bg-dark-600'
+                    } disabled:opacity-50`}
+                  >
+                    {option.label}
+                    <span className="block text-[10px] opacity-70">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* BTC Address */}
+            {destination === 'BTC' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  BTC Address
+                </label>
+                <input
+                  type="text"
+                  value={btcAddress}
+                  onChange={(e) => {
+                    setBtcAddress(e.target.value.trim());
+                    handleInputChange();
+                  }}
+                  placeholder="bc1..."
+                  className={`w-full px-4 py-3 bg-dark-800 border rounded-lg focus:outline-none text-white text-sm font-mono ${
+                    btcAddress && !isValidBtcAddress
+                      ? 'border-red-500 focus:border-red-400'
+                      : 'border-dark-600 focus:border-primary-500'
+                  }`}
+                  disabled={isWithdrawing}
+                />
+                {btcAddress && !isValidBtcAddress && (
+                  <p className="text-xs text-red-400 mt-1">Invalid BTC address format</p>
+                )}
+              </div>
+            )}
+
+            {/* Estimate */}
+            {amountUsdc > HL_WITHDRAWAL_FEE_USDC && (
+              <div className="p-4 bg-dark-800 rounded-lg">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <p className="text-sm text-gray-400 mb-1">You&apos;ll receive</p>
+                    {destination === 'BTC' && quote ? (
+                      <>
+                        <p className="text-2xl font-bold text-orange-400">
+                          ~{satsToBtc(quote.estimate.toAmount)} BTC
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          min {satsToBtc(quote.estimate.toAmountMin)} BTC
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-2xl font-bold text-primary-400">
+                          ${receiveUsdc.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          USDC on Arbitrum{destination === 'BTC' ? ', before Li.Fi' : ''}
+                        </p>
+                      </>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-xs text-gray-500">Fee ${HL_WITHDRAWAL_FEE_USDC.toFixed(2)}</p>
+                    {quote && (
+                      <p className="text-xs text-gray-500">
+                        + ${quote.costUsd.toFixed(2)} via {quote.tool}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">~{totalMinutes} min</p>
+                  </div>
+                </div>
+                {destination === 'BTC' && (
+                  <p className="text-[10px] text-gray-500 mt-2">
+                    The route is re-quoted when you send the USDC to Li.Fi once it lands on Arbitrum.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* BTC Route Quote */}
+            {destination === 'BTC' && !quote && (
+              <button
+                onClick={handleGetQuote}
+                disabled={!canWithdrawAmount || quoteMutation.isPending || !evmAddress}
+                className="w-full px-4 py-3 bg-dark-700 hover:bg-dark-600 disabled:bg-dark-800 disabled:text-gray-500 rounded-lg font-medium transition-colors"
+              >
+                {quoteMutation.isPending ? (
+                  <span className="flex items-center justify-center gap-2">
+                    <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                    </svg>
+                    Getting Quote...
+                  </span>
+                ) : (
+                  'Get BTC Quote'
+                )}
+              </button>
+            )}
+
+            {/* Error */}
+            {error && (
+              <div className="p-4 rounded-lg border bg-red-900/20 border-red-700">
+                <p className="text-sm text-red-400">{error}</p>
+              </div>
+            )}
+
+            {!canWithdraw && (
+              <p className="text-xs text-yellow-400">
+                Connect your wallet on Ethereum or Arbitrum to sign the withdrawal.
+              </p>
+            )}
+
+            {/* Withdraw Button */}
+            <button
+              onClick={handleWithdraw}
+              disabled={!canWithdraw || !canWithdrawAmount || isWithdrawing || (destination === 'BTC' && !quote)}
+              className="w-full px-4 py-4 bg-gradient-to-r from-primary-500 to-blue-500 hover:from-primary-600 hover:to-blue-600 disabled:from-dark-700 disabled:to-dark-700 disabled:text-gray-500 rounded-xl font-semibold transition-all"
+            >
+              {isWithdrawing ? (
+                <span className="flex items-center justify-center gap-2">
+                  <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                  </svg>
+                  Confirm in your wallet...
+                </span>
+              ) : (
+                `Withdraw $${amountUsdc > 0 ? amountUsdc.toFixed(2) : '0.00'}`
+              )}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { AssetMetaResponse } from '@/types/trade';
+
+/**
+ * Fetch Hyperliquid metadata (mark price, margin tiers) for a set of coins
+ */
+async function fetchAssetMeta(coins: string[]): Promise<AssetMetaResponse> {
+  const response = await fetch(`/api/markets/meta?coins=${encodeURIComponent(coins.join(','))}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch market metadata');
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook to get mark prices and margin tiers for the given coins
+ */
+export function useAssetMeta(coins: string[], enabled = true) {
+  const key = Array.from(new Set(coins.map((c) => c.toUpperCase()))).sort();
+
+  return useQuery({
+    queryKey: ['asset-meta', key.join(',')],
+    queryFn: () => fetchAssetMeta(key),
+    enabled: enabled && key.length > 0,
+    refetchInterval: 30 * 1000, // Keep mark prices roughly current
+    staleTime: 10 * 1000,
+  });
+}
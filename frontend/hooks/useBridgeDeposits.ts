@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { BridgeDeposit, BridgeDepositsResponse, TrackBridgeDepositRequest } from '@/types';
+
+/**
+ * Fetch tracked BTC bridge deposits for an address
+ */
+async function fetchBridgeDeposits(address: string): Promise<BridgeDepositsResponse> {
+  const response = await fetch(`/api/lifi/deposits?address=${address}`);
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch deposits');
+  }
+  
+  return response.json();
+}
+
+/**
+ * Start tracking a broadcast BTC deposit
+ */
+async function trackBridgeDeposit(data: TrackBridgeDepositRequest): Promise<{ deposit: BridgeDeposit }> {
+  const response = await fetch('/api/lifi/deposits', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to track deposit');
+  }
+  
+  return response.json();
+}
+
+/**
+ * Hook to follow a user's BTC bridge deposits.
+ * Polls while any deposit is pending and refreshes the vault when one is credited.
+ */
+export function useBridgeDeposits(address: string | null | undefined) {
+  const queryClient = useQueryClient();
+  const normalized = address?.toLowerCase() ?? null;
+
+  const query = useQuery({
+    queryKey: ['bridge-deposits', normalized],
+    queryFn: () => fetchBridgeDeposits(normalized!),
+    enabled: !!normalized,
+    refetchInterval: (q) =>
+      q.state.data?.deposits.some((d) => d.status === 'PENDING') ? 10 * 1000 : false,
+  });
+
+  // Refresh balances when a deposit gets credited
+  const creditedCount = query.data?.deposits.filter((d) => d.credited).length ?? 0;
+  const lastCreditedCount = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (lastCreditedCount.current !== null && creditedCount > lastCreditedCount.current) {
+      queryClient.invalidateQueries({ queryKey: ['vault'] });
+      queryClient.invalidateQueries({ queryKey: ['vault-history'] });
+    }
+    lastCreditedCount.current = creditedCount;
+  }, [creditedCount, queryClient]);
+
+  return query;
+}
+
+/**
+ * Hook to start tracking a deposit once its BTC transaction is broadcast
+ */
+export function useTrackBridgeDeposit() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: trackBridgeDeposit,
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['bridge-deposits', variables.address.toLowerCase()] });
+    },
+  });
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useUserStore } from '@/store/userStore';
+import type {
+  AttachWithdrawalBridgeRequest,
+  BridgeWithdrawal,
+  BridgeWithdrawalsResponse,
+  TrackWithdrawalRequest,
+} from '@/types';
+
+/**
+ * Fetch tracked Hyperliquid withdrawals for an address
+ */
+async function fetchWithdrawals(address: string): Promise<BridgeWithdrawalsResponse> {
+  const response = await fetch(`/api/lifi/withdrawals?address=${address}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch withdrawals');
+  }
+
+  return response.json();
+}
+
+/**
+ * Start tracking a signed Hyperliquid withdrawal
+ */
+async function trackWithdrawal(
+  accessToken: string,
+  data: TrackWithdrawalRequest
+): Promise<{ withdrawal: BridgeWithdrawal }> {
+  const response = await fetch('/api/lifi/withdrawals', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to track withdrawal');
+  }
+
+  return response.json();
+}
+
+/**
+ * Record the Arbitrum transaction that sent a withdrawal on to Li.Fi
+ */
+async function attachWithdrawalBridge(
+  accessToken: string,
+  { id, ...data }: AttachWithdrawalBridgeRequest & { id: string }
+): Promise<{ withdrawal: BridgeWithdrawal }> {
+  const response = await fetch(`/api/lifi/withdrawals/${id}/bridge`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to track bridge transaction');
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook to follow a user's Hyperliquid withdrawals.
+ * Polls while any withdrawal is in flight and refreshes the Hyperliquid
+ * balance when one leaves the account.
+ */
+export function useBridgeWithdrawals(address: string | null | undefined) {
+  const queryClient = useQueryClient();
+  const normalized = address?.toLowerCase() ?? null;
+
+  const query = useQuery({
+    queryKey: ['bridge-withdrawals', normalized],
+    queryFn: () => fetchWithdrawals(normalized!),
+    enabled: !!normalized,
+    refetchInterval: (q) =>
+      q.state.data?.withdrawals.some((w) => w.status === 'WITHDRAWING' || w.status === 'BRIDGING')
+        ? 10 * 1000
+        : false,
+  });
+
+  // Refresh balances when Hyperliquid records a withdrawal
+  const withdrawnCount = query.data?.withdrawals.filter((w) => w.hlTxHash).length ?? 0;
+  const lastWithdrawnCount = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (lastWithdrawnCount.current !== null && withdrawnCount > lastWithdrawnCount.current) {
+      queryClient.invalidateQueries({ queryKey: ['hyperliquid-balance', normalized] });
+    }
+    lastWithdrawnCount.current = withdrawnCount;
+  }, [withdrawnCount, normalized, queryClient]);
+
+  return query;
+}
+
+/**
+ * Hook to start tracking a withdrawal once it is signed on Hyperliquid
+ */
+export function useTrackWithdrawal() {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useMutation({
+    mutationFn: (data: TrackWithdrawalRequest) => {
+      if (!pearAccessToken) {
+        throw new Error('Not authenticated');
+      }
+      return trackWithdrawal(pearAccessToken, data);
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['bridge-withdrawals', variables.address.toLowerCase()] });
+      queryClient.invalidateQueries({ queryKey: ['hyperliquid-balance', variables.address.toLowerCase()] });
+    },
+  });
+}
+
+/**
+ * Hook to hand a BTC withdrawal over to Li.Fi tracking once its USDC is sent
+ */
+export function useAttachWithdrawalBridge() {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useMutation({
+    mutationFn: (data: AttachWithdrawalBridgeRequest & { id: string }) => {
+      if (!pearAccessToken) {
+        throw new Error('Not authenticated');
+      }
+      return attachWithdrawalBridge(pearAccessToken, data);
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['bridge-withdrawals', variables.address.toLowerCase()] });
+    },
+  });
+}
@@ -5,9 +5,9 @@ import { useAccount, useWalletClient } from "wagmi";
 import { useUserStore } from "@/store/userStore";
 import { useToast } from "@/providers/ToastProvider";
 import { HyperliquidSDK } from "@/lib/hyperliquid";
+import { REQUIRED_MAX_RATE_FEE_FOR_BUILDER } from "@/types";
 
 const BUILDER_CODE_ADDRESS = "0xA47D4d99191db54A4829cdf3de2417E527c3b042";
-const REQUIRED_MAX_RATE_FEE_FOR_BUILDER = 60;
 
 export interface BuilderApprovalResult {
   success: boolean;
@@ -0,0 +1,57 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { CandleData, MarketAsset, TradeCard } from '@/types/trade';
+
+type CandleSource = Pick<TradeCard, 'ticker' | 'positionType' | 'longAssets' | 'shortAssets'>;
+
+/**
+ * Whether a card charts the long/short ratio rather than a single coin
+ */
+export function isRatioChart(trade: CandleSource): boolean {
+  return (
+    trade.positionType === 'relative_pair' &&
+    (trade.longAssets?.length ?? 0) > 0 &&
+    (trade.shortAssets?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Fetch recent candles for a card: ratio candles for pairs, the ticker otherwise
+ */
+export async function fetchCardCandles(trade: CandleSource, interval: string): Promise<CandleData[]> {
+  const body = isRatioChart(trade)
+    ? { mode: 'pair', longAssets: trade.longAssets, shortAssets: trade.shortAssets, interval }
+    : { coin: trade.ticker, interval };
+
+  const response = await fetch('/api/candles', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch candles');
+  }
+
+  const data = await response.json();
+  return data.candles || [];
+}
+
+/**
+ * Hook to get candles for a card outside the deal, e.g. another timeframe or a saved card
+ */
+export function useCandles(trade: CandleSource, interval: string, enabled = true) {
+  const toKey = (assets: MarketAsset[]) => assets.map((a) => `${a.asset}:${a.weight}`).join(',');
+  const legsKey = isRatioChart(trade)
+    ? `${toKey(trade.longAssets!)}/${toKey(trade.shortAssets!)}`
+    : trade.ticker;
+
+  return useQuery({
+    queryKey: ['candles', legsKey, interval],
+    queryFn: () => fetchCardCandles(trade, interval),
+    enabled: enabled && !!legsKey,
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { usePreferencesStore } from '@/store/preferencesStore';
+import { useUsdClassTransfer } from '@/hooks/useUsdClassTransfer';
+import { AdjustmentRequiredError, InsufficientMarginError, useOpenCardPosition } from '@/hooks/usePositions';
+import type { OpenCardPositionParams, OpenCardPositionResult } from '@/hooks/usePositions';
+import type { ConstraintWarning, InsufficientMarginResponse } from '@/types/trade';
+
+/**
+ * Size and leverage changes waiting on the user before an order is resent
+ */
+export interface AdjustmentPrompt {
+  tagline: string;
+  warnings: ConstraintWarning[];
+}
+
+/**
+ * A spot → perps top-up waiting on the user before an order is resent
+ */
+export interface TopUpPrompt {
+  tagline: string;
+  margin: InsufficientMarginResponse;
+}
+
+type Pending<T> = T & { resolve: (accepted: boolean) => void };
+
+/**
+ * Thrown when the user declines an adjustment or top-up, or one was needed
+ * with prompts off; nothing was placed
+ */
+export class OrderCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderCancelledError';
+  }
+}
+
+/**
+ * Hook to open a card's position, asking the user along the way:
+ * - adjustments Hyperliquid's limits need are confirmed, then the order is resent
+ * - a perps margin shortfall spot USDC covers is topped up (asking first
+ *   unless Settings makes it automatic), then the order is resent once
+ *
+ * Render ConfirmAdjustmentsSheet for `adjustmentPrompt` and TopUpPerpsSheet
+ * for `topUpPrompt`; `placeOrder` waits until they are resolved. Pass
+ * `interactive: false` when nothing will render them (e.g. after unmount).
+ */
+export function useCardOrder() {
+  const { mutateAsync: openPosition } = useOpenCardPosition();
+  const { transfer: transferUsdc } = useUsdClassTransfer();
+  const autoTopUpPerps = usePreferencesStore((state) => state.autoTopUpPerps);
+  const setAutoTopUpPerps = usePreferencesStore((state) => state.setAutoTopUpPerps);
+  const [adjustmentPrompt, setAdjustmentPrompt] = useState<Pending<AdjustmentPrompt> | null>(null);
+  const [topUpPrompt, setTopUpPrompt] = useState<Pending<TopUpPrompt> | null>(null);
+
+  /**
+   * @throws OrderCancelledError if the user declines a prompt, or one is needed when not interactive
+   */
+  const placeOrder = useCallback(async (
+    params: OpenCardPositionParams,
+    { interactive = true }: { interactive?: boolean } = {}
+  ): Promise<OpenCardPositionResult> => {
+    const { tagline } = params.trade;
+    let acceptWarnings = params.acceptWarnings ?? [];
+    let adjusted = false;
+    let toppedUp = false;
+
+    for (;;) {
+      try {
+        return await openPosition({ ...params, acceptWarnings });
+      } catch (error) {
+        if (error instanceof AdjustmentRequiredError && !adjusted) {
+          if (!interactive) {
+            throw new OrderCancelledError('Adjustments need confirmation');
+          }
+          const { warnings } = error;
+          const accepted = await new Promise<boolean>((resolve) => setAdjustmentPrompt({ tagline, warnings, resolve }));
+          if (!accepted) {
+            throw new OrderCancelledError('Adjustments declined');
+          }
+          acceptWarnings = warnings.map((w) => w.code);
+          adjusted = true;
+          continue;
+        }
+
+        if (error instanceof InsufficientMarginError && error.margin.suggestedTopUpUsdc !== null && !toppedUp) {
+          const { margin } = error;
+          if (!autoTopUpPerps) {
+            if (!interactive) {
+              throw new OrderCancelledError('Top-up needs confirmation');
+            }
+            const accepted = await new Promise<boolean>((resolve) => setTopUpPrompt({ tagline, margin, resolve }));
+            if (!accepted) {
+              throw new OrderCancelledError('Top-up declined');
+            }
+          }
+          await transferUsdc(margin.suggestedTopUpUsdc!, true);
+          toppedUp = true;
+          continue;
+        }
+
+        throw error;
+      }
+    }
+  }, [openPosition, transferUsdc, autoTopUpPerps]);
+
+  const resolveAdjustments = useCallback((accepted: boolean) => {
+    adjustmentPrompt?.resolve(accepted);
+    setAdjustmentPrompt(null);
+  }, [adjustmentPrompt]);
+
+  const resolveTopUp = useCallback((accepted: boolean, alwaysTopUp = false) => {
+    if (accepted && alwaysTopUp) setAutoTopUpPerps(true);
+    topUpPrompt?.resolve(accepted);
+    setTopUpPrompt(null);
+  }, [topUpPrompt, setAutoTopUpPerps]);
+
+  return {
+    placeOrder,
+    adjustmentPrompt,
+    topUpPrompt,
+    resolveAdjustments,
+    resolveTopUp,
+  };
+}
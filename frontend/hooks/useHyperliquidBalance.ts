@@ -1,6 +1,8 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAllMids, useUserEvents } from '@/hooks/useHyperliquidWs';
 
 // Hyperliquid API endpoint
 const HYPERLIQUID_API = 'https://api.hyperliquid.xyz/info';
@@ -28,6 +30,21 @@ interface PerpsBalance {
     totalRawUsd: string;
   };
   withdrawable: string;
+  assetPositions?: Array<{
+    position: {
+      coin: string;
+      szi: string;
+      entryPx: string;
+      unrealizedPnl: string;
+    };
+  }>;
+}
+
+export interface HyperliquidPerpsPosition {
+  coin: string;
+  size: number; // signed, negative for shorts
+  entryPrice: number;
+  unrealizedPnl: number;
 }
 
 export interface HyperliquidBalance {
@@ -35,6 +52,7 @@ export interface HyperliquidBalance {
   perpsAccountValue: number;
   perpsWithdrawable: number;
   totalUsdc: number;
+  perpsPositions: HyperliquidPerpsPosition[];
 }
 
 async function fetchSpotBalance(address: string): Promise<SpotClearinghouseState | null> {
@@ -103,11 +121,18 @@ async function fetchHyperliquidBalance(address: string): Promise<HyperliquidBala
   // Extract perps account value (already in USDC)
   let perpsAccountUSDCBalance = 0;
   let perpsWithdrawable = 0;
+  let perpsPositions: HyperliquidPerpsPosition[] = [];
   if (perpsState) {
     const accountValue = parseFloat(perpsState.marginSummary?.accountValue || perpsState.accountValue || '0');
     const totalMarginUsed = parseFloat(perpsState.marginSummary?.totalMarginUsed || '0');
     perpsAccountUSDCBalance = accountValue - totalMarginUsed;
     perpsWithdrawable = parseFloat(perpsState.withdrawable || '0');
+    perpsPositions = (perpsState.assetPositions ?? []).map(({ position }) => ({
+      coin: position.coin,
+      size: parseFloat(position.szi) || 0,
+      entryPrice: parseFloat(position.entryPx) || 0,
+      unrealizedPnl: parseFloat(position.unrealizedPnl) || 0,
+    }));
   }
 
   return {
@@ -115,6 +140,7 @@ async function fetchHyperliquidBalance(address: string): Promise<HyperliquidBala
     perpsAccountValue: perpsAccountUSDCBalance,
     perpsWithdrawable,
     totalUsdc: spotUsdc + perpsAccountUSDCBalance,
+    perpsPositions,
   };
 }
 
@@ -127,3 +153,42 @@ export function useHyperliquidBalance(address: string | null | undefined) {
     staleTime: 10000, // Consider data stale after 10 seconds
   });
 }
+
+/**
+ * Balance with perps equity marked to live mids between refetches.
+ * Fills, liquidations and funding on the account trigger a refetch.
+ */
+export function useLiveHyperliquidBalance(address: string | null | undefined) {
+  const queryClient = useQueryClient();
+  const query = useHyperliquidBalance(address);
+  const positions = query.data?.perpsPositions ?? [];
+  const coins = positions.map((p) => p.coin).sort();
+  const mids = useAllMids(coins, coins.length > 0);
+
+  useUserEvents(address, () => {
+    queryClient.invalidateQueries({ queryKey: ['hyperliquid-balance', address?.toLowerCase()] });
+    queryClient.invalidateQueries({ queryKey: ['positions'] });
+  });
+
+  const data = useMemo((): HyperliquidBalance | undefined => {
+    if (!query.data) return undefined;
+
+    // Swap the snapshot's unrealized PnL for PnL at the live mid
+    let pnlDelta = 0;
+    for (const position of query.data.perpsPositions) {
+      const mid = mids[position.coin];
+      if (mid === undefined) continue;
+      pnlDelta += position.size * (mid - position.entryPrice) - position.unrealizedPnl;
+    }
+    if (pnlDelta === 0) return query.data;
+
+    const perpsAccountValue = query.data.perpsAccountValue + pnlDelta;
+    return {
+      ...query.data,
+      perpsAccountValue,
+      totalUsdc: query.data.spotUsdc + perpsAccountValue,
+    };
+  }, [query.data, mids]);
+
+  return { ...query, data, isLive: Object.keys(mids).length > 0 };
+}
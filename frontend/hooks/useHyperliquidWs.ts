@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { getHlWsManager, toCandleData } from '@/lib/hl-ws';
+import type { HlConnectionStatus, HlUserEvent } from '@/lib/hl-ws';
+import type { CandleData } from '@/types/trade';
+
+// allMids arrives every block; re-render at most this often
+const MIDS_THROTTLE_MS = 1000;
+
+/**
+ * Hook for live mid prices of the given coins (all coins if omitted)
+ */
+export function useAllMids(coins?: string[], enabled = true): Record<string, number> {
+  const [mids, setMids] = useState<Record<string, number>>({});
+  const coinsKey = coins?.join(',') ?? '*';
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const wanted = coinsKey === '*' ? null : new Set(coinsKey.split(','));
+    let lastUpdate = 0;
+    let pending: ReturnType<typeof setTimeout> | null = null;
+    let latest: Record<string, number> = {};
+
+    const flush = () => {
+      pending = null;
+      lastUpdate = Date.now();
+      setMids(latest);
+    };
+
+    const unsubscribe = getHlWsManager().subscribe({ type: 'allMids' }, (data) => {
+      const next: Record<string, number> = {};
+      for (const [coin, px] of Object.entries(data.mids)) {
+        if (!wanted || wanted.has(coin)) {
+          next[coin] = parseFloat(px);
+        }
+      }
+      latest = next;
+
+      const wait = MIDS_THROTTLE_MS - (Date.now() - lastUpdate);
+      if (wait <= 0) {
+        flush();
+      } else if (!pending) {
+        pending = setTimeout(flush, wait);
+      }
+    });
+
+    return () => {
+      if (pending) clearTimeout(pending);
+      unsubscribe();
+    };
+  }, [coinsKey, enabled]);
+
+  return mids;
+}
+
+/**
+ * Hook for the currently forming candle of a coin
+ */
+export function useLiveCandle(coin: string | null | undefined, interval: string, enabled = true): CandleData | null {
+  const [candle, setCandle] = useState<CandleData | null>(null);
+
+  useEffect(() => {
+    setCandle(null);
+    if (!coin || !enabled) return;
+
+    return getHlWsManager().subscribe({ type: 'candle', coin, interval }, (data) => {
+      setCandle(toCandleData(data));
+    });
+  }, [coin, interval, enabled]);
+
+  return candle;
+}
+
+/**
+ * Hook that calls onEvent for fills, funding, liquidations and cancels on the user's account
+ */
+export function useUserEvents(user: string | null | undefined, onEvent: (event: HlUserEvent) => void) {
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!user) return;
+
+    return getHlWsManager().subscribe({ type: 'userEvents', user }, (event) => {
+      onEventRef.current(event);
+    });
+  }, [user]);
+}
+
+/**
+ * Hook for the shared connection status
+ */
+export function useHlConnectionStatus(): HlConnectionStatus {
+  const [status, setStatus] = useState<HlConnectionStatus>('idle');
+
+  useEffect(() => {
+    const manager = getHlWsManager();
+    setStatus(manager.getStatus());
+    return manager.onStatusChange(setStatus);
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useUserStore } from '@/store/userStore';
+import type { JournalResponse, RecordSwipeRequest, TradeJournalEntry } from '@/types/trade';
+
+/**
+ * Fetch the swipe journal and summary stats for an address
+ */
+async function fetchJournal(address: string): Promise<JournalResponse> {
+  const response = await fetch(`/api/journal?address=${address}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch journal');
+  }
+
+  return response.json();
+}
+
+/**
+ * Record a swipe decision
+ */
+async function recordSwipe(accessToken: string, data: RecordSwipeRequest): Promise<{ entry: TradeJournalEntry }> {
+  const response = await fetch('/api/journal', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to record swipe');
+  }
+
+  return response.json();
+}
+
+/**
+ * Pull closed trades from Pear into the journal
+ */
+async function syncJournal(accessToken: string, address: string): Promise<JournalResponse> {
+  const response = await fetch('/api/journal/sync', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ address }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to sync journal');
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook to fetch a user's swipe journal
+ */
+export function useJournal(address: string | null | undefined) {
+  const normalized = address?.toLowerCase() ?? null;
+
+  return useQuery({
+    queryKey: ['journal', normalized],
+    queryFn: () => fetchJournal(normalized!),
+    enabled: !!normalized,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Hook to record swipes in the journal
+ */
+export function useRecordSwipe() {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useMutation({
+    mutationFn: (data: RecordSwipeRequest) => {
+      if (!pearAccessToken) {
+        throw new Error('Not authenticated');
+      }
+      return recordSwipe(pearAccessToken, data);
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['journal', variables.address.toLowerCase()] });
+    },
+  });
+}
+
+/**
+ * Hook to reconcile the journal with Pear's trade history
+ */
+export function useSyncJournal() {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useMutation({
+    mutationFn: (address: string) => {
+      if (!pearAccessToken) {
+        throw new Error('Not authenticated');
+      }
+      return syncJournal(pearAccessToken, address);
+    },
+    onSuccess: (data, address) => {
+      queryClient.setQueryData(['journal', address.toLowerCase()], {
+        entries: data.entries,
+        summary: data.summary,
+      });
+    },
+  });
+}
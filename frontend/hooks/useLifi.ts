@@ -1,7 +1,12 @@
 'use client';
 
 import { useMutation } from '@tanstack/react-query';
-import type { LifiQuoteRequest, LifiQuoteResponse } from '@/types';
+import type {
+  LifiQuoteRequest,
+  LifiQuoteResponse,
+  LifiUsdcToBtcQuoteRequest,
+  LifiUsdcToBtcQuoteResponse,
+} from '@/types';
 
 /**
  * Fetch BTC to USDC quote from Li.Fi
@@ -29,3 +34,30 @@ export function useBtcToUsdcQuote() {
     mutationFn: fetchBtcToUsdcQuote,
   });
 }
+
+/**
+ * Fetch Arbitrum USDC to BTC quote from Li.Fi
+ */
+async function fetchUsdcToBtcQuote(data: LifiUsdcToBtcQuoteRequest): Promise<LifiUsdcToBtcQuoteResponse> {
+  const response = await fetch('/api/lifi/quote-usdc-to-btc', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Failed to fetch quote');
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook to fetch Arbitrum USDC → BTC quote
+ */
+export function useUsdcToBtcQuote() {
+  return useMutation({
+    mutationFn: fetchUsdcToBtcQuote,
+  });
+}
@@ -45,8 +45,8 @@ export const LIGHTNING_CONFIG = {
   MIN_SATS: 10, // Minimum 10 sats (micro payments welcome)
   MAX_SATS: 10_000_000, // Maximum 0.1 BTC
   
-  // Backend API base URL - your Lightning backend server
-  API_BASE: 'http://localhost:3001',
+  // Lightning API routes are served by this app (see app/api/lightning)
+  API_BASE: '',
   
   // LSAT token info on HyperEVM
   LSAT_TOKEN: {
@@ -148,7 +148,7 @@ export function useLightning() {
     memo?: string
   ): Promise<InvoiceResponse | null> => {
     try {
-      const response = await fetch(`${LIGHTNING_CONFIG.API_BASE}/api/create-invoice`, {
+      const response = await fetch(`${LIGHTNING_CONFIG.API_BASE}/api/lightning/create-invoice`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -159,8 +159,8 @@ export function useLightning() {
       });
 
       if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: 'Failed to create invoice' }));
-        throw new Error(error.message || 'Failed to create invoice');
+        const error = await response.json().catch(() => ({ error: 'Failed to create invoice' }));
+        throw new Error(error.error || 'Failed to create invoice');
       }
 
       const data = await response.json();
@@ -234,7 +234,7 @@ export function useLightning() {
     preimage: string
   ): Promise<boolean> => {
     try {
-      const response = await fetch(`${LIGHTNING_CONFIG.API_BASE}/api/verify-payment`, {
+      const response = await fetch(`${LIGHTNING_CONFIG.API_BASE}/api/lightning/verify-payment`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -244,7 +244,8 @@ export function useLightning() {
       });
 
       if (!response.ok) {
-        throw new Error('Payment verification failed');
+        const error = await response.json().catch(() => ({ error: 'Payment verification failed' }));
+        throw new Error(error.error || 'Payment verification failed');
       }
 
       const data = await response.json();
@@ -1,17 +1,20 @@
 'use client';
 
 import { useInfiniteQuery } from '@tanstack/react-query';
+import { DEFAULT_DECK_FILTERS, toMarketFilterParams } from '@/lib/deck-filters';
+import type { MarketFilters } from '@/lib/deck-filters';
 import type { PearMarket } from '@/types/trade';
 
 export interface MarketsResponse {
   markets: PearMarket[];
   page: number;
   totalPages: number;
+  totalMarkets: number; // after filters
   hasMore: boolean;
 }
 
-async function fetchMarkets(page: number): Promise<MarketsResponse> {
-  const response = await fetch(`/api/markets?page=${page}`);
+async function fetchMarkets(page: number, filterParams: string): Promise<MarketsResponse> {
+  const response = await fetch(`/api/markets?page=${page}${filterParams ? `&${filterParams}` : ''}`);
 
   if (!response.ok) {
     const error = await response.json();
@@ -21,10 +24,15 @@ async function fetchMarkets(page: number): Promise<MarketsResponse> {
   return response.json();
 }
 
-export function useMarkets() {
+/**
+ * Deck markets, filtered and paged server-side
+ */
+export function useMarkets(filters: MarketFilters = DEFAULT_DECK_FILTERS) {
+  const filterParams = toMarketFilterParams(filters).toString();
+
   return useInfiniteQuery({
-    queryKey: ['markets'],
-    queryFn: ({ pageParam }) => fetchMarkets(pageParam),
+    queryKey: ['markets', filterParams],
+    queryFn: ({ pageParam }) => fetchMarkets(pageParam, filterParams),
     initialPageParam: 1,
     getNextPageParam: (lastPage) => {
       if (lastPage.hasMore) {
@@ -0,0 +1,47 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { OrderQuote, TradeCard } from '@/types/trade';
+
+type QuoteSource = Pick<TradeCard, 'ticker' | 'direction' | 'positionType' | 'longAssets' | 'shortAssets'>;
+
+/**
+ * Quote a market entry for a card against the order book
+ */
+async function fetchOrderQuote(trade: QuoteSource, sizeUsd: number): Promise<OrderQuote> {
+  const hasAssets = (trade.longAssets?.length ?? 0) + (trade.shortAssets?.length ?? 0) > 0;
+  const response = await fetch('/api/positions/quote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      longAssets: hasAssets ? trade.longAssets ?? [] : [{ asset: trade.ticker, weight: 100 }],
+      shortAssets: trade.shortAssets ?? [],
+      usdValue: sizeUsd,
+      direction: trade.direction,
+      positionType: trade.positionType || 'one_directional',
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to quote order');
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook to get the expected fill, impact and fees of a market entry
+ */
+export function useOrderQuote(trade: QuoteSource, sizeUsd: number, enabled = true) {
+  const toKey = (assets: QuoteSource['longAssets']) => (assets ?? []).map((a) => `${a.asset}:${a.weight}`).join(',');
+
+  return useQuery({
+    queryKey: ['order-quote', trade.ticker, toKey(trade.longAssets), toKey(trade.shortAssets), trade.direction, sizeUsd],
+    queryFn: () => fetchOrderQuote(trade, sizeUsd),
+    enabled: enabled && Number.isFinite(sizeUsd) && sizeUsd >= 1,
+    refetchInterval: 15 * 1000, // Books move; keep the estimate roughly current
+    staleTime: 5 * 1000,
+    retry: false,
+  });
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useUserStore } from '@/store/userStore';
+import type { PendingOrder, PendingOrdersResponse } from '@/types/trade';
+
+/**
+ * Fetch resting orders through our Pear proxy
+ */
+async function fetchPendingOrders(accessToken: string): Promise<PendingOrdersResponse> {
+  const response = await fetch('/api/orders', {
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch orders');
+  }
+
+  return response.json();
+}
+
+/**
+ * Cancel a resting order
+ */
+async function cancelOrder(
+  accessToken: string,
+  { orderId, orderType }: Pick<PendingOrder, 'orderId' | 'orderType'>
+): Promise<void> {
+  const response = await fetch(`/api/orders/${encodeURIComponent(orderId)}/cancel`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ orderType }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to cancel order');
+  }
+}
+
+/**
+ * Hook to fetch the user's resting LIMIT, TWAP and LADDER orders
+ */
+export function usePendingOrders() {
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useQuery({
+    queryKey: ['orders'],
+    queryFn: () => fetchPendingOrders(pearAccessToken!),
+    enabled: !!pearAccessToken,
+    refetchInterval: 15 * 1000, // TWAP chunks and fills move the list
+    staleTime: 5 * 1000,
+  });
+}
+
+/**
+ * Hook to cancel a resting order
+ */
+export function useCancelOrder() {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useMutation({
+    mutationFn: (order: Pick<PendingOrder, 'orderId' | 'orderType'>) => {
+      if (!pearAccessToken) {
+        throw new Error('Not authenticated');
+      }
+      return cancelOrder(pearAccessToken, order);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      // A cancelled TWAP leaves its filled chunks as a position
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+    },
+  });
+}
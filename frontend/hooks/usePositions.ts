@@ -0,0 +1,385 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useUserStore } from '@/store/userStore';
+import { getCardLegsKey, getLegsKey } from '@/lib/market-utils';
+import type {
+  ConstraintWarning,
+  ConstraintWarningCode,
+  InsufficientMarginResponse,
+  OpenPosition,
+  OrderTicket,
+  RiskViolation,
+  RiskViolationCode,
+  TpSlSettings,
+  TradeCardSnapshot,
+} from '@/types/trade';
+
+// Pear timestamps and ours can disagree by a few seconds
+const SWIPE_MATCH_SLACK_MS = 60 * 1000;
+
+interface PositionsResponse {
+  positions: OpenPosition[];
+}
+
+export interface OpenCardPositionParams {
+  address: string;
+  trade: TradeCardSnapshot; // with the order's leverage and direction applied
+  order: OrderTicket;
+  acceptWarnings?: ConstraintWarningCode[]; // adjustments the user has confirmed
+}
+
+export interface OpenCardPositionResult {
+  orderId: string | null;
+  fills: unknown[] | null;
+  sizeUsd: number;
+  leverage: number;
+  leverageCapped?: boolean;
+}
+
+/**
+ * Thrown when the order needs its size or leverage adjusted to meet
+ * Hyperliquid's limits. Resend with the warnings' codes in `acceptWarnings`
+ * once the user confirms.
+ */
+export class AdjustmentRequiredError extends Error {
+  constructor(message: string, public readonly warnings: ConstraintWarning[]) {
+    super(message);
+    this.name = 'AdjustmentRequiredError';
+  }
+}
+
+/**
+ * Thrown when perps margin can't cover the order. `margin.suggestedTopUpUsdc`
+ * is the spot USDC to move to perps before resending, if spot can cover it.
+ */
+export class InsufficientMarginError extends Error {
+  constructor(message: string, public readonly margin: InsufficientMarginResponse) {
+    super(message);
+    this.name = 'InsufficientMarginError';
+  }
+}
+
+/**
+ * Thrown when the order would break one of the user's risk limits
+ */
+export class RiskLimitError extends Error {
+  constructor(message: string, public readonly code: RiskViolationCode) {
+    super(message);
+    this.name = 'RiskLimitError';
+  }
+}
+
+interface ClosePositionParams {
+  positionId: string;
+  percentage?: number;
+}
+
+export interface CloseSwipedPositionParams {
+  card: TradeCardSnapshot;
+  openedAt: number;
+  order: Pick<OpenCardPositionResult, 'orderId' | 'fills' | 'sizeUsd'>; // as returned when it opened
+}
+
+/**
+ * The part of a position a swipe opened, and the share of it to close
+ */
+export interface SwipedPositionMatch {
+  position: OpenPosition;
+  percentage: number; // 1-100
+}
+
+/**
+ * Fetch open positions through our Pear proxy
+ */
+async function fetchPositions(accessToken: string): Promise<OpenPosition[]> {
+  const response = await fetch('/api/positions', {
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch positions');
+  }
+
+  const data: PositionsResponse = await response.json();
+  return data.positions;
+}
+
+/**
+ * Open the position for a card through /api/positions/create
+ */
+async function openCardPosition(
+  accessToken: string,
+  { address, trade, order, acceptWarnings = [] }: OpenCardPositionParams
+): Promise<OpenCardPositionResult> {
+  const response = await fetch('/api/positions/create', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({
+      address,
+      longAssets: trade.longAssets || [],
+      shortAssets: trade.shortAssets || [],
+      usdValue: order.sizeUsd,
+      leverage: trade.leverage,
+      direction: trade.direction,
+      positionType: trade.positionType || 'one_directional',
+      takeProfit: order.tpSl.takeProfit,
+      stopLoss: order.tpSl.stopLoss,
+      orderType: order.orderType,
+      limitPrice: order.limitPrice,
+      twap: order.twap,
+      ladder: order.ladder,
+      slippage: order.slippage,
+      acceptWarnings,
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (response.status === 409 && result.code === 'CONFIRMATION_REQUIRED') {
+    throw new AdjustmentRequiredError(result.error, result.warnings);
+  }
+
+  if (response.status === 400 && result.code === 'INSUFFICIENT_MARGIN') {
+    throw new InsufficientMarginError(result.error, result);
+  }
+
+  if (response.status === 403 && result.violation) {
+    throw new RiskLimitError(result.error, (result.violation as RiskViolation).code);
+  }
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Trade failed');
+  }
+
+  return {
+    orderId: result.orderId ?? null,
+    fills: result.fills ?? null,
+    sizeUsd: result.usdValue ?? order.sizeUsd,
+    leverage: result.leverage ?? trade.leverage,
+    leverageCapped: result.leverageCapped,
+  };
+}
+
+/**
+ * Close a position (fully or partially)
+ */
+async function closePosition(
+  accessToken: string,
+  { positionId, percentage = 100 }: ClosePositionParams
+): Promise<{ orderId?: string }> {
+  const response = await fetch(`/api/positions/${encodeURIComponent(positionId)}/close`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ percentage }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to close position');
+  }
+
+  return result;
+}
+
+/**
+ * Base size filled per coin, from the raw fills Pear returns on creation
+ * @returns null if the fills carry no usable coin and size
+ */
+function getFilledSizes(fills: unknown[] | null): Map<string, number> | null {
+  const sizes = new Map<string, number>();
+  for (const fill of fills ?? []) {
+    const { coin, sz } = (fill ?? {}) as { coin?: unknown; sz?: unknown };
+    const size = Math.abs(parseFloat(String(sz)));
+    if (typeof coin !== 'string' || !Number.isFinite(size) || size <= 0) continue;
+    const key = coin.toUpperCase();
+    sizes.set(key, (sizes.get(key) ?? 0) + size);
+  }
+  return sizes.size > 0 ? sizes : null;
+}
+
+function toClosePercentage(share: number): number {
+  return Math.min(100, Math.max(1, Math.round(share * 100)));
+}
+
+/**
+ * Find the position a swipe opened and how much of it the swipe added.
+ * Pear merges orders on the same legs into one position, so only the swiped
+ * share is closed:
+ * - With fills, the position must hold at least the filled size on every
+ *   filled coin, and the share is the filled size over the leg's size.
+ * - Without fills, the position must have been created after the swipe, and
+ *   the share is the order's notional over the position's.
+ * @returns null rather than guess when neither can be checked
+ */
+export function findSwipedPosition(
+  positions: OpenPosition[],
+  card: TradeCardSnapshot,
+  openedAt: number,
+  order: Pick<OpenCardPositionResult, 'fills' | 'sizeUsd'>
+): SwipedPositionMatch | null {
+  const key = getCardLegsKey(card);
+  const sameLegs = positions.filter(
+    (p) => getLegsKey(p.longAssets.map((a) => a.asset), p.shortAssets.map((a) => a.asset)) === key
+  );
+
+  const filled = getFilledSizes(order.fills);
+  if (filled) {
+    let best: { position: OpenPosition; share: number } | null = null;
+    for (const position of sameLegs) {
+      const legs = [...position.longAssets, ...position.shortAssets];
+      const shares = [...filled].map(([coin, size]) => {
+        const leg = legs.find((l) => l.asset.toUpperCase() === coin);
+        return leg && leg.size > 0 ? size / leg.size : Infinity;
+      });
+      const share = Math.max(...shares);
+      // Allow for rounding between our fills and Pear's reported size;
+      // the largest share is the position the fills make up most of
+      if (share <= 1.01 && (!best || share > best.share)) {
+        best = { position, share };
+      }
+    }
+    return best ? { position: best.position, percentage: toClosePercentage(best.share) } : null;
+  }
+
+  const position = sameLegs
+    .filter((p) => p.createdAt !== null && p.createdAt >= openedAt - SWIPE_MATCH_SLACK_MS)
+    .sort((a, b) => b.createdAt! - a.createdAt!)[0];
+  if (!position || position.positionValue <= 0) {
+    return null;
+  }
+  return { position, percentage: toClosePercentage(order.sizeUsd / position.positionValue) };
+}
+
+/**
+ * Replace TP/SL on an open position
+ */
+async function updatePositionRisk(
+  accessToken: string,
+  positionId: string,
+  settings: TpSlSettings
+): Promise<void> {
+  const response = await fetch(`/api/positions/${encodeURIComponent(positionId)}/risk`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(settings),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to update TP/SL');
+  }
+}
+
+/**
+ * Hook to fetch the user's open positions
+ */
+export function usePositions() {
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useQuery({
+    queryKey: ['positions'],
+    queryFn: () => fetchPositions(pearAccessToken!),
+    enabled: !!pearAccessToken,
+    refetchInterval: 15 * 1000, // Keep PnL fresh
+    staleTime: 5 * 1000,
+  });
+}
+
+/**
+ * Hook to open a card's position. Pages go through useCardOrder, which
+ * handles the adjustment and top-up prompts this can throw for.
+ */
+export function useOpenCardPosition() {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useMutation({
+    mutationFn: (params: OpenCardPositionParams) => {
+      if (!pearAccessToken) {
+        throw new Error('Not authenticated');
+      }
+      return openCardPosition(pearAccessToken, params);
+    },
+    onSuccess: (_data, { order }) => {
+      queryClient.invalidateQueries({ queryKey: [order.orderType === 'MARKET' ? 'positions' : 'orders'] });
+    },
+  });
+}
+
+/**
+ * Hook to close a position
+ */
+export function useClosePosition() {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useMutation({
+    mutationFn: (params: ClosePositionParams) => {
+      if (!pearAccessToken) {
+        throw new Error('Not authenticated');
+      }
+      return closePosition(pearAccessToken, params);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+    },
+  });
+}
+
+/**
+ * Hook to close what a swipe opened (the "undo" after an order went through),
+ * leaving any earlier position on the same legs open
+ */
+export function useCloseSwipedPosition() {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useMutation({
+    mutationFn: async ({ card, openedAt, order }: CloseSwipedPositionParams) => {
+      if (!pearAccessToken) {
+        throw new Error('Not authenticated');
+      }
+      const positions = await fetchPositions(pearAccessToken);
+      const match = findSwipedPosition(positions, card, openedAt, order);
+      if (!match) {
+        throw new Error('Could not tell which position this swipe opened. Close it from Positions.');
+      }
+      return closePosition(pearAccessToken, { positionId: match.position.positionId, percentage: match.percentage });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+    },
+  });
+}
+
+/**
+ * Hook to edit TP/SL on an open position
+ */
+export function useUpdatePositionRisk() {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+
+  return useMutation({
+    mutationFn: ({ positionId, ...settings }: TpSlSettings & { positionId: string }) => {
+      if (!pearAccessToken) {
+        throw new Error('Not authenticated');
+      }
+      return updatePositionRisk(pearAccessToken, positionId, settings);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+    },
+  });
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useUserStore } from '@/store/userStore';
+import type { RiskProfile, RiskProfileResponse } from '@/types/trade';
+
+function authHeaders(accessToken: string | null): Record<string, string> {
+  return accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {};
+}
+
+/**
+ * Fetch risk limits and current usage for an address
+ */
+async function fetchRiskProfile(address: string, accessToken: string | null): Promise<RiskProfileResponse> {
+  const response = await fetch(`/api/risk?address=${address}`, {
+    headers: authHeaders(accessToken),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch risk limits');
+  }
+
+  return response.json();
+}
+
+/**
+ * Save risk limits
+ */
+async function updateRiskProfile(
+  address: string,
+  accessToken: string | null,
+  update: Partial<RiskProfile>
+): Promise<RiskProfileResponse> {
+  const response = await fetch('/api/risk', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(accessToken),
+    },
+    body: JSON.stringify({ address, ...update }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to save risk limits');
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook to fetch a user's risk limits and usage
+ */
+export function useRiskProfile(address: string | null | undefined) {
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+  const normalized = address?.toLowerCase() ?? null;
+
+  return useQuery({
+    queryKey: ['risk', normalized],
+    queryFn: () => fetchRiskProfile(normalized!, pearAccessToken),
+    enabled: !!normalized,
+    staleTime: 15 * 1000,
+  });
+}
+
+/**
+ * Hook to update a user's risk limits
+ */
+export function useUpdateRiskProfile(address: string | null | undefined) {
+  const queryClient = useQueryClient();
+  const pearAccessToken = useUserStore((state) => state.pearAccessToken);
+  const normalized = address?.toLowerCase() ?? null;
+
+  return useMutation({
+    mutationFn: (update: Partial<RiskProfile>) => {
+      if (!normalized) {
+        throw new Error('Wallet not connected');
+      }
+      return updateRiskProfile(normalized, pearAccessToken, update);
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['risk', normalized], data);
+    },
+  });
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+export interface SwipeKeyboardActions {
+  onSkip: () => void;
+  onTake: () => void;
+  onCustomOrder: () => void;
+  onSave: () => void;
+  onUndo: () => void;
+  onDetails: () => void;
+}
+
+// Key → action; J/K follow the feed-reader convention of previous/next
+const KEY_BINDINGS: Record<string, keyof SwipeKeyboardActions> = {
+  ArrowLeft: 'onSkip',
+  j: 'onSkip',
+  ArrowRight: 'onTake',
+  k: 'onTake',
+  ArrowUp: 'onCustomOrder',
+  ArrowDown: 'onSave',
+  s: 'onSave',
+  u: 'onUndo',
+  d: 'onDetails',
+};
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Hook for deck shortcuts: ←/J skip, →/K take, ↑ custom order, ↓/S save, U undo, D details.
+ * Ignored while typing, with modifier keys held, or when disabled (e.g. a sheet is open).
+ */
+export function useSwipeKeyboard(actions: SwipeKeyboardActions, enabled = true) {
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.metaKey || event.ctrlKey || event.altKey || isEditable(event.target)) {
+        return;
+      }
+
+      const action = KEY_BINDINGS[event.key.length === 1 ? event.key.toLowerCase() : event.key];
+      if (!action) return;
+
+      event.preventDefault();
+      actionsRef.current[action]();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+}
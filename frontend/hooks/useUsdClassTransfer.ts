@@ -0,0 +1,54 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import { useAccount, useWalletClient } from 'wagmi';
+import { useQueryClient } from '@tanstack/react-query';
+import { HyperliquidSDK } from '@/lib/hyperliquid';
+
+/**
+ * Hook for moving USDC between the Hyperliquid spot and perps balances.
+ * `transfer` throws on failure; wallet rejections come back as a cancellation.
+ */
+export function useUsdClassTransfer() {
+  const { address, chainId } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const queryClient = useQueryClient();
+  const [isTransferring, setIsTransferring] = useState(false);
+
+  const hyperliquid = useMemo(() => {
+    return new HyperliquidSDK(walletClient ?? undefined);
+  }, [walletClient]);
+
+  const transfer = useCallback(async (amountUsdc: number, toPerp: boolean) => {
+    if (!address || !walletClient) {
+      throw new Error('Please connect your wallet first');
+    }
+    // Hyperliquid only accepts signatures made on Ethereum or Arbitrum
+    if (chainId !== 1 && chainId !== 42161) {
+      throw new Error('Please switch to Ethereum or Arbitrum');
+    }
+
+    setIsTransferring(true);
+    try {
+      const res = await hyperliquid.transferUsdc(amountUsdc, toPerp);
+      if (res.status === 'err') {
+        throw new Error(res.response || 'Transfer failed');
+      }
+      queryClient.invalidateQueries({ queryKey: ['hyperliquid-balance', address.toLowerCase()] });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transfer failed';
+      if (message.includes('User rejected') || message.includes('User denied')) {
+        throw new Error('Transfer cancelled by user');
+      }
+      throw error instanceof Error ? error : new Error(message);
+    } finally {
+      setIsTransferring(false);
+    }
+  }, [address, chainId, walletClient, hyperliquid, queryClient]);
+
+  return {
+    transfer,
+    isTransferring,
+    canTransfer: !!address && !!walletClient && (chainId === 1 || chainId === 42161),
+  };
+}
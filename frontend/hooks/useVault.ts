@@ -1,7 +1,7 @@
 'use client';
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { VaultResponse, VaultCreditRequest } from '@/types';
+import type { VaultResponse, VaultCreditRequest, VaultCreditResponse, VaultHistoryResponse } from '@/types';
 
 /**
  * Fetch vault balance for an address
@@ -18,9 +18,23 @@ async function fetchVaultBalance(address: string): Promise<VaultResponse> {
 }
 
 /**
- * Credit vault with USDC
+ * Fetch vault ledger entries for an address
  */
-async function creditVault(data: VaultCreditRequest): Promise<VaultResponse> {
+async function fetchVaultHistory(address: string, limit: number): Promise<VaultHistoryResponse> {
+  const response = await fetch(`/api/vault/history?address=${address}&limit=${limit}`);
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch vault history');
+  }
+  
+  return response.json();
+}
+
+/**
+ * Credit vault with a verified deposit
+ */
+async function creditVault(data: VaultCreditRequest): Promise<VaultCreditResponse> {
   const response = await fetch('/api/vault/credit', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -48,6 +62,18 @@ export function useVaultBalance(address: string | null) {
   });
 }
 
+/**
+ * Hook to fetch recent vault ledger entries
+ */
+export function useVaultHistory(address: string | null, limit = 10) {
+  return useQuery({
+    queryKey: ['vault-history', address, limit],
+    queryFn: () => fetchVaultHistory(address!, limit),
+    enabled: !!address,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
 /**
  * Hook to credit the vault
  */
@@ -59,6 +85,7 @@ export function useCreditVault() {
     onSuccess: (data, variables) => {
       // Invalidate and refetch vault balance
       queryClient.invalidateQueries({ queryKey: ['vault', variables.address] });
+      queryClient.invalidateQueries({ queryKey: ['vault-history', variables.address] });
     },
   });
 }
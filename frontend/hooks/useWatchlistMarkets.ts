@@ -0,0 +1,33 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { PearMarket } from '@/types/trade';
+
+async function fetchMarketsByKey(keys: string[]): Promise<PearMarket[]> {
+  const response = await fetch('/api/markets/lookup', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ keys }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch markets');
+  }
+
+  const data: { markets: PearMarket[] } = await response.json();
+  return data.markets;
+}
+
+/**
+ * Hook for live Pear metrics of saved markets, by market key
+ */
+export function useWatchlistMarkets(keys: string[]) {
+  return useQuery({
+    queryKey: ['watchlist-markets', [...keys].sort()],
+    queryFn: () => fetchMarketsByKey(keys),
+    enabled: keys.length > 0,
+    refetchInterval: 60 * 1000,
+    staleTime: 30 * 1000,
+  });
+}
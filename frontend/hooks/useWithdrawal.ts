@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import { useAccount, useWalletClient, usePublicClient, useSwitchChain } from 'wagmi';
+import { erc20Abi } from 'viem';
+import { arbitrum } from 'viem/chains';
+import { HyperliquidSDK } from '@/lib/hyperliquid';
+import { useTrackWithdrawal, useAttachWithdrawalBridge } from '@/hooks/useBridgeWithdrawals';
+import { useUsdcToBtcQuote } from '@/hooks/useLifi';
+import { ARBITRUM_CHAIN_ID, SUPPORTED_EVM_CHAINS } from '@/types';
+import type { BridgeWithdrawal, WithdrawalDestination } from '@/types';
+
+const ARBITRUM_USDC = SUPPORTED_EVM_CHAINS.find((c) => c.id === ARBITRUM_CHAIN_ID)!;
+
+export interface WithdrawParams {
+  amountUsdc: number;
+  destination: WithdrawalDestination;
+  btcAddress?: string;
+}
+
+/**
+ * Wallet rejections read better as a cancellation than as a raw RPC error
+ */
+function toWithdrawalError(error: unknown, fallback: string): Error {
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.includes('User rejected') || message.includes('User denied')) {
+    return new Error('Transaction cancelled by user');
+  }
+  return error instanceof Error ? error : new Error(fallback);
+}
+
+/**
+ * Hook for moving funds out of Hyperliquid.
+ *
+ * `withdraw` signs a Hyperliquid withdrawal to the connected address on
+ * Arbitrum and starts tracking it. For BTC withdrawals, once the USDC has
+ * landed on Arbitrum, `bridgeToBtc` quotes Li.Fi, approves and sends the
+ * USDC, and hands the transfer over to tracking.
+ */
+export function useWithdrawal() {
+  const { address, chainId } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const arbitrumClient = usePublicClient({ chainId: ARBITRUM_CHAIN_ID });
+  const { switchChainAsync } = useSwitchChain();
+  const trackWithdrawal = useTrackWithdrawal();
+  const attachBridge = useAttachWithdrawalBridge();
+  const usdcToBtcQuote = useUsdcToBtcQuote();
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [bridgingId, setBridgingId] = useState<string | null>(null);
+
+  const hyperliquid = useMemo(() => {
+    return new HyperliquidSDK(walletClient ?? undefined);
+  }, [walletClient]);
+
+  const withdraw = useCallback(async ({ amountUsdc, destination, btcAddress }: WithdrawParams) => {
+    if (!address || !walletClient) {
+      throw new Error('Please connect your wallet first');
+    }
+    // Hyperliquid only accepts signatures made on Ethereum or Arbitrum
+    if (chainId !== 1 && chainId !== ARBITRUM_CHAIN_ID) {
+      throw new Error('Please switch to Ethereum or Arbitrum');
+    }
+
+    setIsWithdrawing(true);
+    try {
+      const res = await hyperliquid.withdrawToArbitrum(address, amountUsdc);
+      if (res.status === 'err') {
+        throw new Error(res.response || 'Withdrawal failed');
+      }
+
+      const { withdrawal } = await trackWithdrawal.mutateAsync({
+        address,
+        amountUsdc,
+        destination,
+        btcAddress,
+      });
+      return withdrawal;
+    } catch (error) {
+      throw toWithdrawalError(error, 'Withdrawal failed');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  }, [address, chainId, walletClient, hyperliquid, trackWithdrawal]);
+
+  const bridgeToBtc = useCallback(async (withdrawal: BridgeWithdrawal) => {
+    if (!address || !walletClient || !arbitrumClient) {
+      throw new Error('Please connect your wallet first');
+    }
+    if (withdrawal.status !== 'READY_TO_BRIDGE' || !withdrawal.btcAddress || withdrawal.receivedUsdc === null) {
+      throw new Error('Withdrawal is not ready to bridge');
+    }
+
+    setBridgingId(withdrawal.id);
+    try {
+      if (chainId !== ARBITRUM_CHAIN_ID) {
+        await switchChainAsync({ chainId: ARBITRUM_CHAIN_ID });
+      }
+
+      // Quote just before sending so the route reflects current prices
+      const quote = await usdcToBtcQuote.mutateAsync({
+        evmAddress: address,
+        btcAddress: withdrawal.btcAddress,
+        fromAmountUsdc: withdrawal.receivedUsdc,
+      });
+      const fromAmount = BigInt(quote.action.fromAmount);
+
+      const spender = quote.estimate.approvalAddress as `0x${string}` | undefined;
+      if (spender) {
+        const allowance = await arbitrumClient.readContract({
+          address: ARBITRUM_USDC.usdcAddress,
+          abi: erc20Abi,
+          functionName: 'allowance',
+          args: [address, spender],
+        });
+        if (allowance < fromAmount) {
+          const approveHash = await walletClient.writeContract({
+            chain: arbitrum,
+            account: address,
+            address: ARBITRUM_USDC.usdcAddress,
+            abi: erc20Abi,
+            functionName: 'approve',
+            args: [spender, fromAmount],
+          });
+          await arbitrumClient.waitForTransactionReceipt({ hash: approveHash });
+        }
+      }
+
+      const { transactionRequest } = quote;
+      const txHash = await walletClient.sendTransaction({
+        chain: arbitrum,
+        account: address,
+        to: transactionRequest.to as `0x${string}`,
+        data: transactionRequest.data as `0x${string}`,
+        value: BigInt(transactionRequest.value || 0),
+        gas: transactionRequest.gasLimit ? BigInt(transactionRequest.gasLimit) : undefined,
+      });
+
+      const expectedSats = parseInt(quote.estimate.toAmount, 10);
+      const { withdrawal: updated } = await attachBridge.mutateAsync({
+        id: withdrawal.id,
+        address,
+        txHash,
+        bridge: quote.tool,
+        expectedSats: Number.isFinite(expectedSats) && expectedSats > 0 ? expectedSats : undefined,
+      });
+      return updated;
+    } catch (error) {
+      throw toWithdrawalError(error, 'Bridging to BTC failed');
+    } finally {
+      setBridgingId(null);
+    }
+  }, [address, chainId, walletClient, arbitrumClient, switchChainAsync, usdcToBtcQuote, attachBridge]);
+
+  return {
+    withdraw,
+    bridgeToBtc,
+    isWithdrawing,
+    bridgingId,
+    canWithdraw: !!address && !!walletClient && (chainId === 1 || chainId === ARBITRUM_CHAIN_ID),
+  };
+}
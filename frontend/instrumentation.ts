@@ -0,0 +1,13 @@
+/**
+ * Next.js instrumentation hook, run once when the server starts.
+ * Resumes background work that must survive restarts.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startBridgeDepositPoller } = await import('@/lib/bridge-deposits');
+    startBridgeDepositPoller();
+
+    const { startWithdrawalPoller } = await import('@/lib/bridge-withdrawals');
+    startWithdrawalPoller();
+  }
+}
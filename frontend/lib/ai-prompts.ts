@@ -1,12 +1,15 @@
 /**
  * AI Prompt Utilities
  *
- * Functions for generating prompts for Mercury AI market analysis.
+ * Functions for generating prompts for LLM market analysis.
  * These prompts are designed for a "degen" trading platform context
  * with aggressive leverage suggestions.
+ *
+ * Also provides the deterministic rule-based responses used by the
+ * `rules` LLM provider, in the same JSON format the prompts ask for.
  */
 
-import type { PositionType, PearMarket, AITradeIdea } from "@/types/trade";
+import type { PositionType, PearMarket, AITradeIdea, DeckFilters } from "@/types/trade";
 
 /**
  * Input parameters for generating market analysis prompts.
@@ -276,11 +279,34 @@ Leverage: go hard (10-20x) when the setup screams. Dial back only if it's clearl
 
 Respond with valid JSON array only.`;
 
+// Upper bound for the AI's limit entry suggestion
+const MAX_ENTRY_OFFSET_PCT = 5;
+
 /**
  * Input for batch market analysis.
  */
 export interface BatchMarketInput {
   markets: PearMarket[];
+  constraints?: TradeIdeaConstraints;
+}
+
+/**
+ * The user's deck filters that apply to the idea rather than the market
+ */
+export type TradeIdeaConstraints = Pick<DeckFilters, "direction" | "maxLeverage">;
+
+/**
+ * Prompt lines for the user's direction / leverage filters, if any
+ */
+function formatConstraints(constraints: TradeIdeaConstraints | undefined): string {
+  const rules: string[] = [];
+  if (constraints?.direction) {
+    rules.push(`- Direction MUST be ${constraints.direction} for every market (user only trades ${constraints.direction.toLowerCase()})`);
+  }
+  if (constraints?.maxLeverage) {
+    rules.push(`- Leverage MUST NOT exceed ${constraints.maxLeverage}x`);
+  }
+  return rules.length > 0 ? `\n\nHard limits from the user:\n${rules.join("\n")}` : "";
 }
 
 /**
@@ -322,6 +348,7 @@ For EACH one drop:
 4. Sentiment - 1-2 sentences max, punchy af
 5. Bullish % - 0-100, how hard are you betting
 6. Reasoning - quick alpha on why
+7. Entry offset - 0-5, % better than the current price to bid with a limit (below for LONG and pairs, above for single-asset SHORT); 0 = take it at market
 
 JSON array format:
 [
@@ -332,11 +359,12 @@ JSON array format:
     "leverage": number,
     "sentiment": "string",
     "bullishPercent": number,
-    "reasoning": "string"
+    "reasoning": "string",
+    "entryOffsetPct": number
   }
 ]
 
-All ${input.markets.length} markets. No skipping. LFG.`;
+All ${input.markets.length} markets. No skipping. LFG.${formatConstraints(input.constraints)}`;
 
   return {
     systemPrompt: BATCH_SYSTEM_PROMPT,
@@ -346,8 +374,14 @@ All ${input.markets.length} markets. No skipping. LFG.`;
 
 /**
  * Parse batch AI response into array of trade ideas.
+ *
+ * @param leverageCaps - Per market (by marketIndex), the highest leverage
+ *   Hyperliquid allows across its assets; leverage is clamped to it
  */
-export function parseBatchAIResponse(responseText: string): AITradeIdea[] {
+export function parseBatchAIResponse(
+  responseText: string,
+  leverageCaps?: Array<number | undefined>
+): AITradeIdea[] {
   let parsed: unknown;
 
   try {
@@ -389,14 +423,138 @@ export function parseBatchAIResponse(responseText: string): AITradeIdea[] {
       throw new Error(`Invalid 'reasoning' at item ${idx}`);
     }
 
+    const leverage = Math.max(2, Math.min(20, Math.round(data.leverage)));
+    const leverageCap = leverageCaps?.[data.marketIndex];
+
     return {
       marketIndex: data.marketIndex,
       tagline: data.tagline.slice(0, 100),
       direction: data.direction,
-      leverage: Math.max(2, Math.min(20, Math.round(data.leverage))),
+      leverage: leverageCap !== undefined ? Math.max(1, Math.min(leverage, Math.floor(leverageCap))) : leverage,
       sentiment: data.sentiment.slice(0, 500),
       bullishPercent: Math.max(0, Math.min(100, Math.round(data.bullishPercent))),
       reasoning: data.reasoning.slice(0, 1000),
+      // Optional: a missing or malformed entry just leaves the limit at the last price
+      entryOffsetPct:
+        typeof data.entryOffsetPct === "number" && Number.isFinite(data.entryOffsetPct)
+          ? Math.round(Math.max(0, Math.min(MAX_ENTRY_OFFSET_PCT, data.entryOffsetPct)) * 10) / 10
+          : undefined,
     };
   });
 }
+
+/**
+ * Enforce the user's constraints on parsed ideas: leverage is clamped to the
+ * cap, ideas on the wrong side are dropped (the card falls back to defaults).
+ */
+export function applyTradeIdeaConstraints(
+  ideas: AITradeIdea[],
+  constraints: TradeIdeaConstraints | undefined
+): AITradeIdea[] {
+  if (!constraints) return ideas;
+
+  return ideas
+    .filter((idea) => !constraints.direction || idea.direction === constraints.direction)
+    .map((idea) =>
+      constraints.maxLeverage && idea.leverage > constraints.maxLeverage
+        ? { ...idea, leverage: constraints.maxLeverage }
+        : idea
+    );
+}
+
+// ============================================
+// Rule-based responses
+// ============================================
+
+/**
+ * Sentiment and leverage from 24h change and funding.
+ */
+function scoreMarket(change24h: string, netFunding: string) {
+  const change = parseFloat(change24h) || 0;
+  const funding = parseFloat(netFunding) || 0;
+
+  const bullishPercent = Math.min(
+    100,
+    Math.max(0, 50 + change * 2 - funding * 10),
+  );
+
+  // Determine leverage based on volatility
+  let leverage = 5;
+  if (Math.abs(change) > 5) {
+    leverage = 15;
+  } else if (Math.abs(change) > 2) {
+    leverage = 10;
+  }
+  leverage = Math.max(2, Math.min(20, leverage));
+
+  return { change, funding, bullishPercent, leverage };
+}
+
+/**
+ * Generate a rule-based market signal from metrics alone.
+ *
+ * @param input - Market metrics for analysis
+ * @returns Response text in the format parseAIResponse expects
+ */
+export function generateRuleBasedSignal(input: MarketAnalysisInput): string {
+  const { change, funding, bullishPercent, leverage } = scoreMarket(input.change24h, input.netFunding);
+
+  // Determine direction for one-directional positions
+  const direction =
+    input.positionType === "one_directional"
+      ? bullishPercent >= 50
+        ? "LONG"
+        : "SHORT"
+      : undefined;
+
+  const response: Record<string, unknown> = {
+    sentiment: `${input.assets.join("/")} showing ${bullishPercent >= 50 ? "bullish" : "bearish"} momentum with ${Math.abs(change).toFixed(1)}% 24h change.`,
+    bullishPercent: Math.round(bullishPercent),
+    leverage,
+    reasoning: `Based on ${Math.abs(change).toFixed(2)}% price movement and ${funding.toFixed(4)}% funding rate. ${Math.abs(change) > 3 ? "High volatility suggests aggressive positioning." : "Moderate conditions favor standard leverage."}`,
+  };
+
+  if (direction) {
+    response.direction = direction;
+  }
+
+  return JSON.stringify(response);
+}
+
+/**
+ * Tagline for a rule-based trade idea.
+ */
+function getRuleBasedTagline(change: number): string {
+  if (change > 5) return "Breakout Run";
+  if (change > 2) return "Momentum Play";
+  if (change < -5) return "Capitulation Fade";
+  if (change < -2) return "Trend Short";
+  return "Range Setup";
+}
+
+/**
+ * Generate rule-based trade ideas for a batch of markets.
+ *
+ * @param input - Markets to analyze
+ * @returns Response text in the format parseBatchAIResponse expects
+ */
+export function generateRuleBasedBatch(input: BatchMarketInput): string {
+  const ideas = input.markets.map((market, index) => {
+    const { change, funding, bullishPercent, leverage } = scoreMarket(market.change24h, market.netFunding);
+    const { direction: forcedDirection, maxLeverage } = input.constraints ?? {};
+
+    return {
+      marketIndex: index,
+      tagline: getRuleBasedTagline(change),
+      direction: forcedDirection ?? (bullishPercent >= 50 ? "LONG" : "SHORT"),
+      leverage: maxLeverage ? Math.min(leverage, maxLeverage) : leverage,
+      sentiment: `${market.displayName} ${change >= 0 ? "up" : "down"} ${Math.abs(change).toFixed(1)}% in 24h.`,
+      bullishPercent: Math.round(bullishPercent),
+      reasoning: `Based on ${Math.abs(change).toFixed(2)}% price movement and ${funding.toFixed(4)}% funding rate.`,
+      // Bid further from the last price the more the market is swinging
+      entryOffsetPct: Math.min(MAX_ENTRY_OFFSET_PCT, Math.round(Math.abs(change) * 2) / 10),
+    };
+  });
+
+  return JSON.stringify(ideas);
+}
@@ -0,0 +1,129 @@
+/**
+ * BOLT11 Invoice Encoding
+ *
+ * Minimal BOLT11 encoder used by the in-process fake Lightning node.
+ * Real backends (LND, LNbits) return invoices encoded by the node itself.
+ *
+ * Spec: https://github.com/lightning/bolts/blob/master/11-payment-encoding.md
+ */
+
+import { bech32 } from '@scure/base';
+import { sha256, bytesToHex, hexToBytes, type Hex } from 'viem';
+import { sign } from 'viem/accounts';
+
+// Tagged field types
+const TAG_PAYMENT_HASH = 1;
+const TAG_DESCRIPTION = 13;
+const TAG_PAYMENT_SECRET = 16;
+const TAG_EXPIRY = 6;
+const TAG_MIN_FINAL_CLTV_EXPIRY = 24;
+
+const DEFAULT_MIN_FINAL_CLTV_EXPIRY = 18;
+
+export interface Bolt11InvoiceParams {
+  network: 'bc' | 'tb' | 'bcrt';
+  amountSats: number;
+  paymentHash: string; // hex, 32 bytes
+  paymentSecret: string; // hex, 32 bytes
+  description: string;
+  expirySeconds: number;
+  timestamp?: number; // unix seconds
+}
+
+/**
+ * Encode an unsigned integer as big-endian 5-bit words
+ */
+function intToWords(value: number, minLength = 1): number[] {
+  const words: number[] = [];
+  let remaining = value;
+  while (remaining > 0) {
+    words.unshift(remaining & 31);
+    remaining = Math.floor(remaining / 32);
+  }
+  while (words.length < minLength) {
+    words.unshift(0);
+  }
+  return words;
+}
+
+function taggedField(tag: number, data: number[]): number[] {
+  return [tag, ...intToWords(data.length, 2), ...data];
+}
+
+/**
+ * Human-readable amount part. 1 sat = 10 nano-BTC.
+ */
+function encodeAmount(amountSats: number): string {
+  return `${amountSats * 10}n`;
+}
+
+/**
+ * Encode and sign a BOLT11 invoice
+ * @param params - Invoice fields
+ * @param nodePrivateKey - Hex private key of the issuing node
+ */
+export async function encodeBolt11(params: Bolt11InvoiceParams, nodePrivateKey: Hex): Promise<string> {
+  const prefix = `ln${params.network}${encodeAmount(params.amountSats)}`;
+  const timestamp = params.timestamp ?? Math.floor(Date.now() / 1000);
+
+  const words = [
+    ...intToWords(timestamp, 7),
+    ...taggedField(TAG_PAYMENT_HASH, bech32.toWords(hexToBytes(`0x${params.paymentHash}`))),
+    ...taggedField(TAG_PAYMENT_SECRET, bech32.toWords(hexToBytes(`0x${params.paymentSecret}`))),
+    ...taggedField(TAG_DESCRIPTION, bech32.toWords(new TextEncoder().encode(params.description))),
+    ...taggedField(TAG_EXPIRY, intToWords(params.expirySeconds)),
+    ...taggedField(TAG_MIN_FINAL_CLTV_EXPIRY, intToWords(DEFAULT_MIN_FINAL_CLTV_EXPIRY)),
+  ];
+
+  // Signature covers the hrp bytes followed by the data words packed into bytes
+  const prefixBytes = new TextEncoder().encode(prefix);
+  const dataBytes = packWords(words);
+  const preimage = new Uint8Array(prefixBytes.length + dataBytes.length);
+  preimage.set(prefixBytes);
+  preimage.set(dataBytes, prefixBytes.length);
+
+  const signature = await sign({ hash: sha256(preimage), privateKey: nodePrivateKey });
+  const signatureBytes = new Uint8Array(65);
+  signatureBytes.set(hexToBytes(signature.r, { size: 32 }), 0);
+  signatureBytes.set(hexToBytes(signature.s, { size: 32 }), 32);
+  signatureBytes[64] = signature.yParity ?? 0;
+
+  return bech32.encode(prefix, [...words, ...bech32.toWords(signatureBytes)], false);
+}
+
+/**
+ * Pack 5-bit words into bytes, zero-padding the final byte
+ */
+function packWords(words: number[]): Uint8Array {
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const word of words) {
+    acc = ((acc << 5) | word) & 0xfff;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((acc >> bits) & 0xff);
+    }
+  }
+  if (bits > 0) {
+    bytes.push((acc << (8 - bits)) & 0xff);
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Payment hash for a hex preimage
+ */
+export function hashPreimage(preimage: string): string {
+  return sha256(`0x${preimage}`).slice(2);
+}
+
+/**
+ * Random 32-byte value as hex (no 0x prefix)
+ */
+export function randomHex32(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return bytesToHex(bytes).slice(2);
+}
@@ -0,0 +1,210 @@
+/**
+ * Bridge Deposit Tracker
+ *
+ * Follows on-chain BTC deposits through Li.Fi until they settle.
+ * Deposits are persisted as soon as the BTC transaction is broadcast, then
+ * polled against Li.Fi /status with exponential backoff. The vault is
+ * credited only when the transfer is DONE, with the amount actually received.
+ *
+ * Records are keyed by txid and address: anyone can register a public txid,
+ * so a claim for the wrong address must not block the real owner's. The
+ * vault's idempotency key still credits each txid at most once.
+ *
+ * Polling runs in a background loop started from instrumentation.ts, and is
+ * also triggered when a user's deposits are read, so it keeps working after
+ * page reloads and server restarts.
+ */
+
+import { getBackoffDelay, startPoller } from '@/lib/poller';
+import { getCollection, runExclusive, DuplicateRecordError } from '@/lib/storage';
+import { getTransactionStatus, LifiApiError } from '@/lib/lifi';
+import { getVerifiedLifiDeposit, DepositVerificationError } from '@/lib/deposits';
+import { creditVault } from '@/lib/vault';
+import type { BridgeDeposit, LifiStatusResponse, TrackBridgeDepositRequest } from '@/types';
+
+const deposits = () => getCollection<BridgeDeposit>('bridge-deposits');
+
+// Give up on transfers Li.Fi still hasn't resolved after 3 days
+const MAX_TRACKING_MS = 3 * 24 * 60 * 60_000;
+
+function depositKey(txHash: string, address: string): string {
+  return `${txHash.toLowerCase()}:${address.toLowerCase()}`;
+}
+
+/**
+ * Start tracking a broadcast BTC deposit. Returns the existing record if
+ * the transaction is already tracked for this address.
+ */
+export async function trackBridgeDeposit(params: TrackBridgeDepositRequest): Promise<BridgeDeposit> {
+  const now = Date.now();
+  const deposit: BridgeDeposit = {
+    txHash: params.txHash.toLowerCase(),
+    evmAddress: params.address.toLowerCase(),
+    fromChain: params.fromChain,
+    toChain: params.toChain,
+    bridge: params.bridge ?? null,
+    fromAmountSats: params.fromAmountSats,
+    expectedUsdc: params.expectedUsdc ?? null,
+    status: 'PENDING',
+    substatus: null,
+    substatusMessage: null,
+    sendingTxLink: null,
+    receivingTxLink: null,
+    lifiExplorerLink: null,
+    receivedUsdc: null,
+    credited: false,
+    error: null,
+    attempts: 0,
+    nextPollAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    await deposits().insert(depositKey(deposit.txHash, deposit.evmAddress), deposit);
+    return deposit;
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      const existing = await deposits().get(depositKey(deposit.txHash, deposit.evmAddress));
+      if (existing) {
+        return existing;
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get a tracked deposit by BTC txid and the address it was registered for
+ */
+export async function getBridgeDeposit(txHash: string, address: string): Promise<BridgeDeposit | undefined> {
+  return deposits().get(depositKey(txHash, address));
+}
+
+/**
+ * List a user's tracked deposits, newest first
+ */
+export async function getBridgeDeposits(address: string): Promise<BridgeDeposit[]> {
+  const normalized = address.toLowerCase();
+  const list = await deposits().list((d) => d.evmAddress === normalized);
+  return list.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Copy progress fields from a Li.Fi status response
+ */
+function withStatus(deposit: BridgeDeposit, status: LifiStatusResponse): BridgeDeposit {
+  return {
+    ...deposit,
+    substatus: status.substatus ?? null,
+    substatusMessage: status.substatusMessage ?? null,
+    sendingTxLink: status.sending?.txLink ?? deposit.sendingTxLink,
+    receivingTxLink: status.receiving?.txLink ?? deposit.receivingTxLink,
+    lifiExplorerLink: status.lifiExplorerLink ?? deposit.lifiExplorerLink,
+  };
+}
+
+/**
+ * Credit a completed transfer to the vault
+ */
+async function settleDeposit(deposit: BridgeDeposit, status: LifiStatusResponse): Promise<BridgeDeposit> {
+  try {
+    const verified = getVerifiedLifiDeposit(deposit.evmAddress, deposit.txHash, status);
+    await creditVault(deposit.evmAddress, verified.amountUsdc, {
+      source: verified.source,
+      referenceId: verified.referenceId,
+      idempotencyKey: `lifi:${deposit.txHash}`,
+    });
+    return { ...deposit, status: 'DONE', receivedUsdc: verified.amountUsdc, credited: true, error: null };
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      // Already credited (e.g. through /api/vault/credit)
+      return { ...deposit, status: 'DONE', credited: true, error: null };
+    }
+    if (error instanceof DepositVerificationError) {
+      // Finished, but not as a USDC deposit to this user (refund, wrong token, ...)
+      return { ...deposit, status: 'DONE', credited: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Poll Li.Fi once for a deposit and persist the result
+ */
+export async function pollBridgeDeposit(txHash: string, address: string): Promise<BridgeDeposit | undefined> {
+  const key = depositKey(txHash, address);
+
+  return runExclusive(`bridge:${key}`, async () => {
+    const deposit = await deposits().get(key);
+    if (!deposit || deposit.status !== 'PENDING') {
+      return deposit;
+    }
+
+    const now = Date.now();
+    let updated: BridgeDeposit;
+
+    try {
+      const status = await getTransactionStatus(deposit.txHash, deposit.fromChain, deposit.toChain, deposit.bridge ?? undefined);
+      updated = withStatus(deposit, status);
+
+      if (status.status === 'DONE') {
+        updated = await settleDeposit(updated, status);
+      } else if (status.status === 'FAILED' || status.status === 'INVALID') {
+        updated = { ...updated, status: 'FAILED', error: status.substatusMessage ?? `Li.Fi reported ${status.status}` };
+      } else {
+        updated = { ...updated, error: null };
+      }
+    } catch (error) {
+      // Li.Fi returns 404 until it has indexed the BTC transaction
+      const notIndexed = error instanceof LifiApiError && error.statusCode === 404;
+      updated = {
+        ...deposit,
+        substatus: notIndexed ? 'NOT_FOUND' : deposit.substatus,
+        substatusMessage: notIndexed ? 'Waiting for Li.Fi to pick up the transaction' : deposit.substatusMessage,
+        error: notIndexed ? null : error instanceof Error ? error.message : 'Failed to fetch status',
+      };
+    }
+
+    if (updated.status === 'PENDING' && now - deposit.createdAt > MAX_TRACKING_MS) {
+      updated = { ...updated, status: 'FAILED', error: 'Bridge did not complete in time. Contact support with your transaction id.' };
+    }
+
+    updated = {
+      ...updated,
+      attempts: deposit.attempts + 1,
+      nextPollAt: now + getBackoffDelay(deposit.attempts + 1),
+      updatedAt: now,
+    };
+
+    await deposits().put(key, updated);
+    return updated;
+  });
+}
+
+/**
+ * Poll every pending deposit whose backoff has elapsed
+ * @param address - Limit to one user's deposits
+ */
+export async function pollDueBridgeDeposits(address?: string): Promise<void> {
+  const now = Date.now();
+  const normalized = address?.toLowerCase();
+  const due = await deposits().list(
+    (d) => d.status === 'PENDING' && d.nextPollAt <= now && (!normalized || d.evmAddress === normalized)
+  );
+
+  for (const deposit of due) {
+    try {
+      await pollBridgeDeposit(deposit.txHash, deposit.evmAddress);
+    } catch (error) {
+      console.error(`[Bridge] Failed to poll deposit ${deposit.txHash}:`, error);
+    }
+  }
+}
+
+/**
+ * Start the background polling loop (once per process)
+ */
+export function startBridgeDepositPoller(): void {
+  startPoller('Bridge', () => pollDueBridgeDeposits());
+}
@@ -0,0 +1,384 @@
+/**
+ * Bridge Withdrawal Tracker
+ *
+ * Follows withdrawals from the Hyperliquid perps balance back out:
+ * 1. The user signs a `withdraw3` action; Hyperliquid records it in the
+ *    account's ledger and deducts its flat fee.
+ * 2. The Hyperliquid bridge on Arbitrum releases the USDC to the same
+ *    address, a few minutes later.
+ * 3. For BTC, the user sends that USDC to Li.Fi from Arbitrum and the
+ *    transfer is followed through Li.Fi /status until BTC arrives.
+ *
+ * Steps 1 and 2 are matched against Hyperliquid's ledger and Arbitrum USDC
+ * transfer logs, so tracking works without any client involvement. Polling
+ * backoff and the background loop come from lib/poller.ts.
+ */
+
+import { randomUUID } from 'crypto';
+import { createPublicClient, http, parseAbiItem } from 'viem';
+import { arbitrum } from 'viem/chains';
+import { getBackoffDelay, startPoller } from '@/lib/poller';
+import { getCollection, runExclusive } from '@/lib/storage';
+import { getTransactionStatus, LifiApiError } from '@/lib/lifi';
+import { ARBITRUM_CHAIN_ID, BTC_CHAIN_ID, SUPPORTED_EVM_CHAINS } from '@/types';
+import type { AttachWithdrawalBridgeRequest, BridgeWithdrawal, TrackWithdrawalRequest } from '@/types';
+
+const withdrawals = () => getCollection<BridgeWithdrawal>('bridge-withdrawals');
+
+const HYPERLIQUID_API = 'https://api.hyperliquid.xyz/info';
+// Hyperliquid's bridge contract on Arbitrum; finalized withdrawals are USDC transfers from it
+const HL_BRIDGE_ADDRESS = '0x2Df1c51E09aECF9cacB7bc98cB1742757f163dF7';
+const ARBITRUM_USDC = SUPPORTED_EVM_CHAINS.find((c) => c.id === ARBITRUM_CHAIN_ID)!.usdcAddress;
+const USDC_DECIMALS = 6;
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+// Arbitrum produces roughly four blocks a second
+const ARBITRUM_BLOCKS_PER_SECOND = 4;
+// Start log searches a little before the withdrawal was requested
+const ARBITRUM_BLOCK_BUFFER = 2_000;
+// Public RPCs cap getLogs ranges; search in chunks, up to a few per poll
+const ARBITRUM_LOG_CHUNK_BLOCKS = 10_000;
+const ARBITRUM_MAX_CHUNKS_PER_POLL = 5;
+
+// The ledger entry shows up within seconds; give up if it hasn't after this long
+const LEDGER_MATCH_TIMEOUT_MS = 15 * 60_000;
+// Clock skew allowance when matching ledger entries to a request
+const LEDGER_SLACK_MS = 60_000;
+const MAX_TRACKING_MS = 3 * 24 * 60 * 60_000;
+// Amounts are matched to the cent
+const AMOUNT_TOLERANCE_USDC = 0.01;
+
+const arbitrumClient = createPublicClient({
+  chain: arbitrum,
+  transport: http(process.env.ARBITRUM_RPC_URL || undefined),
+});
+
+/**
+ * Custom error class for withdrawal requests that can't be accepted
+ */
+export class WithdrawalTrackingError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'WithdrawalTrackingError';
+  }
+}
+
+interface LedgerUpdate {
+  time: number;
+  hash: string;
+  delta: { type: string; usdc?: string; fee?: string };
+}
+
+async function fetchLedgerUpdates(user: string, startTime: number): Promise<LedgerUpdate[]> {
+  const response = await fetch(HYPERLIQUID_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type: 'userNonFundingLedgerUpdates', user, startTime }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hyperliquid ledger error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Start tracking a withdrawal the user has just signed on Hyperliquid
+ */
+export async function trackWithdrawal(params: TrackWithdrawalRequest): Promise<BridgeWithdrawal> {
+  const now = Date.now();
+
+  // Withdrawals aren't on Arbitrum yet, so anything from here on is a candidate
+  let arbitrumFromBlock: number | null = null;
+  try {
+    arbitrumFromBlock = Number(await arbitrumClient.getBlockNumber()) - ARBITRUM_BLOCK_BUFFER;
+  } catch (error) {
+    console.warn('[Withdraw] Arbitrum block number unavailable:', error instanceof Error ? error.message : error);
+  }
+
+  const withdrawal: BridgeWithdrawal = {
+    id: randomUUID(),
+    evmAddress: params.address.toLowerCase(),
+    destination: params.destination,
+    btcAddress: params.destination === 'BTC' ? params.btcAddress ?? null : null,
+    amountUsdc: params.amountUsdc,
+    status: 'WITHDRAWING',
+    hlTxHash: null,
+    hlFeeUsdc: null,
+    withdrawnAt: null,
+    arbitrumFromBlock,
+    arbitrumTxHash: null,
+    receivedUsdc: null,
+    bridgeTxHash: null,
+    bridge: null,
+    expectedSats: null,
+    receivedSats: null,
+    substatus: null,
+    substatusMessage: null,
+    receivingTxLink: null,
+    lifiExplorerLink: null,
+    error: null,
+    attempts: 0,
+    nextPollAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await withdrawals().insert(withdrawal.id, withdrawal);
+  return withdrawal;
+}
+
+/**
+ * Record the Arbitrum transaction that sent a withdrawal's USDC to Li.Fi
+ *
+ * @throws WithdrawalTrackingError if the withdrawal isn't the user's or isn't waiting to be bridged
+ */
+export async function attachWithdrawalBridge(
+  id: string,
+  params: AttachWithdrawalBridgeRequest
+): Promise<BridgeWithdrawal> {
+  return runExclusive(`withdrawal:${id}`, async () => {
+    const withdrawal = await withdrawals().get(id);
+    if (!withdrawal || withdrawal.evmAddress !== params.address.toLowerCase()) {
+      throw new WithdrawalTrackingError('Unknown withdrawal', 404);
+    }
+    if (withdrawal.bridgeTxHash === params.txHash.toLowerCase()) {
+      return withdrawal;
+    }
+    if (withdrawal.status !== 'READY_TO_BRIDGE') {
+      throw new WithdrawalTrackingError('Withdrawal is not waiting to be bridged', 409);
+    }
+
+    const now = Date.now();
+    const updated: BridgeWithdrawal = {
+      ...withdrawal,
+      status: 'BRIDGING',
+      bridgeTxHash: params.txHash.toLowerCase(),
+      bridge: params.bridge ?? null,
+      expectedSats: params.expectedSats ?? null,
+      error: null,
+      attempts: 0,
+      nextPollAt: now,
+      updatedAt: now,
+    };
+
+    await withdrawals().put(id, updated);
+    return updated;
+  });
+}
+
+/**
+ * List a user's tracked withdrawals, newest first
+ */
+export async function getWithdrawals(address: string): Promise<BridgeWithdrawal[]> {
+  const normalized = address.toLowerCase();
+  const list = await withdrawals().list((w) => w.evmAddress === normalized);
+  return list.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Match the withdrawal to its Hyperliquid ledger entry. Entries already
+ * matched to another withdrawal of the same amount are skipped.
+ */
+async function matchLedgerEntry(withdrawal: BridgeWithdrawal): Promise<BridgeWithdrawal> {
+  const updates = await fetchLedgerUpdates(withdrawal.evmAddress, withdrawal.createdAt - LEDGER_SLACK_MS);
+  const claimed = new Set(
+    (await withdrawals().list((w) => w.evmAddress === withdrawal.evmAddress && w.id !== withdrawal.id))
+      .map((w) => w.hlTxHash)
+  );
+
+  const entry = updates.find(
+    (u) =>
+      u.delta.type === 'withdraw' &&
+      Math.abs(parseFloat(u.delta.usdc ?? '0') - withdrawal.amountUsdc) < AMOUNT_TOLERANCE_USDC &&
+      !claimed.has(u.hash)
+  );
+
+  if (!entry) {
+    if (Date.now() - withdrawal.createdAt > LEDGER_MATCH_TIMEOUT_MS) {
+      return { ...withdrawal, status: 'FAILED', error: 'Hyperliquid has no record of this withdrawal' };
+    }
+    return withdrawal;
+  }
+
+  return {
+    ...withdrawal,
+    hlTxHash: entry.hash,
+    hlFeeUsdc: parseFloat(entry.delta.fee ?? '0'),
+    withdrawnAt: entry.time,
+  };
+}
+
+/**
+ * Look for the bridge's USDC transfer to the user on Arbitrum. Searches
+ * forward from `arbitrumFromBlock` in bounded chunks and moves it past every
+ * block searched, so each poll only covers new blocks.
+ */
+async function matchArbitrumTransfer(withdrawal: BridgeWithdrawal): Promise<BridgeWithdrawal> {
+  const expectedUsdc = withdrawal.amountUsdc - (withdrawal.hlFeeUsdc ?? 0);
+  const latestBlock = Number(await arbitrumClient.getBlockNumber());
+  let fromBlock = withdrawal.arbitrumFromBlock ?? (
+    latestBlock -
+    Math.ceil(((Date.now() - withdrawal.createdAt) / 1000) * ARBITRUM_BLOCKS_PER_SECOND) -
+    ARBITRUM_BLOCK_BUFFER
+  );
+
+  const claimed = new Set(
+    (await withdrawals().list((w) => w.evmAddress === withdrawal.evmAddress && w.id !== withdrawal.id))
+      .map((w) => w.arbitrumTxHash)
+  );
+
+  for (let chunk = 0; chunk < ARBITRUM_MAX_CHUNKS_PER_POLL && fromBlock <= latestBlock; chunk++) {
+    const toBlock = Math.min(fromBlock + ARBITRUM_LOG_CHUNK_BLOCKS - 1, latestBlock);
+    const logs = await arbitrumClient.getLogs({
+      address: ARBITRUM_USDC,
+      event: TRANSFER_EVENT,
+      args: { from: HL_BRIDGE_ADDRESS, to: withdrawal.evmAddress as `0x${string}` },
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+    });
+
+    const transfer = logs.find(
+      (log) =>
+        Math.abs(Number(log.args.value ?? BigInt(0)) / 10 ** USDC_DECIMALS - expectedUsdc) < AMOUNT_TOLERANCE_USDC &&
+        !claimed.has(log.transactionHash)
+    );
+
+    if (transfer) {
+      return {
+        ...withdrawal,
+        status: withdrawal.destination === 'BTC' ? 'READY_TO_BRIDGE' : 'DONE',
+        arbitrumFromBlock: toBlock + 1,
+        arbitrumTxHash: transfer.transactionHash,
+        receivedUsdc: Number(transfer.args.value) / 10 ** USDC_DECIMALS,
+      };
+    }
+
+    fromBlock = toBlock + 1;
+  }
+
+  return { ...withdrawal, arbitrumFromBlock: fromBlock };
+}
+
+/**
+ * Follow the Li.Fi transfer from Arbitrum USDC to BTC
+ */
+async function pollLifiTransfer(withdrawal: BridgeWithdrawal): Promise<BridgeWithdrawal> {
+  try {
+    const status = await getTransactionStatus(
+      withdrawal.bridgeTxHash!,
+      ARBITRUM_CHAIN_ID,
+      BTC_CHAIN_ID,
+      withdrawal.bridge ?? undefined
+    );
+    const updated: BridgeWithdrawal = {
+      ...withdrawal,
+      substatus: status.substatus ?? null,
+      substatusMessage: status.substatusMessage ?? null,
+      receivingTxLink: status.receiving?.txLink ?? withdrawal.receivingTxLink,
+      lifiExplorerLink: status.lifiExplorerLink ?? withdrawal.lifiExplorerLink,
+      error: null,
+    };
+
+    if (status.status === 'DONE' && status.substatus === 'REFUNDED') {
+      return { ...updated, status: 'FAILED', error: 'Li.Fi refunded the USDC to your Arbitrum address' };
+    }
+    if (status.status === 'DONE') {
+      const receivedSats = parseInt(status.receiving?.amount ?? '', 10);
+      return { ...updated, status: 'DONE', receivedSats: Number.isFinite(receivedSats) ? receivedSats : null };
+    }
+    if (status.status === 'FAILED' || status.status === 'INVALID') {
+      return { ...updated, status: 'FAILED', error: status.substatusMessage ?? `Li.Fi reported ${status.status}` };
+    }
+    return updated;
+  } catch (error) {
+    // Li.Fi returns 404 until it has indexed the Arbitrum transaction
+    const notIndexed = error instanceof LifiApiError && error.statusCode === 404;
+    return {
+      ...withdrawal,
+      substatus: notIndexed ? 'NOT_FOUND' : withdrawal.substatus,
+      substatusMessage: notIndexed ? 'Waiting for Li.Fi to pick up the transaction' : withdrawal.substatusMessage,
+      error: notIndexed ? null : error instanceof Error ? error.message : 'Failed to fetch status',
+    };
+  }
+}
+
+/**
+ * Poll once for a withdrawal and persist the result
+ */
+export async function pollWithdrawal(id: string): Promise<BridgeWithdrawal | undefined> {
+  return runExclusive(`withdrawal:${id}`, async () => {
+    const withdrawal = await withdrawals().get(id);
+    if (!withdrawal || (withdrawal.status !== 'WITHDRAWING' && withdrawal.status !== 'BRIDGING')) {
+      return withdrawal;
+    }
+
+    const now = Date.now();
+    let updated = withdrawal;
+
+    try {
+      if (withdrawal.status === 'BRIDGING') {
+        updated = await pollLifiTransfer(withdrawal);
+      } else {
+        if (!updated.hlTxHash) {
+          updated = await matchLedgerEntry(updated);
+        }
+        if (updated.hlTxHash && updated.status === 'WITHDRAWING') {
+          updated = await matchArbitrumTransfer(updated);
+        }
+        updated = { ...updated, error: updated.status === 'FAILED' ? updated.error : null };
+      }
+    } catch (error) {
+      updated = { ...updated, error: error instanceof Error ? error.message : 'Failed to fetch status' };
+    }
+
+    if ((updated.status === 'WITHDRAWING' || updated.status === 'BRIDGING') && now - withdrawal.createdAt > MAX_TRACKING_MS) {
+      updated = { ...updated, status: 'FAILED', error: 'Withdrawal did not complete in time. Contact support with your transaction hashes.' };
+    }
+
+    updated = {
+      ...updated,
+      // Each stage starts its backoff over
+      attempts: updated.status === withdrawal.status ? withdrawal.attempts + 1 : 0,
+      nextPollAt: now + getBackoffDelay(updated.status === withdrawal.status ? withdrawal.attempts + 1 : 0),
+      updatedAt: now,
+    };
+
+    await withdrawals().put(id, updated);
+    return updated;
+  });
+}
+
+/**
+ * Poll every in-flight withdrawal whose backoff has elapsed
+ * @param address - Limit to one user's withdrawals
+ */
+export async function pollDueWithdrawals(address?: string): Promise<void> {
+  const now = Date.now();
+  const normalized = address?.toLowerCase();
+  const due = await withdrawals().list(
+    (w) =>
+      (w.status === 'WITHDRAWING' || w.status === 'BRIDGING') &&
+      w.nextPollAt <= now &&
+      (!normalized || w.evmAddress === normalized)
+  );
+
+  for (const withdrawal of due) {
+    try {
+      await pollWithdrawal(withdrawal.id);
+    } catch (error) {
+      console.error(`[Withdraw] Failed to poll withdrawal ${withdrawal.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Start the background polling loop (once per process)
+ */
+export function startWithdrawalPoller(): void {
+  startPoller('Withdraw', () => pollDueWithdrawals());
+}
@@ -0,0 +1,189 @@
+/**
+ * Candle Service
+ *
+ * Hyperliquid candle snapshots for swipe cards. Single-asset cards chart
+ * the coin itself; relative-pair cards chart a synthetic ratio of the
+ * weighted long basket over the weighted short basket, built from the
+ * candles of every leg at the timestamps they all share.
+ */
+
+import { getIntervalMs } from "@/lib/indicators";
+import type { CandleData, MarketAsset } from "@/types/trade";
+
+const HYPERLIQUID_API = "https://api.hyperliquid.xyz/info";
+
+// Enough history for the slowest overlays (EMA 50, Bollinger 20) to settle
+const CANDLE_COUNT = 100;
+
+export const MAX_PAIR_LEGS = 10;
+
+let validCoinsCache: { coins: Set<string>; timestamp: number } | null = null;
+const COINS_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Perp coins listed on Hyperliquid (empty if meta can't be fetched)
+ */
+export async function getValidCoins(): Promise<Set<string>> {
+  const now = Date.now();
+
+  if (validCoinsCache && now - validCoinsCache.timestamp < COINS_CACHE_TTL) {
+    return validCoinsCache.coins;
+  }
+
+  try {
+    const response = await fetch(HYPERLIQUID_API, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ type: "meta" }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch meta");
+    }
+
+    const data = await response.json();
+    const coins = new Set<string>(
+      data.universe?.map((asset: { name: string }) => asset.name) ?? []
+    );
+
+    validCoinsCache = { coins, timestamp: now };
+    return coins;
+  } catch (error) {
+    return validCoinsCache?.coins ?? new Set();
+  }
+}
+
+/**
+ * Fetch recent candles for one coin
+ * @returns An empty list if the coin isn't listed or Hyperliquid errors
+ */
+export async function getCandles(coin: string, interval: string): Promise<CandleData[]> {
+  const validCoins = await getValidCoins();
+  if (validCoins.size > 0 && !validCoins.has(coin)) {
+    return [];
+  }
+
+  const now = Date.now();
+  const startTime = now - CANDLE_COUNT * getIntervalMs(interval);
+
+  const response = await fetch(HYPERLIQUID_API, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      type: "candleSnapshot",
+      req: {
+        coin,
+        interval,
+        startTime,
+        endTime: now,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    return [];
+  }
+
+  const data = await response.json();
+
+  return data.map((c: { t: number; o: string; h: string; l: string; c: string; v: string }) => ({
+    time: Math.floor(c.t / 1000),
+    open: parseFloat(c.o),
+    high: parseFloat(c.h),
+    low: parseFloat(c.l),
+    close: parseFloat(c.c),
+    volume: parseFloat(c.v),
+  }));
+}
+
+function normalizedWeights(assets: MarketAsset[]): number[] {
+  const total = assets.reduce((sum, a) => sum + a.weight, 0);
+  return assets.map((a) => (total > 0 ? a.weight / total : 1 / assets.length));
+}
+
+/**
+ * Weighted geometric basket price of one field across legs
+ */
+function basketPrice(
+  legs: CandleData[],
+  weights: number[],
+  field: "open" | "high" | "low" | "close"
+): number {
+  let logPrice = 0;
+  for (let i = 0; i < legs.length; i++) {
+    logPrice += weights[i] * Math.log(legs[i][field]);
+  }
+  return Math.exp(logPrice);
+}
+
+/**
+ * Build long/short ratio candles from per-leg candles.
+ *
+ * Open and close are exact. Intrabar extremes of a ratio aren't recoverable
+ * from leg OHLC, so high and low use the ratio with both baskets at their
+ * highs and both at their lows (legs of a pair tend to move together),
+ * widened to include the open and close.
+ *
+ * @param longCandles - Candles per long asset, in `longAssets` order
+ * @param shortCandles - Candles per short asset, in `shortAssets` order
+ */
+export function buildRatioCandles(
+  longAssets: MarketAsset[],
+  shortAssets: MarketAsset[],
+  longCandles: CandleData[][],
+  shortCandles: CandleData[][]
+): CandleData[] {
+  const allLegs = [...longCandles, ...shortCandles];
+  if (allLegs.length === 0 || allLegs.some((legCandles) => legCandles.length === 0)) {
+    return [];
+  }
+
+  // Index every leg by candle time and keep the times all legs share
+  const byTime = allLegs.map((legCandles) => new Map(legCandles.map((c) => [c.time, c])));
+  const times = allLegs[0]
+    .map((c) => c.time)
+    .filter((time) => byTime.every((legMap) => legMap.has(time)))
+    .sort((a, b) => a - b);
+
+  const longWeights = normalizedWeights(longAssets);
+  const shortWeights = normalizedWeights(shortAssets);
+  const longCount = longCandles.length;
+
+  return times.map((time) => {
+    const legs = byTime.map((legMap) => legMap.get(time)!);
+    const longLegs = legs.slice(0, longCount);
+    const shortLegs = legs.slice(longCount);
+
+    const ratio = (field: "open" | "high" | "low" | "close") =>
+      basketPrice(longLegs, longWeights, field) / basketPrice(shortLegs, shortWeights, field);
+
+    const open = ratio("open");
+    const close = ratio("close");
+    const atHighs = ratio("high");
+    const atLows = ratio("low");
+
+    return {
+      time,
+      open,
+      high: Math.max(open, close, atHighs, atLows),
+      low: Math.min(open, close, atHighs, atLows),
+      close,
+    };
+  });
+}
+
+/**
+ * Fetch ratio candles for a relative pair
+ */
+export async function getRatioCandles(
+  longAssets: MarketAsset[],
+  shortAssets: MarketAsset[],
+  interval: string
+): Promise<CandleData[]> {
+  const [longCandles, shortCandles] = await Promise.all([
+    Promise.all(longAssets.map((a) => getCandles(a.asset, interval))),
+    Promise.all(shortAssets.map((a) => getCandles(a.asset, interval))),
+  ]);
+
+  return buildRatioCandles(longAssets, shortAssets, longCandles, shortCandles);
+}
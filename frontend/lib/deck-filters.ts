@@ -0,0 +1,127 @@
+/**
+ * Deck Filters
+ *
+ * Which Pear markets the swipe deck deals. The market-level filters are
+ * encoded as /api/markets query params and applied there before paging;
+ * direction and max leverage are sent along with the AI batch instead.
+ */
+
+import type { DeckFilters, FundingSign, PearMarket } from "@/types/trade";
+
+export type MarketFilters = Omit<DeckFilters, "direction" | "maxLeverage">;
+
+export const DEFAULT_DECK_FILTERS: DeckFilters = {
+  positionType: "all",
+  allowedAssets: [],
+  blockedAssets: [],
+  minVolume: 0,
+  minOpenInterest: 0,
+  funding: "any",
+  direction: null,
+  maxLeverage: null,
+};
+
+const POSITION_TYPES: Array<DeckFilters["positionType"]> = ["all", "one_directional", "relative_pair"];
+const FUNDING_SIGNS: FundingSign[] = ["any", "positive", "negative"];
+
+/**
+ * Split "btc, eth sol" into ["BTC", "ETH", "SOL"]; matching is case-insensitive
+ */
+export function parseAssetList(input: string): string[] {
+  const assets = input
+    .split(/[\s,]+/)
+    .map((asset) => asset.trim().toUpperCase())
+    .filter(Boolean);
+  return Array.from(new Set(assets));
+}
+
+/**
+ * Number of filters that differ from the defaults, for the filter button badge
+ */
+export function countActiveDeckFilters(filters: DeckFilters): number {
+  return (Object.keys(DEFAULT_DECK_FILTERS) as Array<keyof DeckFilters>).filter((key) => {
+    const value = filters[key];
+    const fallback = DEFAULT_DECK_FILTERS[key];
+    return Array.isArray(value) ? value.length > 0 : value !== fallback;
+  }).length;
+}
+
+/**
+ * Query params for /api/markets; defaults are omitted so the unfiltered deck
+ * keeps its plain URL
+ */
+export function toMarketFilterParams(filters: MarketFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.positionType !== "all") params.set("positionType", filters.positionType);
+  if (filters.allowedAssets.length > 0) params.set("assets", filters.allowedAssets.join(","));
+  if (filters.blockedAssets.length > 0) params.set("exclude", filters.blockedAssets.join(","));
+  if (filters.minVolume > 0) params.set("minVolume", String(filters.minVolume));
+  if (filters.minOpenInterest > 0) params.set("minOpenInterest", String(filters.minOpenInterest));
+  if (filters.funding !== "any") params.set("funding", filters.funding);
+  return params;
+}
+
+function parseMinimum(value: string | null, name: string): number {
+  if (value === null) return 0;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`'${name}' must be a non-negative number`);
+  }
+  return parsed;
+}
+
+/**
+ * Read market filters back from /api/markets query params
+ *
+ * @throws Error describing the first invalid param
+ */
+export function parseMarketFilterParams(params: URLSearchParams): MarketFilters {
+  const positionType = (params.get("positionType") ?? "all") as DeckFilters["positionType"];
+  if (!POSITION_TYPES.includes(positionType)) {
+    throw new Error("'positionType' must be one_directional or relative_pair");
+  }
+
+  const funding = (params.get("funding") ?? "any") as FundingSign;
+  if (!FUNDING_SIGNS.includes(funding)) {
+    throw new Error("'funding' must be positive or negative");
+  }
+
+  return {
+    positionType,
+    allowedAssets: parseAssetList(params.get("assets") ?? ""),
+    blockedAssets: parseAssetList(params.get("exclude") ?? ""),
+    minVolume: parseMinimum(params.get("minVolume"), "minVolume"),
+    minOpenInterest: parseMinimum(params.get("minOpenInterest"), "minOpenInterest"),
+    funding,
+  };
+}
+
+function getLegAssets(market: PearMarket): string[] {
+  return [...market.longAssets, ...market.shortAssets].map((a) => a.asset.toUpperCase());
+}
+
+/**
+ * Whether a market passes every market-level filter
+ */
+export function matchesMarketFilters(market: PearMarket, filters: MarketFilters): boolean {
+  if (filters.positionType !== "all" && market.positionType !== filters.positionType) {
+    return false;
+  }
+
+  const legs = getLegAssets(market);
+  if (filters.allowedAssets.length > 0 && !legs.every((asset) => filters.allowedAssets.includes(asset))) {
+    return false;
+  }
+  if (legs.some((asset) => filters.blockedAssets.includes(asset))) {
+    return false;
+  }
+
+  if ((parseFloat(market.volume) || 0) < filters.minVolume) return false;
+  if ((parseFloat(market.openInterest) || 0) < filters.minOpenInterest) return false;
+
+  const funding = parseFloat(market.netFunding) || 0;
+  if (filters.funding === "positive" && funding <= 0) return false;
+  if (filters.funding === "negative" && funding >= 0) return false;
+
+  return true;
+}
@@ -0,0 +1,130 @@
+/**
+ * Deposit Verification
+ *
+ * Turns a client-supplied deposit proof into a server-verified amount.
+ * Nothing is credited to the vault unless the deposit can be confirmed
+ * independently of the client:
+ * - Lightning: the invoice was issued to this address and has been settled
+ * - Li.Fi: the transfer status is DONE and USDC was received by this address
+ */
+
+import { getTransactionStatus, LifiApiError } from '@/lib/lifi';
+import { getInvoice } from '@/lib/lightning';
+import { SUPPORTED_EVM_CHAINS } from '@/types';
+import type { LifiStatusResponse, VaultDepositProof, VaultLedgerSource } from '@/types';
+
+/**
+ * Custom error class for deposits that cannot be verified
+ */
+export class DepositVerificationError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 422
+  ) {
+    super(message);
+    this.name = 'DepositVerificationError';
+  }
+}
+
+export interface VerifiedDeposit {
+  source: VaultLedgerSource;
+  referenceId: string;
+  amountUsdc: number;
+}
+
+async function verifyLightningDeposit(address: string, paymentHash: string): Promise<VerifiedDeposit> {
+  if (!/^[0-9a-fA-F]{64}$/.test(paymentHash)) {
+    throw new DepositVerificationError('Invalid payment hash', 400);
+  }
+
+  const invoice = await getInvoice(paymentHash);
+
+  if (!invoice) {
+    throw new DepositVerificationError('Unknown payment hash', 404);
+  }
+  if (invoice.evmAddress !== address.toLowerCase()) {
+    throw new DepositVerificationError('Invoice was issued to a different address', 403);
+  }
+  if (invoice.status === 'pending') {
+    throw new DepositVerificationError('Lightning payment has not been settled');
+  }
+
+  return {
+    source: 'lightning',
+    referenceId: invoice.paymentHash,
+    amountUsdc: invoice.amountUsdc,
+  };
+}
+
+/**
+ * Check a Li.Fi status response for a completed USDC transfer to an address
+ * @throws DepositVerificationError if the transfer isn't a completed USDC deposit
+ */
+export function getVerifiedLifiDeposit(
+  address: string,
+  txHash: string,
+  status: LifiStatusResponse
+): VerifiedDeposit {
+  if (status.status !== 'DONE') {
+    throw new DepositVerificationError(`Li.Fi transfer is ${status.status}, not DONE`);
+  }
+
+  const { receiving } = status;
+  const chain = SUPPORTED_EVM_CHAINS.find((c) => c.id === receiving?.chainId);
+
+  if (!receiving || !chain || !receiving.token || !receiving.amount) {
+    throw new DepositVerificationError('Li.Fi transfer has no supported receiving leg');
+  }
+  // Match by contract address only; any token can call itself "USDC"
+  if (receiving.token.address.toLowerCase() !== chain.usdcAddress.toLowerCase()) {
+    throw new DepositVerificationError(`Li.Fi transfer delivered ${receiving.token.symbol}, not USDC`);
+  }
+  if (!status.toAddress || status.toAddress.toLowerCase() !== address.toLowerCase()) {
+    throw new DepositVerificationError('Li.Fi transfer was sent to a different address', 403);
+  }
+
+  return {
+    source: 'lifi',
+    referenceId: txHash.toLowerCase(),
+    amountUsdc: Number(receiving.amount) / 10 ** chain.usdcDecimals,
+  };
+}
+
+async function verifyLifiDeposit(
+  address: string,
+  txHash: string,
+  fromChain: number,
+  toChain: number
+): Promise<VerifiedDeposit> {
+  if (!txHash || typeof fromChain !== 'number' || typeof toChain !== 'number') {
+    throw new DepositVerificationError('Li.Fi proof requires txHash, fromChain and toChain', 400);
+  }
+
+  let status;
+  try {
+    status = await getTransactionStatus(txHash, fromChain, toChain);
+  } catch (error) {
+    if (error instanceof LifiApiError && error.statusCode === 404) {
+      throw new DepositVerificationError('Li.Fi transfer not found', 404);
+    }
+    throw error;
+  }
+
+  return getVerifiedLifiDeposit(address, txHash, status);
+}
+
+/**
+ * Verify a deposit proof for an address
+ * @returns The verified source, reference and USDC amount
+ * @throws DepositVerificationError if the deposit cannot be confirmed
+ */
+export async function verifyDepositProof(address: string, proof: VaultDepositProof): Promise<VerifiedDeposit> {
+  switch (proof?.type) {
+    case 'lightning':
+      return verifyLightningDeposit(address, proof.paymentHash);
+    case 'lifi':
+      return verifyLifiDeposit(address, proof.txHash, proof.fromChain, proof.toChain);
+    default:
+      throw new DepositVerificationError('proof.type must be "lightning" or "lifi"', 400);
+  }
+}
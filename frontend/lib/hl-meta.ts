@@ -0,0 +1,124 @@
+/**
+ * Hyperliquid Asset Metadata
+ *
+ * Cached perp universe from the `metaAndAssetCtxs` info endpoint: size
+ * decimals, max leverage, margin tiers and mark prices.
+ */
+
+import type { HlAssetMeta, HlMarginTier } from '@/types/trade';
+
+const HYPERLIQUID_API = 'https://api.hyperliquid.xyz/info';
+
+// Mark prices go stale quickly; the universe itself rarely changes
+const META_CACHE_TTL_MS = 10 * 1000;
+
+interface RawUniverseAsset {
+  name: string;
+  szDecimals: number;
+  maxLeverage: number;
+  marginTableId?: number;
+  onlyIsolated?: boolean;
+  isDelisted?: boolean;
+}
+
+interface RawMarginTable {
+  description?: string;
+  marginTiers: Array<{ lowerBound: string | number; maxLeverage: number }>;
+}
+
+interface RawMeta {
+  universe: RawUniverseAsset[];
+  marginTables?: Array<[number, RawMarginTable]>;
+}
+
+interface RawAssetCtx {
+  markPx?: string | null;
+  midPx?: string | null;
+}
+
+let metaCache: { assets: Map<string, HlAssetMeta>; timestamp: number } | null = null;
+let inflight: Promise<Map<string, HlAssetMeta>> | null = null;
+
+function toMarginTiers(asset: RawUniverseAsset, tables: Map<number, RawMarginTable>): HlMarginTier[] {
+  const table = asset.marginTableId !== undefined ? tables.get(asset.marginTableId) : undefined;
+  const tiers = table?.marginTiers
+    .map((t) => ({ lowerBound: Number(t.lowerBound) || 0, maxLeverage: t.maxLeverage }))
+    .sort((a, b) => a.lowerBound - b.lowerBound);
+
+  // Tables below id 50 are implicit: a single tier at the asset's max leverage
+  return tiers && tiers.length > 0 ? tiers : [{ lowerBound: 0, maxLeverage: asset.maxLeverage }];
+}
+
+async function fetchAssetMeta(): Promise<Map<string, HlAssetMeta>> {
+  const response = await fetch(HYPERLIQUID_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type: 'metaAndAssetCtxs' }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hyperliquid meta error: ${response.status}`);
+  }
+
+  const [meta, ctxs] = (await response.json()) as [RawMeta, RawAssetCtx[]];
+  const tables = new Map(meta.marginTables ?? []);
+  const assets = new Map<string, HlAssetMeta>();
+
+  meta.universe.forEach((asset, index) => {
+    if (asset.isDelisted) return;
+    const ctx = ctxs[index];
+    const markPx = parseFloat(ctx?.markPx ?? ctx?.midPx ?? '');
+
+    assets.set(asset.name, {
+      coin: asset.name,
+      szDecimals: asset.szDecimals,
+      maxLeverage: asset.maxLeverage,
+      onlyIsolated: Boolean(asset.onlyIsolated),
+      marginTiers: toMarginTiers(asset, tables),
+      markPx: Number.isFinite(markPx) ? markPx : null,
+    });
+  });
+
+  return assets;
+}
+
+/**
+ * Get metadata for every listed perp, keyed by coin.
+ * Falls back to the last good response if Hyperliquid is unreachable.
+ */
+export async function getAllAssetMeta(): Promise<Map<string, HlAssetMeta>> {
+  const now = Date.now();
+  if (metaCache && now - metaCache.timestamp < META_CACHE_TTL_MS) {
+    return metaCache.assets;
+  }
+
+  // Share one request between concurrent callers
+  if (!inflight) {
+    inflight = fetchAssetMeta()
+      .then((assets) => {
+        metaCache = { assets, timestamp: Date.now() };
+        return assets;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+
+  try {
+    return await inflight;
+  } catch (error) {
+    if (metaCache) {
+      console.warn('[HL] Using stale meta:', error instanceof Error ? error.message : error);
+      return metaCache.assets;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get metadata for one coin (case-insensitive)
+ */
+export async function getAssetMeta(coin: string): Promise<HlAssetMeta | undefined> {
+  const assets = await getAllAssetMeta();
+  return assets.get(coin) ?? assets.get(coin.toUpperCase());
+}
@@ -0,0 +1,297 @@
+/**
+ * Hyperliquid WebSocket Manager
+ *
+ * One shared browser connection to the Hyperliquid WebSocket API.
+ * Subscriptions are ref-counted: the first listener for a channel sends
+ * `subscribe`, the last one to leave sends `unsubscribe`, and the socket
+ * closes shortly after nothing is subscribed. Dropped connections are
+ * reopened with exponential backoff and every active subscription is
+ * re-sent.
+ */
+
+import type { CandleData } from '@/types/trade';
+
+const HYPERLIQUID_WS_URL = 'wss://api.hyperliquid.xyz/ws';
+
+// Hyperliquid drops connections that are silent for 60s
+const PING_INTERVAL_MS = 50 * 1000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+const IDLE_CLOSE_DELAY_MS = 5 * 1000;
+
+export type HlSubscription =
+  | { type: 'allMids' }
+  | { type: 'candle'; coin: string; interval: string }
+  | { type: 'userEvents'; user: string };
+
+export interface HlWsCandle {
+  t: number; // open time (ms)
+  T: number; // close time (ms)
+  s: string; // coin
+  i: string; // interval
+  o: number | string;
+  c: number | string;
+  h: number | string;
+  l: number | string;
+  v: number | string;
+  n: number;
+}
+
+export type HlUserEvent =
+  | { fills: unknown[] }
+  | { funding: unknown }
+  | { liquidation: unknown }
+  | { nonUserCancel: unknown[] };
+
+export interface HlSubscriptionData {
+  allMids: { mids: Record<string, string> };
+  candle: HlWsCandle;
+  userEvents: HlUserEvent;
+}
+
+export type HlConnectionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+type Listener = (data: unknown) => void;
+
+interface ActiveSubscription {
+  subscription: HlSubscription;
+  listeners: Set<Listener>;
+}
+
+/**
+ * Key a subscription by what Hyperliquid echoes back on its channel
+ */
+function getSubscriptionKey(subscription: HlSubscription): string {
+  switch (subscription.type) {
+    case 'allMids':
+      return 'allMids';
+    case 'candle':
+      return `candle:${subscription.coin}:${subscription.interval}`;
+    case 'userEvents':
+      return `userEvents:${subscription.user.toLowerCase()}`;
+  }
+}
+
+/**
+ * Convert a WebSocket candle to chart format
+ */
+export function toCandleData(candle: HlWsCandle): CandleData {
+  return {
+    time: Math.floor(candle.t / 1000),
+    open: Number(candle.o),
+    high: Number(candle.h),
+    low: Number(candle.l),
+    close: Number(candle.c),
+    volume: Number(candle.v),
+  };
+}
+
+class HyperliquidWsManager {
+  private socket: WebSocket | null = null;
+  private readonly subscriptions = new Map<string, ActiveSubscription>();
+  private readonly statusListeners = new Set<(status: HlConnectionStatus) => void>();
+  private status: HlConnectionStatus = 'idle';
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Listen to a channel. Returns a function that removes the listener.
+   */
+  subscribe<T extends HlSubscription['type']>(
+    subscription: Extract<HlSubscription, { type: T }>,
+    listener: (data: HlSubscriptionData[T]) => void
+  ): () => void {
+    const key = getSubscriptionKey(subscription);
+    let active = this.subscriptions.get(key);
+
+    if (!active) {
+      active = { subscription, listeners: new Set() };
+      this.subscriptions.set(key, active);
+      this.send({ method: 'subscribe', subscription });
+    }
+    active.listeners.add(listener as Listener);
+
+    this.cancelIdleClose();
+    this.connect();
+
+    return () => {
+      const current = this.subscriptions.get(key);
+      if (!current) return;
+
+      current.listeners.delete(listener as Listener);
+      if (current.listeners.size === 0) {
+        this.subscriptions.delete(key);
+        this.send({ method: 'unsubscribe', subscription: current.subscription });
+      }
+
+      if (this.subscriptions.size === 0) {
+        this.scheduleIdleClose();
+      }
+    };
+  }
+
+  getStatus(): HlConnectionStatus {
+    return this.status;
+  }
+
+  onStatusChange(listener: (status: HlConnectionStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: HlConnectionStatus) {
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+
+  private connect() {
+    if (typeof window === 'undefined' || this.socket || this.reconnectTimer) {
+      return;
+    }
+
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+    const socket = new WebSocket(HYPERLIQUID_WS_URL);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setStatus('open');
+      // Re-send everything; covers subscriptions added while connecting and reconnects
+      this.subscriptions.forEach(({ subscription }) => this.send({ method: 'subscribe', subscription }));
+      this.pingTimer = setInterval(() => this.send({ method: 'ping' }), PING_INTERVAL_MS);
+    };
+
+    socket.onmessage = (event) => {
+      this.handleMessage(event.data);
+    };
+
+    socket.onclose = () => {
+      this.teardownSocket();
+      if (this.subscriptions.size > 0) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus('idle');
+      }
+    };
+
+    socket.onerror = () => {
+      // onclose follows and handles reconnecting
+      socket.close();
+    };
+  }
+
+  private handleMessage(raw: unknown) {
+    let message: { channel?: string; data?: unknown };
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+
+    switch (message.channel) {
+      case 'allMids':
+        this.dispatch('allMids', message.data);
+        break;
+      case 'candle': {
+        const candle = message.data as HlWsCandle;
+        this.dispatch(`candle:${candle.s}:${candle.i}`, candle);
+        break;
+      }
+      case 'user':
+        // User events don't echo the address; there is one user per session
+        this.subscriptions.forEach((active, key) => {
+          if (key.startsWith('userEvents:')) {
+            this.dispatch(key, message.data);
+          }
+        });
+        break;
+      default:
+        // pong, subscriptionResponse, error
+        break;
+    }
+  }
+
+  private dispatch(key: string, data: unknown) {
+    this.subscriptions.get(key)?.listeners.forEach((listener) => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error('[HL WS] Listener error:', error);
+      }
+    });
+  }
+
+  private send(payload: unknown) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(payload));
+    }
+  }
+
+  private teardownSocket() {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    if (this.socket) {
+      this.socket.onopen = null;
+      this.socket.onmessage = null;
+      this.socket.onclose = null;
+      this.socket.onerror = null;
+      this.socket = null;
+    }
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.subscriptions.size > 0) {
+        this.connect();
+      }
+    }, delay);
+  }
+
+  private scheduleIdleClose() {
+    this.cancelIdleClose();
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.subscriptions.size > 0) return;
+
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+      }
+      const socket = this.socket;
+      this.teardownSocket();
+      socket?.close();
+      this.reconnectAttempts = 0;
+      this.setStatus('idle');
+    }, IDLE_CLOSE_DELAY_MS);
+  }
+
+  private cancelIdleClose() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+let manager: HyperliquidWsManager | null = null;
+
+/**
+ * Get the shared WebSocket manager (browser only)
+ */
+export function getHlWsManager(): HyperliquidWsManager {
+  if (!manager) {
+    manager = new HyperliquidWsManager();
+  }
+  return manager;
+}
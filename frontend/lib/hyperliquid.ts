@@ -61,4 +61,43 @@ export class HyperliquidSDK {
     });
     return result;
   }
+
+  /**
+   * Withdraws USDC from the perps balance to Arbitrum via the Hyperliquid bridge.
+   * Hyperliquid deducts a flat fee from the amount.
+   * @param destination The Arbitrum address to receive the USDC.
+   * @param amount The amount of USDC to withdraw, fee included.
+   * @returns The result of the withdrawal.
+   */
+  async withdrawToArbitrum(
+    destination: string,
+    amount: number,
+  ): Promise<{ status: string; response: any }> {
+    if (!this.exchangeClient) {
+      throw new Error("Wallet not provided. Cannot withdraw.");
+    }
+    return this.exchangeClient.withdraw3({
+      destination: destination as `0x${string}`,
+      amount: amount.toString(),
+    });
+  }
+
+  /**
+   * Moves USDC between the user's spot and perps balances.
+   * @param amount The amount of USDC to move.
+   * @param toPerp `true` for spot to perps, `false` for perps to spot.
+   * @returns The result of the transfer.
+   */
+  async transferUsdc(
+    amount: number,
+    toPerp: boolean,
+  ): Promise<{ status: string; response: any }> {
+    if (!this.exchangeClient) {
+      throw new Error("Wallet not provided. Cannot transfer.");
+    }
+    return this.exchangeClient.usdClassTransfer({
+      amount: amount.toString(),
+      toPerp,
+    });
+  }
 }
@@ -0,0 +1,172 @@
+/**
+ * Chart Indicators
+ *
+ * Timeframes offered on swipe cards and the overlay math drawn by MiniChart.
+ * Every indicator returns one point per candle once it has enough history,
+ * so the last point can be recomputed cheaply as the live candle forms.
+ */
+
+import type { CandleData, ChartIndicatorSettings, ChartTimeframe } from "@/types/trade";
+
+export const CHART_TIMEFRAMES: ChartTimeframe[] = ["15m", "1h", "4h", "1d"];
+
+export const DEFAULT_CHART_TIMEFRAME: ChartTimeframe = "4h";
+
+export const DEFAULT_CHART_INDICATORS: ChartIndicatorSettings = {
+  emaPeriods: [20],
+  vwap: false,
+  bollinger: false,
+  rsi: false,
+  volume: false,
+};
+
+export const EMA_PERIOD_OPTIONS = [9, 20, 50, 100];
+
+const BOLLINGER_PERIOD = 20;
+const BOLLINGER_STD_DEV = 2;
+const RSI_PERIOD = 14;
+const DAY_SECONDS = 24 * 60 * 60;
+
+const INTERVAL_MS: Record<string, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+};
+
+export interface IndicatorPoint {
+  time: number;
+  value: number;
+}
+
+export interface BollingerBands {
+  upper: IndicatorPoint[];
+  middle: IndicatorPoint[];
+  lower: IndicatorPoint[];
+}
+
+/**
+ * Check a value is one of the card timeframes
+ */
+export function isChartTimeframe(value: unknown): value is ChartTimeframe {
+  return typeof value === "string" && (CHART_TIMEFRAMES as string[]).includes(value);
+}
+
+/**
+ * Length of a Hyperliquid candle interval in ms (4h if unknown)
+ */
+export function getIntervalMs(interval: string): number {
+  return INTERVAL_MS[interval] || INTERVAL_MS["4h"];
+}
+
+/**
+ * Exponential moving average, seeded with the first close
+ */
+export function calculateEMA(data: CandleData[], period: number): IndicatorPoint[] {
+  const k = 2 / (period + 1);
+  const points: IndicatorPoint[] = [];
+  let ema = data[0]?.close || 0;
+
+  for (const candle of data) {
+    ema = candle.close * k + ema * (1 - k);
+    points.push({ time: candle.time, value: ema });
+  }
+
+  return points;
+}
+
+/**
+ * Volume-weighted average price of the typical price.
+ * Intraday charts reset at 00:00 UTC; daily charts anchor at the first candle.
+ *
+ * @returns No points when the candles carry no volume
+ */
+export function calculateVWAP(data: CandleData[], resetDaily: boolean): IndicatorPoint[] {
+  if (!data.some((c) => (c.volume ?? 0) > 0)) {
+    return [];
+  }
+
+  const points: IndicatorPoint[] = [];
+  let session = -1;
+  let cumulativePv = 0;
+  let cumulativeVolume = 0;
+
+  for (const candle of data) {
+    const candleSession = resetDaily ? Math.floor(candle.time / DAY_SECONDS) : 0;
+    if (candleSession !== session) {
+      session = candleSession;
+      cumulativePv = 0;
+      cumulativeVolume = 0;
+    }
+
+    const volume = candle.volume ?? 0;
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    cumulativePv += typicalPrice * volume;
+    cumulativeVolume += volume;
+
+    points.push({
+      time: candle.time,
+      value: cumulativeVolume > 0 ? cumulativePv / cumulativeVolume : typicalPrice,
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Bollinger bands: SMA ± standard deviations of the close
+ */
+export function calculateBollinger(
+  data: CandleData[],
+  period: number = BOLLINGER_PERIOD,
+  stdDevs: number = BOLLINGER_STD_DEV
+): BollingerBands {
+  const bands: BollingerBands = { upper: [], middle: [], lower: [] };
+
+  for (let i = period - 1; i < data.length; i++) {
+    const window = data.slice(i - period + 1, i + 1).map((c) => c.close);
+    const mean = window.reduce((sum, v) => sum + v, 0) / period;
+    const variance = window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period;
+    const offset = Math.sqrt(variance) * stdDevs;
+    const time = data[i].time;
+
+    bands.upper.push({ time, value: mean + offset });
+    bands.middle.push({ time, value: mean });
+    bands.lower.push({ time, value: mean - offset });
+  }
+
+  return bands;
+}
+
+/**
+ * Relative strength index with Wilder smoothing
+ */
+export function calculateRSI(data: CandleData[], period: number = RSI_PERIOD): IndicatorPoint[] {
+  if (data.length <= period) {
+    return [];
+  }
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = data[i].close - data[i - 1].close;
+    avgGain += Math.max(change, 0);
+    avgLoss += Math.max(-change, 0);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRsi = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  const points: IndicatorPoint[] = [{ time: data[period].time, value: toRsi() }];
+
+  for (let i = period + 1; i < data.length; i++) {
+    const change = data[i].close - data[i - 1].close;
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    points.push({ time: data[i].time, value: toRsi() });
+  }
+
+  return points;
+}
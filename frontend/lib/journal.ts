@@ -0,0 +1,237 @@
+/**
+ * Trade Journal
+ *
+ * Persists every swipe decision with a snapshot of the card and AI signal,
+ * then fills in exit price and realized PnL by reconciling open entries
+ * against Pear's closed trades. Summary stats power the /history page.
+ */
+
+import { randomUUID } from 'crypto';
+import { getCollection, runExclusive } from '@/lib/storage';
+import { getCardLegsKey, getLegsKey } from '@/lib/market-utils';
+import type { PearPosition, PearTradeHistory } from '@/lib/pear-api';
+import type {
+  JournalBucketStats,
+  JournalSummary,
+  RecordSwipeRequest,
+  TradeCardSnapshot,
+  TradeJournalEntry,
+} from '@/types/trade';
+
+const journal = () => getCollection<TradeJournalEntry>('trade-journal');
+
+// A closed trade is attributed to a swipe if it opened within this window
+const MATCH_WINDOW_MS = 10 * 60 * 1000;
+
+const LEVERAGE_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: '1-2x', max: 2 },
+  { label: '3-5x', max: 5 },
+  { label: '6-10x', max: 10 },
+  { label: '11-20x', max: 20 },
+  { label: '21x+', max: Infinity },
+];
+
+/**
+ * Record a swipe decision
+ */
+export async function recordSwipe(request: RecordSwipeRequest): Promise<TradeJournalEntry> {
+  const { card } = request;
+  const status: TradeJournalEntry['status'] =
+    request.decision === 'skipped' ? 'skipped' : request.error ? 'failed' : 'open';
+
+  const entry: TradeJournalEntry = {
+    id: randomUUID(),
+    userAddress: request.address.toLowerCase(),
+    decision: request.decision,
+    status,
+    card,
+    sizeUsd: request.sizeUsd,
+    leverage: card.leverage,
+    direction: card.direction,
+    orderId: request.orderId ?? null,
+    fills: request.fills ?? null,
+    error: request.error ?? null,
+    positionId: null,
+    tradeHistoryIds: [],
+    entryPrice: null,
+    exitPrice: null,
+    realizedPnl: null,
+    closedAt: null,
+    createdAt: Date.now(),
+  };
+
+  await journal().insert(entry.id, entry);
+  return entry;
+}
+
+/**
+ * Get a user's journal, newest first
+ */
+export async function getJournal(address: string): Promise<TradeJournalEntry[]> {
+  const normalized = address.toLowerCase();
+  const entries = await journal().list((e) => e.userAddress === normalized);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// ============================================
+// Reconciliation with Pear
+// ============================================
+
+function toMillis(value: string | number | undefined): number | null {
+  if (value === undefined) return null;
+  const ms = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function isNearEntry(entry: TradeJournalEntry, openedAt: number | null): boolean {
+  return openedAt === null
+    ? true
+    : Math.abs(openedAt - entry.createdAt) <= MATCH_WINDOW_MS;
+}
+
+/**
+ * Fill in positionId, exit price and realized PnL for a user's open entries.
+ * @param trades - Pear closed trades
+ * @param openPositions - Pear positions that are still open
+ * @returns Number of entries that were updated
+ */
+export async function reconcileJournal(
+  address: string,
+  trades: PearTradeHistory[],
+  openPositions: PearPosition[]
+): Promise<number> {
+  const normalized = address.toLowerCase();
+
+  return runExclusive(`journal:${normalized}`, async () => {
+    const entries = await getJournal(normalized);
+    const claimedTradeIds = new Set(entries.flatMap((e) => e.tradeHistoryIds));
+    const claimedPositionIds = new Set(entries.map((e) => e.positionId).filter(Boolean));
+    const openIds = new Set(openPositions.map((p) => p.positionId));
+
+    // Oldest first, so earlier swipes get the earlier matching trades
+    const pending = entries.filter((e) => e.status === 'open').reverse();
+    let updated = 0;
+
+    for (const entry of pending) {
+      const key = getCardLegsKey(entry.card);
+      let positionId = entry.positionId;
+
+      // Learn the position id from a matching open position
+      if (!positionId) {
+        const open = openPositions.find((p) =>
+          !claimedPositionIds.has(p.positionId) &&
+          getLegsKey(p.longAssets.map((a) => a.coin), p.shortAssets.map((a) => a.coin)) === key &&
+          isNearEntry(entry, toMillis(p.createdAt))
+        );
+        if (open) {
+          positionId = open.positionId;
+          claimedPositionIds.add(positionId);
+        }
+      }
+
+      // Closed-trade records for this entry (partial closes produce several)
+      const matches = trades.filter((t) => {
+        if (claimedTradeIds.has(t.tradeHistoryId)) return false;
+        if (entry.orderId && t.orderId) return t.orderId === entry.orderId;
+        if (positionId && t.positionId) return t.positionId === positionId;
+        return (
+          getLegsKey(t.longAssets.map((a) => a.coin), t.shortAssets.map((a) => a.coin)) === key &&
+          isNearEntry(entry, toMillis(t.openedAt)) &&
+          (toMillis(t.createdAt) ?? 0) >= entry.createdAt
+        );
+      });
+
+      if (matches.length === 0 && positionId === entry.positionId) {
+        continue;
+      }
+
+      matches.forEach((t) => claimedTradeIds.add(t.tradeHistoryId));
+      positionId = positionId ?? matches.find((t) => t.positionId)?.positionId ?? null;
+
+      const stillOpen = positionId !== null && openIds.has(positionId);
+      const last = matches.reduce<PearTradeHistory | null>(
+        (latest, t) => (!latest || (toMillis(t.createdAt) ?? 0) > (toMillis(latest.createdAt) ?? 0) ? t : latest),
+        null
+      );
+      const firstLeg = last ? [...last.longAssets, ...last.shortAssets][0] : undefined;
+
+      const next: TradeJournalEntry = {
+        ...entry,
+        positionId,
+        tradeHistoryIds: [...entry.tradeHistoryIds, ...matches.map((t) => t.tradeHistoryId)],
+        realizedPnl: matches.length > 0
+          ? (entry.realizedPnl ?? 0) + matches.reduce((sum, t) => sum + Number(t.realizedPnl || 0), 0)
+          : entry.realizedPnl,
+        entryPrice: last ? last.entryRatio ?? firstLeg?.entryPrice ?? entry.entryPrice : entry.entryPrice,
+        exitPrice: last ? last.exitRatio ?? firstLeg?.exitPrice ?? entry.exitPrice : entry.exitPrice,
+        status: matches.length > 0 && !stillOpen ? 'closed' : 'open',
+        closedAt: matches.length > 0 && !stillOpen ? toMillis(last?.createdAt) ?? Date.now() : null,
+      };
+
+      await journal().put(next.id, next);
+      updated++;
+    }
+
+    return updated;
+  });
+}
+
+// ============================================
+// Summary
+// ============================================
+
+function getLeverageBucket(leverage: number): string {
+  return LEVERAGE_BUCKETS.find((b) => leverage <= b.max)!.label;
+}
+
+function bucketStats(label: string, trades: TradeJournalEntry[]): JournalBucketStats {
+  const totalPnl = trades.reduce((sum, t) => sum + (t.realizedPnl ?? 0), 0);
+  const wins = trades.filter((t) => (t.realizedPnl ?? 0) > 0).length;
+  return {
+    label,
+    trades: trades.length,
+    wins,
+    winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    avgPnl: trades.length > 0 ? totalPnl / trades.length : 0,
+    totalPnl,
+  };
+}
+
+function groupBy(trades: TradeJournalEntry[], getKey: (t: TradeJournalEntry) => string): Map<string, TradeJournalEntry[]> {
+  const groups = new Map<string, TradeJournalEntry[]>();
+  for (const trade of trades) {
+    const key = getKey(trade);
+    groups.set(key, [...(groups.get(key) ?? []), trade]);
+  }
+  return groups;
+}
+
+/**
+ * Compute win rate and PnL stats. Only closed trades count towards PnL.
+ */
+export function summarizeJournal(entries: TradeJournalEntry[]): JournalSummary {
+  const closed = entries.filter((e) => e.status === 'closed');
+  const overall = bucketStats('All', closed);
+
+  const byLeverage = LEVERAGE_BUCKETS
+    .map((b) => bucketStats(b.label, closed.filter((t) => getLeverageBucket(t.leverage) === b.label)))
+    .filter((b) => b.trades > 0);
+
+  const byTagline = Array.from(groupBy(closed, (t) => t.card.tagline).entries())
+    .map(([tagline, trades]) => bucketStats(tagline, trades))
+    .sort((a, b) => b.trades - a.trades || b.avgPnl - a.avgPnl);
+
+  return {
+    taken: entries.filter((e) => e.decision === 'taken').length,
+    skipped: entries.filter((e) => e.decision === 'skipped').length,
+    failed: entries.filter((e) => e.status === 'failed').length,
+    open: entries.filter((e) => e.status === 'open').length,
+    closed: closed.length,
+    wins: overall.wins,
+    winRate: overall.winRate,
+    totalRealizedPnl: overall.totalPnl,
+    avgRealizedPnl: overall.avgPnl,
+    byLeverage,
+    byTagline,
+  };
+}
@@ -208,6 +208,58 @@ export async function getBtcToEvmQuote(
   return lifiRequest<LifiQuoteResponse>(`/quote?${queryParams.toString()}`);
 }
 
+/**
+ * Parameters for getting an EVM to BTC quote
+ */
+export interface GetEvmToBtcQuoteParams {
+  fromChainId: number; // Source EVM chain ID (e.g., 42161 for Arbitrum)
+  fromToken: string; // Token address on the source chain
+  fromAddress: string; // EVM address sending the tokens
+  fromAmount: string; // Amount in the token's base units
+  toAddress: string; // BTC address to receive the funds
+  slippage?: number; // Slippage tolerance as decimal. Default: 0.01 (1%)
+}
+
+/**
+ * Get a quote for EVM → BTC swap (withdrawals)
+ * Endpoint: GET /quote
+ *
+ * The transactionRequest is an EVM transaction (to, data, value in hex) the
+ * user sends from `fromAddress`, after approving `estimate.approvalAddress`
+ * to spend the token.
+ */
+export async function getEvmToBtcQuote(
+  params: GetEvmToBtcQuoteParams
+): Promise<LifiQuoteResponse> {
+  const queryParams = new URLSearchParams({
+    fromChain: params.fromChainId.toString(),
+    fromToken: params.fromToken,
+    fromAddress: params.fromAddress,
+    fromAmount: params.fromAmount,
+    toChain: "BTC",
+    toToken: "bitcoin",
+    toAddress: params.toAddress,
+    slippage: (params.slippage ?? 0.01).toString(),
+  });
+
+  return lifiRequest<LifiQuoteResponse>(`/quote?${queryParams.toString()}`);
+}
+
+/**
+ * Total USD cost of a quote: bridge/protocol fees plus source-chain gas
+ */
+export function getQuoteCostUsd(quote: LifiQuoteResponse): number {
+  const fees = (quote.estimate.feeCosts ?? []).reduce(
+    (sum, fee) => sum + parseFloat(fee.amountUSD || "0"),
+    0
+  );
+  const gas = (quote.estimate.gasCosts ?? []).reduce(
+    (sum, cost) => sum + parseFloat(cost.amountUSD || "0"),
+    0
+  );
+  return fees + gas;
+}
+
 /**
  * Advanced routes response structure
  */
@@ -0,0 +1,316 @@
+/**
+ * Lightning Backends
+ *
+ * Issues invoices and checks their settlement on a Lightning node.
+ *
+ * Backends (selected with LIGHTNING_BACKEND, which must be set):
+ * - `fake`: local testing only, refused when NODE_ENV=production. Signs real
+ *   BOLT11 invoices and settles them via payFakeInvoice(); its invoices are
+ *   kept in storage so they survive a restart
+ * - `lnd`: LND REST API (LND_REST_URL, LND_MACAROON as hex)
+ * - `lnbits`: LNbits wallet API (LNBITS_URL, LNBITS_API_KEY invoice key)
+ */
+
+import { generatePrivateKey } from 'viem/accounts';
+import type { Hex } from 'viem';
+import { encodeBolt11, hashPreimage, randomHex32 } from '@/lib/bolt11';
+import { getCollection } from '@/lib/storage';
+
+export interface CreateInvoiceParams {
+  amountSats: number;
+  memo: string;
+  expirySeconds: number;
+}
+
+export interface CreatedInvoice {
+  paymentRequest: string; // BOLT11
+  paymentHash: string; // hex
+}
+
+export interface InvoiceSettlement {
+  settled: boolean;
+  preimage: string | null; // hex, once settled
+}
+
+export interface LightningBackend {
+  readonly name: 'fake' | 'lnd' | 'lnbits';
+  createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice>;
+  lookupInvoice(paymentHash: string): Promise<InvoiceSettlement>;
+}
+
+/**
+ * Custom error class for Lightning node errors
+ */
+export class LightningBackendError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown
+  ) {
+    super(message);
+    this.name = 'LightningBackendError';
+  }
+}
+
+async function nodeRequest<T>(backend: string, url: string, options: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, options);
+  } catch (error) {
+    throw new LightningBackendError(
+      `Failed to reach ${backend}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new LightningBackendError(`${backend} error: ${response.status} ${response.statusText}`, response.status, body);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+function base64ToHex(value: string): string {
+  return Buffer.from(value, 'base64').toString('hex');
+}
+
+// ============================================
+// Fake node (local testing)
+// ============================================
+
+/**
+ * In-process node that issues regtest invoices and keeps their preimages,
+ * so the full deposit flow can run without a real Lightning node.
+ */
+interface FakeInvoice {
+  preimage: string;
+  paid: boolean;
+}
+
+class FakeLightningBackend implements LightningBackend {
+  readonly name = 'fake' as const;
+  private readonly nodeKey: Hex = (process.env.FAKE_LN_NODE_KEY as Hex | undefined) || generatePrivateKey();
+  // Persisted like the invoice records, so pending invoices stay verifiable across restarts
+  private readonly invoices = getCollection<FakeInvoice>('fake-lightning-invoices');
+
+  async createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice> {
+    const preimage = randomHex32();
+    const paymentHash = hashPreimage(preimage);
+
+    const paymentRequest = await encodeBolt11(
+      {
+        network: 'bcrt',
+        amountSats: params.amountSats,
+        paymentHash,
+        paymentSecret: randomHex32(),
+        description: params.memo,
+        expirySeconds: params.expirySeconds,
+      },
+      this.nodeKey
+    );
+
+    await this.invoices.insert(paymentHash, { preimage, paid: false });
+    return { paymentRequest, paymentHash };
+  }
+
+  async lookupInvoice(paymentHash: string): Promise<InvoiceSettlement> {
+    const invoice = await this.invoices.get(paymentHash);
+    if (!invoice) {
+      throw new LightningBackendError('Invoice not found', 404);
+    }
+    return { settled: invoice.paid, preimage: invoice.paid ? invoice.preimage : null };
+  }
+
+  /**
+   * Simulate paying an invoice; returns the preimage a wallet would receive
+   */
+  async pay(paymentHash: string): Promise<string> {
+    const invoice = await this.invoices.get(paymentHash);
+    if (!invoice) {
+      throw new LightningBackendError('Invoice not found', 404);
+    }
+    await this.invoices.put(paymentHash, { ...invoice, paid: true });
+    return invoice.preimage;
+  }
+}
+
+// ============================================
+// LND REST
+// ============================================
+
+interface LndAddInvoiceResponse {
+  r_hash: string; // base64
+  payment_request: string;
+}
+
+interface LndInvoiceResponse {
+  state: 'OPEN' | 'SETTLED' | 'CANCELED' | 'ACCEPTED';
+  r_preimage: string; // base64
+}
+
+class LndBackend implements LightningBackend {
+  readonly name = 'lnd' as const;
+
+  constructor(private readonly baseUrl: string, private readonly macaroon: string) {}
+
+  private headers() {
+    return {
+      'Content-Type': 'application/json',
+      'Grpc-Metadata-macaroon': this.macaroon,
+    };
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice> {
+    const data = await nodeRequest<LndAddInvoiceResponse>('LND', `${this.baseUrl}/v1/invoices`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        value: params.amountSats.toString(),
+        memo: params.memo,
+        expiry: params.expirySeconds.toString(),
+      }),
+    });
+
+    return {
+      paymentRequest: data.payment_request,
+      paymentHash: base64ToHex(data.r_hash),
+    };
+  }
+
+  async lookupInvoice(paymentHash: string): Promise<InvoiceSettlement> {
+    const data = await nodeRequest<LndInvoiceResponse>('LND', `${this.baseUrl}/v1/invoice/${paymentHash}`, {
+      headers: this.headers(),
+    });
+
+    const settled = data.state === 'SETTLED';
+    return { settled, preimage: settled && data.r_preimage ? base64ToHex(data.r_preimage) : null };
+  }
+}
+
+// ============================================
+// LNbits
+// ============================================
+
+interface LnbitsCreateResponse {
+  payment_hash: string;
+  payment_request?: string;
+  bolt11?: string;
+}
+
+interface LnbitsPaymentResponse {
+  paid: boolean;
+  preimage?: string | null;
+}
+
+class LnbitsBackend implements LightningBackend {
+  readonly name = 'lnbits' as const;
+
+  constructor(private readonly baseUrl: string, private readonly apiKey: string) {}
+
+  private headers() {
+    return {
+      'Content-Type': 'application/json',
+      'X-Api-Key': this.apiKey,
+    };
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice> {
+    const data = await nodeRequest<LnbitsCreateResponse>('LNbits', `${this.baseUrl}/api/v1/payments`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        out: false,
+        amount: params.amountSats,
+        memo: params.memo,
+        expiry: params.expirySeconds,
+      }),
+    });
+
+    const paymentRequest = data.payment_request ?? data.bolt11;
+    if (!paymentRequest) {
+      throw new LightningBackendError('LNbits did not return a payment request', 502, data);
+    }
+
+    return { paymentRequest, paymentHash: data.payment_hash };
+  }
+
+  async lookupInvoice(paymentHash: string): Promise<InvoiceSettlement> {
+    const data = await nodeRequest<LnbitsPaymentResponse>('LNbits', `${this.baseUrl}/api/v1/payments/${paymentHash}`, {
+      headers: this.headers(),
+    });
+
+    return { settled: data.paid, preimage: data.paid ? data.preimage ?? null : null };
+  }
+}
+
+// ============================================
+// Selection
+// ============================================
+
+let backend: LightningBackend | null = null;
+
+/**
+ * Whether the fake node is explicitly configured and allowed in this environment
+ */
+export function isFakeLightningEnabled(): boolean {
+  return process.env.LIGHTNING_BACKEND === 'fake' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Get the configured Lightning backend (created once per process)
+ */
+export function getLightningBackend(): LightningBackend {
+  if (backend) {
+    return backend;
+  }
+
+  // No default: falling back to the fake node would let anyone "pay" invoices
+  const kind = process.env.LIGHTNING_BACKEND;
+  if (!kind) {
+    throw new LightningBackendError('LIGHTNING_BACKEND must be set (lnd, lnbits, or fake for local testing)');
+  }
+
+  switch (kind) {
+    case 'lnd': {
+      const url = process.env.LND_REST_URL;
+      const macaroon = process.env.LND_MACAROON;
+      if (!url || !macaroon) {
+        throw new LightningBackendError('LND_REST_URL and LND_MACAROON must be set for the lnd backend');
+      }
+      backend = new LndBackend(url.replace(/\/$/, ''), macaroon);
+      break;
+    }
+    case 'lnbits': {
+      const url = process.env.LNBITS_URL;
+      const apiKey = process.env.LNBITS_API_KEY;
+      if (!url || !apiKey) {
+        throw new LightningBackendError('LNBITS_URL and LNBITS_API_KEY must be set for the lnbits backend');
+      }
+      backend = new LnbitsBackend(url.replace(/\/$/, ''), apiKey);
+      break;
+    }
+    case 'fake':
+      if (!isFakeLightningEnabled()) {
+        throw new LightningBackendError('The fake Lightning backend cannot be used in production');
+      }
+      backend = new FakeLightningBackend();
+      break;
+    default:
+      throw new LightningBackendError(`Unknown LIGHTNING_BACKEND: ${kind}`);
+  }
+
+  return backend;
+}
+
+/**
+ * Pay an invoice on the fake node (local testing only)
+ * @returns The preimage, as a wallet would receive it
+ * @throws LightningBackendError if the fake backend is not active
+ */
+export async function payFakeInvoice(paymentHash: string): Promise<string> {
+  const active = isFakeLightningEnabled() ? getLightningBackend() : null;
+  if (!(active instanceof FakeLightningBackend)) {
+    throw new LightningBackendError('Fake payments are only available with LIGHTNING_BACKEND=fake', 404);
+  }
+  return active.pay(paymentHash);
+}
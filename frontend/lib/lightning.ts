@@ -0,0 +1,180 @@
+/**
+ * Lightning Deposits
+ *
+ * Issues invoices through the configured Lightning backend, persists
+ * payment_hash → {EVM address, amount, expiry}, and claims settled payments
+ * into the vault once the payer proves payment with the preimage. The USDC
+ * value is fixed at the live BTC price when the invoice is issued.
+ *
+ * An invoice moves pending → settled → claimed; a claimed invoice has been
+ * credited to the vault and can never be credited again.
+ */
+
+import { createHash } from 'crypto';
+import { getCollection, runExclusive, DuplicateRecordError } from '@/lib/storage';
+import { getLightningBackend } from '@/lib/lightning-backends';
+import { creditVault } from '@/lib/vault';
+import { getAssetMeta } from '@/lib/hl-meta';
+import { SATS_PER_BTC } from '@/types';
+import type { LightningInvoiceRecord } from '@/types';
+
+const invoices = () => getCollection<LightningInvoiceRecord>('lightning-invoices');
+
+/**
+ * Custom error class for Lightning payment errors
+ */
+export class LightningPaymentError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'LightningPaymentError';
+  }
+}
+
+export interface ClaimedPayment {
+  invoice: LightningInvoiceRecord;
+  amountUsdc: number;
+  equityUsdc: number;
+}
+
+/**
+ * Convert sats to USDC at a BTC/USD price
+ */
+export function satsToUsdc(amountSats: number, btcPriceUsd: number): number {
+  return Math.round((amountSats / SATS_PER_BTC) * btcPriceUsd * 1e6) / 1e6;
+}
+
+/**
+ * Current BTC/USD price, from Hyperliquid's BTC perp mark
+ * @throws LightningPaymentError if no price is available
+ */
+export async function getBtcPriceUsd(): Promise<number> {
+  const markPx = (await getAssetMeta('BTC'))?.markPx;
+  if (!markPx || markPx <= 0) {
+    throw new LightningPaymentError('BTC price unavailable, try again shortly', 503);
+  }
+  return markPx;
+}
+
+/**
+ * Check that a preimage hashes to the given payment hash (both hex)
+ */
+export function isValidPreimage(paymentHash: string, preimage: string): boolean {
+  if (!/^[0-9a-fA-F]{64}$/.test(preimage)) {
+    return false;
+  }
+  const digest = createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+  return digest === paymentHash.toLowerCase();
+}
+
+/**
+ * Issue a deposit invoice for an EVM address and record it
+ */
+export async function createDepositInvoice(
+  evmAddress: string,
+  amountSats: number,
+  memo: string,
+  expirySeconds: number
+): Promise<LightningInvoiceRecord> {
+  const btcPriceUsd = await getBtcPriceUsd();
+  const backend = getLightningBackend();
+  const created = await backend.createInvoice({ amountSats, memo, expirySeconds });
+
+  const record: LightningInvoiceRecord = {
+    paymentHash: created.paymentHash.toLowerCase(),
+    paymentRequest: created.paymentRequest,
+    backend: backend.name,
+    evmAddress: evmAddress.toLowerCase(),
+    amountSats,
+    btcPriceUsd,
+    amountUsdc: satsToUsdc(amountSats, btcPriceUsd),
+    expiresAt: Math.floor(Date.now() / 1000) + expirySeconds,
+    status: 'pending',
+    settledAt: null,
+    claimedAt: null,
+    createdAt: Date.now(),
+  };
+
+  await invoices().insert(record.paymentHash, record);
+  return record;
+}
+
+/**
+ * Look up an invoice by payment hash
+ */
+export async function getInvoice(paymentHash: string): Promise<LightningInvoiceRecord | undefined> {
+  return invoices().get(paymentHash.toLowerCase());
+}
+
+/**
+ * Verify a payment and credit the vault with the USDC value fixed on the invoice.
+ *
+ * Checks, in order: the invoice exists and is unclaimed, sha256(preimage)
+ * matches, and the node reports the invoice as settled (expired unpaid
+ * invoices are rejected).
+ *
+ * @throws LightningPaymentError if any check fails
+ */
+export async function claimInvoicePayment(paymentHash: string, preimage: string): Promise<ClaimedPayment> {
+  const hash = paymentHash.toLowerCase();
+
+  return runExclusive(`lightning:${hash}`, async () => {
+    const invoice = await getInvoice(hash);
+
+    if (!invoice) {
+      throw new LightningPaymentError('Unknown payment hash', 404);
+    }
+    if (invoice.status === 'claimed') {
+      throw new LightningPaymentError('Payment has already been claimed', 409);
+    }
+    if (!isValidPreimage(hash, preimage)) {
+      throw new LightningPaymentError('Preimage does not match payment hash');
+    }
+
+    if (invoice.status === 'pending') {
+      const settlement = await getLightningBackend().lookupInvoice(hash);
+      if (!settlement.settled) {
+        if (Date.now() / 1000 > invoice.expiresAt) {
+          throw new LightningPaymentError('Invoice has expired', 410);
+        }
+        throw new LightningPaymentError('Invoice has not been settled yet', 402);
+      }
+    }
+
+    const settled: LightningInvoiceRecord = {
+      ...invoice,
+      status: 'settled',
+      settledAt: invoice.settledAt ?? Date.now(),
+    };
+    await invoices().put(hash, settled);
+
+    const { amountUsdc } = invoice;
+    let equityUsdc: number;
+    try {
+      const result = await creditVault(invoice.evmAddress, amountUsdc, {
+        source: 'lightning',
+        referenceId: hash,
+        idempotencyKey: `lightning:${hash}`,
+      });
+      equityUsdc = result.equityUsdc;
+    } catch (error) {
+      // Already credited through /api/vault/credit; record the claim and refuse
+      if (error instanceof DuplicateRecordError) {
+        await invoices().put(hash, { ...settled, status: 'claimed', claimedAt: Date.now() });
+        throw new LightningPaymentError('Payment has already been claimed', 409);
+      }
+      throw error;
+    }
+
+    const claimed: LightningInvoiceRecord = {
+      ...settled,
+      status: 'claimed',
+      claimedAt: Date.now(),
+    };
+    await invoices().put(hash, claimed);
+
+    return { invoice: claimed, amountUsdc, equityUsdc };
+  });
+}
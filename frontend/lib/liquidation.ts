@@ -0,0 +1,199 @@
+/**
+ * Liquidation and margin estimates for a card before it is swiped.
+ *
+ * Follows Hyperliquid's isolated-margin formula with tiered maintenance
+ * margin: each tier's maintenance rate is half its initial margin at max
+ * leverage, and higher tiers carry a deduction so the requirement is
+ * continuous across tier bounds.
+ */
+
+import type {
+  HlAssetMeta,
+  HlMarginTier,
+  LiquidationLegPreview,
+  LiquidationPreview,
+  MarketAsset,
+  PositionType,
+} from "@/types/trade";
+
+// Hyperliquid rejects legs below ~$10; previews size legs to at least this, as
+// /api/positions/create does once the user confirms (see lib/market-constraints.ts)
+export const MIN_NOTIONAL_PER_ASSET = 11;
+
+export interface LiquidationInput {
+  positionType: PositionType;
+  direction: "LONG" | "SHORT";
+  longAssets: MarketAsset[];
+  shortAssets: MarketAsset[];
+  sizeUsd: number;
+  leverage: number;
+}
+
+/**
+ * Maintenance margin required for a notional, in USD
+ */
+export function getMaintenanceMargin(notionalUsd: number, tiers: HlMarginTier[]): number {
+  let deduction = 0;
+  let rate = 0;
+
+  for (let i = 0; i < tiers.length; i++) {
+    const tierRate = 1 / (2 * tiers[i].maxLeverage);
+    if (i > 0) {
+      if (notionalUsd <= tiers[i].lowerBound) break;
+      deduction += tiers[i].lowerBound * (tierRate - rate);
+    }
+    rate = tierRate;
+  }
+
+  return notionalUsd * rate - deduction;
+}
+
+/**
+ * Max leverage allowed at a notional
+ */
+export function getMaxLeverageAt(notionalUsd: number, tiers: HlMarginTier[]): number {
+  const tier = [...tiers].reverse().find((t) => notionalUsd > t.lowerBound) ?? tiers[0];
+  return tier.maxLeverage;
+}
+
+/**
+ * Liquidation price of an isolated leg
+ */
+function getLegPreview(
+  meta: HlAssetMeta,
+  side: "LONG" | "SHORT",
+  notionalUsd: number,
+  leverage: number
+): LiquidationLegPreview | null {
+  if (!meta.markPx || notionalUsd <= 0) {
+    return null;
+  }
+
+  const sign = side === "LONG" ? 1 : -1;
+  const entryPrice = meta.markPx;
+  const size = notionalUsd / entryPrice;
+  const maintenance = getMaintenanceMargin(notionalUsd, meta.marginTiers);
+  const marginAvailable = notionalUsd / leverage - maintenance;
+  const maintenanceRate = maintenance / notionalUsd;
+
+  const liquidationPrice = Math.max(
+    0,
+    entryPrice - (sign * marginAvailable) / size / (1 - sign * maintenanceRate)
+  );
+
+  return {
+    coin: meta.coin,
+    side,
+    notionalUsd,
+    entryPrice,
+    liquidationPrice,
+    movePercent: (Math.abs(entryPrice - liquidationPrice) / entryPrice) * 100,
+  };
+}
+
+function normalizedWeights(assets: MarketAsset[]): number[] {
+  const total = assets.reduce((sum, a) => sum + a.weight, 0);
+  return assets.map((a) => (total > 0 ? a.weight / total : 1 / assets.length));
+}
+
+/**
+ * Weighted geometric basket price
+ */
+function getBasketPrice(assets: MarketAsset[], meta: Record<string, HlAssetMeta>): number | null {
+  const weights = normalizedWeights(assets);
+  let logPrice = 0;
+  for (let i = 0; i < assets.length; i++) {
+    const px = meta[assets[i].asset.toUpperCase()]?.markPx;
+    if (!px) return null;
+    logPrice += weights[i] * Math.log(px);
+  }
+  return Math.exp(logPrice);
+}
+
+/**
+ * Estimate entry, liquidation and required margin for a card.
+ *
+ * Pairs are sized like /api/positions/create: the notional is split evenly
+ * between sides, then by weight within a side. Each leg is margined on its
+ * own, so the spread move to liquidation is the smallest ratio change that
+ * takes any single leg to its liquidation price.
+ *
+ * @returns null until mark prices for every leg are known
+ */
+export function getLiquidationPreview(
+  input: LiquidationInput,
+  meta: Record<string, HlAssetMeta>
+): LiquidationPreview | null {
+  const isPair = input.positionType === "relative_pair";
+  const primary = input.longAssets[0] ?? input.shortAssets[0];
+
+  const sides: Array<{ side: "LONG" | "SHORT"; assets: MarketAsset[] }> = isPair
+    ? [
+        { side: "LONG", assets: input.longAssets },
+        { side: "SHORT", assets: input.shortAssets },
+      ].filter((s) => s.assets.length > 0) as Array<{ side: "LONG" | "SHORT"; assets: MarketAsset[] }>
+    : primary
+      ? [{ side: input.direction, assets: [{ asset: primary.asset, weight: 100 }] }]
+      : [];
+
+  const legCount = sides.reduce((n, s) => n + s.assets.length, 0);
+  if (legCount === 0 || input.leverage <= 0) {
+    return null;
+  }
+
+  const notionalUsd = Math.max(input.sizeUsd, MIN_NOTIONAL_PER_ASSET * legCount);
+  const legs: LiquidationLegPreview[] = [];
+  const legWeights: number[] = []; // weight within its side's basket
+  let maxLeverage = Infinity;
+
+  for (const { side, assets } of sides) {
+    const sideNotional = notionalUsd / sides.length;
+    const weights = normalizedWeights(assets);
+
+    for (let i = 0; i < assets.length; i++) {
+      const assetMeta = meta[assets[i].asset.toUpperCase()];
+      if (!assetMeta) return null;
+
+      const legNotional = sideNotional * weights[i];
+      maxLeverage = Math.min(maxLeverage, getMaxLeverageAt(legNotional, assetMeta.marginTiers));
+
+      const leg = getLegPreview(assetMeta, side, legNotional, input.leverage);
+      if (!leg) return null;
+      legs.push(leg);
+      legWeights.push(weights[i]);
+    }
+  }
+
+  let movePercent = Math.min(...legs.map((l) => l.movePercent));
+  let entryRatio: number | null = null;
+  let liquidationRatio: number | null = null;
+
+  if (isPair) {
+    // Ratio change when a single leg reaches its liquidation price
+    const ratioMoves = legs.map((leg, i) => {
+      const weight = legWeights[i];
+      const priceFactor = leg.liquidationPrice / leg.entryPrice;
+      const ratioFactor = leg.side === "LONG" ? priceFactor ** weight : priceFactor ** -weight;
+      return (1 - ratioFactor) * 100;
+    });
+    movePercent = Math.min(...ratioMoves);
+
+    const longPx = getBasketPrice(input.longAssets, meta);
+    const shortPx = getBasketPrice(input.shortAssets, meta);
+    if (longPx && shortPx) {
+      entryRatio = longPx / shortPx;
+      liquidationRatio = entryRatio * (1 - movePercent / 100);
+    }
+  }
+
+  return {
+    notionalUsd,
+    marginUsd: notionalUsd / input.leverage,
+    leverage: input.leverage,
+    maxLeverage,
+    legs,
+    entryRatio,
+    liquidationRatio,
+    movePercent,
+  };
+}
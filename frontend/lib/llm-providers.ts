@@ -0,0 +1,383 @@
+/**
+ * LLM Providers
+ *
+ * Chat-completion backends for the AI routes, tried in order until one
+ * returns a response that parses.
+ *
+ * Providers:
+ * - `openai`: any OpenAI-compatible endpoint (LLM_BASE_URL, LLM_API_KEY, LLM_MODEL).
+ *   Defaults to Inception's Mercury; INCEPTION_API_KEY is still accepted as the key.
+ * - `local`: a llama.cpp or Ollama server (LOCAL_LLM_URL, LOCAL_LLM_MODEL,
+ *   LOCAL_LLM_API=ollama|llamacpp)
+ * - `rules`: deterministic heuristics supplied by the caller, never fails
+ *
+ * Chains are configured per route with LLM_PROVIDERS_<ROUTE> (e.g.
+ * LLM_PROVIDERS_MARKET_SIGNAL=local,openai,rules), falling back to LLM_PROVIDERS,
+ * then to every configured remote provider followed by `rules`.
+ * Timeouts use LLM_TIMEOUT_MS_<ROUTE>, then LLM_TIMEOUT_MS, then the route default.
+ */
+
+export type LlmProviderName = "openai" | "local" | "rules";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * Deterministic response used by the `rules` provider
+   */
+  ruleBasedResponse?: () => string;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  isConfigured(): boolean;
+  complete(request: LlmCompletionRequest, signal: AbortSignal): Promise<string>;
+}
+
+/**
+ * Custom error class for LLM provider errors
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    public provider?: LlmProviderName,
+    public statusCode?: number,
+    public response?: unknown
+  ) {
+    super(message);
+    this.name = "LlmProviderError";
+  }
+}
+
+/**
+ * Thrown when every provider in a chain failed
+ */
+export class LlmChainError extends Error {
+  constructor(
+    message: string,
+    public attempts: Array<{ provider: LlmProviderName; error: string }>
+  ) {
+    super(message);
+    this.name = "LlmChainError";
+  }
+}
+
+/**
+ * OpenAI-compatible chat completion request format.
+ */
+interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+}
+
+/**
+ * OpenAI-compatible chat completion response format.
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+/**
+ * Ollama /api/chat response format (stream: false).
+ */
+interface OllamaChatResponse {
+  message?: {
+    content?: string;
+  };
+}
+
+async function providerRequest<T>(
+  provider: LlmProviderName,
+  url: string,
+  options: RequestInit
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, options);
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new LlmProviderError("Request timed out", provider);
+    }
+    throw new LlmProviderError(
+      `Failed to reach ${provider} provider: ${error instanceof Error ? error.message : "Unknown error"}`,
+      provider
+    );
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "Unknown error");
+    throw new LlmProviderError(
+      `${provider} provider error: ${response.status} - ${errorText.slice(0, 300)}`,
+      provider,
+      response.status,
+      errorText
+    );
+  }
+
+  return response.json() as Promise<T>;
+}
+
+function toChatCompletionRequest(model: string, request: LlmCompletionRequest): ChatCompletionRequest {
+  return {
+    model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+  };
+}
+
+function getChatCompletionContent(provider: LlmProviderName, data: ChatCompletionResponse): string {
+  const content = data.choices?.[0]?.message?.content;
+  if (!content) {
+    throw new LlmProviderError("Provider returned empty response", provider);
+  }
+  return content;
+}
+
+// ============================================
+// OpenAI-compatible
+// ============================================
+
+const DEFAULT_LLM_BASE_URL = "https://api.inceptionlabs.ai/v1";
+const DEFAULT_LLM_MODEL = "mercury";
+
+class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = "openai" as const;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string | undefined,
+    private readonly model: string
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async complete(request: LlmCompletionRequest, signal: AbortSignal): Promise<string> {
+    if (!this.apiKey) {
+      throw new LlmProviderError("LLM_API_KEY not configured", this.name);
+    }
+
+    const data = await providerRequest<ChatCompletionResponse>(this.name, `${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(toChatCompletionRequest(this.model, request)),
+      signal,
+    });
+
+    return getChatCompletionContent(this.name, data);
+  }
+}
+
+// ============================================
+// Local llama.cpp / Ollama
+// ============================================
+
+class LocalLlmProvider implements LlmProvider {
+  readonly name = "local" as const;
+
+  constructor(
+    private readonly baseUrl: string | undefined,
+    private readonly model: string,
+    private readonly api: "ollama" | "llamacpp"
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  async complete(request: LlmCompletionRequest, signal: AbortSignal): Promise<string> {
+    if (!this.baseUrl) {
+      throw new LlmProviderError("LOCAL_LLM_URL not configured", this.name);
+    }
+
+    if (this.api === "llamacpp") {
+      // llama.cpp's server speaks the OpenAI chat format without auth
+      const data = await providerRequest<ChatCompletionResponse>(this.name, `${this.baseUrl}/v1/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toChatCompletionRequest(this.model, request)),
+        signal,
+      });
+      return getChatCompletionContent(this.name, data);
+    }
+
+    const data = await providerRequest<OllamaChatResponse>(this.name, `${this.baseUrl}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.model,
+        messages: request.messages,
+        stream: false,
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      }),
+      signal,
+    });
+
+    if (!data.message?.content) {
+      throw new LlmProviderError("Provider returned empty response", this.name);
+    }
+    return data.message.content;
+  }
+}
+
+// ============================================
+// Rule-based
+// ============================================
+
+class RuleBasedProvider implements LlmProvider {
+  readonly name = "rules" as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    if (!request.ruleBasedResponse) {
+      throw new LlmProviderError("No rule-based response for this request", this.name);
+    }
+    return request.ruleBasedResponse();
+  }
+}
+
+// ============================================
+// Provider selection
+// ============================================
+
+const PROVIDER_NAMES: LlmProviderName[] = ["openai", "local", "rules"];
+
+let providers: Record<LlmProviderName, LlmProvider> | null = null;
+
+/**
+ * Get a provider instance (created once from env config)
+ */
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  if (!providers) {
+    providers = {
+      openai: new OpenAICompatibleProvider(
+        (process.env.LLM_BASE_URL || DEFAULT_LLM_BASE_URL).replace(/\/$/, ""),
+        process.env.LLM_API_KEY || process.env.INCEPTION_API_KEY,
+        process.env.LLM_MODEL || DEFAULT_LLM_MODEL
+      ),
+      local: new LocalLlmProvider(
+        process.env.LOCAL_LLM_URL?.replace(/\/$/, ""),
+        process.env.LOCAL_LLM_MODEL || "llama3.1",
+        process.env.LOCAL_LLM_API === "llamacpp" ? "llamacpp" : "ollama"
+      ),
+      rules: new RuleBasedProvider(),
+    };
+  }
+  return providers[name];
+}
+
+/**
+ * "market-signal" -> "MARKET_SIGNAL"
+ */
+function toEnvSuffix(route: string): string {
+  return route.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+/**
+ * Resolve the provider chain for a route. Unconfigured providers are dropped.
+ */
+export function getProviderChain(route: string): LlmProvider[] {
+  const configured =
+    process.env[`LLM_PROVIDERS_${toEnvSuffix(route)}`] || process.env.LLM_PROVIDERS;
+
+  const names = configured
+    ? configured
+        .split(",")
+        .map((name) => name.trim().toLowerCase())
+        .filter((name): name is LlmProviderName => {
+          const known = (PROVIDER_NAMES as string[]).includes(name);
+          if (!known && name) {
+            console.warn(`[LLM] Ignoring unknown provider "${name}" for ${route}`);
+          }
+          return known;
+        })
+    : PROVIDER_NAMES;
+
+  return Array.from(new Set(names))
+    .map(getLlmProvider)
+    .filter((provider) => provider.isConfigured());
+}
+
+/**
+ * Resolve the per-attempt timeout for a route
+ */
+export function getProviderTimeout(route: string, defaultTimeoutMs: number): number {
+  const configured = Number(
+    process.env[`LLM_TIMEOUT_MS_${toEnvSuffix(route)}`] || process.env.LLM_TIMEOUT_MS
+  );
+  return Number.isFinite(configured) && configured > 0 ? configured : defaultTimeoutMs;
+}
+
+export interface LlmResult<T> {
+  data: T;
+  provider: LlmProviderName;
+}
+
+/**
+ * Run a completion through the route's provider chain. A provider that
+ * errors, times out, or returns a response `parse` rejects is skipped.
+ *
+ * @param route - Route name used for env config (e.g. "market-signal")
+ * @param request - Prompt and rule-based fallback
+ * @param parse - Turns response text into the route's result; throw to reject
+ * @param defaultTimeoutMs - Per-provider timeout when not configured in env
+ * @throws LlmChainError when no provider produced a usable response
+ */
+export async function completeWithFallback<T>(
+  route: string,
+  request: LlmCompletionRequest,
+  parse: (text: string) => T,
+  defaultTimeoutMs: number
+): Promise<LlmResult<T>> {
+  const chain = getProviderChain(route);
+  const timeoutMs = getProviderTimeout(route, defaultTimeoutMs);
+  const attempts: Array<{ provider: LlmProviderName; error: string }> = [];
+
+  for (const provider of chain) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const text = await provider.complete(request, controller.signal);
+      return { data: parse(text), provider: provider.name };
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `Timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : "Unknown error";
+      attempts.push({ provider: provider.name, error: message });
+      console.error(`[LLM] ${provider.name} failed for ${route}:`, message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw new LlmChainError(
+    chain.length === 0
+      ? `No LLM providers configured for ${route}`
+      : `All LLM providers failed for ${route}`,
+    attempts
+  );
+}
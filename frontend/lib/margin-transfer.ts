@@ -0,0 +1,61 @@
+/**
+ * Margin Transfer
+ *
+ * Hyperliquid keeps spot and perps USDC in separate balances, and orders only
+ * draw on perps. When an order is short on margin, these helpers work out how
+ * much spot USDC to move across (a `usdClassTransfer`, signed by the user).
+ */
+
+const HYPERLIQUID_API = "https://api.hyperliquid.xyz/info";
+
+// Headroom on top of the shortfall so fee and price drift don't reject the retry
+export const MARGIN_TOP_UP_BUFFER_USDC = 1;
+
+interface SpotClearinghouseState {
+  balances: Array<{ coin: string; token: number; hold: string; total: string }>;
+}
+
+function roundUpCents(value: number): number {
+  return Math.ceil(value * 100 - 1e-6) / 100;
+}
+
+function roundDownCents(value: number): number {
+  return Math.floor(value * 100 + 1e-6) / 100;
+}
+
+/**
+ * Spot USDC the user can move to perps (total less any held for open spot orders)
+ */
+export async function getSpotUsdc(address: string): Promise<number> {
+  const response = await fetch(HYPERLIQUID_API, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ type: "spotClearinghouseState", user: address }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hyperliquid spot balance error: ${response.status}`);
+  }
+
+  const state = (await response.json()) as SpotClearinghouseState;
+  const usdc = state.balances?.find((b) => b.coin === "USDC");
+  if (!usdc) return 0;
+
+  return Math.max(0, (parseFloat(usdc.total) || 0) - (parseFloat(usdc.hold) || 0));
+}
+
+/**
+ * Amount to move from spot to perps so an order needing `requiredUsdc` fits.
+ * Includes MARGIN_TOP_UP_BUFFER_USDC when spot can spare it.
+ * @returns null if perps already covers it or spot can't make up the difference
+ */
+export function getSuggestedTopUp(requiredUsdc: number, perpUsdc: number, spotUsdc: number): number | null {
+  const shortfall = requiredUsdc - perpUsdc;
+  if (shortfall <= 0) return null;
+
+  const withBuffer = roundUpCents(shortfall + MARGIN_TOP_UP_BUFFER_USDC);
+  if (withBuffer <= spotUsdc) return withBuffer;
+
+  const available = roundDownCents(spotUsdc);
+  return available >= roundUpCents(shortfall) ? available : null;
+}
@@ -0,0 +1,162 @@
+/**
+ * Market Constraints
+ *
+ * Hyperliquid's per-asset limits, applied to an order before it is sent:
+ * minimum notional per leg, tier-aware max leverage and size decimals. Nothing
+ * is adjusted silently; every change comes back as a warning the user has to
+ * accept (see /api/positions/create).
+ */
+
+import { MIN_NOTIONAL_PER_ASSET, getMaxLeverageAt } from "@/lib/liquidation";
+import type { ConstraintWarning, HlAssetMeta, MarketAsset, PearMarket } from "@/types/trade";
+
+// Hyperliquid rejects orders below $10 of notional
+const HL_MIN_ORDER_USD = 10;
+
+export interface ConstraintInput {
+  longAssets: MarketAsset[];
+  shortAssets: MarketAsset[];
+  usdValue: number;
+  leverage: number;
+}
+
+export interface ConstrainedLeg {
+  asset: string;
+  notionalUsd: number;
+  size: number; // in coins, rounded down to szDecimals
+}
+
+export interface ConstrainedOrder {
+  usdValue: number;
+  leverage: number;
+  legs: ConstrainedLeg[];
+  warnings: ConstraintWarning[];
+}
+
+/**
+ * Thrown when an order can't be made to fit, e.g. an asset isn't listed
+ */
+export class MarketConstraintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MarketConstraintError";
+  }
+}
+
+function findMeta(assets: Map<string, HlAssetMeta>, coin: string): HlAssetMeta | undefined {
+  return assets.get(coin) ?? assets.get(coin.toUpperCase());
+}
+
+function roundUpCents(value: number): number {
+  return Math.ceil(value * 100 - 1e-6) / 100;
+}
+
+function formatUsd(value: number): string {
+  return `$${Number.isInteger(value) ? value : value.toFixed(2)}`;
+}
+
+/**
+ * Smallest notional a leg in this coin can be sent with. Sizes are rounded
+ * down to szDecimals, so a leg needs one size increment on top of the $10
+ * minimum to still clear it after rounding.
+ */
+export function getMinLegNotional(meta: HlAssetMeta): number {
+  const increment = meta.markPx ? 10 ** -meta.szDecimals * meta.markPx : 0;
+  return roundUpCents(Math.max(MIN_NOTIONAL_PER_ASSET, HL_MIN_ORDER_USD + increment));
+}
+
+/**
+ * Each leg's share of the order's notional: split evenly between sides, then
+ * by weight within a side
+ */
+function getLegShares(input: Pick<ConstraintInput, "longAssets" | "shortAssets">): Array<{ asset: string; share: number }> {
+  const sides = [input.longAssets, input.shortAssets].filter((assets) => assets.length > 0);
+
+  return sides.flatMap((assets) => {
+    const totalWeight = assets.reduce((sum, a) => sum + a.weight, 0);
+    return assets.map((a) => ({
+      asset: a.asset,
+      share: (1 / sides.length) * (totalWeight > 0 ? a.weight / totalWeight : 1 / assets.length),
+    }));
+  });
+}
+
+/**
+ * Fit an order to Hyperliquid's limits: raise the size until every leg clears
+ * its minimum notional, then lower leverage to the lowest max leverage across
+ * legs at that size.
+ *
+ * @throws MarketConstraintError if an asset isn't listed
+ */
+export function applyMarketConstraints(
+  input: ConstraintInput,
+  assets: Map<string, HlAssetMeta>
+): ConstrainedOrder {
+  const shares = getLegShares(input).map((leg) => {
+    const meta = findMeta(assets, leg.asset);
+    if (!meta) {
+      throw new MarketConstraintError(`${leg.asset} is not listed on Hyperliquid`);
+    }
+    return { ...leg, meta };
+  });
+
+  if (shares.length === 0) {
+    throw new MarketConstraintError("Position must have at least one asset");
+  }
+
+  const warnings: ConstraintWarning[] = [];
+
+  const minUsdValue = roundUpCents(Math.max(...shares.map((leg) => getMinLegNotional(leg.meta) / leg.share)));
+  const usdValue = Math.max(input.usdValue, minUsdValue);
+  if (usdValue > input.usdValue) {
+    warnings.push({
+      code: "SIZE_RAISED",
+      message: `Hyperliquid needs at least $${HL_MIN_ORDER_USD} per leg, so size goes from ${formatUsd(input.usdValue)} to ${formatUsd(usdValue)}`,
+      requested: input.usdValue,
+      applied: usdValue,
+    });
+  }
+
+  const maxLeverage = Math.min(
+    ...shares.map((leg) => getMaxLeverageAt(usdValue * leg.share, leg.meta.marginTiers))
+  );
+  const leverage = Math.min(input.leverage, maxLeverage);
+  if (leverage < input.leverage) {
+    const limiting = shares.find((leg) => getMaxLeverageAt(usdValue * leg.share, leg.meta.marginTiers) === maxLeverage)!;
+    warnings.push({
+      code: "LEVERAGE_LOWERED",
+      message: `${limiting.meta.coin} allows up to ${maxLeverage}x at this size, so leverage goes from ${input.leverage}x to ${maxLeverage}x`,
+      requested: input.leverage,
+      applied: maxLeverage,
+    });
+  }
+
+  const legs = shares.map((leg) => {
+    const notionalUsd = usdValue * leg.share;
+    const factor = 10 ** leg.meta.szDecimals;
+    return {
+      asset: leg.meta.coin,
+      notionalUsd,
+      size: leg.meta.markPx ? Math.floor((notionalUsd / leg.meta.markPx) * factor) / factor : 0,
+    };
+  });
+
+  return { usdValue, leverage, legs, warnings };
+}
+
+/**
+ * Highest leverage every traded asset in a market allows at its smallest
+ * size, or undefined if any asset is missing from the meta. One-directional
+ * markets only trade their primary asset.
+ */
+export function getMarketMaxLeverage(
+  market: Pick<PearMarket, "longAssets" | "shortAssets" | "positionType">,
+  assets: Map<string, HlAssetMeta>
+): number | undefined {
+  const traded = [...market.longAssets, ...market.shortAssets];
+  const metas = (market.positionType === "one_directional" ? traded.slice(0, 1) : traded).map((a) =>
+    findMeta(assets, a.asset)
+  );
+  if (metas.length === 0 || metas.some((m) => !m)) return undefined;
+  return Math.min(...metas.map((m) => m!.maxLeverage));
+}
@@ -5,7 +5,7 @@
  * including position type detection and market display formatting.
  */
 
-import type { MarketAsset, PositionType } from "@/types/trade";
+import type { MarketAsset, OrderTicket, PositionType, TradeCard, TradeCardSnapshot } from "@/types/trade";
 
 /**
  * Minimum weight threshold (as percentage) to consider an asset side as "meaningful".
@@ -134,3 +134,69 @@ export function generateDisplayName(
 
   return "UNKNOWN MARKET";
 }
+
+/**
+ * Canonical "LONG:A,B|SHORT:C" key for a set of position legs.
+ *
+ * @param longCoins - Long leg coins, any order or case
+ * @param shortCoins - Short leg coins, any order or case
+ */
+export function getLegsKey(longCoins: string[], shortCoins: string[]): string {
+  const side = (coins: string[]) => coins.map((c) => c.toUpperCase()).sort().join(",");
+  return `LONG:${side(longCoins)}|SHORT:${side(shortCoins)}`;
+}
+
+/**
+ * Legs key for the position a swiped card opens.
+ * One-directional cards open a single leg on the ticker, per /api/positions/create.
+ *
+ * @param card - Card (or journal snapshot) that was swiped
+ * @returns Key comparable with getLegsKey() of an open position
+ */
+export function getCardLegsKey(
+  card: Pick<TradeCardSnapshot, "positionType" | "direction" | "ticker" | "longAssets" | "shortAssets">
+): string {
+  if (card.positionType === "relative_pair") {
+    return getLegsKey(
+      (card.longAssets ?? []).map((a) => a.asset),
+      (card.shortAssets ?? []).map((a) => a.asset)
+    );
+  }
+  return card.direction === "LONG" ? getLegsKey([card.ticker], []) : getLegsKey([], [card.ticker]);
+}
+
+/**
+ * Direction-agnostic key for a market: a pair and its flip, or a single's
+ * long and short, are the same market. Works on Pear markets, cards and
+ * journal snapshots.
+ */
+export function getMarketKey(market: {
+  ticker?: string;
+  longAssets?: MarketAsset[];
+  shortAssets?: MarketAsset[];
+}): string {
+  const legs = [...(market.longAssets ?? []), ...(market.shortAssets ?? [])].map((a) => a.asset.toUpperCase());
+  const assets = legs.length > 0 ? legs : market.ticker ? [market.ticker.toUpperCase()] : [];
+  return Array.from(new Set(assets)).sort().join(",");
+}
+
+/**
+ * Card as it will be traded with an order ticket's leverage and direction.
+ * Pairs always go long their long basket, so flipping a relative pair swaps
+ * the baskets and keeps the card's direction.
+ *
+ * @param trade - Card as dealt
+ * @param ticket - Overrides from the order ticket
+ * @returns A copy of the card; the original is unchanged
+ */
+export function applyOrderTicket(trade: TradeCard, ticket: Pick<OrderTicket, "leverage" | "direction">): TradeCard {
+  const flipped = ticket.direction !== trade.direction;
+
+  if (trade.positionType === "relative_pair") {
+    return flipped
+      ? { ...trade, leverage: ticket.leverage, longAssets: trade.shortAssets, shortAssets: trade.longAssets }
+      : { ...trade, leverage: ticket.leverage };
+  }
+
+  return { ...trade, direction: ticket.direction, leverage: ticket.leverage };
+}
@@ -0,0 +1,186 @@
+/**
+ * Pre-trade Quotes
+ *
+ * Simulates a market entry against Hyperliquid L2 book snapshots: average
+ * fill, price impact and fees per leg. Legs are sized like
+ * /api/positions/create: the notional is split evenly between sides, then by
+ * weight within a side.
+ */
+
+import { MIN_NOTIONAL_PER_ASSET } from '@/lib/liquidation';
+import { MAX_SLIPPAGE } from '@/lib/orders';
+import { REQUIRED_MAX_RATE_FEE_FOR_BUILDER } from '@/types';
+import type { MarketAsset, OrderQuote, OrderQuoteLeg, PositionType } from '@/types/trade';
+
+const HYPERLIQUID_API = 'https://api.hyperliquid.xyz/info';
+
+// Books move fast; this only shares a snapshot between quotes fired together
+const BOOK_CACHE_TTL_MS = 2 * 1000;
+
+const BUILDER_FEE_RATE = REQUIRED_MAX_RATE_FEE_FOR_BUILDER / 100_000;
+// Hyperliquid's base-tier perp taker fee (0.045%); volume discounts aren't applied
+const TAKER_FEE_RATE = 0.00045;
+
+// Slippage sent with an order: the worst leg's impact with headroom for the book moving
+const SLIPPAGE_IMPACT_MULTIPLIER = 1.5;
+const SLIPPAGE_BUFFER = 0.002;
+const MIN_QUOTED_SLIPPAGE = 0.003;
+
+export interface QuoteInput {
+  positionType: PositionType;
+  direction: 'LONG' | 'SHORT';
+  longAssets: MarketAsset[];
+  shortAssets: MarketAsset[];
+  usdValue: number;
+}
+
+interface BookLevel {
+  px: number;
+  sz: number;
+}
+
+interface L2Book {
+  bids: BookLevel[]; // best first
+  asks: BookLevel[];
+}
+
+interface RawL2Book {
+  levels: [Array<{ px: string; sz: string }>, Array<{ px: string; sz: string }>];
+}
+
+const bookCache = new Map<string, { book: L2Book; timestamp: number }>();
+
+async function fetchL2Book(coin: string): Promise<L2Book> {
+  const cached = bookCache.get(coin);
+  if (cached && Date.now() - cached.timestamp < BOOK_CACHE_TTL_MS) {
+    return cached.book;
+  }
+
+  const response = await fetch(HYPERLIQUID_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type: 'l2Book', coin }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hyperliquid l2Book error for ${coin}: ${response.status}`);
+  }
+
+  const raw = (await response.json()) as RawL2Book | null;
+  if (!raw?.levels) {
+    throw new Error(`No order book for ${coin}`);
+  }
+
+  const toLevels = (levels: Array<{ px: string; sz: string }>) =>
+    levels.map((l) => ({ px: parseFloat(l.px), sz: parseFloat(l.sz) })).filter((l) => l.px > 0 && l.sz > 0);
+  const book = { bids: toLevels(raw.levels[0]), asks: toLevels(raw.levels[1]) };
+
+  bookCache.set(coin, { book, timestamp: Date.now() });
+  return book;
+}
+
+/**
+ * Per-leg side and notional, sized like /api/positions/create
+ */
+export function getQuoteLegs(input: QuoteInput): Array<{ asset: string; side: 'LONG' | 'SHORT'; notionalUsd: number }> {
+  const primary = input.longAssets[0] ?? input.shortAssets[0];
+  const sides: Array<{ side: 'LONG' | 'SHORT'; assets: MarketAsset[] }> =
+    input.positionType === 'relative_pair'
+      ? ([
+          { side: 'LONG', assets: input.longAssets },
+          { side: 'SHORT', assets: input.shortAssets },
+        ] as const).filter((s) => s.assets.length > 0).map((s) => ({ side: s.side, assets: s.assets }))
+      : primary
+        ? [{ side: input.direction, assets: [{ asset: primary.asset, weight: 1 }] }]
+        : [];
+
+  const legCount = sides.reduce((n, s) => n + s.assets.length, 0);
+  const notionalUsd = Math.max(input.usdValue, MIN_NOTIONAL_PER_ASSET * legCount);
+
+  return sides.flatMap(({ side, assets }) => {
+    const totalWeight = assets.reduce((sum, a) => sum + a.weight, 0);
+    return assets.map((a) => ({
+      asset: a.asset.toUpperCase(),
+      side,
+      notionalUsd:
+        (notionalUsd / sides.length) * (totalWeight > 0 ? a.weight / totalWeight : 1 / assets.length),
+    }));
+  });
+}
+
+/**
+ * Walk book levels until `notionalUsd` is filled.
+ *
+ * @returns Average fill price (null if the side is empty) and the notional the book could absorb
+ */
+export function simulateFill(levels: BookLevel[], notionalUsd: number): { avgPrice: number | null; filledUsd: number } {
+  let remaining = notionalUsd;
+  let filledUsd = 0;
+  let filledSize = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, level.px * level.sz);
+    filledUsd += take;
+    filledSize += take / level.px;
+    remaining -= take;
+  }
+
+  return { avgPrice: filledSize > 0 ? filledUsd / filledSize : null, filledUsd };
+}
+
+async function quoteLeg(leg: { asset: string; side: 'LONG' | 'SHORT'; notionalUsd: number }): Promise<OrderQuoteLeg> {
+  const book = await fetchL2Book(leg.asset);
+  const bestBid = book.bids[0]?.px;
+  const bestAsk = book.asks[0]?.px;
+  const midPrice = bestBid && bestAsk ? (bestBid + bestAsk) / 2 : bestBid ?? bestAsk ?? 0;
+
+  const { avgPrice, filledUsd } = simulateFill(leg.side === 'LONG' ? book.asks : book.bids, leg.notionalUsd);
+
+  return {
+    asset: leg.asset,
+    side: leg.side,
+    notionalUsd: leg.notionalUsd,
+    midPrice,
+    avgPrice,
+    impactPct: avgPrice !== null && midPrice > 0 ? (Math.abs(avgPrice - midPrice) / midPrice) * 100 : null,
+    // Allow for float drift when the last level is taken exactly
+    fullyFilled: filledUsd >= leg.notionalUsd * 0.999,
+  };
+}
+
+/**
+ * Quote a market entry: expected average prices, price impact, taker and
+ * builder fees, and the slippage to send with the order.
+ */
+export async function quoteOrder(input: QuoteInput): Promise<OrderQuote> {
+  const legs = await Promise.all(getQuoteLegs(input).map(quoteLeg));
+  if (legs.length === 0) {
+    throw new Error('Order has no legs to quote');
+  }
+
+  const notionalUsd = legs.reduce((sum, l) => sum + l.notionalUsd, 0);
+  const impactUsd = legs.reduce((sum, l) => sum + (l.notionalUsd * (l.impactPct ?? 0)) / 100, 0);
+  const worstImpactPct = Math.max(...legs.map((l) => l.impactPct ?? 0));
+  const takerFeeUsd = notionalUsd * TAKER_FEE_RATE;
+  const builderFeeUsd = notionalUsd * BUILDER_FEE_RATE;
+  const canFill = legs.every((l) => l.fullyFilled && l.avgPrice !== null);
+
+  return {
+    notionalUsd,
+    legs,
+    impactPct: notionalUsd > 0 ? (impactUsd / notionalUsd) * 100 : 0,
+    worstImpactPct,
+    impactUsd,
+    takerFeeUsd,
+    builderFeeUsd,
+    expectedCostUsd: impactUsd + takerFeeUsd + builderFeeUsd,
+    suggestedSlippage: canFill
+      ? Math.min(
+          MAX_SLIPPAGE,
+          Math.max(MIN_QUOTED_SLIPPAGE, (worstImpactPct / 100) * SLIPPAGE_IMPACT_MULTIPLIER + SLIPPAGE_BUFFER)
+        )
+      : null,
+    quotedAt: Date.now(),
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Order Entry Utilities
+ *
+ * Validation and Pear payload helpers for how an order enters: market with a
+ * slippage limit, limit, TWAP or ladder. Shared by the order ticket (for
+ * inline feedback) and /api/positions/create (authoritative server-side
+ * validation before anything is sent to Pear).
+ */
+
+import { MIN_NOTIONAL_PER_ASSET } from "@/lib/liquidation";
+import type { LadderSettings, OrderTicket, OrderType, TwapSettings } from "@/types/trade";
+
+export const ORDER_TYPES: OrderType[] = ["MARKET", "LIMIT", "TWAP", "LADDER"];
+
+// Position size chips (USD) on the swipe deck, order ticket and watchlist
+export const SIZE_OPTIONS = [12, 15, 20];
+
+export const SLIPPAGE_OPTIONS = [0.005, 0.01, 0.02, 0.05];
+export const DEFAULT_SLIPPAGE = 0.02;
+export const MAX_SLIPPAGE = 0.1;
+
+export const TWAP_DURATION_OPTIONS = [15, 30, 60, 240]; // minutes
+export const DEFAULT_TWAP: TwapSettings = { durationMinutes: 30, randomize: false };
+const MIN_TWAP_MINUTES = 5;
+const MAX_TWAP_MINUTES = 24 * 60;
+
+export const LADDER_LEVEL_OPTIONS = [3, 5, 10];
+const DEFAULT_LADDER_LEVELS = 3;
+const MAX_LADDER_LEVELS = 20;
+// A new ladder runs from the last price to this far (percent) past it
+const DEFAULT_LADDER_SPREAD_PCT = 3;
+
+/**
+ * The parts of a ticket that decide how it enters
+ */
+export type OrderEntry = Pick<OrderTicket, "orderType" | "limitPrice" | "twap" | "ladder" | "slippage">;
+
+/**
+ * Position parameters an entry is validated against.
+ */
+export interface OrderEntryContext {
+  usdValue: number;
+  legCount: number;
+}
+
+function isPositive(value: number | null | undefined): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function roundPrice(value: number): number {
+  return Number(value.toPrecision(5));
+}
+
+/**
+ * Whether a better entry sits below the last price. Longs buy dips; pairs are
+ * always traded long the first basket, so they wait for a lower ratio. Only
+ * single-asset shorts wait for a higher price.
+ */
+export function entersBelow(isPair: boolean, direction: "LONG" | "SHORT"): boolean {
+  return isPair || direction === "LONG";
+}
+
+/**
+ * Limit entry `offsetPct` percent better than the reference price
+ */
+export function getSuggestedEntry(referencePrice: number, offsetPct: number, below: boolean): number {
+  return roundPrice(referencePrice * (1 + ((below ? -1 : 1) * offsetPct) / 100));
+}
+
+/**
+ * Starting ladder for the ticket: from the reference price to a few percent past it
+ */
+export function getDefaultLadder(referencePrice: number, below: boolean): LadderSettings {
+  return {
+    start: roundPrice(referencePrice),
+    end: getSuggestedEntry(referencePrice, DEFAULT_LADDER_SPREAD_PCT, below),
+    levels: DEFAULT_LADDER_LEVELS,
+  };
+}
+
+/**
+ * Evenly spaced level prices, first to last
+ */
+export function getLadderPrices(ladder: LadderSettings): number[] {
+  if (ladder.levels < 2) return [ladder.start];
+  const step = (ladder.end - ladder.start) / (ladder.levels - 1);
+  return Array.from({ length: ladder.levels }, (_, i) => roundPrice(ladder.start + step * i));
+}
+
+function validateSlippage(slippage: number): string | null {
+  if (!isPositive(slippage) || slippage > MAX_SLIPPAGE) {
+    return `Slippage must be between 0% and ${MAX_SLIPPAGE * 100}%`;
+  }
+  return null;
+}
+
+/**
+ * Validate an entry against the final size and leg count.
+ *
+ * @returns An error message, or null if the entry is valid
+ */
+export function validateOrderEntry(entry: OrderEntry, ctx: OrderEntryContext): string | null {
+  switch (entry.orderType) {
+    case "MARKET":
+      return validateSlippage(entry.slippage);
+
+    case "LIMIT":
+      if (!isPositive(entry.limitPrice)) {
+        return "Enter a limit price";
+      }
+      // Slippage goes to Pear with every order type, so it is checked for all of them
+      return validateSlippage(entry.slippage);
+
+    case "TWAP": {
+      const duration = entry.twap?.durationMinutes;
+      if (!Number.isInteger(duration) || duration! < MIN_TWAP_MINUTES || duration! > MAX_TWAP_MINUTES) {
+        return `TWAP duration must be between ${MIN_TWAP_MINUTES} minutes and ${MAX_TWAP_MINUTES / 60} hours`;
+      }
+      return validateSlippage(entry.slippage);
+    }
+
+    case "LADDER": {
+      const ladder = entry.ladder;
+      if (!ladder || !isPositive(ladder.start) || !isPositive(ladder.end)) {
+        return "Enter the ladder's first and last price";
+      }
+      if (ladder.start === ladder.end) {
+        return "Ladder levels need two different prices";
+      }
+      if (!Number.isInteger(ladder.levels) || ladder.levels < 2 || ladder.levels > MAX_LADDER_LEVELS) {
+        return `Ladder needs 2 to ${MAX_LADDER_LEVELS} levels`;
+      }
+      // Every level is its own order, so each slice must clear Hyperliquid's minimum per leg
+      const minUsdValue = MIN_NOTIONAL_PER_ASSET * Math.max(1, ctx.legCount) * ladder.levels;
+      if (ctx.usdValue < minUsdValue) {
+        return `${ladder.levels} levels need at least $${minUsdValue}. Use fewer levels or a bigger size`;
+      }
+      return validateSlippage(entry.slippage);
+    }
+
+    default:
+      return `orderType must be one of ${ORDER_TYPES.join(", ")}`;
+  }
+}
+
+/**
+ * Convert an entry to Pear's execution fields. LIMIT orders are sent as
+ * trigger orders: single assets trigger on price, pairs on the weighted
+ * long/short ratio.
+ *
+ * @param assetName - The coin for single-asset orders, null for pairs
+ * @param below - See entersBelow
+ */
+export function toPearExecution(
+  entry: OrderEntry,
+  { assetName, below }: { assetName: string | null; below: boolean }
+): Record<string, unknown> {
+  switch (entry.orderType) {
+    case "LIMIT":
+      return {
+        executionType: "TRIGGER",
+        triggerType: assetName ? "PRICE" : "WEIGHTED_RATIO",
+        triggerValue: entry.limitPrice,
+        ...(assetName ? { assetName } : {}),
+        direction: below ? "LESS_THAN" : "MORE_THAN",
+      };
+    case "TWAP":
+      return {
+        executionType: "TWAP",
+        twapDuration: entry.twap!.durationMinutes,
+        randomizeExecution: entry.twap!.randomize,
+      };
+    case "LADDER":
+      return {
+        executionType: "LADDER",
+        ladderConfig: {
+          ratioStart: entry.ladder!.start,
+          ratioEnd: entry.ladder!.end,
+          numberOfLevels: entry.ladder!.levels,
+        },
+      };
+    default:
+      return { executionType: "MARKET" };
+  }
+}
@@ -1,4 +1,5 @@
 import { useUserStore } from '@/store/userStore';
+import type { PearTpSlThreshold } from '@/lib/tpsl';
 
 const PEAR_API_BASE_URL = 'https://hl-v2.pearprotocol.io';
 const MAX_RETRIES = 3;
@@ -248,11 +249,259 @@ export interface AccountSummary {
 /**
  * Get account summary including agent wallet status.
  * This is the single source of truth for user setup status.
+ *
+ * @param authorization Caller's bearer token, for server routes; the browser uses the stored token
  */
-export async function getAccountSummary() {
+export async function getAccountSummary(authorization?: string) {
+  if (authorization) {
+    return pearApiRequest<AccountSummary>(
+      '/accounts',
+      { method: 'GET', headers: forwardAuthHeaders(authorization) }
+    );
+  }
   return pearApiRequest<AccountSummary>(
     '/accounts',
     { method: 'GET' },
     true
   );
 }
+
+// Sessions already checked against Pear, by token
+const SESSION_CACHE_TTL_MS = 5 * 60 * 1000;
+const sessionCache = new Map<string, { address: string; expiresAt: number }>();
+
+/**
+ * Read the claims of a JWT without verifying it
+ */
+function decodeTokenClaims(token: string): Record<string, unknown> | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the wallet address behind a caller's Pear session, for server
+ * routes that key data by address. The token is checked with Pear before
+ * its address claim is trusted; results are cached briefly per token.
+ *
+ * @param authorization Caller's `Bearer <token>` header
+ * @returns Lowercased EVM address
+ * @throws PearApiException (401) if the session is missing, invalid or has no address
+ */
+export async function getSessionAddress(authorization: string | null): Promise<string> {
+  const token = authorization?.replace(/^Bearer\s+/i, '');
+  if (!authorization || !token) {
+    throw new PearApiException('Authorization required', 401);
+  }
+
+  const now = Date.now();
+  const cached = sessionCache.get(token);
+  if (cached && cached.expiresAt > now) {
+    return cached.address;
+  }
+
+  const claims = decodeTokenClaims(token);
+  const address = [claims?.address, claims?.walletAddress, claims?.sub].find(
+    (value): value is string => typeof value === 'string' && /^0x[a-fA-F0-9]{40}$/.test(value)
+  );
+  if (!address) {
+    throw new PearApiException('Session has no wallet address', 401);
+  }
+
+  // Throws if Pear doesn't accept the token
+  await getAccountSummary(authorization);
+
+  const tokenExpiry = typeof claims?.exp === 'number' ? claims.exp * 1000 : Infinity;
+  sessionCache.set(token, {
+    address: address.toLowerCase(),
+    expiresAt: Math.min(now + SESSION_CACHE_TTL_MS, tokenExpiry),
+  });
+  return address.toLowerCase();
+}
+
+/**
+ * Build request headers that forward a caller's Pear bearer token.
+ * Server routes receive the token from the browser and pass it through
+ * instead of reading it from the client-side store.
+ */
+function forwardAuthHeaders(authorization: string): Record<string, string> {
+  return { Authorization: authorization };
+}
+
+export interface PearPositionAsset {
+  coin: string;
+  entryPrice: number;
+  actualSize: number;
+  leverage: number;
+  marginUsed: number;
+  positionValue: number;
+  unrealizedPnl: number;
+  initialWeight?: number;
+}
+
+export interface PearPosition {
+  positionId: string;
+  leverage: number;
+  entryRatio?: number | null;
+  markRatio?: number | null;
+  positionValue: number;
+  marginUsed: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercentage?: number;
+  longAssets: PearPositionAsset[];
+  shortAssets: PearPositionAsset[];
+  takeProfit?: PearTpSlThreshold | null;
+  stopLoss?: PearTpSlThreshold | null;
+  createdAt?: string | number;
+}
+
+/**
+ * Get all open positions for the token holder.
+ */
+export async function getOpenPositions(authorization: string) {
+  return pearApiRequest<PearPosition[]>(
+    '/positions',
+    { method: 'GET', headers: forwardAuthHeaders(authorization) }
+  );
+}
+
+export interface PearTradeHistoryAsset {
+  coin: string;
+  entryPrice: number;
+  exitPrice?: number;
+  size?: number;
+}
+
+export interface PearTradeHistory {
+  tradeHistoryId: string;
+  positionId?: string | null;
+  orderId?: string | null;
+  realizedPnl: number;
+  realizedPnlPercentage?: number;
+  leverage?: number;
+  entryRatio?: number | null;
+  exitRatio?: number | null;
+  longAssets: PearTradeHistoryAsset[];
+  shortAssets: PearTradeHistoryAsset[];
+  openedAt?: string | number;
+  createdAt: string | number; // when the trade was closed
+}
+
+/**
+ * Get closed trades (realized PnL) for the token holder.
+ */
+export async function getTradeHistory(authorization: string) {
+  return pearApiRequest<PearTradeHistory[]>(
+    '/trade-history',
+    { method: 'GET', headers: forwardAuthHeaders(authorization) }
+  );
+}
+
+/**
+ * Close a position, fully or partially.
+ * @param percentage Share of the position to close (1-100). 100 closes it entirely.
+ */
+export async function closePosition(
+  authorization: string,
+  positionId: string,
+  percentage: number = 100
+) {
+  const encodedId = encodeURIComponent(positionId);
+
+  if (percentage >= 100) {
+    return pearApiRequest<{ orderId?: string }>(
+      `/positions/${encodedId}/close`,
+      {
+        method: 'POST',
+        headers: forwardAuthHeaders(authorization),
+        body: JSON.stringify({ executionType: 'MARKET' }),
+      }
+    );
+  }
+
+  return pearApiRequest<{ orderId?: string }>(
+    `/positions/${encodedId}/adjust`,
+    {
+      method: 'POST',
+      headers: forwardAuthHeaders(authorization),
+      body: JSON.stringify({
+        adjustmentType: 'REDUCE',
+        adjustmentSize: percentage,
+        executionType: 'MARKET',
+      }),
+    }
+  );
+}
+
+/**
+ * Replace the take-profit and stop-loss on an open position.
+ * Passing null for either side removes it.
+ */
+export async function updatePositionRiskParameters(
+  authorization: string,
+  positionId: string,
+  params: { takeProfit: PearTpSlThreshold | null; stopLoss: PearTpSlThreshold | null }
+) {
+  return pearApiRequest<unknown>(
+    `/positions/${encodeURIComponent(positionId)}/riskParameters`,
+    {
+      method: 'PUT',
+      headers: forwardAuthHeaders(authorization),
+      body: JSON.stringify(params),
+    }
+  );
+}
+
+export interface PearOpenOrderAsset {
+  asset: string;
+  weight: number;
+}
+
+export interface PearOpenOrder {
+  orderId: string;
+  orderType: string; // TRIGGER, TWAP, LADDER, ...
+  status?: string;
+  usdValue: number;
+  filledUsdValue?: number | null;
+  leverage?: number;
+  longAssets: PearOpenOrderAsset[];
+  shortAssets: PearOpenOrderAsset[];
+  triggerValue?: number | null;
+  twapDuration?: number | null; // minutes
+  ladderConfig?: { ratioStart: number; ratioEnd: number; numberOfLevels: number } | null;
+  createdAt?: string | number;
+}
+
+/**
+ * Get resting trigger, TWAP and ladder orders for the token holder.
+ */
+export async function getOpenOrders(authorization: string) {
+  return pearApiRequest<PearOpenOrder[]>(
+    '/orders/open',
+    { method: 'GET', headers: forwardAuthHeaders(authorization) }
+  );
+}
+
+/**
+ * Cancel a resting order. TWAPs have their own endpoint, which stops the
+ * remaining chunks; filled chunks stay open as a position.
+ */
+export async function cancelOrder(authorization: string, orderId: string, isTwap: boolean = false) {
+  const encodedId = encodeURIComponent(orderId);
+
+  if (isTwap) {
+    return pearApiRequest<unknown>(
+      `/orders/${encodedId}/twap/cancel`,
+      { method: 'POST', headers: forwardAuthHeaders(authorization), body: JSON.stringify({}) }
+    );
+  }
+
+  return pearApiRequest<unknown>(
+    `/orders/${encodedId}/cancel`,
+    { method: 'DELETE', headers: forwardAuthHeaders(authorization) }
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Pear Markets
+ *
+ * The full Pear market list for the Hyperliquid engine, parsed into
+ * PearMarket and cached briefly. Shared by the deck and watchlist routes.
+ */
+
+import { detectPositionType, generateDisplayName } from "@/lib/market-utils";
+import type { PearMarket, MarketAsset } from "@/types/trade";
+
+const PEAR_API_BASE_URL = "https://hl-v2.pearprotocol.io";
+
+// Deck filters and watchlist lookups need the whole list, so it is pulled in large pages
+const UPSTREAM_PAGE_SIZE = 100;
+const MAX_UPSTREAM_PAGES = 10;
+const MARKETS_CACHE_TTL_MS = 60 * 1000;
+
+interface RawPearMarket {
+  name: string;
+  openInterest?: number;
+  volume?: number;
+  ratio?: number | null;
+  change24h?: number | null;
+  weightedChange24h?: number | null;
+  netFunding?: number;
+}
+
+function parseMarketName(name: string): { longAssets: MarketAsset[]; shortAssets: MarketAsset[] } {
+  const longAssets: MarketAsset[] = [];
+  const shortAssets: MarketAsset[] = [];
+
+  const parts = name.split("|");
+
+  for (const part of parts) {
+    if (part.startsWith("L:")) {
+      const assets = part.slice(2).split(",");
+      const weight = 100 / assets.length;
+      for (const asset of assets) {
+        if (asset.trim()) {
+          longAssets.push({ asset: asset.trim(), weight });
+        }
+      }
+    } else if (part.startsWith("S:")) {
+      const assets = part.slice(2).split(",");
+      const weight = 100 / assets.length;
+      for (const asset of assets) {
+        if (asset.trim()) {
+          shortAssets.push({ asset: asset.trim(), weight });
+        }
+      }
+    }
+  }
+
+  return { longAssets, shortAssets };
+}
+
+function transformMarkets(rawMarkets: RawPearMarket[]): PearMarket[] {
+  return rawMarkets.map((market) => {
+    const { longAssets, shortAssets } = parseMarketName(market.name);
+
+    const positionType = detectPositionType(longAssets, shortAssets);
+    const displayName = generateDisplayName(longAssets, shortAssets, positionType);
+
+    return {
+      longAssets,
+      shortAssets,
+      openInterest: String(market.openInterest ?? 0),
+      volume: String(market.volume ?? 0),
+      ratio: String(market.ratio ?? 0),
+      change24h: String(market.weightedChange24h ?? market.change24h ?? 0),
+      weightedChange24h: String(market.weightedChange24h ?? 0),
+      netFunding: String(market.netFunding ?? 0),
+      positionType,
+      displayName,
+    };
+  });
+}
+
+let marketsCache: { markets: PearMarket[]; timestamp: number } | null = null;
+let inflight: Promise<PearMarket[]> | null = null;
+
+async function fetchMarketsPage(page: number): Promise<{ markets: RawPearMarket[]; totalPages: number }> {
+  const response = await fetch(
+    `${PEAR_API_BASE_URL}/markets?page=${page}&pageSize=${UPSTREAM_PAGE_SIZE}&engine=hyperliquid`,
+    {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Pear API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return { markets: data.markets ?? [], totalPages: data.totalPages ?? 1 };
+}
+
+/**
+ * Every Pear market in API order, cached briefly across requests
+ */
+export async function getAllMarkets(): Promise<PearMarket[]> {
+  if (marketsCache && Date.now() - marketsCache.timestamp < MARKETS_CACHE_TTL_MS) {
+    return marketsCache.markets;
+  }
+
+  if (!inflight) {
+    inflight = (async () => {
+      const first = await fetchMarketsPage(1);
+      const pageCount = Math.min(first.totalPages, MAX_UPSTREAM_PAGES);
+      const rest = await Promise.all(
+        Array.from({ length: pageCount - 1 }, (_, i) => fetchMarketsPage(i + 2))
+      );
+      const markets = transformMarkets([first, ...rest].flatMap((p) => p.markets));
+      marketsCache = { markets, timestamp: Date.now() };
+      return markets;
+    })().finally(() => {
+      inflight = null;
+    });
+  }
+
+  return inflight;
+}
+
@@ -0,0 +1,44 @@
+/**
+ * Background Polling
+ *
+ * Shared by the bridge trackers: records are polled with exponential backoff
+ * from a loop that runs once per process, started from instrumentation.ts.
+ */
+
+const POLL_BASE_DELAY_MS = 15_000;
+const POLL_MAX_DELAY_MS = 5 * 60_000;
+const POLLER_INTERVAL_MS = 10_000;
+
+/**
+ * Delay before the next poll, doubling per attempt up to POLL_MAX_DELAY_MS
+ */
+export function getBackoffDelay(attempts: number): number {
+  return Math.min(POLL_BASE_DELAY_MS * 2 ** attempts, POLL_MAX_DELAY_MS);
+}
+
+// Kept on globalThis so dev-server module reloads don't start duplicate loops
+const pollerState = globalThis as typeof globalThis & { __pollers?: Set<string> };
+
+/**
+ * Start a background loop that runs `pollDue` every POLLER_INTERVAL_MS
+ * (once per process for each name)
+ * @param name - Identifies the loop; also prefixes its log lines
+ */
+export function startPoller(name: string, pollDue: () => Promise<void>): void {
+  const started = (pollerState.__pollers ??= new Set());
+  if (started.has(name)) {
+    return;
+  }
+  started.add(name);
+
+  const tick = async () => {
+    try {
+      await pollDue();
+    } catch (error) {
+      console.error(`[${name}] Poller error:`, error);
+    }
+    setTimeout(tick, POLLER_INTERVAL_MS).unref?.();
+  };
+
+  setTimeout(tick, POLLER_INTERVAL_MS).unref?.();
+}
@@ -0,0 +1,166 @@
+/**
+ * Deck Ranking
+ *
+ * Scores dealt cards on a handful of factors and orders the upcoming part of
+ * the deck by the weighted mean. Every factor is normalized to 0-1, where 0.5
+ * is neutral, so weights can be mixed freely.
+ */
+
+import { getMarketKey } from "@/lib/market-utils";
+import type {
+  DeckRankScore,
+  RankingFactor,
+  RankingWeights,
+  TradeCard,
+  TradeJournalEntry,
+} from "@/types/trade";
+
+export const RANKING_FACTORS: Array<{ factor: RankingFactor; label: string; description: string }> = [
+  { factor: "conviction", label: "AI conviction", description: "How far the AI's bullish % leans toward the card's side." },
+  { factor: "liquidity", label: "Volume / OI", description: "24h volume plus open interest, on a log scale." },
+  { factor: "momentum", label: "Momentum", description: "24h change in the card's direction." },
+  { factor: "funding", label: "Funding carry", description: "Whether funding pays or costs the card's side." },
+  { factor: "winRate", label: "Your win rate", description: "Your closed trades on the same assets." },
+  { factor: "novelty", label: "Novelty", description: "Markets you haven't swiped recently." },
+];
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  conviction: 1,
+  liquidity: 1,
+  momentum: 1,
+  funding: 0.5,
+  winRate: 0.5,
+  novelty: 1,
+};
+
+export const RANKING_WEIGHT_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: "Off" },
+  { value: 0.5, label: "Low" },
+  { value: 1, label: "Normal" },
+  { value: 2, label: "High" },
+];
+
+// log10(volume + OI) mapped from $100K (0) to $1B (1)
+const LIQUIDITY_LOG_MIN = 5;
+const LIQUIDITY_LOG_MAX = 9;
+// 24h change (%) that saturates momentum
+const MOMENTUM_SCALE_PCT = 10;
+// Net funding (%) that saturates carry
+const FUNDING_SCALE_PCT = 0.05;
+// A market swiped this long ago counts as new again
+const NOVELTY_WINDOW_MS = 72 * 60 * 60 * 1000;
+
+/**
+ * Journal-derived inputs, built once per deck render
+ */
+export interface RankingContext {
+  assetResults: Map<string, { wins: number; trades: number }>;
+  lastSwipedAt: Map<string, number>; // market key -> unix ms
+  now: number;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function getCardAssets(card: Pick<TradeCard, "ticker" | "longAssets" | "shortAssets">): string[] {
+  const legs = [...(card.longAssets ?? []), ...(card.shortAssets ?? [])].map((a) => a.asset.toUpperCase());
+  return legs.length > 0 ? legs : [card.ticker.toUpperCase()];
+}
+
+export function buildRankingContext(entries: TradeJournalEntry[], now = Date.now()): RankingContext {
+  const assetResults = new Map<string, { wins: number; trades: number }>();
+  const lastSwipedAt = new Map<string, number>();
+
+  for (const entry of entries) {
+    const key = getMarketKey(entry.card);
+    lastSwipedAt.set(key, Math.max(lastSwipedAt.get(key) ?? 0, entry.createdAt));
+
+    if (entry.status !== "closed" || entry.realizedPnl === null) continue;
+    for (const asset of new Set(getCardAssets(entry.card))) {
+      const result = assetResults.get(asset) ?? { wins: 0, trades: 0 };
+      result.trades += 1;
+      if (entry.realizedPnl > 0) result.wins += 1;
+      assetResults.set(asset, result);
+    }
+  }
+
+  return { assetResults, lastSwipedAt, now };
+}
+
+function getFactorValue(factor: RankingFactor, card: TradeCard, context: RankingContext): number {
+  const side = card.direction === "LONG" ? 1 : -1;
+  const metrics = card.marketMetrics;
+
+  switch (factor) {
+    case "conviction":
+      return clamp01((side * (card.sentiment.bullish - 50)) / 50);
+    case "liquidity": {
+      const total = (parseFloat(metrics?.volume ?? "0") || 0) + (parseFloat(metrics?.openInterest ?? "0") || 0);
+      if (total <= 0) return 0;
+      return clamp01((Math.log10(total) - LIQUIDITY_LOG_MIN) / (LIQUIDITY_LOG_MAX - LIQUIDITY_LOG_MIN));
+    }
+    case "momentum": {
+      const change = parseFloat(metrics?.change24h ?? "0") || 0;
+      return clamp01(0.5 + (side * change) / (2 * MOMENTUM_SCALE_PCT));
+    }
+    case "funding": {
+      // Positive funding: longs pay shorts
+      const funding = parseFloat(metrics?.netFunding ?? "0") || 0;
+      return clamp01(0.5 - (side * funding) / (2 * FUNDING_SCALE_PCT));
+    }
+    case "winRate": {
+      // Laplace-smoothed, so assets with no history stay neutral
+      let wins = 0;
+      let trades = 0;
+      for (const asset of getCardAssets(card)) {
+        const result = context.assetResults.get(asset);
+        wins += result?.wins ?? 0;
+        trades += result?.trades ?? 0;
+      }
+      return (wins + 1) / (trades + 2);
+    }
+    case "novelty": {
+      const lastSwiped = context.lastSwipedAt.get(getMarketKey(card));
+      return lastSwiped === undefined ? 1 : clamp01((context.now - lastSwiped) / NOVELTY_WINDOW_MS);
+    }
+  }
+}
+
+/**
+ * Score one card. With every weight at 0 the total is 0 and the deck keeps API order.
+ */
+export function scoreTradeCard(card: TradeCard, weights: RankingWeights, context: RankingContext): DeckRankScore {
+  const factors = RANKING_FACTORS.map(({ factor }) => ({
+    factor,
+    value: getFactorValue(factor, card, context),
+    weight: weights[factor] ?? 0,
+  }));
+
+  const totalWeight = factors.reduce((sum, f) => sum + f.weight, 0);
+  const weighted = factors.reduce((sum, f) => sum + f.value * f.weight, 0);
+
+  return {
+    total: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0,
+    factors,
+  };
+}
+
+/**
+ * Score and reorder the upcoming cards, leaving the first `fixedCount`
+ * (already seen, plus the one on top) where they are. Ties keep deal order.
+ */
+export function rankUpcomingCards(
+  cards: TradeCard[],
+  fixedCount: number,
+  weights: RankingWeights,
+  context: RankingContext
+): TradeCard[] {
+  const fixed = cards.slice(0, fixedCount);
+  const upcoming = cards
+    .slice(fixedCount)
+    .map((card) => ({ ...card, rank: scoreTradeCard(card, weights, context) }))
+    .sort((a, b) => b.rank.total - a.rank.total);
+
+  return [...fixed, ...upcoming];
+}
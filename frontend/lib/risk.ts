@@ -0,0 +1,265 @@
+/**
+ * Risk Guardrails
+ *
+ * Per-user limits on aggregate exposure, checked in /api/positions/create
+ * before an order reaches Pear. Open exposure comes from Pear; realized
+ * losses and losing streaks come from the trade journal, which is
+ * reconciled against Pear trade history first.
+ */
+
+import { getCollection } from '@/lib/storage';
+import { getOpenPositions, getTradeHistory } from '@/lib/pear-api';
+import type { PearPosition } from '@/lib/pear-api';
+import { getJournal, reconcileJournal } from '@/lib/journal';
+import type {
+  RiskProfile,
+  RiskUsage,
+  RiskViolation,
+  StoredRiskProfile,
+  TradeJournalEntry,
+} from '@/types/trade';
+
+const profiles = () => getCollection<StoredRiskProfile>('risk-profiles');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RISK_PROFILE: RiskProfile = {
+  maxOpenPositions: 5,
+  maxTotalNotionalUsd: 250,
+  maxDailyLossUsd: 50,
+  maxLeverage: 20,
+  cooldownAfterLosses: 3,
+  cooldownMinutes: 60,
+};
+
+/**
+ * Custom error class for invalid risk profile updates
+ */
+export class RiskProfileError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'RiskProfileError';
+  }
+}
+
+function toProfile(stored: StoredRiskProfile): RiskProfile {
+  return {
+    maxOpenPositions: stored.maxOpenPositions,
+    maxTotalNotionalUsd: stored.maxTotalNotionalUsd,
+    maxDailyLossUsd: stored.maxDailyLossUsd,
+    maxLeverage: stored.maxLeverage,
+    cooldownAfterLosses: stored.cooldownAfterLosses,
+    cooldownMinutes: stored.cooldownMinutes,
+  };
+}
+
+/**
+ * Get a user's risk profile, or the defaults if they never saved one
+ */
+export async function getRiskProfile(address: string): Promise<RiskProfile> {
+  const stored = await profiles().get(address.toLowerCase());
+  return stored ? toProfile(stored) : { ...DEFAULT_RISK_PROFILE };
+}
+
+/**
+ * Validate one optional limit: null, or a number within [min, max]
+ */
+function parseLimit(
+  value: unknown,
+  field: string,
+  { min, max, integer }: { min: number; max: number; integer?: boolean }
+): number | null {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new RiskProfileError(`${field} must be between ${min} and ${max}, or null to disable`);
+  }
+  if (integer && !Number.isInteger(value)) {
+    throw new RiskProfileError(`${field} must be a whole number`);
+  }
+  return value;
+}
+
+/**
+ * Update a user's risk profile. Omitted fields keep their current value.
+ * @throws RiskProfileError if a limit is out of range
+ */
+export async function saveRiskProfile(address: string, update: Partial<RiskProfile>): Promise<RiskProfile> {
+  const normalized = address.toLowerCase();
+  const current = await getRiskProfile(normalized);
+  const pick = <K extends keyof RiskProfile>(key: K) => (key in update ? update[key] : current[key]);
+
+  const cooldownMinutes = parseLimit(pick('cooldownMinutes'), 'cooldownMinutes', { min: 1, max: 7 * 24 * 60, integer: true });
+  if (cooldownMinutes === null) {
+    throw new RiskProfileError('cooldownMinutes is required');
+  }
+
+  const profile: RiskProfile = {
+    maxOpenPositions: parseLimit(pick('maxOpenPositions'), 'maxOpenPositions', { min: 1, max: 100, integer: true }),
+    maxTotalNotionalUsd: parseLimit(pick('maxTotalNotionalUsd'), 'maxTotalNotionalUsd', { min: 1, max: 1_000_000 }),
+    maxDailyLossUsd: parseLimit(pick('maxDailyLossUsd'), 'maxDailyLossUsd', { min: 1, max: 1_000_000 }),
+    maxLeverage: parseLimit(pick('maxLeverage'), 'maxLeverage', { min: 1, max: 100, integer: true }),
+    cooldownAfterLosses: parseLimit(pick('cooldownAfterLosses'), 'cooldownAfterLosses', { min: 1, max: 50, integer: true }),
+    cooldownMinutes,
+  };
+
+  await profiles().put(normalized, { ...profile, userAddress: normalized, updatedAt: Date.now() });
+  return profile;
+}
+
+// ============================================
+// Usage
+// ============================================
+
+function startOfUtcDay(now: number): number {
+  return Math.floor(now / DAY_MS) * DAY_MS;
+}
+
+/**
+ * Compute current usage from the journal and (if available) Pear open positions
+ */
+export function getRiskUsage(
+  profile: RiskProfile,
+  entries: TradeJournalEntry[],
+  openPositions: PearPosition[] | null,
+  now: number = Date.now()
+): RiskUsage {
+  const closed = entries
+    .filter((e) => e.status === 'closed' && e.closedAt !== null && e.realizedPnl !== null)
+    .sort((a, b) => b.closedAt! - a.closedAt!);
+
+  const dayStart = startOfUtcDay(now);
+  const dailyRealizedPnl = closed
+    .filter((e) => e.closedAt! >= dayStart)
+    .reduce((sum, e) => sum + e.realizedPnl!, 0);
+
+  // Losing streak, most recent first
+  let consecutiveLosses = 0;
+  for (const entry of closed) {
+    if (entry.realizedPnl! >= 0) break;
+    consecutiveLosses++;
+  }
+
+  let cooldownUntil: number | null = null;
+  if (profile.cooldownAfterLosses !== null && consecutiveLosses >= profile.cooldownAfterLosses) {
+    const until = closed[0].closedAt! + profile.cooldownMinutes * 60 * 1000;
+    cooldownUntil = until > now ? until : null;
+  }
+
+  return {
+    openPositions: openPositions ? openPositions.length : null,
+    totalNotionalUsd: openPositions
+      ? openPositions.reduce((sum, p) => sum + Math.abs(Number(p.positionValue) || 0), 0)
+      : null,
+    dailyRealizedPnl,
+    consecutiveLosses,
+    cooldownUntil,
+  };
+}
+
+/**
+ * Check a new order against the profile
+ * @returns The first limit the order would break, or null
+ */
+export function checkRiskLimits(
+  profile: RiskProfile,
+  usage: RiskUsage,
+  order: { usdValue: number },
+  now: number = Date.now()
+): RiskViolation | null {
+  if (usage.cooldownUntil !== null) {
+    const minutes = Math.ceil((usage.cooldownUntil - now) / 60_000);
+    return {
+      code: 'LOSS_COOLDOWN',
+      message: `${usage.consecutiveLosses} losses in a row. Trading resumes in ${minutes} min.`,
+      limit: profile.cooldownAfterLosses!,
+      current: usage.consecutiveLosses,
+      retryAt: usage.cooldownUntil,
+    };
+  }
+
+  if (profile.maxDailyLossUsd !== null && -usage.dailyRealizedPnl >= profile.maxDailyLossUsd) {
+    return {
+      code: 'DAILY_LOSS_LIMIT',
+      message: `Daily loss limit of $${profile.maxDailyLossUsd.toFixed(2)} reached. Resets at 00:00 UTC.`,
+      limit: profile.maxDailyLossUsd,
+      current: -usage.dailyRealizedPnl,
+      retryAt: startOfUtcDay(now) + DAY_MS,
+    };
+  }
+
+  if (
+    profile.maxOpenPositions !== null &&
+    usage.openPositions !== null &&
+    usage.openPositions >= profile.maxOpenPositions
+  ) {
+    return {
+      code: 'MAX_OPEN_POSITIONS',
+      message: `You already have ${usage.openPositions} open positions (max ${profile.maxOpenPositions}). Close one first.`,
+      limit: profile.maxOpenPositions,
+      current: usage.openPositions,
+      retryAt: null,
+    };
+  }
+
+  if (
+    profile.maxTotalNotionalUsd !== null &&
+    usage.totalNotionalUsd !== null &&
+    usage.totalNotionalUsd + order.usdValue > profile.maxTotalNotionalUsd
+  ) {
+    return {
+      code: 'MAX_TOTAL_NOTIONAL',
+      message: `This order would bring open exposure to $${(usage.totalNotionalUsd + order.usdValue).toFixed(2)} (max $${profile.maxTotalNotionalUsd.toFixed(2)}).`,
+      limit: profile.maxTotalNotionalUsd,
+      current: usage.totalNotionalUsd,
+      retryAt: null,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Cap card leverage to the profile's max leverage
+ */
+export function applyLeverageCap(profile: RiskProfile, leverage: number): number {
+  return profile.maxLeverage !== null ? Math.min(leverage, profile.maxLeverage) : leverage;
+}
+
+/**
+ * Load a user's profile and usage. With a Pear token, open positions are
+ * fetched and closed trades are reconciled into the journal first.
+ * @param required - Throw if Pear can't be reached instead of skipping exposure limits
+ */
+export async function loadRiskState(
+  address: string,
+  authorization: string | null,
+  required = false
+): Promise<{ profile: RiskProfile; usage: RiskUsage; openPositions: PearPosition[] | null }> {
+  const profile = await getRiskProfile(address);
+  let openPositions: PearPosition[] | null = null;
+
+  if (authorization) {
+    const [positionsResult, tradesResult] = await Promise.allSettled([
+      getOpenPositions(authorization),
+      getTradeHistory(authorization),
+    ]);
+
+    if (positionsResult.status === 'fulfilled') {
+      openPositions = Array.isArray(positionsResult.value) ? positionsResult.value : [];
+    } else if (required) {
+      throw positionsResult.reason;
+    }
+
+    // Reconciling needs open positions, or still-open trades would be marked closed
+    if (tradesResult.status === 'fulfilled' && Array.isArray(tradesResult.value) && openPositions) {
+      await reconcileJournal(address, tradesResult.value, openPositions);
+    } else if (tradesResult.status === 'rejected') {
+      console.warn('[Risk] Trade history unavailable, using journal as-is:', tradesResult.reason);
+    }
+  }
+
+  const entries = await getJournal(address);
+  return { profile, usage: getRiskUsage(profile, entries, openPositions), openPositions };
+}
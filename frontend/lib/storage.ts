@@ -0,0 +1,205 @@
+/**
+ * Server-side Storage
+ *
+ * Minimal pluggable persistence for server state that must survive restarts
+ * (vault ledger, etc.). Each collection is a keyed set of JSON records.
+ *
+ * Drivers (selected with HYPESWIPE_STORAGE):
+ * - `file` (default): one JSON file per collection under HYPESWIPE_DATA_DIR (./.data)
+ * - `memory`: process-local, for tests and throwaway environments
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface Collection<T> {
+  get(id: string): Promise<T | undefined>;
+  list(predicate?: (record: T) => boolean): Promise<T[]>;
+  /** Insert a new record. Throws DuplicateRecordError if the id already exists. */
+  insert(id: string, record: T): Promise<void>;
+  /** Insert or replace a record. */
+  put(id: string, record: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class DuplicateRecordError extends Error {
+  constructor(public collection: string, public id: string) {
+    super(`Record ${id} already exists in ${collection}`);
+    this.name = 'DuplicateRecordError';
+  }
+}
+
+/**
+ * In-memory collection (tests / ephemeral environments)
+ */
+export class MemoryCollection<T> implements Collection<T> {
+  protected records = new Map<string, T>();
+
+  constructor(public readonly name: string) {}
+
+  async get(id: string): Promise<T | undefined> {
+    return this.records.get(id);
+  }
+
+  async list(predicate?: (record: T) => boolean): Promise<T[]> {
+    const all = Array.from(this.records.values());
+    return predicate ? all.filter(predicate) : all;
+  }
+
+  async insert(id: string, record: T): Promise<void> {
+    if (this.records.has(id)) {
+      throw new DuplicateRecordError(this.name, id);
+    }
+    this.records.set(id, record);
+  }
+
+  async put(id: string, record: T): Promise<void> {
+    this.records.set(id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+/**
+ * JSON-file-backed collection.
+ * Loaded lazily, kept in memory, and rewritten atomically (tmp file + rename)
+ * after every mutation. Writes are serialized within the process.
+ */
+export class FileCollection<T> implements Collection<T> {
+  private loading: Promise<Map<string, T>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(public readonly name: string, private readonly filePath: string) {}
+
+  // Shared promise so concurrent first reads resolve to the same map
+  private load(): Promise<Map<string, T>> {
+    if (!this.loading) {
+      this.loading = this.readFile().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Map<string, T>> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as Record<string, T>;
+      return new Map(Object.entries(parsed));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return new Map();
+    }
+  }
+
+  private async persist(records: Map<string, T>): Promise<void> {
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(records)), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  // Changes apply to a copy; the cache only moves to it once the write lands,
+  // so a failed write leaves memory matching the file
+  private mutate(fn: (records: Map<string, T>) => void): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      const records = new Map(await this.load());
+      fn(records);
+      await this.persist(records);
+      this.loading = Promise.resolve(records);
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async list(predicate?: (record: T) => boolean): Promise<T[]> {
+    const all = Array.from((await this.load()).values());
+    return predicate ? all.filter(predicate) : all;
+  }
+
+  insert(id: string, record: T): Promise<void> {
+    return this.mutate((records) => {
+      if (records.has(id)) {
+        throw new DuplicateRecordError(this.name, id);
+      }
+      records.set(id, record);
+    });
+  }
+
+  put(id: string, record: T): Promise<void> {
+    return this.mutate((records) => {
+      records.set(id, record);
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.mutate((records) => {
+      records.delete(id);
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.mutate((records) => {
+      records.clear();
+    });
+  }
+}
+
+// One instance per collection name, so all routes share the same cache and write queue
+const collections = new Map<string, Collection<unknown>>();
+
+/**
+ * Get (or create) a named collection using the configured storage driver.
+ */
+export function getCollection<T>(name: string): Collection<T> {
+  const existing = collections.get(name);
+  if (existing) {
+    return existing as Collection<T>;
+  }
+
+  const driver = process.env.HYPESWIPE_STORAGE || 'file';
+  const dataDir = process.env.HYPESWIPE_DATA_DIR || path.join(process.cwd(), '.data');
+
+  const collection: Collection<T> = driver === 'memory'
+    ? new MemoryCollection<T>(name)
+    : new FileCollection<T>(name, path.join(dataDir, `${name}.json`));
+
+  collections.set(name, collection as Collection<unknown>);
+  return collection;
+}
+
+// Per-key promise chains used by runExclusive
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` with exclusive access to `key` within this process.
+ * Used for read-check-write sequences such as balance debits.
+ */
+export async function runExclusive<R>(key: string, fn: () => Promise<R>): Promise<R> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(fn);
+  locks.set(key, current);
+
+  try {
+    return await current;
+  } finally {
+    if (locks.get(key) === current) {
+      locks.delete(key);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Take-Profit / Stop-Loss Utilities
+ *
+ * Validation and conversion helpers for TP/SL thresholds. Shared by the
+ * swipe UI (for inline feedback) and the position routes (authoritative
+ * server-side validation before anything is sent to Pear).
+ */
+
+import type { TpSlSettings, TpSlTrigger } from "@/types/trade";
+
+/**
+ * Threshold format accepted by Pear.
+ * PERCENTAGE is return on margin, DOLLAR is absolute PnL in USD.
+ */
+export interface PearTpSlThreshold {
+  type: "PERCENTAGE" | "DOLLAR";
+  value: number;
+}
+
+/**
+ * Position parameters a TP/SL is validated against.
+ */
+export interface TpSlContext {
+  direction: "LONG" | "SHORT";
+  leverage: number;
+  usdValue: number;
+}
+
+/**
+ * Upper bound for take-profit price moves, to catch typos like 5000%.
+ */
+const MAX_TAKE_PROFIT_MOVE_PERCENT = 1000;
+
+/**
+ * Approximate price move (in percent) that wipes out initial margin.
+ * Ignores maintenance margin, so the real liquidation comes slightly earlier.
+ */
+export function getLiquidationMovePercent(leverage: number): number {
+  return 100 / Math.max(1, leverage);
+}
+
+/**
+ * Convert a TP/SL trigger to its expected PnL in USD for a given position.
+ */
+export function getTriggerPnlUsd(trigger: TpSlTrigger, ctx: TpSlContext): number {
+  if (trigger.mode === "pnl_usd") {
+    return trigger.value;
+  }
+  return (ctx.usdValue * trigger.value) / 100;
+}
+
+/**
+ * Convert a TP/SL trigger to the underlying price move (in percent) it represents.
+ */
+export function getTriggerMovePercent(trigger: TpSlTrigger, ctx: TpSlContext): number {
+  if (trigger.mode === "percent_move") {
+    return trigger.value;
+  }
+  return ctx.usdValue > 0 ? (trigger.value / ctx.usdValue) * 100 : 0;
+}
+
+function isValidTrigger(trigger: TpSlTrigger): boolean {
+  return (
+    (trigger.mode === "percent_move" || trigger.mode === "pnl_usd") &&
+    typeof trigger.value === "number" &&
+    Number.isFinite(trigger.value) &&
+    trigger.value > 0
+  );
+}
+
+/**
+ * Validate TP/SL settings against position direction, leverage and size.
+ * Values are magnitudes: TP is the gain to lock in, SL the loss to cap.
+ *
+ * @returns An error message, or null if the settings are valid
+ */
+export function validateTpSl(settings: TpSlSettings, ctx: TpSlContext): string | null {
+  const { takeProfit, stopLoss } = settings;
+
+  if (takeProfit) {
+    if (!isValidTrigger(takeProfit)) {
+      return "Take profit must be a positive number";
+    }
+
+    const moveNeeded = getTriggerMovePercent(takeProfit, ctx);
+    if (moveNeeded > MAX_TAKE_PROFIT_MOVE_PERCENT) {
+      return `Take profit requires a ${moveNeeded.toFixed(0)}% move, above the ${MAX_TAKE_PROFIT_MOVE_PERCENT}% limit`;
+    }
+    // A short can at most gain 100% of notional (price going to zero)
+    if (ctx.direction === "SHORT" && moveNeeded >= 100) {
+      return "Take profit on a short cannot require a 100% or larger price drop";
+    }
+  }
+
+  if (stopLoss) {
+    if (!isValidTrigger(stopLoss)) {
+      return "Stop loss must be a positive number";
+    }
+
+    const liquidationMove = getLiquidationMovePercent(ctx.leverage);
+    const moveAllowed = getTriggerMovePercent(stopLoss, ctx);
+    if (moveAllowed >= liquidationMove) {
+      return `Stop loss of ${moveAllowed.toFixed(2)}% is beyond the ~${liquidationMove.toFixed(2)}% move that liquidates a ${ctx.leverage}x position`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert a trigger to Pear's threshold format.
+ * Price moves are scaled by leverage into return on margin.
+ */
+export function toPearThreshold(
+  trigger: TpSlTrigger | null,
+  leverage: number
+): PearTpSlThreshold | null {
+  if (!trigger) {
+    return null;
+  }
+  if (trigger.mode === "pnl_usd") {
+    return { type: "DOLLAR", value: Math.round(trigger.value * 100) / 100 };
+  }
+  return { type: "PERCENTAGE", value: Math.round(trigger.value * leverage * 100) / 100 };
+}
+
+/**
+ * Convert a Pear threshold back to a trigger for display and editing.
+ */
+export function fromPearThreshold(
+  threshold: PearTpSlThreshold | null | undefined,
+  leverage: number
+): TpSlTrigger | null {
+  if (!threshold || typeof threshold.value !== "number") {
+    return null;
+  }
+  if (threshold.type === "DOLLAR") {
+    return { mode: "pnl_usd", value: threshold.value };
+  }
+  return { mode: "percent_move", value: threshold.value / Math.max(1, leverage) };
+}
+
+/**
+ * Short human-readable label, e.g. "8% move" or "$2.50 PnL".
+ */
+export function formatTrigger(trigger: TpSlTrigger | null): string {
+  if (!trigger) {
+    return "Off";
+  }
+  if (trigger.mode === "pnl_usd") {
+    return `$${trigger.value.toFixed(2)} PnL`;
+  }
+  return `${Number(trigger.value.toFixed(2))}% move`;
+}
@@ -1,15 +1,32 @@
 /**
- * In-memory Vault Storage
- * 
- * Simple key-value store for user balances.
- * In production, this would be replaced with a proper database.
+ * Vault Ledger
+ *
+ * Append-only ledger of USDC credits and debits per user.
+ * Balances are never stored directly; `equityUsdc` is derived by summing
+ * a user's entries, so every balance change has an auditable reason.
+ *
+ * Entries that reference an external event (payment hash, tx hash) get a
+ * deterministic id, so the same deposit can never be recorded twice.
+ *
+ * Backed by the configured storage driver (see lib/storage.ts).
  */
 
-import type { VaultState } from '@/types';
+import { randomUUID } from 'crypto';
+import { getCollection, runExclusive } from '@/lib/storage';
+import type { VaultLedgerEntry, VaultLedgerSource, VaultState } from '@/types';
 
-// In-memory storage for vault states
-// Key: lowercased EVM address, Value: VaultState
-const vaultStorage = new Map<string, VaultState>();
+const ledger = () => getCollection<VaultLedgerEntry>('vault-ledger');
+
+export interface LedgerEntryOptions {
+  source: VaultLedgerSource;
+  referenceId?: string | null;
+  idempotencyKey?: string | null;
+}
+
+export interface LedgerUpdate {
+  entry: VaultLedgerEntry;
+  equityUsdc: number;
+}
 
 /**
  * Normalize an EVM address to lowercase for consistent lookups
@@ -18,100 +35,167 @@ function normalizeAddress(address: string): string {
   return address.toLowerCase();
 }
 
+/**
+ * Sum ledger entries into a balance
+ */
+function sumEntries(entries: VaultLedgerEntry[]): number {
+  return entries.reduce(
+    (sum, entry) => sum + (entry.type === 'credit' ? entry.amountUsdc : -entry.amountUsdc),
+    0
+  );
+}
+
+/**
+ * Ledger entry id for an event; deterministic when the event has a reference
+ */
+function getLedgerEntryId(
+  type: VaultLedgerEntry['type'],
+  source: VaultLedgerSource,
+  referenceId?: string | null
+): string {
+  return referenceId ? `${type}:${source}:${referenceId}` : randomUUID();
+}
+
+/**
+ * Append an entry to the ledger
+ * @throws DuplicateRecordError if an entry for the same reference already exists
+ */
+async function appendEntry(
+  address: string,
+  type: VaultLedgerEntry['type'],
+  amountUsdc: number,
+  options: LedgerEntryOptions
+): Promise<VaultLedgerEntry> {
+  const entry: VaultLedgerEntry = {
+    id: getLedgerEntryId(type, options.source, options.referenceId),
+    userAddress: normalizeAddress(address),
+    type,
+    amountUsdc,
+    source: options.source,
+    referenceId: options.referenceId ?? null,
+    idempotencyKey: options.idempotencyKey ?? null,
+    createdAt: Date.now(),
+  };
+
+  await ledger().insert(entry.id, entry);
+  return entry;
+}
+
+/**
+ * Get the ledger entries for a user, newest first
+ * @param address - EVM address
+ * @param limit - Maximum number of entries to return
+ */
+export async function getVaultHistory(address: string, limit?: number): Promise<VaultLedgerEntry[]> {
+  const normalized = normalizeAddress(address);
+  const entries = await ledger().list((entry) => entry.userAddress === normalized);
+  entries.sort((a, b) => b.createdAt - a.createdAt);
+  return limit !== undefined ? entries.slice(0, limit) : entries;
+}
+
+/**
+ * Find the entry recorded for an idempotency key, if any
+ */
+export async function findEntryByIdempotencyKey(idempotencyKey: string): Promise<VaultLedgerEntry | undefined> {
+  const [entry] = await ledger().list((e) => e.idempotencyKey === idempotencyKey);
+  return entry;
+}
+
 /**
  * Get the vault state for a user
  * @param address - EVM address
- * @returns VaultState or undefined if not found
+ * @returns VaultState derived from the ledger (zero balance if no entries)
  */
-export function getVaultState(address: string): VaultState | undefined {
+export async function getVaultState(address: string): Promise<VaultState> {
   const normalized = normalizeAddress(address);
-  return vaultStorage.get(normalized);
+  const entries = await ledger().list((entry) => entry.userAddress === normalized);
+
+  return {
+    userAddress: normalized,
+    equityUsdc: sumEntries(entries),
+  };
 }
 
 /**
  * Get the USDC equity for a user
  * @param address - EVM address
- * @returns equityUsdc or 0 if not found
+ * @returns equityUsdc or 0 if no entries
  */
-export function getEquityUsdc(address: string): number {
-  const state = getVaultState(address);
-  return state?.equityUsdc ?? 0;
+export async function getEquityUsdc(address: string): Promise<number> {
+  const state = await getVaultState(address);
+  return state.equityUsdc;
 }
 
 /**
  * Credit USDC to a user's vault
  * @param address - EVM address
  * @param amountUsdc - Amount to credit (can be decimal)
- * @returns Updated VaultState
+ * @param options - Source and reference of the credit
+ * @returns The new entry and updated equity
+ * @throws DuplicateRecordError if this reference was already credited
  */
-export function creditVault(address: string, amountUsdc: number): VaultState {
+export async function creditVault(
+  address: string,
+  amountUsdc: number,
+  options: LedgerEntryOptions
+): Promise<LedgerUpdate> {
   const normalized = normalizeAddress(address);
-  const existing = vaultStorage.get(normalized);
-
-  const updated: VaultState = {
-    userAddress: normalized,
-    equityUsdc: (existing?.equityUsdc ?? 0) + amountUsdc,
-  };
 
-  vaultStorage.set(normalized, updated);
-  return updated;
+  return runExclusive(`vault:${normalized}`, async () => {
+    const entry = await appendEntry(normalized, 'credit', amountUsdc, options);
+    return { entry, equityUsdc: await getEquityUsdc(normalized) };
+  });
 }
 
 /**
  * Debit USDC from a user's vault
  * @param address - EVM address
  * @param amountUsdc - Amount to debit
- * @returns Updated VaultState
+ * @param options - Source and reference of the debit
+ * @returns The new entry and updated equity
  * @throws Error if insufficient balance
  */
-export function debitVault(address: string, amountUsdc: number): VaultState {
+export async function debitVault(
+  address: string,
+  amountUsdc: number,
+  options: LedgerEntryOptions
+): Promise<LedgerUpdate> {
   const normalized = normalizeAddress(address);
-  const existing = vaultStorage.get(normalized);
-  const currentBalance = existing?.equityUsdc ?? 0;
 
-  if (currentBalance < amountUsdc) {
-    throw new Error(`Insufficient balance: ${currentBalance} < ${amountUsdc}`);
-  }
+  return runExclusive(`vault:${normalized}`, async () => {
+    const currentBalance = await getEquityUsdc(normalized);
 
-  const updated: VaultState = {
-    userAddress: normalized,
-    equityUsdc: currentBalance - amountUsdc,
-  };
+    if (currentBalance < amountUsdc) {
+      throw new Error(`Insufficient balance: ${currentBalance} < ${amountUsdc}`);
+    }
 
-  vaultStorage.set(normalized, updated);
-  return updated;
+    const entry = await appendEntry(normalized, 'debit', amountUsdc, options);
+    return { entry, equityUsdc: currentBalance - amountUsdc };
+  });
 }
 
 /**
- * Initialize a vault for a new user (if not exists)
- * @param address - EVM address
- * @returns VaultState
+ * Get all vault states (for debugging/admin purposes)
  */
-export function initializeVault(address: string): VaultState {
-  const normalized = normalizeAddress(address);
-  
-  if (!vaultStorage.has(normalized)) {
-    const initial: VaultState = {
-      userAddress: normalized,
-      equityUsdc: 0,
-    };
-    vaultStorage.set(normalized, initial);
-    return initial;
+export async function getAllVaults(): Promise<VaultState[]> {
+  const entries = await ledger().list();
+  const byAddress = new Map<string, VaultLedgerEntry[]>();
+
+  for (const entry of entries) {
+    const list = byAddress.get(entry.userAddress) ?? [];
+    list.push(entry);
+    byAddress.set(entry.userAddress, list);
   }
 
-  return vaultStorage.get(normalized)!;
-}
-
-/**
- * Get all vault states (for debugging/admin purposes)
- */
-export function getAllVaults(): VaultState[] {
-  return Array.from(vaultStorage.values());
+  return Array.from(byAddress.entries()).map(([userAddress, userEntries]) => ({
+    userAddress,
+    equityUsdc: sumEntries(userEntries),
+  }));
 }
 
 /**
  * Clear all vault data (for testing purposes)
  */
-export function clearAllVaults(): void {
-  vaultStorage.clear();
+export async function clearAllVaults(): Promise<void> {
+  await ledger().clear();
 }
@@ -0,0 +1,154 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { JournalDecision, TradeCard } from '@/types/trade';
+
+// Dealt cards older than this are dealt again with fresh AI ideas instead of resumed
+export const DECK_RESUME_TTL_MS = 30 * 60 * 1000;
+// A new session starts after this long without a swipe
+const SESSION_IDLE_MS = 4 * 60 * 60 * 1000;
+// Seen markets are forgotten after this long, whatever the re-swipe window
+const SEEN_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+// Candles make cards heavy; only the next few are kept for resuming
+const MAX_SAVED_UPCOMING = 12;
+
+export interface DeckSession {
+  startedAt: number;
+  lastSwipeAt: number;
+  taken: number;
+  skipped: number;
+}
+
+/**
+ * Deck state for one wallet
+ */
+export interface DeckProgress {
+  seenMarkets: Record<string, number>; // market key (see getMarketKey) -> last swiped, unix ms
+  upcoming: TradeCard[]; // dealt but not swiped yet, top card first
+  upcomingFiltersKey: string; // deck filters the upcoming cards were dealt under
+  savedAt: number;
+  session: DeckSession;
+}
+
+interface DeckStore {
+  // Keyed by lowercased EVM address
+  decks: Record<string, DeckProgress>;
+
+  // 'saved' (watchlist) marks the market seen without counting as taken or skipped
+  markSwiped: (address: string, marketKey: string, decision: JournalDecision | 'saved') => void;
+  // Undo of a queued swipe: the card is back on the deck, so it wasn't seen
+  unmarkSwiped: (address: string, marketKey: string, decision: JournalDecision | 'saved') => void;
+  saveUpcoming: (address: string, cards: TradeCard[], filtersKey: string) => void;
+  clearSeen: (address: string) => void;
+
+  reset: () => void;
+}
+
+function emptyProgress(now: number): DeckProgress {
+  return {
+    seenMarkets: {},
+    upcoming: [],
+    upcomingFiltersKey: '',
+    savedAt: 0,
+    session: { startedAt: now, lastSwipeAt: now, taken: 0, skipped: 0 },
+  };
+}
+
+function pruneSeen(seenMarkets: Record<string, number>, now: number): Record<string, number> {
+  return Object.fromEntries(Object.entries(seenMarkets).filter(([, at]) => now - at < SEEN_RETENTION_MS));
+}
+
+/**
+ * The wallet's current session, rolled over if it has gone idle
+ */
+export function getActiveSession(progress: DeckProgress | undefined, now = Date.now()): DeckSession {
+  if (!progress || now - progress.session.lastSwipeAt > SESSION_IDLE_MS) {
+    return { startedAt: now, lastSwipeAt: now, taken: 0, skipped: 0 };
+  }
+  return progress.session;
+}
+
+export const useDeckStore = create<DeckStore>()(
+  persist(
+    (set) => ({
+      decks: {},
+
+      markSwiped: (address, marketKey, decision) => set((state) => {
+        const key = address.toLowerCase();
+        const now = Date.now();
+        const progress = state.decks[key] ?? emptyProgress(now);
+        const session = getActiveSession(progress, now);
+
+        return {
+          decks: {
+            ...state.decks,
+            [key]: {
+              ...progress,
+              seenMarkets: { ...pruneSeen(progress.seenMarkets, now), [marketKey]: now },
+              session: {
+                ...session,
+                lastSwipeAt: now,
+                taken: session.taken + (decision === 'taken' ? 1 : 0),
+                skipped: session.skipped + (decision === 'skipped' ? 1 : 0),
+              },
+            },
+          },
+        };
+      }),
+
+      unmarkSwiped: (address, marketKey, decision) => set((state) => {
+        const key = address.toLowerCase();
+        const progress = state.decks[key];
+        if (!progress) return state;
+
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { [marketKey]: _removed, ...seenMarkets } = progress.seenMarkets;
+        return {
+          decks: {
+            ...state.decks,
+            [key]: {
+              ...progress,
+              seenMarkets,
+              session: {
+                ...progress.session,
+                taken: Math.max(0, progress.session.taken - (decision === 'taken' ? 1 : 0)),
+                skipped: Math.max(0, progress.session.skipped - (decision === 'skipped' ? 1 : 0)),
+              },
+            },
+          },
+        };
+      }),
+
+      saveUpcoming: (address, cards, filtersKey) => set((state) => {
+        const key = address.toLowerCase();
+        const now = Date.now();
+        const progress = state.decks[key] ?? emptyProgress(now);
+
+        return {
+          decks: {
+            ...state.decks,
+            [key]: {
+              ...progress,
+              upcoming: cards.slice(0, MAX_SAVED_UPCOMING),
+              upcomingFiltersKey: filtersKey,
+              savedAt: now,
+            },
+          },
+        };
+      }),
+
+      clearSeen: (address) => set((state) => {
+        const key = address.toLowerCase();
+        const progress = state.decks[key];
+        if (!progress) return state;
+        return { decks: { ...state.decks, [key]: { ...progress, seenMarkets: {} } } };
+      }),
+
+      reset: () => set({ decks: {} }),
+    }),
+    {
+      name: 'hypeswipe-deck',
+    }
+  )
+);
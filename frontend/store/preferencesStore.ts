@@ -0,0 +1,126 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_CHART_INDICATORS, DEFAULT_CHART_TIMEFRAME } from '@/lib/indicators';
+import { DEFAULT_DECK_FILTERS } from '@/lib/deck-filters';
+import { DEFAULT_RANKING_WEIGHTS } from '@/lib/ranking';
+import { DEFAULT_SLIPPAGE } from '@/lib/orders';
+import type { ChartIndicatorSettings, ChartTimeframe, DeckFilters, RankingWeights, TpSlTrigger } from '@/types/trade';
+
+export const UNDO_WINDOW_OPTIONS = [0, 3, 5, 10];
+const DEFAULT_UNDO_WINDOW_SECONDS = 5;
+
+export const RESWIPE_WINDOW_OPTIONS = [0, 24, 72, 168];
+const DEFAULT_RESWIPE_WINDOW_HOURS = 24;
+
+interface PreferencesStore {
+  // Default TP/SL applied to every swipe unless overridden on the card
+  defaultTakeProfit: TpSlTrigger | null;
+  defaultStopLoss: TpSlTrigger | null;
+  setDefaultTpSl: (takeProfit: TpSlTrigger | null, stopLoss: TpSlTrigger | null) => void;
+
+  // Seconds a right-swipe waits before the order is sent (0 sends immediately)
+  undoWindowSeconds: number;
+  setUndoWindowSeconds: (seconds: number) => void;
+
+  // Max slippage for market and TWAP fills, as a fraction; the order ticket can override it
+  defaultSlippage: number;
+  setDefaultSlippage: (slippage: number) => void;
+
+  // Move spot USDC to perps without asking when an order is short on margin
+  autoTopUpPerps: boolean;
+  setAutoTopUpPerps: (enabled: boolean) => void;
+
+  // Hours before a swiped market is dealt again (0 deals it again right away)
+  reswipeWindowHours: number;
+  setReswipeWindowHours: (hours: number) => void;
+
+  // Timeframe new cards open on; each card can still be switched
+  defaultTimeframe: ChartTimeframe;
+  setDefaultTimeframe: (timeframe: ChartTimeframe) => void;
+
+  // Overlays drawn on every card chart
+  chartIndicators: ChartIndicatorSettings;
+  setChartIndicators: (update: Partial<ChartIndicatorSettings>) => void;
+
+  // Which markets the swipe deck deals
+  deckFilters: DeckFilters;
+  setDeckFilters: (filters: DeckFilters) => void;
+
+  // How upcoming cards are ordered
+  rankingWeights: RankingWeights;
+  setRankingWeights: (update: Partial<RankingWeights>) => void;
+
+  reset: () => void;
+}
+
+export const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    (set) => ({
+      defaultTakeProfit: null,
+      defaultStopLoss: null,
+      undoWindowSeconds: DEFAULT_UNDO_WINDOW_SECONDS,
+      reswipeWindowHours: DEFAULT_RESWIPE_WINDOW_HOURS,
+      defaultSlippage: DEFAULT_SLIPPAGE,
+      autoTopUpPerps: false,
+      defaultTimeframe: DEFAULT_CHART_TIMEFRAME,
+      chartIndicators: DEFAULT_CHART_INDICATORS,
+      deckFilters: DEFAULT_DECK_FILTERS,
+      rankingWeights: DEFAULT_RANKING_WEIGHTS,
+
+      setDefaultTpSl: (takeProfit, stopLoss) => set({
+        defaultTakeProfit: takeProfit,
+        defaultStopLoss: stopLoss,
+      }),
+
+      setUndoWindowSeconds: (seconds) => set({ undoWindowSeconds: seconds }),
+
+      setReswipeWindowHours: (hours) => set({ reswipeWindowHours: hours }),
+
+      setDefaultSlippage: (slippage) => set({ defaultSlippage: slippage }),
+
+      setAutoTopUpPerps: (enabled) => set({ autoTopUpPerps: enabled }),
+
+      setDefaultTimeframe: (timeframe) => set({ defaultTimeframe: timeframe }),
+
+      setChartIndicators: (update) => set((state) => ({
+        chartIndicators: { ...state.chartIndicators, ...update },
+      })),
+
+      setDeckFilters: (filters) => set({ deckFilters: filters }),
+
+      setRankingWeights: (update) => set((state) => ({
+        rankingWeights: { ...state.rankingWeights, ...update },
+      })),
+
+      reset: () => set({
+        defaultTakeProfit: null,
+        defaultStopLoss: null,
+        undoWindowSeconds: DEFAULT_UNDO_WINDOW_SECONDS,
+        reswipeWindowHours: DEFAULT_RESWIPE_WINDOW_HOURS,
+        defaultSlippage: DEFAULT_SLIPPAGE,
+        autoTopUpPerps: false,
+        defaultTimeframe: DEFAULT_CHART_TIMEFRAME,
+        chartIndicators: DEFAULT_CHART_INDICATORS,
+        deckFilters: DEFAULT_DECK_FILTERS,
+        rankingWeights: DEFAULT_RANKING_WEIGHTS,
+      }),
+    }),
+    {
+      name: 'hypeswipe-preferences',
+      partialize: (state) => ({
+        defaultTakeProfit: state.defaultTakeProfit,
+        defaultStopLoss: state.defaultStopLoss,
+        undoWindowSeconds: state.undoWindowSeconds,
+        reswipeWindowHours: state.reswipeWindowHours,
+        defaultSlippage: state.defaultSlippage,
+        autoTopUpPerps: state.autoTopUpPerps,
+        defaultTimeframe: state.defaultTimeframe,
+        chartIndicators: state.chartIndicators,
+        deckFilters: state.deckFilters,
+        rankingWeights: state.rankingWeights,
+      }),
+    }
+  )
+);
@@ -0,0 +1,52 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { TradeCardSnapshot, WatchlistItem } from '@/types/trade';
+
+const MAX_WATCHLIST_ITEMS = 50;
+
+interface WatchlistStore {
+  // Keyed by lowercased EVM address, newest first
+  watchlists: Record<string, WatchlistItem[]>;
+
+  // Saving a market again moves it to the top with the newer card
+  addItem: (address: string, key: string, card: TradeCardSnapshot) => void;
+  removeItem: (address: string, key: string) => void;
+
+  reset: () => void;
+}
+
+export const useWatchlistStore = create<WatchlistStore>()(
+  persist(
+    (set) => ({
+      watchlists: {},
+
+      addItem: (address, key, card) => set((state) => {
+        const owner = address.toLowerCase();
+        const items = (state.watchlists[owner] ?? []).filter((item) => item.key !== key);
+        return {
+          watchlists: {
+            ...state.watchlists,
+            [owner]: [{ key, card, savedAt: Date.now() }, ...items].slice(0, MAX_WATCHLIST_ITEMS),
+          },
+        };
+      }),
+
+      removeItem: (address, key) => set((state) => {
+        const owner = address.toLowerCase();
+        return {
+          watchlists: {
+            ...state.watchlists,
+            [owner]: (state.watchlists[owner] ?? []).filter((item) => item.key !== key),
+          },
+        };
+      }),
+
+      reset: () => set({ watchlists: {} }),
+    }),
+    {
+      name: 'hypeswipe-watchlist',
+    }
+  )
+);
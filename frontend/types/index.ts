@@ -11,9 +11,59 @@ export interface VaultResponse {
   equityUsdc: number;
 }
 
+// Server-verifiable evidence that a deposit actually happened
+export type VaultDepositProof =
+  | { type: 'lightning'; paymentHash: string }
+  | { type: 'lifi'; txHash: string; fromChain: number; toChain: number };
+
 export interface VaultCreditRequest {
   address: string;
-  amountUsdc: number;
+  proof: VaultDepositProof;
+  idempotencyKey: string; // retries with the same key return the original credit
+  amountUsdc?: number; // optional expected amount; must match the verified amount
+}
+
+export interface VaultCreditResponse extends VaultResponse {
+  entry: VaultLedgerEntry;
+  replayed: boolean; // true if this idempotency key was already processed
+}
+
+// Where a balance change came from
+export type VaultLedgerSource = 'lightning' | 'lifi' | 'manual';
+
+// Immutable record of a single credit or debit; balances are derived from these
+export interface VaultLedgerEntry {
+  id: string;
+  userAddress: string; // EVM address (lowercased)
+  type: 'credit' | 'debit';
+  amountUsdc: number; // always positive; `type` gives the sign
+  source: VaultLedgerSource;
+  referenceId: string | null; // payment hash, tx hash, etc.
+  idempotencyKey: string | null;
+  createdAt: number; // unix ms
+}
+
+// ============================================
+// Lightning Types
+// ============================================
+
+export interface LightningInvoiceRecord {
+  paymentHash: string;
+  paymentRequest: string; // BOLT11
+  backend: 'fake' | 'lnd' | 'lnbits';
+  evmAddress: string; // EVM address (lowercased) to credit
+  amountSats: number;
+  btcPriceUsd: number; // Hyperliquid BTC mark when the invoice was issued
+  amountUsdc: number; // credited on claim, fixed at issue time
+  expiresAt: number; // unix seconds
+  status: 'pending' | 'settled' | 'claimed'; // claimed = credited to the vault
+  settledAt: number | null; // unix ms
+  claimedAt: number | null; // unix ms
+  createdAt: number; // unix ms
+}
+
+export interface VaultHistoryResponse {
+  entries: VaultLedgerEntry[];
 }
 
 // ============================================
@@ -148,7 +198,8 @@ export interface LifiQuoteRequest {
 
 export interface LifiStatusResponse {
   transactionId: string;
-  sending: {
+  // sending and receiving are left out until Li.Fi has them (e.g. PENDING, NOT_FOUND)
+  sending?: {
     txHash?: string;
     txLink?: string;
     amount?: string;
@@ -160,7 +211,7 @@ export interface LifiStatusResponse {
     gasAmount?: string;
     gasAmountUSD?: string;
   };
-  receiving: {
+  receiving?: {
     txHash?: string;
     txLink?: string;
     amount?: string;
@@ -176,6 +227,110 @@ export interface LifiStatusResponse {
   substatusMessage?: string;
 }
 
+// On-chain BTC deposit bridged by Li.Fi, tracked server-side until it settles
+export interface BridgeDeposit {
+  txHash: string; // BTC txid (lowercased)
+  evmAddress: string; // EVM address (lowercased) to credit
+  fromChain: number;
+  toChain: number;
+  bridge: string | null; // Li.Fi tool, e.g. 'thorswap'
+  fromAmountSats: number;
+  expectedUsdc: number | null; // quote estimate, for display only
+  status: 'PENDING' | 'DONE' | 'FAILED';
+  substatus: string | null;
+  substatusMessage: string | null;
+  sendingTxLink: string | null;
+  receivingTxLink: string | null;
+  lifiExplorerLink: string | null;
+  receivedUsdc: number | null; // set once DONE
+  credited: boolean;
+  error: string | null; // last polling / crediting error
+  attempts: number;
+  nextPollAt: number; // unix ms
+  createdAt: number; // unix ms
+  updatedAt: number; // unix ms
+}
+
+export interface TrackBridgeDepositRequest {
+  address: string;
+  txHash: string;
+  fromChain: number;
+  toChain: number;
+  bridge?: string;
+  fromAmountSats: number;
+  expectedUsdc?: number;
+}
+
+export interface BridgeDepositsResponse {
+  deposits: BridgeDeposit[];
+}
+
+// Where a Hyperliquid withdrawal ends up: USDC on Arbitrum, or bridged on to BTC by Li.Fi
+export type WithdrawalDestination = 'ARBITRUM_USDC' | 'BTC';
+
+// WITHDRAWING: requested on Hyperliquid, not yet on Arbitrum
+// READY_TO_BRIDGE: USDC on Arbitrum, waiting for the user to send it to Li.Fi (BTC only)
+// BRIDGING: Li.Fi transfer to BTC in flight
+export type BridgeWithdrawalStatus = 'WITHDRAWING' | 'READY_TO_BRIDGE' | 'BRIDGING' | 'DONE' | 'FAILED';
+
+// Perps USDC withdrawn from Hyperliquid, tracked server-side until it lands
+export interface BridgeWithdrawal {
+  id: string;
+  evmAddress: string; // EVM address (lowercased)
+  destination: WithdrawalDestination;
+  btcAddress: string | null; // BTC only
+  amountUsdc: number; // requested from Hyperliquid, before its withdrawal fee
+  status: BridgeWithdrawalStatus;
+  hlTxHash: string | null; // Hyperliquid ledger entry, once matched
+  hlFeeUsdc: number | null;
+  withdrawnAt: number | null; // unix ms, from the ledger
+  arbitrumFromBlock: number | null; // first Arbitrum block not yet searched for the transfer
+  arbitrumTxHash: string | null;
+  receivedUsdc: number | null; // on Arbitrum
+  bridgeTxHash: string | null; // Arbitrum tx sending USDC to Li.Fi
+  bridge: string | null; // Li.Fi tool
+  expectedSats: number | null; // quote estimate, for display only
+  receivedSats: number | null; // set once DONE
+  substatus: string | null;
+  substatusMessage: string | null;
+  receivingTxLink: string | null;
+  lifiExplorerLink: string | null;
+  error: string | null; // last polling error, or why it failed
+  attempts: number;
+  nextPollAt: number; // unix ms
+  createdAt: number; // unix ms
+  updatedAt: number; // unix ms
+}
+
+export interface TrackWithdrawalRequest {
+  address: string;
+  amountUsdc: number;
+  destination: WithdrawalDestination;
+  btcAddress?: string; // required for BTC
+}
+
+export interface AttachWithdrawalBridgeRequest {
+  address: string;
+  txHash: string; // Arbitrum tx sending USDC to Li.Fi
+  bridge?: string;
+  expectedSats?: number;
+}
+
+export interface BridgeWithdrawalsResponse {
+  withdrawals: BridgeWithdrawal[];
+}
+
+export interface LifiUsdcToBtcQuoteRequest {
+  evmAddress: string; // sends USDC on Arbitrum
+  btcAddress: string; // receives BTC
+  fromAmountUsdc: number;
+  slippage?: number; // decimal, default 0.01
+}
+
+export interface LifiUsdcToBtcQuoteResponse extends LifiQuoteResponse {
+  costUsd: number; // Li.Fi fees plus Arbitrum gas
+}
+
 // ============================================
 // App State Types
 // ============================================
@@ -211,6 +366,16 @@ export const SUPPORTED_EVM_CHAINS = [
 // Hyperliquid chain ID (Li.Fi uses 1337 for Hyperliquid L1)
 export const HYPERLIQUID_CHAIN_ID = 1337;
 
+export const ARBITRUM_CHAIN_ID = 42161;
+
+// Builder fee the user approves during setup, in tenths of a basis point (60 = 0.06%)
+export const REQUIRED_MAX_RATE_FEE_FOR_BUILDER = 60;
+
+// Flat fee Hyperliquid deducts from every withdrawal to Arbitrum
+export const HL_WITHDRAWAL_FEE_USDC = 1;
+// Hyperliquid validators sign withdrawals and the bridge finalizes them after a dispute period
+export const HL_WITHDRAWAL_ESTIMATED_SECONDS = 5 * 60;
+
 // Native token address (used for ETH on EVM chains)
 export const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
 
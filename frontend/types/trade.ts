@@ -10,7 +10,7 @@ export interface TradeCard {
   ticker: string;
   tagline: string;
   direction: "LONG" | "SHORT";
-  timeframe: "4h" | "1d";
+  timeframe: ChartTimeframe;
   leverage: number;
   candles: CandleData[];
   sentiment: SentimentData;
@@ -20,6 +20,8 @@ export interface TradeCard {
   longAssets?: MarketAsset[];
   shortAssets?: MarketAsset[];
   marketMetrics?: MarketMetrics;
+  rank?: DeckRankScore; // set by the deck ranking stage
+  entryOffsetPct?: number; // AI-suggested limit entry, % better than the last price
 }
 
 export interface SentimentData {
@@ -42,6 +44,17 @@ export interface CandleData {
   high: number;
   low: number;
   close: number;
+  volume?: number;
+}
+
+export type ChartTimeframe = "15m" | "1h" | "4h" | "1d";
+
+export interface ChartIndicatorSettings {
+  emaPeriods: number[];
+  vwap: boolean;
+  bollinger: boolean;
+  rsi: boolean;
+  volume: boolean;
 }
 
 export interface MarketAsset {
@@ -64,6 +77,39 @@ export interface PearMarket {
   displayName: string;
 }
 
+export type FundingSign = "any" | "positive" | "negative";
+
+/**
+ * Which markets the swipe deck deals. Market-level filters run in /api/markets;
+ * direction and maxLeverage constrain the AI's trade idea for each card.
+ */
+export interface DeckFilters {
+  positionType: PositionType | "all";
+  allowedAssets: string[]; // empty = every asset; otherwise every leg must be listed
+  blockedAssets: string[]; // markets with any of these legs are dropped
+  minVolume: number; // 24h USD
+  minOpenInterest: number; // USD
+  funding: FundingSign; // sign of the market's net funding
+  direction: "LONG" | "SHORT" | null; // null = either
+  maxLeverage: number | null; // null = no cap on AI leverage
+}
+
+export type RankingFactor = "conviction" | "liquidity" | "momentum" | "funding" | "winRate" | "novelty";
+
+// Relative weight per factor; 0 turns a factor off
+export type RankingWeights = Record<RankingFactor, number>;
+
+export interface RankingFactorScore {
+  factor: RankingFactor;
+  value: number; // 0-1, higher ranks the card earlier
+  weight: number;
+}
+
+export interface DeckRankScore {
+  total: number; // 0-100, weighted mean of the factor values
+  factors: RankingFactorScore[];
+}
+
 export interface AISignal {
   sentiment: string;
   bullishPercent: number;
@@ -80,4 +126,353 @@ export interface AITradeIdea {
   sentiment: string;
   bullishPercent: number;
   reasoning: string;
+  entryOffsetPct?: number; // 0-5, how far below (long) / above (short) the last price to bid
+}
+
+export interface PositionLeg {
+  asset: string;
+  side: "LONG" | "SHORT";
+  size: number;
+  entryPrice: number;
+  markPrice: number;
+  positionValue: number;
+  marginUsed: number;
+  leverage: number;
+  unrealizedPnl: number;
+  weight: number;
+}
+
+export interface OpenPosition {
+  positionId: string;
+  positionType: PositionType;
+  displayName: string;
+  leverage: number;
+  entryRatio: number | null;
+  markRatio: number | null;
+  positionValue: number;
+  marginUsed: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  longAssets: PositionLeg[];
+  shortAssets: PositionLeg[];
+  takeProfit: TpSlTrigger | null;
+  stopLoss: TpSlTrigger | null;
+  createdAt: number | null;
+}
+
+/**
+ * How a take-profit / stop-loss threshold is expressed:
+ * - `percent_move`: underlying price (or pair ratio) move in percent
+ * - `pnl_usd`: profit or loss target in USD
+ */
+export type TpSlMode = "percent_move" | "pnl_usd";
+
+export interface TpSlTrigger {
+  mode: TpSlMode;
+  value: number;
+}
+
+export interface TpSlSettings {
+  takeProfit: TpSlTrigger | null;
+  stopLoss: TpSlTrigger | null;
+}
+
+/**
+ * How an order enters:
+ * - `MARKET`: now, within the slippage limit
+ * - `LIMIT`: a Pear trigger order at one price (or pair ratio)
+ * - `TWAP`: market chunks spread over a duration
+ * - `LADDER`: scale in with equal slices between two prices (or ratios)
+ */
+export type OrderType = "MARKET" | "LIMIT" | "TWAP" | "LADDER";
+
+export interface TwapSettings {
+  durationMinutes: number;
+  randomize: boolean; // jitter chunk timing and size
+}
+
+export interface LadderSettings {
+  start: number; // first level: price, or long/short ratio for pairs
+  end: number; // last level
+  levels: number;
+}
+
+/**
+ * Order parameters for a swipe, from the card defaults or the swipe-up ticket
+ */
+export interface OrderTicket {
+  sizeUsd: number;
+  leverage: number;
+  direction: "LONG" | "SHORT";
+  tpSl: TpSlSettings;
+  orderType: OrderType;
+  limitPrice: number | null; // LIMIT entry price, or long/short ratio for pairs
+  twap: TwapSettings | null; // TWAP only
+  ladder: LadderSettings | null; // LADDER only
+  slippage: number; // max slippage for MARKET and TWAP fills, as a fraction (0.01 = 1%)
+}
+
+/**
+ * A resting LIMIT, TWAP or LADDER order that hasn't fully filled
+ */
+export interface PendingOrder {
+  orderId: string;
+  orderType: Exclude<OrderType, "MARKET">;
+  positionType: PositionType;
+  displayName: string;
+  longAssets: MarketAsset[];
+  shortAssets: MarketAsset[];
+  usdValue: number;
+  filledUsdValue: number | null; // TWAP and LADDER progress, when Pear reports it
+  leverage: number | null;
+  triggerValue: number | null; // LIMIT entry
+  ladder: LadderSettings | null;
+  twapDurationMinutes: number | null;
+  createdAt: number | null;
+}
+
+export interface PendingOrdersResponse {
+  orders: PendingOrder[];
+  triggerOrderUsd: number; // Pear account totals, including orders placed elsewhere
+  twapRemainingUsd: number;
+}
+
+/**
+ * Card as it looked when it was swiped (candles and news dropped).
+ */
+export type TradeCardSnapshot = Omit<TradeCard, "candles" | "news">;
+
+export type JournalDecision = "taken" | "skipped";
+
+/**
+ * A card saved from the deck to revisit later
+ */
+export interface WatchlistItem {
+  key: string; // market key, see getMarketKey()
+  card: TradeCardSnapshot; // as dealt; live metrics and AI are refetched
+  savedAt: number; // unix ms
+}
+
+/**
+ * open: position opened, not yet closed
+ * closed: realized PnL filled in from Pear trade history
+ * failed: order was rejected
+ * skipped: swiped left, no order
+ */
+export type JournalStatus = "open" | "closed" | "failed" | "skipped";
+
+export interface TradeJournalEntry {
+  id: string;
+  userAddress: string; // EVM address (lowercased)
+  decision: JournalDecision;
+  status: JournalStatus;
+  card: TradeCardSnapshot;
+  sizeUsd: number;
+  leverage: number;
+  direction: "LONG" | "SHORT";
+  orderId: string | null;
+  fills: unknown[] | null; // raw fills returned by Pear on creation
+  error: string | null; // rejection reason for failed orders
+  positionId: string | null; // learned when reconciling with Pear
+  tradeHistoryIds: string[]; // Pear closed-trade records folded into realizedPnl
+  entryPrice: number | null; // ratio for pairs
+  exitPrice: number | null; // ratio for pairs
+  realizedPnl: number | null;
+  closedAt: number | null; // unix ms
+  createdAt: number; // unix ms
+}
+
+export interface RecordSwipeRequest {
+  address: string;
+  decision: JournalDecision;
+  card: TradeCardSnapshot;
+  sizeUsd: number;
+  orderId?: string | null;
+  fills?: unknown[] | null;
+  error?: string | null;
+}
+
+export interface JournalBucketStats {
+  label: string;
+  trades: number;
+  wins: number;
+  winRate: number; // 0-100
+  avgPnl: number;
+  totalPnl: number;
+}
+
+export interface JournalSummary {
+  taken: number;
+  skipped: number;
+  failed: number;
+  open: number;
+  closed: number;
+  wins: number;
+  winRate: number; // 0-100, over closed trades
+  totalRealizedPnl: number;
+  avgRealizedPnl: number;
+  byLeverage: JournalBucketStats[];
+  byTagline: JournalBucketStats[];
+}
+
+export interface JournalResponse {
+  entries: TradeJournalEntry[];
+  summary: JournalSummary;
+}
+
+/**
+ * Per-user limits enforced before a position is opened.
+ * null disables a limit.
+ */
+export interface RiskProfile {
+  maxOpenPositions: number | null;
+  maxTotalNotionalUsd: number | null; // across open positions, including the new order
+  maxDailyLossUsd: number | null; // realized, since 00:00 UTC
+  maxLeverage: number | null; // higher card leverage is capped to this
+  cooldownAfterLosses: number | null; // consecutive losing trades
+  cooldownMinutes: number;
+}
+
+export interface StoredRiskProfile extends RiskProfile {
+  userAddress: string; // EVM address (lowercased)
+  updatedAt: number; // unix ms
+}
+
+export type RiskViolationCode =
+  | "MAX_OPEN_POSITIONS"
+  | "MAX_TOTAL_NOTIONAL"
+  | "DAILY_LOSS_LIMIT"
+  | "LOSS_COOLDOWN";
+
+export interface RiskViolation {
+  code: RiskViolationCode;
+  message: string;
+  limit: number;
+  current: number;
+  retryAt: number | null; // unix ms when the limit resets, if it does
+}
+
+/**
+ * Current usage against the profile, shown on the settings screen.
+ */
+export interface RiskUsage {
+  openPositions: number | null; // null when Pear positions could not be loaded
+  totalNotionalUsd: number | null;
+  dailyRealizedPnl: number;
+  consecutiveLosses: number;
+  cooldownUntil: number | null; // unix ms
+}
+
+export interface RiskProfileResponse {
+  profile: RiskProfile;
+  usage: RiskUsage;
+}
+
+/**
+ * Hyperliquid margin tier: positions with notional above lowerBound
+ * are capped at maxLeverage.
+ */
+export interface HlMarginTier {
+  lowerBound: number; // USD notional
+  maxLeverage: number;
+}
+
+export interface HlAssetMeta {
+  coin: string;
+  szDecimals: number;
+  maxLeverage: number;
+  onlyIsolated: boolean;
+  marginTiers: HlMarginTier[]; // ascending by lowerBound
+  markPx: number | null;
+}
+
+export interface AssetMetaResponse {
+  assets: Record<string, HlAssetMeta>;
+}
+
+/**
+ * One leg of a simulated market entry
+ */
+export interface OrderQuoteLeg {
+  asset: string;
+  side: "LONG" | "SHORT"; // LONG buys into the asks, SHORT sells into the bids
+  notionalUsd: number;
+  midPrice: number;
+  avgPrice: number | null; // null when the book is empty on that side
+  impactPct: number | null; // average fill vs mid, in percent
+  fullyFilled: boolean; // false when visible depth is smaller than the leg
+}
+
+/**
+ * Expected cost of a market entry, from L2 book snapshots
+ */
+export interface OrderQuote {
+  notionalUsd: number;
+  legs: OrderQuoteLeg[];
+  impactPct: number; // notional-weighted across legs
+  worstImpactPct: number;
+  impactUsd: number;
+  takerFeeUsd: number;
+  builderFeeUsd: number;
+  expectedCostUsd: number; // impact plus fees
+  suggestedSlippage: number | null; // fraction; null when a leg can't be filled from the book
+  quotedAt: number;
+}
+
+export type ConstraintWarningCode = "SIZE_RAISED" | "LEVERAGE_LOWERED";
+
+/**
+ * An adjustment made to fit Hyperliquid's per-asset limits. The order is only
+ * sent once the user has accepted every warning's code.
+ */
+export interface ConstraintWarning {
+  code: ConstraintWarningCode;
+  message: string;
+  requested: number;
+  applied: number;
+}
+
+/**
+ * 409 body from /api/positions/create when an order needs adjusting
+ */
+export interface ConfirmationRequiredResponse {
+  error: string;
+  code: "CONFIRMATION_REQUIRED";
+  warnings: ConstraintWarning[];
+  usdValue: number;
+  leverage: number;
+}
+
+/**
+ * 400 body from /api/positions/create when perps margin can't cover the order.
+ * `suggestedTopUpUsdc` is set when spot USDC can make up the difference.
+ */
+export interface InsufficientMarginResponse {
+  error: string;
+  code: "INSUFFICIENT_MARGIN";
+  requiredUsdc: number; // margin + estimated fees
+  perpUsdc: number;
+  spotUsdc: number; // available to transfer
+  suggestedTopUpUsdc: number | null;
+}
+
+export interface LiquidationLegPreview {
+  coin: string;
+  side: "LONG" | "SHORT";
+  notionalUsd: number;
+  entryPrice: number;
+  liquidationPrice: number;
+  movePercent: number; // adverse move to liquidation
+}
+
+export interface LiquidationPreview {
+  notionalUsd: number; // after the per-asset minimum bump
+  marginUsd: number;
+  leverage: number;
+  maxLeverage: number; // lowest max leverage across legs at this size
+  legs: LiquidationLegPreview[];
+  // Relative pairs: long basket / short basket
+  entryRatio: number | null;
+  liquidationRatio: number | null;
+  movePercent: number; // adverse price (or spread) move to liquidation
 }